@@ -0,0 +1,42 @@
+import { AppError } from '../middleware/errorHandler.js';
+import type { GitProviderClient } from './index.js';
+
+const URL_PROTOCOLS = ['https:', 'http:', 'ssh:', 'git:'];
+// scp-like SSH syntax, e.g. git@example.com:team/app.git
+const SCP_LIKE_URL = /^[\w.-]+@[\w.-]+:(?!\/\/)[^\s]+$/;
+
+/**
+ * Any git remote: nothing can be looked up without an API, so the repository and
+ * branch are only checked when the worker clones them. Without webhooks these
+ * services deploy manually.
+ */
+export const genericProvider: GitProviderClient = {
+  parseRepoUrl(rawUrl) {
+    const url = rawUrl.trim().replace(/\/+$/, '');
+
+    if (!SCP_LIKE_URL.test(url)) {
+      let parsed: URL;
+      try {
+        parsed = new URL(url);
+      } catch {
+        throw new AppError('Invalid git repository URL', 400);
+      }
+      if (!URL_PROTOCOLS.includes(parsed.protocol) || !parsed.hostname) {
+        throw new AppError('Repository URL must be an https, http, ssh or git URL', 400);
+      }
+      if (parsed.password) {
+        throw new AppError('Repository URL must not contain credentials', 400);
+      }
+    }
+
+    return { url, path: url, apiBaseUrl: null };
+  },
+
+  verifyRepository: async (repo) => ({ url: repo.url, defaultBranch: null }),
+
+  verifyBranch: async () => {},
+
+  cloneCredentials: () => undefined,
+
+  webhooks: null,
+};
@@ -0,0 +1,108 @@
+import { AppError } from '../middleware/errorHandler.js';
+import { getChangedFiles } from '../utils/watchPaths.js';
+import type { GitProviderClient, ParsedRepository, PullRequestEvent } from './index.js';
+import { hmacSha256, lookupError, repoPathUnderBaseUrl, requestJson, safeEqual } from './utils.js';
+
+const PULL_REQUEST_ACTIONS: Record<string, PullRequestEvent['action']> = {
+  opened: 'open',
+  reopened: 'open',
+  synchronized: 'update',
+  closed: 'close',
+};
+
+function getGiteaHeaders(token: string | null): Record<string, string> {
+  const headers: Record<string, string> = { Accept: 'application/json' };
+  if (token) {
+    headers.Authorization = `token ${token}`;
+  }
+  return headers;
+}
+
+function parseGiteaRepoUrl(rawUrl: string, baseUrl: string | null): ParsedRepository {
+  if (!baseUrl) {
+    throw new AppError('gitProviderUrl is required for Gitea repositories', 400);
+  }
+
+  const parts = repoPathUnderBaseUrl(rawUrl, baseUrl, 'Gitea');
+  if (parts.length !== 2) {
+    throw new AppError(`Repository URL must look like ${baseUrl}/<owner>/<repo>`, 400);
+  }
+
+  const [owner, repo] = parts;
+  return {
+    url: `${baseUrl}/${owner}/${repo}`,
+    path: `${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`,
+    apiBaseUrl: `${baseUrl}/api/v1`,
+  };
+}
+
+/**
+ * Gitea and Forgejo share an API and webhook format; Forgejo sends its own headers
+ * alongside the Gitea ones.
+ */
+export const giteaProvider: GitProviderClient = {
+  parseRepoUrl: parseGiteaRepoUrl,
+
+  async verifyRepository(repo, token) {
+    const lookup = await requestJson<{ html_url: string; default_branch: string | null }>(
+      `${repo.apiBaseUrl}/repos/${repo.path}`,
+      getGiteaHeaders(token)
+    );
+    if (!lookup.data) {
+      throw lookupError('Gitea', lookup.status, 'repository');
+    }
+    return { url: lookup.data.html_url.replace(/\/+$/, ''), defaultBranch: lookup.data.default_branch };
+  },
+
+  async verifyBranch(repo, branch, token) {
+    const lookup = await requestJson<Record<string, unknown>>(
+      `${repo.apiBaseUrl}/repos/${repo.path}/branches/${encodeURIComponent(branch)}`,
+      getGiteaHeaders(token)
+    );
+    if (!lookup.data) {
+      throw lookupError('Gitea', lookup.status, 'branch', branch);
+    }
+  },
+
+  // Gitea accepts an access token as the password with any username
+  cloneCredentials: (token) => (token ? { username: 'oauth2', password: token } : undefined),
+
+  webhooks: {
+    verify: (headers, rawBody, secret) =>
+      safeEqual(
+        (headers['x-forgejo-signature'] ?? headers['x-gitea-signature']) as string | undefined,
+        hmacSha256(rawBody, secret)
+      ),
+
+    parse(headers, payload) {
+      const event = headers['x-forgejo-event'] ?? headers['x-gitea-event'];
+
+      if (event === 'push') {
+        return {
+          type: 'push',
+          branch: String(payload.ref || '').replace('refs/heads/', ''),
+          commitSha: payload.after,
+          changedFiles: getChangedFiles(payload.commits, payload.total_commits),
+        };
+      }
+
+      if (event === 'pull_request') {
+        const pr = payload.pull_request;
+        if (!PULL_REQUEST_ACTIONS[payload.action]) return null;
+        return {
+          type: 'pull_request',
+          action: PULL_REQUEST_ACTIONS[payload.action],
+          number: payload.number,
+          title: pr.title,
+          url: pr.html_url,
+          headBranch: pr.head.ref,
+          headSha: pr.head.sha,
+          baseBranch: pr.base.ref,
+          fromFork: pr.head.repo_id !== pr.base.repo_id,
+        };
+      }
+
+      return null;
+    },
+  },
+};
@@ -0,0 +1,197 @@
+import type { PullRequestWebhookPayload, WebhookPayload } from '@renderlite/shared';
+import { prisma } from '../lib/prisma.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { decrypt } from '../utils/encryption.js';
+import { getChangedFiles } from '../utils/watchPaths.js';
+import type { GitProviderClient, ParsedRepository, PullRequestEvent } from './index.js';
+import { hmacSha256, requestJson, safeEqual } from './utils.js';
+
+// Overridable to point at a local mock server; repositories must be on github.com
+const GITHUB_API_BASE_URL = (process.env.GITHUB_API_URL || 'https://api.github.com').replace(/\/+$/, '');
+
+export type GitHubRepository = {
+  id: number;
+  name: string;
+  full_name: string;
+  html_url: string;
+  private: boolean;
+  default_branch: string;
+  updated_at: string;
+};
+
+const PULL_REQUEST_ACTIONS: Record<string, PullRequestEvent['action']> = {
+  opened: 'open',
+  reopened: 'open',
+  synchronize: 'update',
+  closed: 'close',
+};
+
+/**
+ * GitHub services clone and verify with the OAuth token of the user who owns them
+ */
+export async function getGitHubAccessToken(userId: string): Promise<string | null> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { githubAccessToken: true },
+  });
+
+  if (!user?.githubAccessToken) {
+    return null;
+  }
+
+  try {
+    return decrypt(user.githubAccessToken);
+  } catch {
+    return null;
+  }
+}
+
+function getGitHubHeaders(token?: string): Record<string, string> {
+  const headers: Record<string, string> = {
+    Accept: 'application/vnd.github+json',
+    'User-Agent': 'renderlite-api',
+    'X-GitHub-Api-Version': '2022-11-28',
+  };
+
+  if (token) {
+    headers.Authorization = `Bearer ${token}`;
+  }
+
+  return headers;
+}
+
+export async function requestGitHub<T>(
+  path: string,
+  token?: string
+): Promise<{ status: number; data: T | null }> {
+  return requestJson<T>(`${GITHUB_API_BASE_URL}${path}`, getGitHubHeaders(token));
+}
+
+function parseGitHubRepoUrl(rawRepoUrl: string): ParsedRepository {
+  let url: URL;
+  try {
+    url = new URL(rawRepoUrl.trim());
+  } catch {
+    throw new AppError('Invalid GitHub repository URL', 400);
+  }
+
+  const host = url.hostname.toLowerCase();
+  if (host !== 'github.com' && host !== 'www.github.com') {
+    throw new AppError('Repository must be hosted on github.com', 400);
+  }
+
+  const parts = url.pathname
+    .replace(/\/+$/, '')
+    .replace(/\.git$/i, '')
+    .split('/')
+    .filter(Boolean);
+
+  if (parts.length !== 2) {
+    throw new AppError('Repository URL must look like https://github.com/<owner>/<repo>', 400);
+  }
+
+  const [owner, repo] = parts;
+
+  if (!owner || !repo) {
+    throw new AppError('Invalid GitHub repository URL', 400);
+  }
+
+  return {
+    url: `https://github.com/${owner}/${repo}`,
+    path: `${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`,
+    apiBaseUrl: GITHUB_API_BASE_URL,
+  };
+}
+
+export const githubProvider: GitProviderClient = {
+  parseRepoUrl: (rawUrl) => parseGitHubRepoUrl(rawUrl),
+
+  async verifyRepository(repo, token) {
+    const lookup = await requestGitHub<GitHubRepository>(`/repos/${repo.path}`, token ?? undefined);
+
+    if (lookup.data) {
+      return {
+        url: lookup.data.html_url.replace(/\/+$/, ''),
+        defaultBranch: lookup.data.default_branch || null,
+      };
+    }
+
+    if (lookup.status === 404) {
+      throw new AppError(
+        token
+          ? 'Repository not found or not accessible with your GitHub account'
+          : 'Repository not found. Sign in with GitHub again for private repositories.',
+        400
+      );
+    }
+
+    if (lookup.status === 401 || lookup.status === 403) {
+      throw new AppError(
+        'GitHub access token is unavailable or lacks permission. Sign in with GitHub again.',
+        400
+      );
+    }
+
+    throw new AppError('Failed to verify repository with GitHub. Please try again.', 502);
+  },
+
+  async verifyBranch(repo, branch, token) {
+    const lookup = await requestGitHub<Record<string, unknown>>(
+      `/repos/${repo.path}/branches/${encodeURIComponent(branch)}`,
+      token ?? undefined
+    );
+
+    if (lookup.data) {
+      return;
+    }
+
+    if (lookup.status === 404) {
+      throw new AppError(`Branch "${branch}" was not found in the selected repository`, 400);
+    }
+
+    if (lookup.status === 401 || lookup.status === 403) {
+      throw new AppError('Unable to verify branch with GitHub. Please sign in again and retry.', 400);
+    }
+
+    throw new AppError('Failed to verify branch with GitHub. Please try again.', 502);
+  },
+
+  cloneCredentials: (token) => (token ? { username: 'x-access-token', password: token } : undefined),
+
+  webhooks: {
+    verify: (headers, rawBody, secret) =>
+      safeEqual(headers['x-hub-signature-256'] as string | undefined, `sha256=${hmacSha256(rawBody, secret)}`),
+
+    parse(headers, payload) {
+      const event = headers['x-github-event'];
+
+      if (event === 'push') {
+        const push = payload as WebhookPayload;
+        return {
+          type: 'push',
+          branch: (push.ref || '').replace('refs/heads/', ''),
+          commitSha: push.after,
+          changedFiles: getChangedFiles(push.commits),
+        };
+      }
+
+      if (event === 'pull_request') {
+        const { action, number, pull_request: pr } = payload as PullRequestWebhookPayload;
+        if (!PULL_REQUEST_ACTIONS[action]) return null;
+        return {
+          type: 'pull_request',
+          action: PULL_REQUEST_ACTIONS[action],
+          number,
+          title: pr.title,
+          url: pr.html_url,
+          headBranch: pr.head.ref,
+          headSha: pr.head.sha,
+          baseBranch: pr.base.ref,
+          fromFork: pr.head.repo?.full_name !== pr.base.repo.full_name,
+        };
+      }
+
+      return null;
+    },
+  },
+};
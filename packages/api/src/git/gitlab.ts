@@ -0,0 +1,106 @@
+import { AppError } from '../middleware/errorHandler.js';
+import { getChangedFiles } from '../utils/watchPaths.js';
+import type { GitProviderClient, ParsedRepository } from './index.js';
+import { lookupError, repoPathUnderBaseUrl, requestJson, safeEqual } from './utils.js';
+
+const GITLAB_DEFAULT_URL = 'https://gitlab.com';
+
+function getGitLabHeaders(token: string | null): Record<string, string> {
+  const headers: Record<string, string> = { Accept: 'application/json' };
+  if (token) {
+    headers.Authorization = `Bearer ${token}`;
+  }
+  return headers;
+}
+
+/**
+ * GitLab repositories may sit in nested groups (group/subgroup/repo); anything after
+ * a "/-/" segment is a page within the repository and is dropped.
+ */
+function parseGitLabRepoUrl(rawUrl: string, baseUrl: string | null): ParsedRepository {
+  const base = baseUrl ?? GITLAB_DEFAULT_URL;
+  const parts = repoPathUnderBaseUrl(rawUrl, base, 'GitLab');
+  const separator = parts.indexOf('-');
+  const repoParts = separator === -1 ? parts : parts.slice(0, separator);
+
+  if (repoParts.length < 2) {
+    throw new AppError(`Repository URL must look like ${base}/<group>/<repo>`, 400);
+  }
+
+  const path = repoParts.join('/');
+  return {
+    url: `${base}/${path}`,
+    path: encodeURIComponent(path),
+    apiBaseUrl: `${base}/api/v4`,
+  };
+}
+
+export const gitlabProvider: GitProviderClient = {
+  parseRepoUrl: parseGitLabRepoUrl,
+
+  async verifyRepository(repo, token) {
+    const lookup = await requestJson<{ web_url: string; default_branch: string | null }>(
+      `${repo.apiBaseUrl}/projects/${repo.path}`,
+      getGitLabHeaders(token)
+    );
+    if (!lookup.data) {
+      throw lookupError('GitLab', lookup.status, 'repository');
+    }
+    return { url: lookup.data.web_url.replace(/\/+$/, ''), defaultBranch: lookup.data.default_branch };
+  },
+
+  async verifyBranch(repo, branch, token) {
+    const lookup = await requestJson<Record<string, unknown>>(
+      `${repo.apiBaseUrl}/projects/${repo.path}/repository/branches/${encodeURIComponent(branch)}`,
+      getGitLabHeaders(token)
+    );
+    if (!lookup.data) {
+      throw lookupError('GitLab', lookup.status, 'branch', branch);
+    }
+  },
+
+  // Personal, project and group access tokens all clone as oauth2
+  cloneCredentials: (token) => (token ? { username: 'oauth2', password: token } : undefined),
+
+  webhooks: {
+    // GitLab sends the secret as-is rather than signing the body
+    verify: (headers, _rawBody, secret) => safeEqual(headers['x-gitlab-token'] as string | undefined, secret),
+
+    parse(headers, payload) {
+      const event = headers['x-gitlab-event'];
+
+      if (event === 'Push Hook') {
+        return {
+          type: 'push',
+          branch: String(payload.ref || '').replace('refs/heads/', ''),
+          commitSha: payload.checkout_sha ?? payload.after,
+          changedFiles: getChangedFiles(payload.commits, payload.total_commits_count),
+        };
+      }
+
+      if (event === 'Merge Request Hook') {
+        const mr = payload.object_attributes;
+        let action: 'open' | 'update' | 'close' | null = null;
+        if (mr.action === 'open' || mr.action === 'reopen') action = 'open';
+        // Updates without oldrev only changed the title, labels etc., not the code
+        if (mr.action === 'update' && mr.oldrev) action = 'update';
+        if (mr.action === 'close' || mr.action === 'merge') action = 'close';
+        if (!action) return null;
+
+        return {
+          type: 'pull_request',
+          action,
+          number: mr.iid,
+          title: mr.title,
+          url: mr.url,
+          headBranch: mr.source_branch,
+          headSha: mr.last_commit.id,
+          baseBranch: mr.target_branch,
+          fromFork: mr.source_project_id !== mr.target_project_id,
+        };
+      }
+
+      return null;
+    },
+  },
+};
@@ -0,0 +1,108 @@
+import type { IncomingHttpHeaders } from 'http';
+import { GitProvider } from '@renderlite/shared';
+import type { GitCredentials } from '@renderlite/shared';
+import { AppError } from '../middleware/errorHandler.js';
+import { githubProvider } from './github.js';
+import { gitlabProvider } from './gitlab.js';
+import { giteaProvider } from './gitea.js';
+import { genericProvider } from './generic.js';
+
+export interface ParsedRepository {
+  url: string; // normalized web / clone URL
+  path: string; // owner/repo, or group/subgroup/repo on GitLab
+  apiBaseUrl: string | null; // null for providers without an API
+}
+
+export interface VerifiedRepository {
+  url: string;
+  defaultBranch: string | null;
+}
+
+export interface PushEvent {
+  type: 'push';
+  branch: string;
+  commitSha?: string;
+  changedFiles: string[] | null; // null when the payload doesn't list every change
+}
+
+export interface PullRequestEvent {
+  type: 'pull_request';
+  action: 'open' | 'update' | 'close';
+  number: number;
+  title: string;
+  url: string;
+  headBranch: string;
+  headSha: string;
+  baseBranch: string;
+  fromFork: boolean;
+}
+
+export type WebhookEvent = PushEvent | PullRequestEvent;
+
+export interface WebhookHandler {
+  // Check the request was signed with the service's webhook secret
+  verify: (headers: IncomingHttpHeaders, rawBody: Buffer, secret: string) => boolean;
+  // Normalize a push or pull request event; null for events we don't act on
+  parse: (headers: IncomingHttpHeaders, payload: any) => WebhookEvent | null;
+}
+
+export interface GitProviderClient {
+  parseRepoUrl: (rawUrl: string, baseUrl: string | null) => ParsedRepository;
+  verifyRepository: (repo: ParsedRepository, token: string | null) => Promise<VerifiedRepository>;
+  verifyBranch: (repo: ParsedRepository, branch: string, token: string | null) => Promise<void>;
+  cloneCredentials: (token: string | null) => GitCredentials | undefined;
+  // Providers without webhooks can only be deployed manually
+  webhooks: WebhookHandler | null;
+}
+
+const PROVIDERS: Record<GitProvider, GitProviderClient> = {
+  [GitProvider.GITHUB]: githubProvider,
+  [GitProvider.GITLAB]: gitlabProvider,
+  [GitProvider.GITEA]: giteaProvider,
+  [GitProvider.GENERIC]: genericProvider,
+};
+
+export function getGitProvider(provider: GitProvider): GitProviderClient {
+  return PROVIDERS[provider];
+}
+
+export function validateGitProvider(value: unknown): GitProvider {
+  if (typeof value !== 'string' || !Object.values(GitProvider).includes(value as GitProvider)) {
+    throw new AppError(`gitProvider must be one of: ${Object.values(GitProvider).join(', ')}`, 400);
+  }
+  return value as GitProvider;
+}
+
+/**
+ * Base URL of a self-hosted GitLab or Gitea instance, without a trailing slash.
+ * GitLab falls back to gitlab.com; Gitea has no public default. Other providers
+ * don't use one.
+ */
+export function normalizeGitProviderUrl(provider: GitProvider, rawUrl: unknown): string | null {
+  if (provider !== GitProvider.GITLAB && provider !== GitProvider.GITEA) {
+    return null;
+  }
+
+  if (rawUrl === null || rawUrl === undefined || rawUrl === '') {
+    if (provider === GitProvider.GITEA) {
+      throw new AppError('gitProviderUrl is required for Gitea repositories', 400);
+    }
+    return null;
+  }
+
+  if (typeof rawUrl !== 'string') {
+    throw new AppError('gitProviderUrl must be a string', 400);
+  }
+
+  let url: URL;
+  try {
+    url = new URL(rawUrl.trim());
+  } catch {
+    throw new AppError('gitProviderUrl must be a valid URL', 400);
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    throw new AppError('gitProviderUrl must be an http(s) URL', 400);
+  }
+
+  return `${url.origin}${url.pathname}`.replace(/\/+$/, '');
+}
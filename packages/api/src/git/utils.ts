@@ -0,0 +1,81 @@
+import crypto from 'crypto';
+import { AppError } from '../middleware/errorHandler.js';
+
+/**
+ * GET a provider API endpoint; failures are returned as a status for the caller to map
+ */
+export async function requestJson<T>(
+  url: string,
+  headers: Record<string, string>
+): Promise<{ status: number; data: T | null }> {
+  const response = await fetch(url, { headers });
+
+  if (!response.ok) {
+    return { status: response.status, data: null };
+  }
+
+  const data = (await response.json()) as T;
+  return { status: response.status, data };
+}
+
+/**
+ * Split a repository URL on a self-hosted instance into its path segments, checking
+ * it lives under the instance's base URL (which may itself have a path).
+ */
+export function repoPathUnderBaseUrl(rawUrl: string, baseUrl: string, providerName: string): string[] {
+  let url: URL;
+  try {
+    url = new URL(rawUrl.trim());
+  } catch {
+    throw new AppError(`Invalid ${providerName} repository URL`, 400);
+  }
+
+  const base = new URL(baseUrl);
+  const basePath = base.pathname.replace(/\/+$/, '');
+  const path = url.pathname.replace(/\/+$/, '').replace(/\.git$/i, '');
+  if (url.host.toLowerCase() !== base.host.toLowerCase() || !path.startsWith(`${basePath}/`)) {
+    throw new AppError(`Repository must be hosted on ${baseUrl}`, 400);
+  }
+
+  return path.slice(basePath.length).split('/').filter(Boolean);
+}
+
+/**
+ * Map a failed repository / branch lookup to an error for the user
+ */
+export function lookupError(
+  providerName: string,
+  status: number,
+  what: 'repository' | 'branch',
+  branch?: string
+): AppError {
+  if (status === 404) {
+    return what === 'branch'
+      ? new AppError(`Branch "${branch}" was not found in the selected repository`, 400)
+      : new AppError(`Repository not found or not accessible with the given ${providerName} token`, 400);
+  }
+  if (status === 401 || status === 403) {
+    return new AppError(`${providerName} access token is invalid or lacks permission to read the repository`, 400);
+  }
+  return new AppError(`Failed to verify ${what} with ${providerName}. Please try again.`, 502);
+}
+
+/**
+ * Compare a received webhook token or signature to the expected one in constant time
+ */
+export function safeEqual(received: string | undefined, expected: string): boolean {
+  if (!received) return false;
+
+  try {
+    return crypto.timingSafeEqual(Buffer.from(received), Buffer.from(expected));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Hex HMAC-SHA256 of a webhook body, as GitHub and Gitea sign them
+ */
+export function hmacSha256(rawBody: Buffer, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(rawBody).digest('hex');
+}
@@ -18,6 +18,7 @@ import { webhookRouter } from './routes/webhooks.js';
 import { domainRouter } from './routes/domains.js';
 import { organizationRouter } from './routes/organizations.js';
 import { databaseRouter } from './routes/databases.js';
+import { blueprintRouter } from './routes/blueprints.js';
 import { setupSocketHandlers } from './socket/index.js';
 import { errorHandler } from './middleware/errorHandler.js';
 
@@ -73,6 +74,7 @@ app.use('/api/metrics', metricsRouter);
 app.use('/api/domains', domainRouter);
 app.use('/api/organizations', organizationRouter);
 app.use('/api/databases', databaseRouter);
+app.use('/api/blueprints', blueprintRouter);
 
 // Error handler
 app.use(errorHandler);
@@ -17,6 +17,10 @@ export const buildQueue = new Queue(QUEUES.BUILD, {
 
 export const cleanupQueue = new Queue(QUEUES.CLEANUP, {
   connection: redis as any,
+  defaultJobOptions: {
+    removeOnComplete: 100,
+    removeOnFail: 50,
+  },
 });
 
 export const rollbackQueue = new Queue(QUEUES.ROLLBACK, {
@@ -31,3 +35,15 @@ export const rollbackQueue = new Queue(QUEUES.ROLLBACK, {
     removeOnFail: 50,
   },
 });
+
+export const scaleQueue = new Queue(QUEUES.SCALE, {
+  connection: redis as any,
+  defaultJobOptions: {
+    removeOnComplete: 100,
+    removeOnFail: 50,
+  },
+});
+
+export const cronQueue = new Queue(QUEUES.CRON, {
+  connection: redis as any,
+});
@@ -0,0 +1,69 @@
+import { Router } from 'express';
+import { DATABASE_ENV_KEYS, parseBlueprint } from '@renderlite/shared';
+import { authenticate, AuthRequest } from '../middleware/auth.js';
+import { prisma } from '../lib/prisma.js';
+import { AppError } from '../middleware/errorHandler.js';
+
+export const blueprintRouter = Router();
+
+// All routes require authentication
+blueprintRouter.use(authenticate);
+
+// Validate a renderlite.yaml. With a serviceId, also report what would fail its next
+// deploy: declared env vars that aren't set and databases that aren't linked.
+blueprintRouter.post('/validate', async (req: AuthRequest, res, next) => {
+  try {
+    const { content, serviceId } = req.body;
+
+    if (typeof content !== 'string') {
+      throw new AppError('content must be the renderlite.yaml text', 400);
+    }
+
+    const { blueprint, errors } = parseBlueprint(content);
+    const problems: string[] = [];
+
+    if (serviceId) {
+      const service = await prisma.service.findFirst({
+        where: {
+          id: serviceId,
+          project: { userId: req.user!.id },
+        },
+      });
+
+      if (!service) {
+        throw new AppError('Service not found', 404);
+      }
+
+      if (blueprint) {
+        // Env var names are stored in plain text; only the values are encrypted
+        const envKeys = Object.keys((service.envVars as Record<string, string>) || {});
+        for (const key of blueprint.env) {
+          if (!envKeys.includes(key)) {
+            problems.push(`env var ${key} is not set on the service`);
+          }
+        }
+
+        const databases = await prisma.managedDatabase.findMany({
+          where: { projectId: service.projectId, name: { in: blueprint.databases } },
+        });
+        for (const name of blueprint.databases) {
+          const db = databases.find((d) => d.name === name);
+          if (!db) {
+            problems.push(`database "${name}" does not exist in this project`);
+          } else if (!envKeys.includes(DATABASE_ENV_KEYS[db.type])) {
+            problems.push(`database "${name}" is not linked to the service`);
+          }
+        }
+      }
+    }
+
+    res.json({
+      valid: errors.length === 0 && problems.length === 0,
+      errors,
+      problems,
+      blueprint,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
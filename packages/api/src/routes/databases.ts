@@ -1,10 +1,9 @@
 import { Router } from 'express';
-import crypto from 'crypto';
 import { authenticate, AuthRequest } from '../middleware/auth.js';
 import { prisma } from '../lib/prisma.js';
 import { AppError } from '../middleware/errorHandler.js';
-import { encrypt, decrypt } from '../utils/encryption.js';
-import { DatabaseType, DATABASE_IMAGES, DOCKER_NETWORK } from '@renderlite/shared';
+import { createManagedDatabase, getConnectionString } from '../utils/databases.js';
+import { DatabaseType, DATABASE_ENV_KEYS } from '@renderlite/shared';
 import Docker from 'dockerode';
 
 const docker = new Docker({ socketPath: '/var/run/docker.sock' });
@@ -13,14 +12,6 @@ export const databaseRouter = Router();
 
 databaseRouter.use(authenticate);
 
-function generateCredentials() {
-  return {
-    username: 'renderlite',
-    password: crypto.randomBytes(16).toString('hex'),
-    dbName: 'renderlite_db',
-  };
-}
-
 // List databases for current user
 databaseRouter.get('/', async (req: AuthRequest, res, next) => {
   try {
@@ -67,29 +58,11 @@ databaseRouter.get('/:id', async (req: AuthRequest, res, next) => {
       throw new AppError('Database not found', 404);
     }
 
-    let password: string | null = null;
-    if (db.password) {
-      try {
-        password = decrypt(db.password);
-      } catch {
-        password = null;
-      }
-    }
-
-    let connectionString: string | null = null;
-    if (db.host && db.port && db.status === 'RUNNING') {
-      if (db.type === 'POSTGRES') {
-        connectionString = `postgresql://${db.username}:${password}@${db.host}:${db.port}/${db.dbName}`;
-      } else if (db.type === 'MYSQL') {
-        connectionString = `mysql://${db.username}:${password}@${db.host}:${db.port}/${db.dbName}`;
-      } else if (db.type === 'REDIS') {
-        connectionString = `redis://${db.host}:${db.port}`;
-      }
-    }
+    const connectionString = db.status === 'RUNNING' ? getConnectionString(db) : null;
 
     res.json({
       ...db,
-      password: password ? '********' : null,
+      password: db.password ? '********' : null,
       connectionString,
     });
   } catch (error) {
@@ -117,33 +90,7 @@ databaseRouter.post('/', async (req: AuthRequest, res, next) => {
       throw new AppError('Project not found', 404);
     }
 
-    const dbConfig = DATABASE_IMAGES[type];
-    if (!dbConfig) {
-      throw new AppError('Unsupported database type', 400);
-    }
-
-    const creds = generateCredentials();
-    const containerName = `renderlite-db-${name.toLowerCase().replace(/[^a-z0-9-]/g, '-')}-${crypto.randomBytes(4).toString('hex')}`;
-    const volumeName = `renderlite-dbvol-${containerName}`;
-
-    const db = await prisma.managedDatabase.create({
-      data: {
-        name: name.trim(),
-        projectId,
-        type: type as any,
-        status: 'PROVISIONING',
-        host: containerName,
-        port: dbConfig.port,
-        dbName: creds.dbName,
-        username: creds.username,
-        password: encrypt(creds.password),
-        volumeName,
-      },
-    });
-
-    // Provision container in background
-    provisionDatabaseContainer(db.id, containerName, volumeName, type, dbConfig, creds)
-      .catch((err) => console.error(`Failed to provision database ${db.id}:`, err));
+    const db = await createManagedDatabase(projectId, name.trim(), type);
 
     res.status(201).json({
       ...db,
@@ -154,78 +101,6 @@ databaseRouter.post('/', async (req: AuthRequest, res, next) => {
   }
 });
 
-async function provisionDatabaseContainer(
-  dbId: string,
-  containerName: string,
-  volumeName: string,
-  type: string,
-  config: { image: string; port: number; healthCmd: string[] },
-  creds: { username: string; password: string; dbName: string }
-): Promise<void> {
-  try {
-    const envArray: string[] = [];
-
-    if (type === 'POSTGRES') {
-      envArray.push(
-        `POSTGRES_USER=${creds.username}`,
-        `POSTGRES_PASSWORD=${creds.password}`,
-        `POSTGRES_DB=${creds.dbName}`
-      );
-    } else if (type === 'MYSQL') {
-      envArray.push(
-        `MYSQL_USER=${creds.username}`,
-        `MYSQL_PASSWORD=${creds.password}`,
-        `MYSQL_DATABASE=${creds.dbName}`,
-        `MYSQL_ROOT_PASSWORD=${creds.password}`
-      );
-    }
-
-    let dataPath = '/data';
-    if (type === 'POSTGRES') dataPath = '/var/lib/postgresql/data';
-    else if (type === 'MYSQL') dataPath = '/var/lib/mysql';
-
-    const container = await docker.createContainer({
-      Image: config.image,
-      name: containerName,
-      Env: envArray,
-      Labels: {
-        'renderlite.managed': 'true',
-        'renderlite.managed-db': 'true',
-        'renderlite.db-id': dbId,
-      },
-      HostConfig: {
-        NetworkMode: DOCKER_NETWORK,
-        RestartPolicy: { Name: 'unless-stopped' },
-        Memory: 256 * 1024 * 1024,
-        NanoCpus: 250000000,
-        Binds: [`${volumeName}:${dataPath}`],
-      },
-      Healthcheck: {
-        Test: config.healthCmd,
-        Interval: 10 * 1e9,
-        Timeout: 5 * 1e9,
-        Retries: 5,
-      },
-    });
-
-    await container.start();
-
-    await prisma.managedDatabase.update({
-      where: { id: dbId },
-      data: {
-        status: 'RUNNING',
-        containerId: container.id,
-      },
-    });
-  } catch (error) {
-    await prisma.managedDatabase.update({
-      where: { id: dbId },
-      data: { status: 'FAILED' },
-    });
-    throw error;
-  }
-}
-
 // Delete a managed database
 databaseRouter.delete('/:id', async (req: AuthRequest, res, next) => {
   try {
@@ -289,24 +164,8 @@ databaseRouter.post('/:id/link/:serviceId', async (req: AuthRequest, res, next)
       throw new AppError('Service not found', 404);
     }
 
-    let password: string | null = null;
-    if (db.password) {
-      try { password = decrypt(db.password); } catch { /* ignore */ }
-    }
-
-    let connectionString = '';
-    let envKey = 'DATABASE_URL';
-
-    if (db.type === 'POSTGRES') {
-      connectionString = `postgresql://${db.username}:${password}@${db.host}:${db.port}/${db.dbName}`;
-      envKey = 'DATABASE_URL';
-    } else if (db.type === 'MYSQL') {
-      connectionString = `mysql://${db.username}:${password}@${db.host}:${db.port}/${db.dbName}`;
-      envKey = 'DATABASE_URL';
-    } else if (db.type === 'REDIS') {
-      connectionString = `redis://${db.host}:${db.port}`;
-      envKey = 'REDIS_URL';
-    }
+    const connectionString = getConnectionString(db) ?? '';
+    const envKey = DATABASE_ENV_KEYS[db.type];
 
     // Merge connection string into existing env vars
     const existingEnvVars = (service.envVars as Record<string, string>) || {};
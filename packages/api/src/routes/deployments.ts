@@ -1,13 +1,118 @@
-import { Router } from 'express';
+import express, { Router } from 'express';
+import type { NextFunction, Request, Response } from 'express';
+import type { Deployment, Service } from '@prisma/client';
 import { authenticate, AuthRequest } from '../middleware/auth.js';
 import { prisma } from '../lib/prisma.js';
 import { buildQueue, rollbackQueue } from '../lib/queue.js';
 import { AppError } from '../middleware/errorHandler.js';
-import type { DeploymentJobData, RollbackJobData } from '@renderlite/shared';
-import { DeploymentStatus, ServiceStatus } from '@renderlite/shared';
-import { decryptEnvVars, decrypt } from '../utils/encryption.js';
+import { redis } from '../lib/redis.js';
+import type { BlueprintRuntimeSettings, CanaryAction, RollbackJobData } from '@renderlite/shared';
+import {
+  DEFAULTS,
+  DeploymentStatus,
+  DeploymentStrategy,
+  REDIS_KEYS,
+  ServiceSource,
+  ServiceStatus,
+  ServiceType,
+  restoreServiceStatus,
+} from '@renderlite/shared';
+import { decryptEnvVars } from '../utils/encryption.js';
+import { buildDeploymentJobData, getCronSettings } from '../utils/deploymentJob.js';
+import { resolveServiceResources } from '../utils/resources.js';
+import { requestCancellation, supersedeDeployments } from '../utils/supersede.js';
+import { hashSourceArchive, removeSourceArchive, saveSourceArchive } from '../utils/sourceArchives.js';
 import type { SocketHandlers } from '../socket/index.js';
 
+const CANARY_ACTION_TTL_SECONDS = 60 * 60;
+
+/**
+ * Loose check for a git ref (branch, tag or commit SHA) that is safe to hand to git fetch
+ */
+function isValidGitRef(ref: string): boolean {
+  return (
+    ref.length <= 255 &&
+    /^[A-Za-z0-9._\/-]+$/.test(ref) &&
+    !ref.startsWith('-') &&
+    !ref.includes('..') &&
+    !ref.endsWith('.lock') &&
+    !ref.endsWith('/')
+  );
+}
+
+/**
+ * Helper: queue the build job of a new deployment and move its service to DEPLOYING.
+ * If the job can't be queued the deployment is marked FAILED and the service status
+ * restored.
+ */
+async function enqueueDeployment(
+  req: AuthRequest,
+  service: Service,
+  deployment: Deployment,
+  previousServiceStatus: Service['status']
+): Promise<void> {
+  await prisma.service.update({
+    where: { id: service.id },
+    data: { status: ServiceStatus.DEPLOYING },
+  });
+
+  const jobData = await buildDeploymentJobData(service, deployment, req.user!.id);
+
+  try {
+    await buildQueue.add(`deploy-${deployment.id}`, jobData, {
+      jobId: deployment.id,
+    });
+  } catch (error) {
+    const queueError = error instanceof Error ? error.message : 'Unknown queue error';
+    await prisma.$transaction([
+      prisma.deployment.update({
+        where: { id: deployment.id },
+        data: {
+          status: DeploymentStatus.FAILED,
+          logs: `Failed to enqueue deployment job: ${queueError}`,
+          finishedAt: new Date(),
+        },
+      }),
+      prisma.service.update({
+        where: { id: service.id },
+        data: { status: previousServiceStatus },
+      }),
+    ]);
+    throw new AppError('Deployment queue is unavailable. Please retry.', 503);
+  }
+
+  const socketHandlers = req.app.get('socketHandlers') as SocketHandlers | undefined;
+  socketHandlers?.emitDeploymentStatus(deployment.id, DeploymentStatus.QUEUED);
+  socketHandlers?.emitServiceStatus(service.id, ServiceStatus.DEPLOYING);
+  await supersedeDeployments(service, deployment, socketHandlers);
+}
+
+function validateStrategy(strategy: unknown): void {
+  if (strategy !== undefined && !Object.values(DeploymentStrategy).includes(strategy as DeploymentStrategy)) {
+    throw new AppError(
+      `Invalid strategy. Must be one of: ${Object.values(DeploymentStrategy).join(', ')}`,
+      400
+    );
+  }
+}
+
+const parseSourceArchive = express.raw({
+  type: () => true,
+  limit: `${DEFAULTS.MAX_SOURCE_ARCHIVE_SIZE_MB}mb`,
+});
+
+/**
+ * Read an upload body into a Buffer, answering 413 rather than 500 when it is too large
+ */
+function receiveSourceArchive(req: Request, res: Response, next: NextFunction) {
+  parseSourceArchive(req, res, (error?: any) => {
+    if (error?.type === 'entity.too.large') {
+      return next(new AppError(`Source archive must be at most ${DEFAULTS.MAX_SOURCE_ARCHIVE_SIZE_MB} MB`, 413));
+    }
+    next(error);
+  });
+}
+
 export const deploymentRouter = Router();
 
 deploymentRouter.use(authenticate);
@@ -55,7 +160,10 @@ deploymentRouter.get('/:id', async (req: AuthRequest, res, next) => {
       },
       include: {
         service: {
-          select: { id: true, name: true, subdomain: true, repoUrl: true, branch: true },
+          select: { id: true, name: true, subdomain: true, sourceType: true, repoUrl: true, imageRef: true, branch: true },
+        },
+        steps: {
+          orderBy: { startedAt: 'asc' },
         },
       },
     });
@@ -70,55 +178,22 @@ deploymentRouter.get('/:id', async (req: AuthRequest, res, next) => {
   }
 });
 
-/**
- * Helper: build job data for a deployment, including token and health check config
- */
-async function buildDeploymentJobData(
-  service: any,
-  deploymentId: string,
-  userId: string
-): Promise<DeploymentJobData> {
-  let envVars: Record<string, string> | undefined;
-  if (service.envVars) {
-    envVars = decryptEnvVars(service.envVars as Record<string, string>);
-  }
-
-  let githubToken: string | undefined;
-  const user = await prisma.user.findUnique({
-    where: { id: userId },
-    select: { githubAccessToken: true },
-  });
-  if (user?.githubAccessToken) {
-    try {
-      githubToken = decrypt(user.githubAccessToken);
-    } catch {
-      // token not available or corrupted
-    }
-  }
-
-  return {
-    deploymentId,
-    serviceId: service.id,
-    repoUrl: service.repoUrl,
-    branch: service.branch,
-    subdomain: service.subdomain,
-    envVars,
-    githubToken,
-    healthCheckPath: service.healthCheckPath ?? undefined,
-    healthCheckInterval: service.healthCheckInterval,
-    healthCheckTimeout: service.healthCheckTimeout,
-  };
-}
-
 // Trigger new deployment
 deploymentRouter.post('/', async (req: AuthRequest, res, next) => {
   try {
-    const { serviceId } = req.body;
+    const { serviceId, strategy, ref } = req.body;
 
     if (!serviceId) {
       throw new AppError('serviceId is required', 400);
     }
 
+    const requestedRef = typeof ref === 'string' ? ref.trim() : '';
+    if ((ref != null && typeof ref !== 'string') || (requestedRef && !isValidGitRef(requestedRef))) {
+      throw new AppError('ref must be a valid branch, tag or commit SHA', 400);
+    }
+
+    validateStrategy(strategy);
+
     const service = await prisma.service.findFirst({
       where: {
         id: serviceId,
@@ -131,48 +206,90 @@ deploymentRouter.post('/', async (req: AuthRequest, res, next) => {
     if (!service) {
       throw new AppError('Service not found', 404);
     }
+    if (requestedRef && service.sourceType === ServiceSource.IMAGE) {
+      throw new AppError('ref only applies to services deployed from a git repository', 400);
+    }
     const previousServiceStatus = service.status;
 
     const deployment = await prisma.deployment.create({
       data: {
         serviceId,
         status: DeploymentStatus.QUEUED,
+        // Image services record the image they pulled
+        ref: service.sourceType === ServiceSource.IMAGE ? service.imageRef : requestedRef || service.branch,
+        strategy: strategy ?? service.deployStrategy,
+        previousServiceStatus,
       },
     });
 
-    await prisma.service.update({
-      where: { id: serviceId },
-      data: { status: ServiceStatus.DEPLOYING },
+    await enqueueDeployment(req, service, deployment, previousServiceStatus);
+
+    res.status(201).json(deployment);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Deploy an uploaded source tarball (.tar.gz) in place of a clone of the repository,
+// e.g. work in progress or code from a repository RenderLite can't reach
+deploymentRouter.post('/upload', receiveSourceArchive, async (req: AuthRequest, res, next) => {
+  try {
+    const { serviceId, strategy } = req.query;
+
+    if (typeof serviceId !== 'string' || !serviceId) {
+      throw new AppError('serviceId is required', 400);
+    }
+
+    validateStrategy(strategy);
+
+    const archive = req.body;
+    if (!Buffer.isBuffer(archive) || archive.length === 0) {
+      throw new AppError('Request body must be a gzipped tarball of the source', 400);
+    }
+    const sourceArchiveHash = hashSourceArchive(archive);
+
+    const service = await prisma.service.findFirst({
+      where: {
+        id: serviceId,
+        project: {
+          userId: req.user!.id,
+        },
+      },
     });
 
-    const jobData = await buildDeploymentJobData(service, deployment.id, req.user!.id);
+    if (!service) {
+      throw new AppError('Service not found', 404);
+    }
+    if (service.sourceType === ServiceSource.IMAGE) {
+      throw new AppError('Source uploads only apply to services built from source', 400);
+    }
+    const previousServiceStatus = service.status;
+
+    const deployment = await prisma.deployment.create({
+      data: {
+        serviceId,
+        status: DeploymentStatus.QUEUED,
+        sourceArchiveHash,
+        strategy: (strategy as DeploymentStrategy | undefined) ?? service.deployStrategy,
+        previousServiceStatus,
+      },
+    });
 
     try {
-      await buildQueue.add(`deploy-${deployment.id}`, jobData, {
-        jobId: deployment.id,
-      });
+      await saveSourceArchive(deployment.id, archive);
     } catch (error) {
-      const queueError = error instanceof Error ? error.message : 'Unknown queue error';
-      await prisma.$transaction([
-        prisma.deployment.update({
-          where: { id: deployment.id },
-          data: {
-            status: DeploymentStatus.FAILED,
-            logs: `Failed to enqueue deployment job: ${queueError}`,
-            finishedAt: new Date(),
-          },
-        }),
-        prisma.service.update({
-          where: { id: serviceId },
-          data: { status: previousServiceStatus },
-        }),
-      ]);
-      throw new AppError('Deployment queue is unavailable. Please retry.', 503);
+      await prisma.deployment.update({
+        where: { id: deployment.id },
+        data: {
+          status: DeploymentStatus.FAILED,
+          logs: 'Failed to store the uploaded source archive',
+          finishedAt: new Date(),
+        },
+      });
+      throw error;
     }
 
-    const socketHandlers = req.app.get('socketHandlers') as SocketHandlers | undefined;
-    socketHandlers?.emitDeploymentStatus(deployment.id, DeploymentStatus.QUEUED);
-    socketHandlers?.emitServiceStatus(service.id, ServiceStatus.DEPLOYING);
+    await enqueueDeployment(req, service, deployment, previousServiceStatus);
 
     res.status(201).json(deployment);
   } catch (error) {
@@ -195,6 +312,7 @@ deploymentRouter.get('/:id/logs', async (req: AuthRequest, res, next) => {
       select: {
         id: true,
         logs: true,
+        logLines: true,
         status: true,
       },
     });
@@ -207,13 +325,14 @@ deploymentRouter.get('/:id/logs', async (req: AuthRequest, res, next) => {
       id: deployment.id,
       status: deployment.status,
       logs: deployment.logs || '',
+      logLines: deployment.logLines ?? null,
     });
   } catch (error) {
     next(error);
   }
 });
 
-// Cancel deployment
+// Cancel deployment: queued ones are taken off the queue, building ones are stopped by the worker
 deploymentRouter.post('/:id/cancel', async (req: AuthRequest, res, next) => {
   try {
     const deployment = await prisma.deployment.findFirst({
@@ -231,32 +350,53 @@ deploymentRouter.post('/:id/cancel', async (req: AuthRequest, res, next) => {
       throw new AppError('Deployment not found', 404);
     }
 
-    if (deployment.status !== DeploymentStatus.QUEUED) {
-      throw new AppError('Can only cancel queued deployments', 400);
+    if (deployment.status !== DeploymentStatus.QUEUED && deployment.status !== DeploymentStatus.BUILDING) {
+      throw new AppError('Can only cancel queued or building deployments', 400);
     }
 
-    const job = await buildQueue.getJob(deployment.id);
-    if (job) {
-      await job.remove();
+    const buildJob = await buildQueue.getJob(deployment.id);
+    const job = buildJob ?? (await rollbackQueue.getJob(deployment.id));
+
+    // A job the worker already picked up can't be removed (it is locked)
+    let removed = deployment.status === DeploymentStatus.QUEUED;
+    if (removed && job) {
+      try {
+        await job.remove();
+      } catch {
+        removed = false;
+      }
     }
 
+    if (!removed) {
+      if (!buildJob) {
+        throw new AppError('Rollbacks can only be cancelled while queued', 400);
+      }
+      await requestCancellation(deployment.id);
+      return res.status(202).json({ message: 'Cancellation requested' });
+    }
+
+    await removeSourceArchive(deployment.id);
+
     await prisma.deployment.update({
       where: { id: deployment.id },
       data: {
-        status: DeploymentStatus.FAILED,
+        status: DeploymentStatus.CANCELLED,
         logs: 'Deployment cancelled by user',
         finishedAt: new Date(),
       },
     });
 
-    await prisma.service.update({
-      where: { id: deployment.serviceId },
-      data: { status: ServiceStatus.FAILED },
-    });
+    const serviceStatus = await restoreServiceStatus(
+      prisma,
+      deployment.serviceId,
+      deployment.previousServiceStatus as ServiceStatus | null
+    );
 
     const socketHandlers = req.app.get('socketHandlers') as SocketHandlers | undefined;
-    socketHandlers?.emitDeploymentStatus(deployment.id, DeploymentStatus.FAILED);
-    socketHandlers?.emitServiceStatus(deployment.serviceId, ServiceStatus.FAILED);
+    socketHandlers?.emitDeploymentStatus(deployment.id, DeploymentStatus.CANCELLED);
+    if (serviceStatus) {
+      socketHandlers?.emitServiceStatus(deployment.serviceId, serviceStatus);
+    }
 
     res.json({ message: 'Deployment cancelled' });
   } catch (error) {
@@ -264,6 +404,61 @@ deploymentRouter.post('/:id/cancel', async (req: AuthRequest, res, next) => {
   }
 });
 
+/**
+ * Helper: hand a promote/abort decision to the worker running a canary deployment
+ */
+async function requestCanaryAction(
+  deploymentId: string,
+  userId: string,
+  action: CanaryAction
+): Promise<void> {
+  const deployment = await prisma.deployment.findFirst({
+    where: {
+      id: deploymentId,
+      service: {
+        project: {
+          userId,
+        },
+      },
+    },
+    select: { id: true, status: true, strategy: true, trafficWeight: true },
+  });
+
+  if (!deployment) {
+    throw new AppError('Deployment not found', 404);
+  }
+
+  if (deployment.strategy !== DeploymentStrategy.CANARY) {
+    throw new AppError('Deployment is not a canary deployment', 400);
+  }
+
+  if (deployment.status !== DeploymentStatus.BUILDING || deployment.trafficWeight === null) {
+    throw new AppError('Canary is not currently receiving traffic', 400);
+  }
+
+  await redis.set(REDIS_KEYS.CANARY_ACTION(deployment.id), action, 'EX', CANARY_ACTION_TTL_SECONDS);
+}
+
+// Promote a canary deployment to all traffic now
+deploymentRouter.post('/:id/promote', async (req: AuthRequest, res, next) => {
+  try {
+    await requestCanaryAction(req.params.id, req.user!.id, 'promote');
+    res.json({ message: 'Canary promotion requested' });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Abort a canary deployment and send all traffic back to the previous container
+deploymentRouter.post('/:id/abort', async (req: AuthRequest, res, next) => {
+  try {
+    await requestCanaryAction(req.params.id, req.user!.id, 'abort');
+    res.json({ message: 'Canary abort requested' });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Rollback to a previous successful deployment
 deploymentRouter.post('/:id/rollback', async (req: AuthRequest, res, next) => {
   try {
@@ -300,8 +495,11 @@ deploymentRouter.post('/:id/rollback', async (req: AuthRequest, res, next) => {
       data: {
         serviceId: service.id,
         status: DeploymentStatus.QUEUED,
+        ref: targetDeployment.ref,
         commitSha: targetDeployment.commitSha,
         imageTag: targetDeployment.imageTag,
+        blueprintSettings: targetDeployment.blueprintSettings ?? undefined,
+        previousServiceStatus,
       },
     });
 
@@ -315,15 +513,22 @@ deploymentRouter.post('/:id/rollback', async (req: AuthRequest, res, next) => {
       envVars = decryptEnvVars(service.envVars as Record<string, string>);
     }
 
+    // The image runs with the port, health check and cron jobs its renderlite.yaml gave it
+    const blueprintSettings = (targetDeployment.blueprintSettings ?? {}) as BlueprintRuntimeSettings;
     const rollbackData: RollbackJobData = {
       deploymentId: newDeployment.id,
       serviceId: service.id,
       subdomain: service.subdomain,
       imageTag: targetDeployment.imageTag,
       envVars,
-      healthCheckPath: service.healthCheckPath ?? undefined,
-      healthCheckInterval: service.healthCheckInterval,
-      healthCheckTimeout: service.healthCheckTimeout,
+      port: blueprintSettings.port ?? service.port ?? undefined,
+      resources: resolveServiceResources(service),
+      healthCheckPath: blueprintSettings.healthCheckPath ?? service.healthCheckPath ?? undefined,
+      healthCheckInterval: blueprintSettings.healthCheckInterval ?? service.healthCheckInterval,
+      healthCheckTimeout: blueprintSettings.healthCheckTimeout ?? service.healthCheckTimeout,
+      serviceType: service.type as ServiceType,
+      cron: getCronSettings(service),
+      blueprintCron: blueprintSettings.cron,
     };
 
     try {
@@ -352,6 +557,7 @@ deploymentRouter.post('/:id/rollback', async (req: AuthRequest, res, next) => {
     const socketHandlers = req.app.get('socketHandlers') as SocketHandlers | undefined;
     socketHandlers?.emitDeploymentStatus(newDeployment.id, DeploymentStatus.QUEUED);
     socketHandlers?.emitServiceStatus(service.id, ServiceStatus.DEPLOYING);
+    await supersedeDeployments(service, newDeployment, socketHandlers);
 
     res.status(201).json(newDeployment);
   } catch (error) {
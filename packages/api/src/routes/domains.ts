@@ -5,6 +5,7 @@ import crypto from 'crypto';
 import { authenticate, AuthRequest } from '../middleware/auth.js';
 import { prisma } from '../lib/prisma.js';
 import { AppError } from '../middleware/errorHandler.js';
+import { ServiceType } from '@renderlite/shared';
 
 const resolveTxt = promisify(dns.resolveTxt);
 
@@ -64,6 +65,10 @@ domainRouter.post('/service/:serviceId', async (req: AuthRequest, res, next) =>
       throw new AppError('Service not found', 404);
     }
 
+    if (service.type !== ServiceType.WEB) {
+      throw new AppError('Custom domains only apply to web services', 400);
+    }
+
     const existing = await prisma.domain.findUnique({
       where: { hostname: normalizedHostname },
     });
@@ -2,12 +2,10 @@ import { Router } from 'express';
 import { authenticate, AuthRequest } from '../middleware/auth.js';
 import { prisma } from '../lib/prisma.js';
 import { AppError } from '../middleware/errorHandler.js';
-import Docker from 'dockerode';
+import { getServiceMetrics } from '../utils/containerStats.js';
 
 export const metricsRouter = Router();
 
-const docker = new Docker({ socketPath: '/var/run/docker.sock' });
-
 // All routes require authentication
 metricsRouter.use(authenticate);
 
@@ -27,7 +25,7 @@ metricsRouter.get('/service/:id', async (req: AuthRequest, res, next) => {
       throw new AppError('Service not found', 404);
     }
 
-    if (!service.containerId) {
+    if (service.containerIds.length === 0) {
       return res.json({
         serviceId: service.id,
         status: service.status,
@@ -36,61 +34,37 @@ metricsRouter.get('/service/:id', async (req: AuthRequest, res, next) => {
       });
     }
 
-    try {
-      const container = docker.getContainer(service.containerId);
-      const stats = await container.stats({ stream: false });
-      
-      // Calculate CPU percentage
-      const cpuDelta = stats.cpu_stats.cpu_usage.total_usage - stats.precpu_stats.cpu_usage.total_usage;
-      const systemDelta = stats.cpu_stats.system_cpu_usage - stats.precpu_stats.system_cpu_usage;
-      const cpuPercent = (cpuDelta / systemDelta) * stats.cpu_stats.online_cpus * 100;
-
-      // Calculate memory
-      const memoryUsage = stats.memory_stats.usage || 0;
-      const memoryLimit = stats.memory_stats.limit || 1;
-      const memoryPercent = (memoryUsage / memoryLimit) * 100;
+    const { metrics, missingContainerIds } = await getServiceMetrics(service.containerIds);
 
-      // Calculate network
-      let networkRx = 0;
-      let networkTx = 0;
-      if (stats.networks) {
-        for (const iface of Object.values(stats.networks) as any[]) {
-          networkRx += iface.rx_bytes || 0;
-          networkTx += iface.tx_bytes || 0;
-        }
-      }
+    // Containers might not exist anymore
+    if (!metrics) {
+      await prisma.service.update({
+        where: { id: service.id },
+        data: { containerIds: [], status: 'STOPPED' },
+      });
 
-      res.json({
+      return res.json({
         serviceId: service.id,
-        containerId: service.containerId,
-        status: service.status,
-        metrics: {
-          cpuPercent: Math.round(cpuPercent * 100) / 100,
-          memoryUsage,
-          memoryLimit,
-          memoryPercent: Math.round(memoryPercent * 100) / 100,
-          networkRx,
-          networkTx,
-          timestamp: new Date().toISOString(),
-        },
+        status: 'STOPPED',
+        metrics: null,
+        message: 'Container not found',
       });
-    } catch (dockerError: any) {
-      // Container might not exist anymore
-      if (dockerError.statusCode === 404) {
-        await prisma.service.update({
-          where: { id: service.id },
-          data: { containerId: null, status: 'STOPPED' },
-        });
-        
-        return res.json({
-          serviceId: service.id,
-          status: 'STOPPED',
-          metrics: null,
-          message: 'Container not found',
-        });
-      }
-      throw dockerError;
     }
+
+    const containerIds = service.containerIds.filter((id) => !missingContainerIds.includes(id));
+    if (missingContainerIds.length > 0) {
+      await prisma.service.update({
+        where: { id: service.id },
+        data: { containerIds },
+      });
+    }
+
+    res.json({
+      serviceId: service.id,
+      containerIds,
+      status: service.status,
+      metrics,
+    });
   } catch (error) {
     next(error);
   }
@@ -9,6 +9,20 @@ export const organizationRouter = Router();
 
 organizationRouter.use(authenticate);
 
+/**
+ * Validate an organization-wide resource limit; null clears it (no limit)
+ */
+function normalizeOrgLimit(rawLimit: unknown, field: string, integer: boolean): number | null {
+  if (rawLimit === null || rawLimit === '') {
+    return null;
+  }
+  const limit = Number(rawLimit);
+  if (!Number.isFinite(limit) || limit <= 0 || (integer && !Number.isInteger(limit))) {
+    throw new AppError(`${field} must be a positive ${integer ? 'whole number' : 'number'}`, 400);
+  }
+  return limit;
+}
+
 // List organizations the user belongs to
 organizationRouter.get('/', async (req: AuthRequest, res, next) => {
   try {
@@ -120,14 +134,18 @@ organizationRouter.put('/:id', async (req: AuthRequest, res, next) => {
       throw new AppError('Insufficient permissions', 403);
     }
 
-    const { name } = req.body;
-    if (!name) {
-      throw new AppError('name is required', 400);
+    const { name, maxMemoryMb, maxCpus } = req.body;
+    if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+      throw new AppError('name cannot be empty', 400);
     }
 
     const org = await prisma.organization.update({
       where: { id: req.params.id },
-      data: { name: name.trim() },
+      data: {
+        ...(name !== undefined && { name: name.trim() }),
+        ...(maxMemoryMb !== undefined && { maxMemoryMb: normalizeOrgLimit(maxMemoryMb, 'maxMemoryMb', true) }),
+        ...(maxCpus !== undefined && { maxCpus: normalizeOrgLimit(maxCpus, 'maxCpus', false) }),
+      },
     });
 
     res.json(org);
@@ -3,6 +3,8 @@ import { authenticate, AuthRequest } from '../middleware/auth.js';
 import { prisma } from '../lib/prisma.js';
 import { AppError } from '../middleware/errorHandler.js';
 import { getUserRoleInOrg, canAccessProject } from '../middleware/permissions.js';
+import { exportProjectSpec, importProjectSpec } from '../utils/projectSpec.js';
+import { stringify as stringifyYaml } from 'yaml';
 
 export const projectRouter = Router();
 
@@ -22,7 +24,7 @@ projectRouter.get('/', async (req: AuthRequest, res, next) => {
       const projects = await prisma.project.findMany({
         where: { organizationId: organizationId as string },
         include: {
-          _count: { select: { services: true } },
+          _count: { select: { services: { where: { parentServiceId: null } } } },
           organization: { select: { id: true, name: true, slug: true } },
         },
         orderBy: { createdAt: 'desc' },
@@ -45,7 +47,7 @@ projectRouter.get('/', async (req: AuthRequest, res, next) => {
         ],
       },
       include: {
-        _count: { select: { services: true } },
+        _count: { select: { services: { where: { parentServiceId: null } } } },
         organization: { select: { id: true, name: true, slug: true } },
       },
       orderBy: { createdAt: 'desc' },
@@ -70,16 +72,20 @@ projectRouter.get('/:id', async (req: AuthRequest, res, next) => {
       include: {
         organization: { select: { id: true, name: true, slug: true } },
         services: {
+          where: { parentServiceId: null },
           select: {
             id: true,
             name: true,
             projectId: true,
+            sourceType: true,
             repoUrl: true,
+            imageRef: true,
             branch: true,
             runtime: true,
             subdomain: true,
             status: true,
-            containerId: true,
+            containerIds: true,
+            replicas: true,
             createdAt: true,
             updatedAt: true,
             deployments: {
@@ -115,7 +121,71 @@ projectRouter.get('/:id', async (req: AuthRequest, res, next) => {
       throw new AppError('Project not found', 404);
     }
 
-    res.json(project);
+    // Pull request previews, listed apart from the services they preview
+    const previews = await prisma.service.findMany({
+      where: { projectId: project.id, parentServiceId: { not: null } },
+      select: {
+        id: true,
+        name: true,
+        subdomain: true,
+        branch: true,
+        status: true,
+        pullRequestNumber: true,
+        pullRequestTitle: true,
+        pullRequestUrl: true,
+        parentService: { select: { id: true, name: true } },
+        deployments: {
+          orderBy: { createdAt: 'desc' },
+          take: 1,
+          select: { id: true, status: true, commitSha: true, createdAt: true },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    res.json({ ...project, previews });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Export a project as a spec (JSON, or YAML with ?format=yaml); secret values are left out
+projectRouter.get('/:id/export', async (req: AuthRequest, res, next) => {
+  try {
+    const hasAccess = await canAccessProject(req.user!.id, req.params.id);
+    if (!hasAccess) {
+      throw new AppError('Project not found', 404);
+    }
+
+    const spec = await exportProjectSpec(req.params.id);
+
+    if (req.query.format === 'yaml') {
+      return res.type('text/yaml').send(stringifyYaml(spec));
+    }
+    res.json(spec);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Create or update a project from an exported spec; dryRun returns the plan without applying it
+projectRouter.post('/import', async (req: AuthRequest, res, next) => {
+  try {
+    const { organizationId } = req.body;
+
+    if (organizationId) {
+      const role = await getUserRoleInOrg(req.user!.id, organizationId);
+      if (!role) {
+        throw new AppError('Organization not found or access denied', 404);
+      }
+      if (role === 'VIEWER') {
+        throw new AppError('Viewers cannot import projects', 403);
+      }
+    }
+
+    const plan = await importProjectSpec(req.user!.id, req.body);
+
+    res.json(plan);
   } catch (error) {
     next(error);
   }
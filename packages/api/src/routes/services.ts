@@ -1,33 +1,66 @@
 import { Router } from 'express';
-import crypto from 'crypto';
 import { authenticate, AuthRequest } from '../middleware/auth.js';
 import { prisma } from '../lib/prisma.js';
 import { AppError } from '../middleware/errorHandler.js';
 import { generateSubdomain } from '../utils/subdomain.js';
-import { decrypt, encryptEnvVars } from '../utils/encryption.js';
+import { decryptEnvVars, encrypt, encryptEnvVars } from '../utils/encryption.js';
+import { generateDeployKey } from '../utils/deployKeys.js';
+import { DeploymentStrategy, InstancePlan, REDIS_KEYS, ServiceSource, ServiceType } from '@renderlite/shared';
+import type { ResourceLimits } from '@renderlite/shared';
+import {
+  reservedReplicas,
+  resolveServiceResources,
+  validateServiceResources,
+} from '../utils/resources.js';
+import {
+  AUTOSCALING_DEFAULTS,
+  CRON_DEFAULTS,
+  clampReplicas,
+  normalizeAutoscaling,
+  normalizeCronSettings,
+  normalizeDockerTarget,
+  normalizeGitAccessToken,
+  normalizeImageRef,
+  normalizePort,
+  normalizeRegistryPassword,
+  normalizeRegistryUsername,
+  normalizeReleaseCommand,
+  normalizeRepoPath,
+  normalizeResourceOverride,
+  normalizeWatchPaths,
+  resolveGitSource,
+  resolveImageSource,
+  validateCanaryStepInterval,
+  validateCanarySteps,
+  validateDeployStrategy,
+  validatePlan,
+  validatePreviewsEnabled,
+  validateReplicas,
+  validateServiceSource,
+  validateServiceType,
+  validateServiceTypeSettings,
+  validateSupersedePolicy,
+} from '../utils/serviceSettings.js';
+import { cronQueue, scaleQueue } from '../lib/queue.js';
+import { removeContainers, removeServiceRoutes, streamContainerLogs } from '../utils/containers.js';
+import { teardownPreview } from '../utils/previews.js';
+import { getGitHubAccessToken, requestGitHub } from '../git/github.js';
+import type { GitHubRepository } from '../git/github.js';
 import Docker from 'dockerode';
 
 export const serviceRouter = Router();
 const docker = new Docker({ socketPath: '/var/run/docker.sock' });
-const GITHUB_API_BASE_URL = 'https://api.github.com';
-
-type GitHubRepository = {
-  id: number;
-  name: string;
-  full_name: string;
-  html_url: string;
-  private: boolean;
-  default_branch: string;
-  updated_at: string;
-};
-
-function normalizeAndEncryptEnvVars(rawEnvVars: unknown): Record<string, string> | null {
+
+function normalizeAndEncryptEnvVars(
+  rawEnvVars: unknown,
+  field: string = 'envVars'
+): Record<string, string> | null {
   if (rawEnvVars === null || rawEnvVars === undefined) {
     return null;
   }
 
   if (typeof rawEnvVars !== 'object' || Array.isArray(rawEnvVars)) {
-    throw new AppError('envVars must be a key-value object', 400);
+    throw new AppError(`${field} must be a key-value object`, 400);
   }
 
   const envVars = Object.entries(rawEnvVars as Record<string, unknown>).reduce(
@@ -48,10 +81,23 @@ function normalizeAndEncryptEnvVars(rawEnvVars: unknown): Record<string, string>
   try {
     return encryptEnvVars(envVars);
   } catch (error) {
-    throw new AppError('Failed to encrypt environment variables', 500);
+    throw new AppError(`Failed to encrypt ${field}`, 500);
   }
 }
 
+/**
+ * Apply new resource limits to a running container without restarting it
+ */
+async function updateContainerResources(containerId: string, resources: ResourceLimits): Promise<void> {
+  const memory = resources.memoryMb * 1024 * 1024;
+  await docker.getContainer(containerId).update({
+    Memory: memory,
+    NanoCpus: Math.round(resources.cpus * 1e9),
+    // MemorySwap must move with Memory; without a swap override mirror Docker's default of 2x memory
+    MemorySwap: resources.swapMb !== undefined ? memory + resources.swapMb * 1024 * 1024 : memory * 2,
+  });
+}
+
 function maskEnvVars(rawEnvVars: unknown): Record<string, string> | null {
   if (!rawEnvVars || typeof rawEnvVars !== 'object' || Array.isArray(rawEnvVars)) {
     return null;
@@ -68,150 +114,20 @@ function maskEnvVars(rawEnvVars: unknown): Record<string, string> | null {
   return Object.keys(masked).length > 0 ? masked : null;
 }
 
-async function getGitHubAccessToken(userId: string): Promise<string | null> {
-  const user = await prisma.user.findUnique({
-    where: { id: userId },
-    select: { githubAccessToken: true },
-  });
-
-  if (!user?.githubAccessToken) {
-    return null;
-  }
-
-  try {
-    return decrypt(user.githubAccessToken);
-  } catch {
-    return null;
-  }
-}
-
-function getGitHubHeaders(token?: string): Record<string, string> {
-  const headers: Record<string, string> = {
-    Accept: 'application/vnd.github+json',
-    'User-Agent': 'renderlite-api',
-    'X-GitHub-Api-Version': '2022-11-28',
-  };
-
-  if (token) {
-    headers.Authorization = `Bearer ${token}`;
-  }
-
-  return headers;
-}
-
-async function requestGitHub<T>(
-  path: string,
-  token?: string
-): Promise<{ status: number; data: T | null }> {
-  const response = await fetch(`${GITHUB_API_BASE_URL}${path}`, {
-    headers: getGitHubHeaders(token),
-  });
-
-  if (!response.ok) {
-    return { status: response.status, data: null };
-  }
-
-  const data = (await response.json()) as T;
-  return { status: response.status, data };
+function maskSecret(value: string | null): string | null {
+  return value ? '********' : null;
 }
 
-function parseGitHubRepoUrl(rawRepoUrl: string): {
-  owner: string;
-  repo: string;
-  normalizedUrl: string;
-} {
-  let url: URL;
-  try {
-    url = new URL(rawRepoUrl.trim());
-  } catch {
-    throw new AppError('Invalid GitHub repository URL', 400);
-  }
-
-  const host = url.hostname.toLowerCase();
-  if (host !== 'github.com' && host !== 'www.github.com') {
-    throw new AppError('Repository must be hosted on github.com', 400);
-  }
-
-  const parts = url.pathname
-    .replace(/\/+$/, '')
-    .replace(/\.git$/i, '')
-    .split('/')
-    .filter(Boolean);
-
-  if (parts.length !== 2) {
-    throw new AppError('Repository URL must look like https://github.com/<owner>/<repo>', 400);
-  }
-
-  const [owner, repo] = parts;
-
-  if (!owner || !repo) {
-    throw new AppError('Invalid GitHub repository URL', 400);
-  }
-
-  return {
-    owner,
-    repo,
-    normalizedUrl: `https://github.com/${owner}/${repo}`,
-  };
-}
-
-async function verifyGitHubRepository(
-  owner: string,
-  repo: string,
-  githubToken: string | null
-): Promise<GitHubRepository> {
-  const lookup = await requestGitHub<GitHubRepository>(
-    `/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`,
-    githubToken ?? undefined
-  );
-
-  if (lookup.data) {
-    return lookup.data;
-  }
-
-  if (lookup.status === 404) {
-    throw new AppError(
-      githubToken
-        ? 'Repository not found or not accessible with your GitHub account'
-        : 'Repository not found. Sign in with GitHub again for private repositories.',
-      400
-    );
-  }
-
-  if (lookup.status === 401 || lookup.status === 403) {
-    throw new AppError(
-      'GitHub access token is unavailable or lacks permission. Sign in with GitHub again.',
-      400
-    );
-  }
-
-  throw new AppError('Failed to verify repository with GitHub. Please try again.', 502);
-}
-
-async function verifyGitHubBranchExists(
-  owner: string,
-  repo: string,
-  branch: string,
-  githubToken: string | null
-): Promise<void> {
-  const lookup = await requestGitHub<Record<string, unknown>>(
-    `/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/branches/${encodeURIComponent(branch)}`,
-    githubToken ?? undefined
-  );
-
-  if (lookup.data) {
-    return;
-  }
-
-  if (lookup.status === 404) {
-    throw new AppError(`Branch "${branch}" was not found in the selected repository`, 400);
-  }
-
-  if (lookup.status === 401 || lookup.status === 403) {
-    throw new AppError('Unable to verify branch with GitHub. Please sign in again and retry.', 400);
+/**
+ * Where the git provider should send push / pull request events; null for
+ * services that don't take webhooks
+ */
+function getWebhookUrl(service: { id: string; gitProvider: string; webhookSecret: string | null }): string | null {
+  if (!service.webhookSecret) {
+    return null;
   }
-
-  throw new AppError('Failed to verify branch with GitHub. Please try again.', 502);
+  const apiUrl = process.env.API_URL || 'http://localhost:3001';
+  return `${apiUrl}/api/webhooks/${service.gitProvider.toLowerCase()}/${service.id}`;
 }
 
 serviceRouter.use(authenticate);
@@ -243,6 +159,12 @@ serviceRouter.get('/', async (req: AuthRequest, res, next) => {
       services.map((service: any) => ({
         ...service,
         envVars: maskEnvVars(service.envVars),
+        buildArgs: maskEnvVars(service.buildArgs),
+        buildSecrets: maskEnvVars(service.buildSecrets),
+        previewEnvVars: maskEnvVars(service.previewEnvVars),
+        gitAccessToken: maskSecret(service.gitAccessToken),
+        registryPassword: maskSecret(service.registryPassword),
+        deployKeyPrivate: undefined,
       }))
     );
   } catch (error) {
@@ -347,15 +269,16 @@ serviceRouter.get('/:id', async (req: AuthRequest, res, next) => {
       throw new AppError('Service not found', 404);
     }
 
-    const apiUrl = process.env.API_URL || 'http://localhost:3001';
-    const webhookUrl = service.webhookSecret
-      ? `${apiUrl}/api/webhooks/github/${service.id}`
-      : null;
-
     res.json({
       ...service,
       envVars: maskEnvVars(service.envVars),
-      webhookUrl,
+      buildArgs: maskEnvVars(service.buildArgs),
+      buildSecrets: maskEnvVars(service.buildSecrets),
+      previewEnvVars: maskEnvVars(service.previewEnvVars),
+      gitAccessToken: maskSecret(service.gitAccessToken),
+      registryPassword: maskSecret(service.registryPassword),
+      deployKeyPrivate: undefined,
+      webhookUrl: getWebhookUrl(service),
     });
   } catch (error) {
     next(error);
@@ -368,17 +291,35 @@ serviceRouter.post('/', async (req: AuthRequest, res, next) => {
     const {
       name,
       projectId,
-      repoUrl,
-      branch,
+      sourceType,
       runtime,
+      rootDirectory,
+      dockerfilePath,
+      dockerTarget,
+      watchPaths,
       envVars,
+      buildArgs,
+      buildSecrets,
+      port,
+      plan,
+      memoryLimitMb,
+      cpuLimit,
+      swapLimitMb,
+      replicas,
       healthCheckPath,
       healthCheckInterval,
       healthCheckTimeout,
+      releaseCommand,
+      deployStrategy,
+      canarySteps,
+      canaryStepInterval,
+      supersedePolicy,
+      previewsEnabled,
+      previewEnvVars,
     } = req.body;
 
-    if (!name || !projectId || !repoUrl) {
-      throw new AppError('Name, projectId, and repoUrl are required', 400);
+    if (!name || !projectId) {
+      throw new AppError('Name and projectId are required', 400);
     }
 
     const project = await prisma.project.findFirst({
@@ -392,35 +333,82 @@ serviceRouter.post('/', async (req: AuthRequest, res, next) => {
       throw new AppError('Project not found', 404);
     }
 
-    const { owner, repo } = parseGitHubRepoUrl(repoUrl);
-    const githubToken = await getGitHubAccessToken(req.user!.id);
-    const verifiedRepo = await verifyGitHubRepository(owner, repo, githubToken);
-
-    const selectedBranch = typeof branch === 'string' ? branch.trim() : '';
-    if (selectedBranch) {
-      await verifyGitHubBranchExists(owner, repo, selectedBranch, githubToken);
-    }
-    const finalBranch = selectedBranch || verifiedRepo.default_branch || 'main';
+    const type = req.body.type !== undefined ? validateServiceType(req.body.type) : ServiceType.WEB;
+    const cronFields = normalizeCronSettings(type, req.body, CRON_DEFAULTS);
+
+    const source = sourceType !== undefined ? validateServiceSource(sourceType) : ServiceSource.GIT;
+    const sourceFields =
+      source === ServiceSource.IMAGE ? resolveImageSource(req.body) : await resolveGitSource(req.body, req.user!.id);
+
+    const resourceFields = {
+      plan: plan !== undefined ? validatePlan(plan) : InstancePlan.STARTER,
+      memoryLimitMb: normalizeResourceOverride(memoryLimitMb, 'memoryLimitMb', true),
+      cpuLimit: normalizeResourceOverride(cpuLimit, 'cpuLimit', false),
+      swapLimitMb: normalizeResourceOverride(swapLimitMb, 'swapLimitMb', true),
+    };
+    const autoscaling = normalizeAutoscaling(req.body, AUTOSCALING_DEFAULTS);
+    const replicaCount = clampReplicas(replicas !== undefined ? validateReplicas(replicas) : 1, autoscaling);
+    validateServiceTypeSettings(type, {
+      replicas: replicaCount,
+      autoscaleEnabled: autoscaling.autoscaleEnabled,
+      previewsEnabled: previewsEnabled === true,
+      deployStrategy: deployStrategy ?? DeploymentStrategy.STANDARD,
+      healthCheckPath: healthCheckPath || null,
+    });
+    await validateServiceResources(
+      projectId,
+      null,
+      resolveServiceResources(resourceFields),
+      reservedReplicas({ ...autoscaling, replicas: replicaCount })
+    );
 
     const subdomain = await generateSubdomain(name);
-    const webhookSecret = crypto.randomBytes(32).toString('hex');
 
     const encryptedEnvVars =
       envVars !== undefined ? normalizeAndEncryptEnvVars(envVars) : null;
+    const encryptedBuildArgs =
+      buildArgs !== undefined ? normalizeAndEncryptEnvVars(buildArgs, 'buildArgs') : null;
+    const encryptedBuildSecrets =
+      buildSecrets !== undefined ? normalizeAndEncryptEnvVars(buildSecrets, 'buildSecrets') : null;
+    const encryptedPreviewEnvVars =
+      previewEnvVars !== undefined ? normalizeAndEncryptEnvVars(previewEnvVars, 'previewEnvVars') : null;
 
     const service = await prisma.service.create({
       data: {
         name: name.trim(),
         projectId,
-        repoUrl: verifiedRepo.html_url.replace(/\/+$/, ''),
-        branch: finalBranch,
+        type,
+        ...cronFields,
+        ...sourceFields,
         runtime: runtime || null,
+        rootDirectory: normalizeRepoPath(rootDirectory, 'rootDirectory'),
+        dockerfilePath: normalizeRepoPath(dockerfilePath, 'dockerfilePath'),
+        dockerTarget: normalizeDockerTarget(dockerTarget),
+        watchPaths: normalizeWatchPaths(watchPaths),
         subdomain,
         envVars: encryptedEnvVars as any,
-        webhookSecret,
+        buildArgs: encryptedBuildArgs as any,
+        buildSecrets: encryptedBuildSecrets as any,
+        previewEnvVars: encryptedPreviewEnvVars as any,
+        ...(previewsEnabled !== undefined && { previewsEnabled: validatePreviewsEnabled(previewsEnabled) }),
+        port: normalizePort(port),
+        ...resourceFields,
+        replicas: replicaCount,
+        ...autoscaling,
         healthCheckPath: healthCheckPath || null,
         healthCheckInterval: healthCheckInterval ?? 30,
         healthCheckTimeout: healthCheckTimeout ?? 5,
+        releaseCommand: normalizeReleaseCommand(releaseCommand),
+        ...(deployStrategy !== undefined && {
+          deployStrategy: validateDeployStrategy(deployStrategy),
+        }),
+        ...(canarySteps !== undefined && { canarySteps: validateCanarySteps(canarySteps) }),
+        ...(canaryStepInterval !== undefined && {
+          canaryStepInterval: validateCanaryStepInterval(canaryStepInterval),
+        }),
+        ...(supersedePolicy !== undefined && {
+          supersedePolicy: validateSupersedePolicy(supersedePolicy),
+        }),
       },
       include: {
         project: {
@@ -429,12 +417,16 @@ serviceRouter.post('/', async (req: AuthRequest, res, next) => {
       },
     });
 
-    const apiUrl = process.env.API_URL || 'http://localhost:3001';
-
     res.status(201).json({
       ...service,
       envVars: maskEnvVars(service.envVars),
-      webhookUrl: `${apiUrl}/api/webhooks/github/${service.id}`,
+      buildArgs: maskEnvVars(service.buildArgs),
+      buildSecrets: maskEnvVars(service.buildSecrets),
+      previewEnvVars: maskEnvVars(service.previewEnvVars),
+      gitAccessToken: maskSecret(service.gitAccessToken),
+      registryPassword: maskSecret(service.registryPassword),
+      deployKeyPrivate: undefined,
+      webhookUrl: getWebhookUrl(service),
     });
   } catch (error) {
     next(error);
@@ -448,10 +440,33 @@ serviceRouter.put('/:id', async (req: AuthRequest, res, next) => {
       name,
       branch,
       runtime,
+      rootDirectory,
+      dockerfilePath,
+      dockerTarget,
+      watchPaths,
       envVars,
+      buildArgs,
+      buildSecrets,
+      port,
+      plan,
+      memoryLimitMb,
+      cpuLimit,
+      swapLimitMb,
+      replicas,
       healthCheckPath,
       healthCheckInterval,
       healthCheckTimeout,
+      releaseCommand,
+      deployStrategy,
+      canarySteps,
+      canaryStepInterval,
+      supersedePolicy,
+      previewsEnabled,
+      previewEnvVars,
+      gitAccessToken,
+      imageRef,
+      registryUsername,
+      registryPassword,
     } = req.body;
 
     const existing = await prisma.service.findFirst({
@@ -467,8 +482,69 @@ serviceRouter.put('/:id', async (req: AuthRequest, res, next) => {
       throw new AppError('Service not found', 404);
     }
 
+    if (req.body.type !== undefined && req.body.type !== existing.type) {
+      throw new AppError('A service type cannot be changed; create a new service instead', 400);
+    }
+    const cronFields = normalizeCronSettings(existing.type as ServiceType, req.body, existing);
+
+    const resourcesChanged = [plan, memoryLimitMb, cpuLimit, swapLimitMb].some(
+      (value) => value !== undefined
+    );
+    const autoscalingChanged = [
+      'autoscaleEnabled',
+      'minReplicas',
+      'maxReplicas',
+      'scaleCpuPercent',
+      'scaleMemoryPercent',
+      'scaleCooldownSeconds',
+    ].some((field) => req.body[field] !== undefined);
+    const autoscaling = normalizeAutoscaling(req.body, existing);
+    const requestedReplicas = replicas !== undefined ? validateReplicas(replicas) : existing.replicas;
+    const replicaCount = clampReplicas(requestedReplicas, autoscaling);
+    const replicasChanged = replicaCount !== existing.replicas;
+    validateServiceTypeSettings(existing.type as ServiceType, {
+      replicas: replicaCount,
+      autoscaleEnabled: autoscaling.autoscaleEnabled,
+      previewsEnabled: previewsEnabled ?? existing.previewsEnabled,
+      deployStrategy: deployStrategy ?? existing.deployStrategy,
+      healthCheckPath: (healthCheckPath !== undefined ? healthCheckPath : existing.healthCheckPath) || null,
+    });
+    const resourceFields = {
+      plan: plan !== undefined ? validatePlan(plan) : existing.plan,
+      memoryLimitMb:
+        memoryLimitMb !== undefined
+          ? normalizeResourceOverride(memoryLimitMb, 'memoryLimitMb', true)
+          : existing.memoryLimitMb,
+      cpuLimit:
+        cpuLimit !== undefined ? normalizeResourceOverride(cpuLimit, 'cpuLimit', false) : existing.cpuLimit,
+      swapLimitMb:
+        swapLimitMb !== undefined
+          ? normalizeResourceOverride(swapLimitMb, 'swapLimitMb', true)
+          : existing.swapLimitMb,
+    };
+    const resources = resolveServiceResources(resourceFields);
+    if (resourcesChanged || replicasChanged || autoscalingChanged) {
+      await validateServiceResources(
+        existing.projectId,
+        existing.id,
+        resources,
+        reservedReplicas({ ...autoscaling, replicas: replicaCount })
+      );
+    }
+
     const encryptedEnvVars =
       envVars !== undefined ? normalizeAndEncryptEnvVars(envVars) : undefined;
+    const encryptedBuildArgs =
+      buildArgs !== undefined ? normalizeAndEncryptEnvVars(buildArgs, 'buildArgs') : undefined;
+    const encryptedBuildSecrets =
+      buildSecrets !== undefined ? normalizeAndEncryptEnvVars(buildSecrets, 'buildSecrets') : undefined;
+    const encryptedPreviewEnvVars =
+      previewEnvVars !== undefined ? normalizeAndEncryptEnvVars(previewEnvVars, 'previewEnvVars') : undefined;
+    const serviceGitToken = gitAccessToken !== undefined ? normalizeGitAccessToken(gitAccessToken) : undefined;
+    const imageSourceChanged = [imageRef, registryUsername, registryPassword].some((value) => value !== undefined);
+    if (imageSourceChanged && existing.sourceType !== ServiceSource.IMAGE) {
+      throw new AppError('imageRef and registry credentials only apply to image services', 400);
+    }
 
     const service = await prisma.service.update({
       where: { id: req.params.id },
@@ -476,10 +552,46 @@ serviceRouter.put('/:id', async (req: AuthRequest, res, next) => {
         ...(name && { name: name.trim() }),
         ...(branch && { branch }),
         ...(runtime !== undefined && { runtime }),
+        ...(rootDirectory !== undefined && {
+          rootDirectory: normalizeRepoPath(rootDirectory, 'rootDirectory'),
+        }),
+        ...(dockerfilePath !== undefined && {
+          dockerfilePath: normalizeRepoPath(dockerfilePath, 'dockerfilePath'),
+        }),
+        ...(dockerTarget !== undefined && { dockerTarget: normalizeDockerTarget(dockerTarget) }),
+        ...(watchPaths !== undefined && { watchPaths: normalizeWatchPaths(watchPaths) }),
         ...(envVars !== undefined && { envVars: encryptedEnvVars }),
+        ...(buildArgs !== undefined && { buildArgs: encryptedBuildArgs }),
+        ...(buildSecrets !== undefined && { buildSecrets: encryptedBuildSecrets }),
+        ...(previewEnvVars !== undefined && { previewEnvVars: encryptedPreviewEnvVars }),
+        ...(port !== undefined && { port: normalizePort(port) }),
+        ...(resourcesChanged && resourceFields),
+        ...(replicasChanged && { replicas: replicaCount, lastScaledAt: new Date() }),
+        ...(autoscalingChanged && autoscaling),
         ...(healthCheckPath !== undefined && { healthCheckPath }),
         ...(healthCheckInterval !== undefined && { healthCheckInterval }),
         ...(healthCheckTimeout !== undefined && { healthCheckTimeout }),
+        ...(releaseCommand !== undefined && {
+          releaseCommand: normalizeReleaseCommand(releaseCommand),
+        }),
+        ...cronFields,
+        ...(deployStrategy !== undefined && {
+          deployStrategy: validateDeployStrategy(deployStrategy),
+        }),
+        ...(canarySteps !== undefined && { canarySteps: validateCanarySteps(canarySteps) }),
+        ...(canaryStepInterval !== undefined && {
+          canaryStepInterval: validateCanaryStepInterval(canaryStepInterval),
+        }),
+        ...(supersedePolicy !== undefined && {
+          supersedePolicy: validateSupersedePolicy(supersedePolicy),
+        }),
+        ...(previewsEnabled !== undefined && { previewsEnabled: validatePreviewsEnabled(previewsEnabled) }),
+        ...(serviceGitToken !== undefined && {
+          gitAccessToken: serviceGitToken ? encrypt(serviceGitToken) : null,
+        }),
+        ...(imageRef !== undefined && { imageRef: normalizeImageRef(imageRef) }),
+        ...(registryUsername !== undefined && { registryUsername: normalizeRegistryUsername(registryUsername) }),
+        ...(registryPassword !== undefined && { registryPassword: normalizeRegistryPassword(registryPassword) }),
       },
       include: {
         project: {
@@ -488,10 +600,319 @@ serviceRouter.put('/:id', async (req: AuthRequest, res, next) => {
       },
     });
 
+    // New limits take effect right away on the running containers; otherwise on next deploy
+    let resourcesApplied = false;
+    if (resourcesChanged && service.containerIds.length > 0) {
+      try {
+        for (const containerId of service.containerIds) {
+          await updateContainerResources(containerId, resources);
+        }
+        resourcesApplied = true;
+      } catch (error) {
+        console.error(`Failed to update resources for service ${service.id}:`, error);
+      }
+    }
+
+    if (replicasChanged) {
+      await prisma.scalingEvent.create({
+        data: {
+          serviceId: service.id,
+          fromReplicas: existing.replicas,
+          toReplicas: replicaCount,
+          automatic: false,
+          reason:
+            replicaCount === requestedReplicas
+              ? 'Changed in service settings'
+              : `Brought within the autoscaling range (${autoscaling.minReplicas}-${autoscaling.maxReplicas})`,
+        },
+      });
+    }
+
+    // A running service is scaled by the worker now; otherwise the next deploy starts every replica
+    if (replicasChanged && service.containerIds.length > 0) {
+      try {
+        await scaleQueue.add(`scale-${service.id}`, { serviceId: service.id });
+      } catch (error) {
+        console.error(`Failed to enqueue scale job for service ${service.id}:`, error);
+      }
+    }
+
     res.json({
       ...service,
       envVars: maskEnvVars(service.envVars),
+      buildArgs: maskEnvVars(service.buildArgs),
+      buildSecrets: maskEnvVars(service.buildSecrets),
+      previewEnvVars: maskEnvVars(service.previewEnvVars),
+      gitAccessToken: maskSecret(service.gitAccessToken),
+      registryPassword: maskSecret(service.registryPassword),
+      deployKeyPrivate: undefined,
+      ...(resourcesChanged && { resourcesApplied }),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// List recent scaling events for a service
+serviceRouter.get('/:id/scaling-events', async (req: AuthRequest, res, next) => {
+  try {
+    const service = await prisma.service.findFirst({
+      where: {
+        id: req.params.id,
+        project: {
+          userId: req.user!.id,
+        },
+      },
+      select: { id: true },
+    });
+
+    if (!service) {
+      throw new AppError('Service not found', 404);
+    }
+
+    const events = await prisma.scalingEvent.findMany({
+      where: { serviceId: service.id },
+      orderBy: { createdAt: 'desc' },
+      take: 50,
+    });
+
+    res.json(events);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// List recent runs of a cron service, newest first; their output is left out
+serviceRouter.get('/:id/runs', async (req: AuthRequest, res, next) => {
+  try {
+    const service = await prisma.service.findFirst({
+      where: {
+        id: req.params.id,
+        project: {
+          userId: req.user!.id,
+        },
+      },
+      select: { id: true },
+    });
+
+    if (!service) {
+      throw new AppError('Service not found', 404);
+    }
+
+    const runs = await prisma.jobRun.findMany({
+      where: { serviceId: service.id },
+      orderBy: { startedAt: 'desc' },
+      take: 50,
+      omit: { logs: true },
+    });
+
+    res.json(runs);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// One run of a cron service, with its output
+serviceRouter.get('/:id/runs/:runId', async (req: AuthRequest, res, next) => {
+  try {
+    const run = await prisma.jobRun.findFirst({
+      where: {
+        id: req.params.runId,
+        serviceId: req.params.id,
+        service: {
+          project: {
+            userId: req.user!.id,
+          },
+        },
+      },
+    });
+
+    if (!run) {
+      throw new AppError('Run not found', 404);
+    }
+
+    res.json(run);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Environment variables in plain text, unlike the masked ones in service responses
+serviceRouter.get('/:id/env', async (req: AuthRequest, res, next) => {
+  try {
+    const service = await prisma.service.findFirst({
+      where: {
+        id: req.params.id,
+        project: {
+          userId: req.user!.id,
+        },
+      },
+      select: { envVars: true },
     });
+
+    if (!service) {
+      throw new AppError('Service not found', 404);
+    }
+
+    res.json(service.envVars ? decryptEnvVars(service.envVars as Record<string, string>) : {});
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Set and remove individual environment variables, keeping the others. Like any
+// settings change, they apply from the next deployment.
+serviceRouter.patch('/:id/env', async (req: AuthRequest, res, next) => {
+  try {
+    const { set = {}, unset = [] } = req.body;
+
+    if (typeof set !== 'object' || set === null || Array.isArray(set)) {
+      throw new AppError('set must be a key-value object', 400);
+    }
+    if (!Array.isArray(unset) || unset.some((key) => typeof key !== 'string')) {
+      throw new AppError('unset must be an array of variable names', 400);
+    }
+
+    const existing = await prisma.service.findFirst({
+      where: {
+        id: req.params.id,
+        project: {
+          userId: req.user!.id,
+        },
+      },
+      select: { id: true, envVars: true },
+    });
+
+    if (!existing) {
+      throw new AppError('Service not found', 404);
+    }
+
+    const envVars: Record<string, unknown> = {
+      ...(existing.envVars ? decryptEnvVars(existing.envVars as Record<string, string>) : {}),
+      ...set,
+    };
+    for (const key of unset as string[]) {
+      delete envVars[key];
+    }
+
+    const service = await prisma.service.update({
+      where: { id: existing.id },
+      data: { envVars: normalizeAndEncryptEnvVars(envVars) as any },
+      select: { envVars: true },
+    });
+
+    res.json({ envVars: maskEnvVars(service.envVars) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Runtime output of the service's containers as plain text; ?follow=true keeps the
+// response open and streams new lines until the client disconnects
+serviceRouter.get('/:id/logs', async (req: AuthRequest, res, next) => {
+  try {
+    const service = await prisma.service.findFirst({
+      where: {
+        id: req.params.id,
+        project: {
+          userId: req.user!.id,
+        },
+      },
+      select: { id: true, containerIds: true },
+    });
+
+    if (!service) {
+      throw new AppError('Service not found', 404);
+    }
+
+    const tail = req.query.tail === undefined ? 100 : Number(req.query.tail);
+    if (!Number.isInteger(tail) || tail < 0 || tail > 10_000) {
+      throw new AppError('tail must be a whole number between 0 and 10000', 400);
+    }
+
+    if (service.containerIds.length === 0) {
+      throw new AppError('Service has no running containers', 409);
+    }
+
+    const controller = new AbortController();
+    req.on('close', () => controller.abort());
+
+    res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.flushHeaders();
+
+    await streamContainerLogs(
+      service.containerIds,
+      { tail, follow: req.query.follow === 'true', signal: controller.signal },
+      (line) => res.write(`${line}\n`)
+    );
+    res.end();
+  } catch (error) {
+    if (res.headersSent) {
+      console.error('Failed to stream service logs:', error);
+      return res.end();
+    }
+    next(error);
+  }
+});
+
+// Generate the service's SSH deploy key, replacing any existing one. Once it has a
+// key the service clones over SSH, so the key must be added to the repository.
+serviceRouter.post('/:id/deploy-key', async (req: AuthRequest, res, next) => {
+  try {
+    const existing = await prisma.service.findFirst({
+      where: {
+        id: req.params.id,
+        project: {
+          userId: req.user!.id,
+        },
+      },
+      select: { id: true, subdomain: true, sourceType: true },
+    });
+
+    if (!existing) {
+      throw new AppError('Service not found', 404);
+    }
+
+    if (existing.sourceType !== ServiceSource.GIT) {
+      throw new AppError('Deploy keys only apply to services deployed from a git repository', 400);
+    }
+
+    const { publicKey, privateKey } = generateDeployKey(`renderlite-${existing.subdomain}`);
+    await prisma.service.update({
+      where: { id: existing.id },
+      data: { deployKeyPublic: publicKey, deployKeyPrivate: encrypt(privateKey) },
+    });
+
+    res.status(201).json({ deployKeyPublic: publicKey });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Remove the deploy key; the service goes back to cloning over HTTPS
+serviceRouter.delete('/:id/deploy-key', async (req: AuthRequest, res, next) => {
+  try {
+    const existing = await prisma.service.findFirst({
+      where: {
+        id: req.params.id,
+        project: {
+          userId: req.user!.id,
+        },
+      },
+      select: { id: true },
+    });
+
+    if (!existing) {
+      throw new AppError('Service not found', 404);
+    }
+
+    await prisma.service.update({
+      where: { id: existing.id },
+      data: { deployKeyPublic: null, deployKeyPrivate: null },
+    });
+
+    res.status(204).send();
   } catch (error) {
     next(error);
   }
@@ -513,27 +934,35 @@ serviceRouter.delete('/:id', async (req: AuthRequest, res, next) => {
       throw new AppError('Service not found', 404);
     }
 
-    if (existing.containerId) {
-      try {
-        const container = docker.getContainer(existing.containerId);
-        try {
-          await container.stop({ t: 10 });
-        } catch (stopError: any) {
-          if (!stopError?.statusCode || stopError.statusCode !== 304) {
-            throw stopError;
-          }
-        }
-        await container.remove({ force: true });
-      } catch (dockerError: any) {
-        if (dockerError?.statusCode !== 404) {
-          throw dockerError;
+    // Previews are deleted with their service, so take their containers down first
+    const previews = await prisma.service.findMany({
+      where: { parentServiceId: existing.id },
+      select: { id: true, containerIds: true, subdomain: true },
+    });
+    for (const preview of previews) {
+      await teardownPreview(preview);
+    }
+    await removeContainers(existing.containerIds);
+    try {
+      if (existing.type === ServiceType.CRON) {
+        await cronQueue.removeJobScheduler(REDIS_KEYS.CRON_SCHEDULER(existing.id));
+      }
+      // Cron jobs its renderlite.yaml scheduled
+      const blueprintPrefix = REDIS_KEYS.BLUEPRINT_CRON_SCHEDULER(existing.id, '');
+      for (const scheduler of await cronQueue.getJobSchedulers()) {
+        if (scheduler.key.startsWith(blueprintPrefix)) {
+          await cronQueue.removeJobScheduler(scheduler.key);
         }
       }
+    } catch (error) {
+      // The worker drops the schedule itself at the next run
+      console.error(`Failed to remove cron schedules of service ${existing.id}:`, error);
     }
 
     await prisma.service.delete({
       where: { id: req.params.id },
     });
+    await removeServiceRoutes(existing.id, existing.subdomain);
 
     res.status(204).send();
   } catch (error) {
@@ -1,43 +1,142 @@
 import { Router, Request, Response } from 'express';
-import crypto from 'crypto';
 import { prisma } from '../lib/prisma.js';
 import { buildQueue } from '../lib/queue.js';
-import { DeploymentStatus, ServiceStatus } from '@renderlite/shared';
-import type { DeploymentJobData } from '@renderlite/shared';
-import { decryptEnvVars, decrypt } from '../utils/encryption.js';
+import type { Deployment, Service } from '@prisma/client';
+import { DeploymentStatus, GitProvider, ServiceStatus } from '@renderlite/shared';
+import { AppError } from '../middleware/errorHandler.js';
+import { getGitProvider } from '../git/index.js';
+import type { PullRequestEvent } from '../git/index.js';
+import { buildDeploymentJobData } from '../utils/deploymentJob.js';
+import { syncPreviewService, teardownPreview } from '../utils/previews.js';
+import { getEffectiveWatchPaths, pushMatchesWatchPaths } from '../utils/watchPaths.js';
+import { supersedeDeployments } from '../utils/supersede.js';
 import type { SocketHandlers } from '../socket/index.js';
 
 export const webhookRouter = Router();
 
-function verifyGitHubSignature(
-  payload: Buffer,
-  signature: string | undefined,
-  secret: string
-): boolean {
-  if (!signature) return false;
+/**
+ * Queue a deployment of a service at the given ref. Returns null, with the
+ * deployment marked FAILED, if the job couldn't be queued.
+ */
+async function queueDeployment(
+  req: Request,
+  service: Service,
+  ref: string,
+  commitSha: string | undefined,
+  userId: string
+): Promise<Deployment | null> {
+  const previousServiceStatus = service.status;
+
+  const deployment = await prisma.deployment.create({
+    data: {
+      serviceId: service.id,
+      status: DeploymentStatus.QUEUED,
+      ref,
+      commitSha: commitSha?.substring(0, 40) || null,
+      strategy: service.deployStrategy,
+      previousServiceStatus,
+    },
+  });
+
+  await prisma.service.update({
+    where: { id: service.id },
+    data: { status: ServiceStatus.DEPLOYING },
+  });
+
+  const jobData = await buildDeploymentJobData(service, deployment, userId);
+
+  try {
+    await buildQueue.add(`deploy-${deployment.id}`, jobData, {
+      jobId: deployment.id,
+    });
+  } catch (error) {
+    const queueError = error instanceof Error ? error.message : 'Unknown queue error';
+    await prisma.$transaction([
+      prisma.deployment.update({
+        where: { id: deployment.id },
+        data: {
+          status: DeploymentStatus.FAILED,
+          logs: `Failed to enqueue deployment job: ${queueError}`,
+          finishedAt: new Date(),
+        },
+      }),
+      prisma.service.update({
+        where: { id: service.id },
+        data: { status: previousServiceStatus },
+      }),
+    ]);
+    return null;
+  }
+
+  const socketHandlers = req.app.get('socketHandlers') as SocketHandlers | undefined;
+  socketHandlers?.emitDeploymentStatus(deployment.id, DeploymentStatus.QUEUED);
+  socketHandlers?.emitServiceStatus(service.id, ServiceStatus.DEPLOYING);
+  await supersedeDeployments(service, deployment, socketHandlers);
 
-  const expected = 'sha256=' +
-    crypto.createHmac('sha256', secret).update(payload).digest('hex');
+  return deployment;
+}
+
+/**
+ * Pull request events drive preview environments: opening, reopening or pushing to a
+ * pull request against the service's branch deploys its preview, closing or merging
+ * it removes the preview. Pull requests from forks are ignored, since previews run
+ * with the service's env vars and secrets.
+ */
+async function handlePullRequest(
+  req: Request,
+  res: Response,
+  service: Service & { project: { userId: string } },
+  pullRequest: PullRequestEvent
+) {
+  const { action, number } = pullRequest;
+
+  if (action === 'close') {
+    const preview = await prisma.service.findUnique({
+      where: {
+        parentServiceId_pullRequestNumber: { parentServiceId: service.id, pullRequestNumber: number },
+      },
+    });
+    if (!preview) {
+      return res.status(204).send();
+    }
+    await teardownPreview(preview);
+    return res.status(200).json({ message: 'Preview removed', serviceId: preview.id });
+  }
+
+  if (!service.previewsEnabled || pullRequest.fromFork || pullRequest.baseBranch !== service.branch) {
+    return res.status(204).send();
+  }
 
+  let preview: Service;
   try {
-    return crypto.timingSafeEqual(
-      Buffer.from(signature),
-      Buffer.from(expected)
-    );
-  } catch {
-    return false;
+    preview = await syncPreviewService(service, pullRequest);
+  } catch (error) {
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    throw error;
+  }
+
+  const { headSha } = pullRequest;
+  const deployment = await queueDeployment(req, preview, headSha, headSha, service.project.userId);
+  if (!deployment) {
+    return res.status(503).json({ error: 'Deployment queue is unavailable' });
   }
+
+  res.status(200).json({
+    message: 'Preview deployment triggered',
+    serviceId: preview.id,
+    deploymentId: deployment.id,
+  });
 }
 
 /**
- * GitHub webhook endpoint -- public (no JWT auth).
- * Expects raw body for HMAC signature verification.
+ * Git provider webhook endpoint -- public (no JWT auth), e.g. /github/:serviceId.
+ * Expects raw body for signature verification, which depends on the provider.
  */
-webhookRouter.post('/github/:serviceId', async (req: Request, res: Response) => {
+webhookRouter.post('/:provider/:serviceId', async (req: Request, res: Response) => {
   try {
-    const { serviceId } = req.params;
-    const signature = req.headers['x-hub-signature-256'] as string | undefined;
-    const event = req.headers['x-github-event'] as string | undefined;
+    const { provider: providerName, serviceId } = req.params;
 
     const service = await prisma.service.findUnique({
       where: { id: serviceId },
@@ -48,7 +147,12 @@ webhookRouter.post('/github/:serviceId', async (req: Request, res: Response) =>
       },
     });
 
-    if (!service || !service.webhookSecret) {
+    if (!service || !service.webhookSecret || service.gitProvider.toLowerCase() !== providerName) {
+      return res.status(404).json({ error: 'Service not found' });
+    }
+
+    const webhooks = getGitProvider(service.gitProvider as GitProvider).webhooks;
+    if (!webhooks) {
       return res.status(404).json({ error: 'Service not found' });
     }
 
@@ -57,93 +161,34 @@ webhookRouter.post('/github/:serviceId', async (req: Request, res: Response) =>
       return res.status(400).json({ error: 'Missing request body' });
     }
 
-    if (!verifyGitHubSignature(rawBody, signature, service.webhookSecret)) {
+    if (!webhooks.verify(req.headers, rawBody, service.webhookSecret)) {
       return res.status(401).json({ error: 'Invalid signature' });
     }
 
-    if (event !== 'push') {
+    const event = webhooks.parse(req.headers, JSON.parse(rawBody.toString()));
+    if (!event) {
       return res.status(204).send();
     }
 
-    const payload = JSON.parse(rawBody.toString());
-    const ref: string = payload.ref || '';
-    const branch = ref.replace('refs/heads/', '');
-
-    if (branch !== service.branch) {
-      return res.status(204).send();
+    if (event.type === 'pull_request') {
+      return await handlePullRequest(req, res, service, event);
     }
-    const previousServiceStatus = service.status;
 
-    // Trigger deployment
-    const deployment = await prisma.deployment.create({
-      data: {
-        serviceId: service.id,
-        status: DeploymentStatus.QUEUED,
-        commitSha: payload.after?.substring(0, 40) || null,
-      },
-    });
-
-    await prisma.service.update({
-      where: { id: service.id },
-      data: { status: ServiceStatus.DEPLOYING },
-    });
-
-    let envVars: Record<string, string> | undefined;
-    if (service.envVars) {
-      envVars = decryptEnvVars(service.envVars as Record<string, string>);
+    if (event.branch !== service.branch) {
+      return res.status(204).send();
     }
 
-    let githubToken: string | undefined;
-    const user = await prisma.user.findUnique({
-      where: { id: service.project.userId },
-      select: { githubAccessToken: true },
-    });
-    if (user?.githubAccessToken) {
-      try {
-        githubToken = decrypt(user.githubAccessToken);
-      } catch { /* ignore */ }
+    // Monorepos: only redeploy when the push touched this service's files
+    if (!pushMatchesWatchPaths(event.changedFiles, getEffectiveWatchPaths(service))) {
+      return res.status(204).send();
     }
 
-    const jobData: DeploymentJobData = {
-      deploymentId: deployment.id,
-      serviceId: service.id,
-      repoUrl: service.repoUrl,
-      branch: service.branch,
-      subdomain: service.subdomain,
-      envVars,
-      githubToken,
-      healthCheckPath: service.healthCheckPath ?? undefined,
-      healthCheckInterval: service.healthCheckInterval,
-      healthCheckTimeout: service.healthCheckTimeout,
-    };
-
-    try {
-      await buildQueue.add(`deploy-${deployment.id}`, jobData, {
-        jobId: deployment.id,
-      });
-    } catch (error) {
-      const queueError = error instanceof Error ? error.message : 'Unknown queue error';
-      await prisma.$transaction([
-        prisma.deployment.update({
-          where: { id: deployment.id },
-          data: {
-            status: DeploymentStatus.FAILED,
-            logs: `Failed to enqueue deployment job: ${queueError}`,
-            finishedAt: new Date(),
-          },
-        }),
-        prisma.service.update({
-          where: { id: service.id },
-          data: { status: previousServiceStatus },
-        }),
-      ]);
+    // Trigger deployment
+    const deployment = await queueDeployment(req, service, service.branch, event.commitSha, service.project.userId);
+    if (!deployment) {
       return res.status(503).json({ error: 'Deployment queue is unavailable' });
     }
 
-    const socketHandlers = req.app.get('socketHandlers') as SocketHandlers | undefined;
-    socketHandlers?.emitDeploymentStatus(deployment.id, DeploymentStatus.QUEUED);
-    socketHandlers?.emitServiceStatus(service.id, ServiceStatus.DEPLOYING);
-
     res.status(200).json({
       message: 'Deployment triggered',
       deploymentId: deployment.id,
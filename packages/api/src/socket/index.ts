@@ -1,6 +1,5 @@
 import { Server, Socket } from 'socket.io';
 import jwt from 'jsonwebtoken';
-import Docker from 'dockerode';
 import {
   REDIS_CHANNELS,
   ServiceStatus,
@@ -9,12 +8,12 @@ import {
 } from '@renderlite/shared';
 import { prisma } from '../lib/prisma.js';
 import { redis } from '../lib/redis.js';
+import { getServiceMetrics } from '../utils/containerStats.js';
 
 interface AuthenticatedSocket extends Socket {
   userId?: string;
 }
 
-const docker = new Docker({ socketPath: '/var/run/docker.sock' });
 const METRICS_INTERVAL_MS = 5000;
 
 export function setupSocketHandlers(io: Server) {
@@ -39,55 +38,19 @@ export function setupSocketHandlers(io: Server) {
       try {
         const service = await prisma.service.findUnique({
           where: { id: serviceId },
-          select: { id: true, containerId: true, status: true },
+          select: { id: true, containerIds: true, status: true },
         });
 
-        if (!service || !service.containerId || service.status !== ServiceStatus.RUNNING) {
+        if (!service || service.containerIds.length === 0 || service.status !== ServiceStatus.RUNNING) {
           continue;
         }
 
-        const container = docker.getContainer(service.containerId);
-        const stats = await container.stats({ stream: false });
-
-        const cpuDelta =
-          stats.cpu_stats.cpu_usage.total_usage - stats.precpu_stats.cpu_usage.total_usage;
-        const systemDelta = stats.cpu_stats.system_cpu_usage - stats.precpu_stats.system_cpu_usage;
-        const cpuPercent =
-          systemDelta > 0 ? (cpuDelta / systemDelta) * stats.cpu_stats.online_cpus * 100 : 0;
-
-        const memoryUsage = stats.memory_stats.usage || 0;
-        const memoryLimit = stats.memory_stats.limit || 1;
-        const memoryPercent = (memoryUsage / memoryLimit) * 100;
-
-        let networkRx = 0;
-        let networkTx = 0;
-        if (stats.networks) {
-          for (const iface of Object.values(stats.networks) as any[]) {
-            networkRx += iface.rx_bytes || 0;
-            networkTx += iface.tx_bytes || 0;
-          }
-        }
-
-        const metrics = {
-          cpuPercent: Math.round(cpuPercent * 100) / 100,
-          memoryUsage,
-          memoryLimit,
-          memoryPercent: Math.round(memoryPercent * 100) / 100,
-          networkRx,
-          networkTx,
-          timestamp: new Date().toISOString(),
-        };
+        const { metrics, missingContainerIds } = await getServiceMetrics(service.containerIds);
 
-        io.to(`service:${serviceId}`).emit('service:metrics', {
-          serviceId,
-          metrics,
-          timestamp: new Date().toISOString(),
-        });
-      } catch (error: any) {
-        if (error?.statusCode === 404) {
+        if (!metrics) {
           await prisma.service.update({
             where: { id: serviceId },
-            data: { containerId: null, status: ServiceStatus.STOPPED },
+            data: { containerIds: [], status: ServiceStatus.STOPPED },
           });
           io.to(`service:${serviceId}`).emit('service:status', {
             serviceId,
@@ -97,6 +60,20 @@ export function setupSocketHandlers(io: Server) {
           subscribedServices.delete(serviceId);
           continue;
         }
+
+        if (missingContainerIds.length > 0) {
+          await prisma.service.update({
+            where: { id: serviceId },
+            data: { containerIds: service.containerIds.filter((id) => !missingContainerIds.includes(id)) },
+          });
+        }
+
+        io.to(`service:${serviceId}`).emit('service:metrics', {
+          serviceId,
+          metrics,
+          timestamp: new Date().toISOString(),
+        });
+      } catch (error) {
         console.error(`Failed to emit metrics for service ${serviceId}:`, error);
       }
     }
@@ -111,6 +88,8 @@ export function setupSocketHandlers(io: Server) {
       io.to(`deployment:${event.deploymentId}`).emit('deployment:log', {
         deploymentId: event.deploymentId,
         log: event.log,
+        stream: event.stream,
+        level: event.level,
         timestamp: event.timestamp,
       });
       return;
@@ -120,7 +99,8 @@ export function setupSocketHandlers(io: Server) {
       io.to(`deployment:${event.deploymentId}`).emit('deployment:status', {
         deploymentId: event.deploymentId,
         status: event.status,
-        containerId: event.containerId,
+        containerIds: event.containerIds,
+        steps: event.steps,
         timestamp: event.timestamp,
       });
       return;
@@ -224,11 +204,11 @@ export function setupSocketHandlers(io: Server) {
     },
 
     // Emit deployment status change
-    emitDeploymentStatus: (deploymentId: string, status: string, containerId?: string) => {
+    emitDeploymentStatus: (deploymentId: string, status: string, containerIds?: string[]) => {
       io.to(`deployment:${deploymentId}`).emit('deployment:status', {
         deploymentId,
         status,
-        containerId,
+        containerIds,
         timestamp: new Date().toISOString(),
       });
     },
@@ -0,0 +1,93 @@
+import Docker from 'dockerode';
+
+const docker = new Docker({ socketPath: '/var/run/docker.sock' });
+
+export interface ServiceMetrics {
+  cpuPercent: number;
+  memoryUsage: number;
+  memoryLimit: number;
+  memoryPercent: number;
+  networkRx: number;
+  networkTx: number;
+  replicas: number;
+  timestamp: string;
+}
+
+/**
+ * One-shot stats for a container, or null if it no longer exists
+ */
+async function readContainerStats(containerId: string) {
+  try {
+    const stats = await docker.getContainer(containerId).stats({ stream: false });
+
+    const cpuDelta = stats.cpu_stats.cpu_usage.total_usage - stats.precpu_stats.cpu_usage.total_usage;
+    const systemDelta = stats.cpu_stats.system_cpu_usage - stats.precpu_stats.system_cpu_usage;
+
+    let networkRx = 0;
+    let networkTx = 0;
+    if (stats.networks) {
+      for (const iface of Object.values(stats.networks) as any[]) {
+        networkRx += iface.rx_bytes || 0;
+        networkTx += iface.tx_bytes || 0;
+      }
+    }
+
+    return {
+      cpuPercent: systemDelta > 0 ? (cpuDelta / systemDelta) * stats.cpu_stats.online_cpus * 100 : 0,
+      memoryUsage: stats.memory_stats.usage || 0,
+      memoryLimit: stats.memory_stats.limit || 1,
+      networkRx,
+      networkTx,
+    };
+  } catch (error: any) {
+    if (error?.statusCode === 404) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Combined stats for a service's replica containers: CPU, memory and network are
+ * summed across replicas, so memoryPercent is usage against the total limit.
+ * Also returns the containers that no longer exist so callers can forget them.
+ */
+export async function getServiceMetrics(
+  containerIds: string[]
+): Promise<{ metrics: ServiceMetrics | null; missingContainerIds: string[] }> {
+  const missingContainerIds: string[] = [];
+  const total = { cpuPercent: 0, memoryUsage: 0, memoryLimit: 0, networkRx: 0, networkTx: 0 };
+  let replicas = 0;
+
+  for (const containerId of containerIds) {
+    const stats = await readContainerStats(containerId);
+    if (!stats) {
+      missingContainerIds.push(containerId);
+      continue;
+    }
+    replicas++;
+    total.cpuPercent += stats.cpuPercent;
+    total.memoryUsage += stats.memoryUsage;
+    total.memoryLimit += stats.memoryLimit;
+    total.networkRx += stats.networkRx;
+    total.networkTx += stats.networkTx;
+  }
+
+  if (replicas === 0) {
+    return { metrics: null, missingContainerIds };
+  }
+
+  return {
+    metrics: {
+      cpuPercent: Math.round(total.cpuPercent * 100) / 100,
+      memoryUsage: total.memoryUsage,
+      memoryLimit: total.memoryLimit,
+      memoryPercent: Math.round((total.memoryUsage / total.memoryLimit) * 100 * 100) / 100,
+      networkRx: total.networkRx,
+      networkTx: total.networkTx,
+      replicas,
+      timestamp: new Date().toISOString(),
+    },
+    missingContainerIds,
+  };
+}
@@ -0,0 +1,101 @@
+import { PassThrough, Readable } from 'stream';
+import Docker from 'dockerode';
+import type { RouteCleanupJobData } from '@renderlite/shared';
+import { cleanupQueue } from '../lib/queue.js';
+
+const docker = new Docker({ socketPath: '/var/run/docker.sock' });
+
+/**
+ * Stop and remove a service's containers; ones that are already gone are skipped
+ */
+export async function removeContainers(containerIds: string[]): Promise<void> {
+  for (const containerId of containerIds) {
+    try {
+      const container = docker.getContainer(containerId);
+      try {
+        await container.stop({ t: 10 });
+      } catch (stopError: any) {
+        if (!stopError?.statusCode || stopError.statusCode !== 304) {
+          throw stopError;
+        }
+      }
+      await container.remove({ force: true });
+    } catch (dockerError: any) {
+      if (dockerError?.statusCode !== 404) {
+        throw dockerError;
+      }
+    }
+  }
+}
+
+/**
+ * Have the worker remove a deleted service's Traefik route file. If the job can't be
+ * queued, the worker's orphaned route cleanup removes the file on its next run.
+ */
+export async function removeServiceRoutes(serviceId: string, subdomain: string): Promise<void> {
+  const data: RouteCleanupJobData = { serviceId, subdomain };
+  try {
+    await cleanupQueue.add(`remove-routes-${subdomain}`, data);
+  } catch (error) {
+    console.error(`Failed to enqueue route removal for ${subdomain}:`, error);
+  }
+}
+
+/**
+ * Pass a service's container output to onLine, line by line: the last `tail` lines of
+ * each container, then with follow everything they print until signal aborts. Lines
+ * are prefixed with the container id when there is more than one replica. Containers
+ * that are already gone are skipped.
+ */
+export async function streamContainerLogs(
+  containerIds: string[],
+  options: { tail: number; follow: boolean; signal: AbortSignal },
+  onLine: (line: string, stream: 'stdout' | 'stderr') => void
+): Promise<void> {
+  await Promise.all(
+    containerIds.map(async (containerId) => {
+      const container = docker.getContainer(containerId);
+      let output: NodeJS.ReadableStream;
+      try {
+        output = options.follow
+          ? await container.logs({ follow: true, stdout: true, stderr: true, tail: options.tail })
+          : Readable.from([await container.logs({ follow: false, stdout: true, stderr: true, tail: options.tail })]);
+      } catch (dockerError: any) {
+        if (dockerError?.statusCode === 404) return;
+        throw dockerError;
+      }
+
+      const prefix = containerIds.length > 1 ? `[${containerId.substring(0, 12)}] ` : '';
+      const splitLines = (stream: 'stdout' | 'stderr') => {
+        const lines = new PassThrough();
+        let partial = '';
+        lines.on('data', (chunk: Buffer) => {
+          const parts = (partial + chunk.toString()).split('\n');
+          partial = parts.pop() ?? '';
+          parts.forEach((line) => onLine(prefix + line, stream));
+        });
+        lines.on('end', () => partial && onLine(prefix + partial, stream));
+        return lines;
+      };
+      const stdout = splitLines('stdout');
+      const stderr = splitLines('stderr');
+      docker.modem.demuxStream(output, stdout, stderr);
+
+      await new Promise<void>((resolve) => {
+        const finish = () => {
+          options.signal.removeEventListener('abort', abort);
+          stdout.end();
+          stderr.end();
+          resolve();
+        };
+        const abort = () => {
+          (output as Readable).destroy?.();
+          finish();
+        };
+        output.once('end', finish);
+        output.once('error', finish);
+        options.signal.addEventListener('abort', abort, { once: true });
+      });
+    })
+  );
+}
@@ -0,0 +1,167 @@
+import crypto from 'crypto';
+import Docker from 'dockerode';
+import type { ManagedDatabase, Prisma } from '@prisma/client';
+import { DATABASE_IMAGES, DOCKER_NETWORK } from '@renderlite/shared';
+import { prisma } from '../lib/prisma.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { decrypt, encrypt } from './encryption.js';
+
+const docker = new Docker({ socketPath: '/var/run/docker.sock' });
+
+function generateCredentials() {
+  return {
+    username: 'renderlite',
+    password: crypto.randomBytes(16).toString('hex'),
+    dbName: 'renderlite_db',
+  };
+}
+
+/**
+ * Create a managed database record and start its container in the background;
+ * the record moves from PROVISIONING to RUNNING or FAILED once the container is up
+ */
+export async function createManagedDatabase(projectId: string, name: string, type: string): Promise<ManagedDatabase> {
+  const db = await createManagedDatabaseRecord(prisma, projectId, name, type);
+  provisionManagedDatabase(db);
+  return db;
+}
+
+/**
+ * Create a managed database record without starting its container, e.g. inside a
+ * transaction; call provisionManagedDatabase once it is committed
+ */
+export async function createManagedDatabaseRecord(
+  client: Prisma.TransactionClient,
+  projectId: string,
+  name: string,
+  type: string
+): Promise<ManagedDatabase> {
+  const dbConfig = DATABASE_IMAGES[type];
+  if (!dbConfig) {
+    throw new AppError('Unsupported database type', 400);
+  }
+
+  const creds = generateCredentials();
+  const containerName = `renderlite-db-${name.toLowerCase().replace(/[^a-z0-9-]/g, '-')}-${crypto.randomBytes(4).toString('hex')}`;
+  const volumeName = `renderlite-dbvol-${containerName}`;
+
+  return client.managedDatabase.create({
+    data: {
+      name,
+      projectId,
+      type: type as any,
+      status: 'PROVISIONING',
+      host: containerName,
+      port: dbConfig.port,
+      dbName: creds.dbName,
+      username: creds.username,
+      password: encrypt(creds.password),
+      volumeName,
+    },
+  });
+}
+
+/**
+ * Start a managed database's container in the background
+ */
+export function provisionManagedDatabase(db: ManagedDatabase): void {
+  const creds = { username: db.username!, password: decrypt(db.password!), dbName: db.dbName! };
+  provisionDatabaseContainer(db.id, db.host!, db.volumeName!, db.type, DATABASE_IMAGES[db.type], creds)
+    .catch((err) => console.error(`Failed to provision database ${db.id}:`, err));
+}
+
+/**
+ * Connection string services use to reach a database, as injected by linking.
+ * Known as soon as the database is created, before its container is running.
+ */
+export function getConnectionString(db: ManagedDatabase): string | null {
+  if (!db.host || !db.port) {
+    return null;
+  }
+
+  let password: string | null = null;
+  if (db.password) {
+    try { password = decrypt(db.password); } catch { /* ignore */ }
+  }
+
+  if (db.type === 'POSTGRES') {
+    return `postgresql://${db.username}:${password}@${db.host}:${db.port}/${db.dbName}`;
+  } else if (db.type === 'MYSQL') {
+    return `mysql://${db.username}:${password}@${db.host}:${db.port}/${db.dbName}`;
+  } else if (db.type === 'REDIS') {
+    return `redis://${db.host}:${db.port}`;
+  }
+  return null;
+}
+
+async function provisionDatabaseContainer(
+  dbId: string,
+  containerName: string,
+  volumeName: string,
+  type: string,
+  config: { image: string; port: number; healthCmd: string[] },
+  creds: { username: string; password: string; dbName: string }
+): Promise<void> {
+  try {
+    const envArray: string[] = [];
+
+    if (type === 'POSTGRES') {
+      envArray.push(
+        `POSTGRES_USER=${creds.username}`,
+        `POSTGRES_PASSWORD=${creds.password}`,
+        `POSTGRES_DB=${creds.dbName}`
+      );
+    } else if (type === 'MYSQL') {
+      envArray.push(
+        `MYSQL_USER=${creds.username}`,
+        `MYSQL_PASSWORD=${creds.password}`,
+        `MYSQL_DATABASE=${creds.dbName}`,
+        `MYSQL_ROOT_PASSWORD=${creds.password}`
+      );
+    }
+
+    let dataPath = '/data';
+    if (type === 'POSTGRES') dataPath = '/var/lib/postgresql/data';
+    else if (type === 'MYSQL') dataPath = '/var/lib/mysql';
+
+    const container = await docker.createContainer({
+      Image: config.image,
+      name: containerName,
+      Env: envArray,
+      Labels: {
+        'renderlite.managed': 'true',
+        'renderlite.managed-db': 'true',
+        'renderlite.db-id': dbId,
+      },
+      HostConfig: {
+        NetworkMode: DOCKER_NETWORK,
+        RestartPolicy: { Name: 'unless-stopped' },
+        Memory: 256 * 1024 * 1024,
+        NanoCpus: 250000000,
+        Binds: [`${volumeName}:${dataPath}`],
+      },
+      Healthcheck: {
+        Test: config.healthCmd,
+        Interval: 10 * 1e9,
+        Timeout: 5 * 1e9,
+        Retries: 5,
+      },
+    });
+
+    await container.start();
+
+    await prisma.managedDatabase.update({
+      where: { id: dbId },
+      data: {
+        status: 'RUNNING',
+        containerId: container.id,
+      },
+    });
+  } catch (error) {
+    await prisma.managedDatabase.update({
+      where: { id: dbId },
+      data: { status: 'FAILED' },
+    });
+    throw error;
+  }
+}
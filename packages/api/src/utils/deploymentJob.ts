@@ -0,0 +1,104 @@
+import type { Deployment, Service } from '@prisma/client';
+import type { CronSettings, DeploymentJobData, RegistryCredentials } from '@renderlite/shared';
+import { DeploymentStrategy, GitProvider, ServiceSource, ServiceType } from '@renderlite/shared';
+import { getGitProvider } from '../git/index.js';
+import { getGitHubAccessToken } from '../git/github.js';
+import { decryptEnvVars, decrypt } from './encryption.js';
+import { resolveServiceResources } from './resources.js';
+
+/**
+ * What a cron service's deployments schedule in place of starting containers;
+ * undefined for other services
+ */
+export function getCronSettings(service: Service): CronSettings | undefined {
+  if (service.type !== ServiceType.CRON || !service.cronSchedule || !service.cronCommand) {
+    return undefined;
+  }
+  return {
+    schedule: service.cronSchedule,
+    command: service.cronCommand,
+    timeoutSeconds: service.cronTimeoutSeconds,
+  };
+}
+
+/**
+ * Build job data for a deployment, including clone credentials and health check config.
+ * Services with a deploy key clone over SSH with it. Otherwise GitHub services use the
+ * owner's token, GitLab and Gitea services their own access token. The owner's GitHub
+ * token also reports results back to GitHub either way. Image services get their
+ * registry credentials instead. Upload deploys build the uploaded tarball and
+ * skip the clone.
+ */
+export async function buildDeploymentJobData(
+  service: Service,
+  deployment: Pick<Deployment, 'id' | 'ref' | 'sourceArchiveHash' | 'strategy'>,
+  userId: string
+): Promise<DeploymentJobData> {
+  const decryptOptional = (value: unknown) =>
+    value ? decryptEnvVars(value as Record<string, string>) : undefined;
+
+  const fromGit = service.sourceType === ServiceSource.GIT;
+  const gitProvider = service.gitProvider as GitProvider;
+  let githubToken: string | undefined;
+  let gitToken: string | null = null;
+  if (fromGit && gitProvider === GitProvider.GITHUB) {
+    githubToken = (await getGitHubAccessToken(userId)) ?? undefined;
+    gitToken = githubToken ?? null;
+  } else if (fromGit && service.gitAccessToken) {
+    try {
+      gitToken = decrypt(service.gitAccessToken);
+    } catch {
+      // token corrupted; public repositories still clone
+    }
+  }
+
+  let sshPrivateKey: string | undefined;
+  if (service.deployKeyPrivate) {
+    try {
+      sshPrivateKey = decrypt(service.deployKeyPrivate);
+    } catch {
+      // key corrupted; fall back to cloning over HTTPS
+    }
+  }
+
+  let registryAuth: RegistryCredentials | undefined;
+  if (service.registryUsername && service.registryPassword) {
+    try {
+      registryAuth = { username: service.registryUsername, password: decrypt(service.registryPassword) };
+    } catch {
+      // credentials corrupted; public images still pull
+    }
+  }
+
+  return {
+    deploymentId: deployment.id,
+    serviceId: service.id,
+    repoUrl: service.repoUrl ?? undefined,
+    imageRef: service.imageRef ?? undefined,
+    registryAuth,
+    branch: service.branch,
+    ref: deployment.ref ?? undefined,
+    sourceArchiveHash: deployment.sourceArchiveHash ?? undefined,
+    rootDirectory: service.rootDirectory ?? undefined,
+    dockerfilePath: service.dockerfilePath ?? undefined,
+    dockerTarget: service.dockerTarget ?? undefined,
+    subdomain: service.subdomain,
+    envVars: decryptOptional(service.envVars),
+    buildArgs: decryptOptional(service.buildArgs),
+    buildSecrets: decryptOptional(service.buildSecrets),
+    githubToken,
+    gitCredentials: sshPrivateKey || !fromGit ? undefined : getGitProvider(gitProvider).cloneCredentials(gitToken),
+    sshPrivateKey,
+    port: service.port ?? undefined,
+    resources: resolveServiceResources(service),
+    healthCheckPath: service.healthCheckPath ?? undefined,
+    healthCheckInterval: service.healthCheckInterval,
+    healthCheckTimeout: service.healthCheckTimeout,
+    releaseCommand: service.releaseCommand ?? undefined,
+    strategy: deployment.strategy as DeploymentStrategy,
+    canarySteps: service.canarySteps,
+    canaryStepInterval: service.canaryStepInterval,
+    serviceType: service.type as ServiceType,
+    cron: getCronSettings(service),
+  };
+}
@@ -0,0 +1,143 @@
+import type { Service } from '@prisma/client';
+import { DeploymentStatus, DeploymentStrategy } from '@renderlite/shared';
+import type { PullRequestEvent } from '../git/index.js';
+import { prisma } from '../lib/prisma.js';
+import { buildQueue } from '../lib/queue.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { removeContainers, removeServiceRoutes } from './containers.js';
+import { resolveServiceResources, validateServiceResources } from './resources.js';
+import { requestCancellation } from './supersede.js';
+
+const MAX_PREVIEW_NAME_ATTEMPTS = 10;
+
+/**
+ * Name and subdomain of a new pull request preview, e.g. myapp-pr-42 on
+ * myapp-x1y2z3-pr-42. When another service already has either, a number is appended
+ * to both (myapp-pr-42-2).
+ */
+async function getPreviewIdentity(
+  parent: Pick<Service, 'name' | 'subdomain' | 'projectId'>,
+  pullRequestNumber: number
+): Promise<{ name: string; subdomain: string }> {
+  for (let attempt = 1; attempt <= MAX_PREVIEW_NAME_ATTEMPTS; attempt++) {
+    const suffix = attempt === 1 ? '' : `-${attempt}`;
+    const name = `${parent.name}-pr-${pullRequestNumber}${suffix}`;
+    const subdomain = `${parent.subdomain}-pr-${pullRequestNumber}${suffix}`;
+    const taken = await prisma.service.findFirst({
+      where: { OR: [{ subdomain }, { projectId: parent.projectId, name }] },
+      select: { id: true },
+    });
+    if (!taken) {
+      return { name, subdomain };
+    }
+  }
+
+  throw new AppError(
+    `Could not create the preview of pull request #${pullRequestNumber}: its name and subdomain are taken by other services`,
+    409
+  );
+}
+
+/**
+ * Create or refresh the preview service for a pull request. Previews copy the parent
+ * service's settings each time the pull request updates, with previewEnvVars applied
+ * over envVars (both are stored encrypted per value, so they merge as they are).
+ * They run a single replica with a standard rollout and don't take webhooks, and
+ * count towards the organization's resource limits like any other service.
+ */
+export async function syncPreviewService(parent: Service, pullRequest: PullRequestEvent): Promise<Service> {
+  const { number } = pullRequest;
+  const existing = await prisma.service.findUnique({
+    where: {
+      parentServiceId_pullRequestNumber: { parentServiceId: parent.id, pullRequestNumber: number },
+    },
+    select: { id: true },
+  });
+  await validateServiceResources(parent.projectId, existing?.id ?? null, resolveServiceResources(parent));
+
+  const envVars = {
+    ...((parent.envVars as Record<string, string> | null) ?? {}),
+    ...((parent.previewEnvVars as Record<string, string> | null) ?? {}),
+  };
+
+  const settings = {
+    repoUrl: parent.repoUrl,
+    gitProvider: parent.gitProvider,
+    gitProviderUrl: parent.gitProviderUrl,
+    gitAccessToken: parent.gitAccessToken,
+    deployKeyPublic: parent.deployKeyPublic,
+    deployKeyPrivate: parent.deployKeyPrivate,
+    sshHostKeys: parent.sshHostKeys,
+    branch: pullRequest.headBranch,
+    runtime: parent.runtime,
+    rootDirectory: parent.rootDirectory,
+    dockerfilePath: parent.dockerfilePath,
+    dockerTarget: parent.dockerTarget,
+    envVars: (Object.keys(envVars).length > 0 ? envVars : null) as any,
+    buildArgs: parent.buildArgs as any,
+    buildSecrets: parent.buildSecrets as any,
+    port: parent.port,
+    plan: parent.plan,
+    memoryLimitMb: parent.memoryLimitMb,
+    cpuLimit: parent.cpuLimit,
+    swapLimitMb: parent.swapLimitMb,
+    healthCheckPath: parent.healthCheckPath,
+    healthCheckInterval: parent.healthCheckInterval,
+    healthCheckTimeout: parent.healthCheckTimeout,
+    releaseCommand: parent.releaseCommand,
+    supersedePolicy: parent.supersedePolicy,
+    pullRequestTitle: pullRequest.title,
+    pullRequestUrl: pullRequest.url,
+  };
+
+  if (existing) {
+    return prisma.service.update({ where: { id: existing.id }, data: settings });
+  }
+  const { name, subdomain } = await getPreviewIdentity(parent, number);
+  return prisma.service.create({
+    data: {
+      ...settings,
+      name,
+      projectId: parent.projectId,
+      subdomain,
+      replicas: 1,
+      deployStrategy: DeploymentStrategy.STANDARD,
+      parentServiceId: parent.id,
+      pullRequestNumber: number,
+    },
+  });
+}
+
+/**
+ * Remove a preview: stop its deployments, remove its containers and route, and delete it.
+ * A build already rolling out can't be stopped; its containers are removed by the
+ * worker's cleanup once it finds them without a service, and its route once the
+ * rollout releases the service lock.
+ */
+export async function teardownPreview(preview: Pick<Service, 'id' | 'containerIds' | 'subdomain'>): Promise<void> {
+  const activeDeployments = await prisma.deployment.findMany({
+    where: {
+      serviceId: preview.id,
+      status: { in: [DeploymentStatus.QUEUED, DeploymentStatus.BUILDING] },
+    },
+    select: { id: true, status: true },
+  });
+
+  for (const deployment of activeDeployments) {
+    try {
+      const job = await buildQueue.getJob(deployment.id);
+      if (deployment.status === DeploymentStatus.QUEUED && job) {
+        await job.remove();
+      } else if (deployment.status === DeploymentStatus.BUILDING) {
+        await requestCancellation(deployment.id);
+      }
+    } catch (error) {
+      // A job the worker already picked up can't be removed; it is skipped once the deployment is gone
+      console.error(`Failed to stop deployment ${deployment.id} of preview ${preview.id}:`, error);
+    }
+  }
+
+  await removeContainers(preview.containerIds);
+  await prisma.service.delete({ where: { id: preview.id } });
+  await removeServiceRoutes(preview.id, preview.subdomain);
+}
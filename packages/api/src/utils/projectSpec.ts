@@ -0,0 +1,682 @@
+import crypto from 'crypto';
+import { Prisma, type ManagedDatabase, type Service } from '@prisma/client';
+import { parse as parseYaml } from 'yaml';
+import {
+  DATABASE_ENV_KEYS,
+  DatabaseType,
+  DeploymentStrategy,
+  InstancePlan,
+  PROJECT_SPEC_VERSION,
+  ServiceSource,
+  ServiceType,
+} from '@renderlite/shared';
+import type {
+  ImportProjectRequest,
+  ProjectImportChange,
+  ProjectImportPlan,
+  ProjectSpec,
+  ProjectSpecService,
+  SecretValues,
+} from '@renderlite/shared';
+import { prisma } from '../lib/prisma.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { createManagedDatabaseRecord, getConnectionString, provisionManagedDatabase } from './databases.js';
+import { decrypt, decryptEnvVars, encryptEnvVars } from './encryption.js';
+import { reservedReplicas, resolveServiceResources, validateServiceResources } from './resources.js';
+import {
+  AUTOSCALING_DEFAULTS,
+  CRON_DEFAULTS,
+  clampReplicas,
+  normalizeAutoscaling,
+  normalizeCronSettings,
+  normalizeDockerTarget,
+  normalizePort,
+  normalizeReleaseCommand,
+  normalizeRepoPath,
+  normalizeResourceOverride,
+  normalizeWatchPaths,
+  resolveGitSource,
+  resolveImageSource,
+  validateCanaryStepInterval,
+  validateCanarySteps,
+  validateDeployStrategy,
+  validatePlan,
+  validatePreviewsEnabled,
+  validateReplicas,
+  validateServiceSource,
+  validateServiceType,
+  validateServiceTypeSettings,
+  validateSupersedePolicy,
+} from './serviceSettings.js';
+import { generateSubdomain } from './subdomain.js';
+
+// Where the service's code comes from; changing any of these re-checks the source
+const SOURCE_FIELDS = [
+  'sourceType',
+  'repoUrl',
+  'gitProvider',
+  'gitProviderUrl',
+  'branch',
+  'imageRef',
+  'registryUsername',
+] as const;
+
+const SETTING_FIELDS = [
+  'runtime',
+  'rootDirectory',
+  'dockerfilePath',
+  'dockerTarget',
+  'watchPaths',
+  'port',
+  'plan',
+  'memoryLimitMb',
+  'cpuLimit',
+  'swapLimitMb',
+  'replicas',
+  'autoscaleEnabled',
+  'minReplicas',
+  'maxReplicas',
+  'scaleCpuPercent',
+  'scaleMemoryPercent',
+  'scaleCooldownSeconds',
+  'healthCheckPath',
+  'healthCheckInterval',
+  'healthCheckTimeout',
+  'releaseCommand',
+  'cronSchedule',
+  'cronCommand',
+  'cronTimeoutSeconds',
+  'deployStrategy',
+  'canarySteps',
+  'canaryStepInterval',
+  'supersedePolicy',
+  'previewsEnabled',
+] as const;
+
+const SECRET_FIELDS = ['gitAccessToken', 'registryPassword'] as const;
+const SECRET_MAP_FIELDS = ['envVars', 'buildArgs', 'buildSecrets'] as const;
+
+// Applying only writes records, but a big spec is many of them
+const IMPORT_TRANSACTION_TIMEOUT_MS = 30_000;
+
+const DOMAIN_PATTERN = /^([a-z0-9]([a-z0-9-]*[a-z0-9])?\.)+[a-z]{2,}$/;
+
+type ServiceWithDomains = Service & { domains: { hostname: string }[] };
+
+// Filled in as an import is applied: resources created earlier in the run are
+// looked up here by later steps
+// Service columns a spec sets directly; the JSON maps are merged and encrypted separately
+type ServiceFields = Partial<Omit<Service, 'envVars' | 'buildArgs' | 'buildSecrets' | 'previewEnvVars'>>;
+
+interface ImportContext {
+  tx: Prisma.TransactionClient; // every write of an import goes through one transaction
+  projectId: string | null;
+  databases: Map<string, ManagedDatabase>;
+  createdDatabases: ManagedDatabase[]; // their containers start once the import is committed
+  services: Map<string, string>;
+}
+
+type ApplyStep = (ctx: ImportContext) => Promise<void>;
+
+function isRecord(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function decryptOrNull(value: string | null): string | null {
+  if (!value) return null;
+  try {
+    return decrypt(value);
+  } catch {
+    return null;
+  }
+}
+
+function decryptValues(raw: unknown): Record<string, string> {
+  if (!isRecord(raw)) return {};
+  try {
+    return decryptEnvVars(raw as Record<string, string>);
+  } catch {
+    return {};
+  }
+}
+
+function encryptValues(values: Record<string, string>): Record<string, string> | Prisma.NullTypes.DbNull {
+  return Object.keys(values).length > 0 ? encryptEnvVars(values) : Prisma.DbNull;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/**
+ * A project as a spec: its services (without previews) and managed databases.
+ * Unset settings are left out, and secret values become null placeholders so the
+ * keys survive but no value leaves RenderLite.
+ */
+export async function exportProjectSpec(projectId: string): Promise<ProjectSpec> {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    include: {
+      services: {
+        where: { parentServiceId: null },
+        include: { domains: { orderBy: { createdAt: 'asc' } } },
+        orderBy: { createdAt: 'asc' },
+      },
+      databases: { orderBy: { createdAt: 'asc' } },
+    },
+  });
+
+  if (!project) {
+    throw new AppError('Project not found', 404);
+  }
+
+  const services = project.services.map((service: ServiceWithDomains) => {
+    const spec: Record<string, unknown> = { name: service.name, type: service.type };
+    const gitFields: string[] = ['repoUrl', 'gitProvider', 'gitProviderUrl', 'branch'];
+    const cronFields: string[] = ['cronSchedule', 'cronCommand', 'cronTimeoutSeconds'];
+    for (const field of [...SOURCE_FIELDS, ...SETTING_FIELDS]) {
+      if (service.sourceType === ServiceSource.IMAGE && gitFields.includes(field)) continue;
+      if (service.type !== ServiceType.CRON && cronFields.includes(field)) continue;
+      if (service[field] !== null) spec[field] = service[field];
+    }
+    for (const field of SECRET_FIELDS) {
+      if (service[field]) spec[field] = null;
+    }
+    for (const field of SECRET_MAP_FIELDS) {
+      const keys = isRecord(service[field]) ? Object.keys(service[field] as object) : [];
+      if (keys.length > 0) spec[field] = Object.fromEntries(keys.map((key) => [key, null]));
+    }
+
+    // Linked databases are the ones whose connection string is in the service's env
+    const envVars = decryptValues(service.envVars);
+    const databases = project.databases
+      .filter((db) => envVars[DATABASE_ENV_KEYS[db.type]] === getConnectionString(db))
+      .map((db) => db.name);
+    if (databases.length > 0) spec.databases = databases;
+    if (service.domains.length > 0) spec.domains = service.domains.map((d) => d.hostname);
+
+    return spec as unknown as ProjectSpecService;
+  });
+
+  return {
+    version: PROJECT_SPEC_VERSION,
+    name: project.name,
+    services,
+    databases: project.databases.map((db) => ({ name: db.name, type: db.type as DatabaseType })),
+  };
+}
+
+/**
+ * Check the shape of a spec given as an object or as JSON / YAML text. Service
+ * settings are validated later, the same way the service routes validate them.
+ */
+export function parseProjectSpec(raw: unknown): ProjectSpec {
+  let spec = raw;
+  if (typeof raw === 'string') {
+    try {
+      spec = parseYaml(raw);
+    } catch (error) {
+      throw new AppError(`spec is not valid JSON or YAML: ${error instanceof Error ? error.message : error}`, 400);
+    }
+  }
+
+  if (!isRecord(spec)) {
+    throw new AppError('spec must be a project spec', 400);
+  }
+  if (spec.version !== PROJECT_SPEC_VERSION) {
+    throw new AppError(`Unsupported spec version ${spec.version}; expected ${PROJECT_SPEC_VERSION}`, 400);
+  }
+  if (typeof spec.name !== 'string' || !spec.name.trim()) {
+    throw new AppError('spec.name is required', 400);
+  }
+
+  const services = spec.services ?? [];
+  if (!Array.isArray(services) || services.some((s) => !isRecord(s) || typeof s.name !== 'string' || !s.name.trim())) {
+    throw new AppError('spec.services must be a list of services, each with a name', 400);
+  }
+  const databases = spec.databases ?? [];
+  if (
+    !Array.isArray(databases) ||
+    databases.some(
+      (d) => !isRecord(d) || typeof d.name !== 'string' || !d.name.trim() || !Object.values(DatabaseType).includes(d.type)
+    )
+  ) {
+    throw new AppError(
+      `spec.databases must be a list of databases with a name and a type (${Object.values(DatabaseType).join(', ')})`,
+      400
+    );
+  }
+
+  for (const [list, kind] of [[services, 'service'], [databases, 'database']] as const) {
+    const names = list.map((item: { name: string }) => item.name.trim());
+    const duplicate = names.find((name, index) => names.indexOf(name) !== index);
+    if (duplicate) {
+      throw new AppError(`spec lists ${kind} "${duplicate}" more than once`, 400);
+    }
+  }
+
+  return {
+    version: spec.version,
+    name: spec.name.trim(),
+    services: services.map((s) => ({ ...s, name: s.name.trim() })),
+    databases: databases.map((d) => ({ name: d.name.trim(), type: d.type })),
+  };
+}
+
+function validateSeconds(rawSeconds: unknown, field: string, max: number): number {
+  const seconds = Number(rawSeconds);
+  if (!Number.isInteger(seconds) || seconds < 1 || seconds > max) {
+    throw new AppError(`${field} must be between 1 and ${max} seconds`, 400);
+  }
+  return seconds;
+}
+
+/**
+ * The settings a service spec sets, validated. Autoscaling and cron settings are
+ * resolved over the existing service (or the defaults), so they always come back
+ * complete. A service's type is only set when it is created.
+ */
+function normalizeSpecSettings(spec: ProjectSpecService, existing: Service | null): ServiceFields {
+  const settings: ServiceFields = {};
+
+  const type =
+    spec.type !== undefined ? validateServiceType(spec.type) : (existing?.type as ServiceType) ?? ServiceType.WEB;
+  if (existing && type !== existing.type) {
+    throw new AppError(`type cannot change from ${existing.type} to ${type}; create a new service instead`, 400);
+  }
+  if (!existing) settings.type = type;
+  Object.assign(settings, normalizeCronSettings(type, { ...spec }, existing ?? CRON_DEFAULTS));
+
+  if (spec.runtime !== undefined) settings.runtime = spec.runtime || null;
+  if (spec.rootDirectory !== undefined) settings.rootDirectory = normalizeRepoPath(spec.rootDirectory, 'rootDirectory');
+  if (spec.dockerfilePath !== undefined) {
+    settings.dockerfilePath = normalizeRepoPath(spec.dockerfilePath, 'dockerfilePath');
+  }
+  if (spec.dockerTarget !== undefined) settings.dockerTarget = normalizeDockerTarget(spec.dockerTarget);
+  if (spec.watchPaths !== undefined) settings.watchPaths = normalizeWatchPaths(spec.watchPaths);
+  if (spec.port !== undefined) settings.port = normalizePort(spec.port);
+  if (spec.plan !== undefined) settings.plan = validatePlan(spec.plan);
+  if (spec.memoryLimitMb !== undefined) {
+    settings.memoryLimitMb = normalizeResourceOverride(spec.memoryLimitMb, 'memoryLimitMb', true);
+  }
+  if (spec.cpuLimit !== undefined) settings.cpuLimit = normalizeResourceOverride(spec.cpuLimit, 'cpuLimit', false);
+  if (spec.swapLimitMb !== undefined) {
+    settings.swapLimitMb = normalizeResourceOverride(spec.swapLimitMb, 'swapLimitMb', true);
+  }
+
+  const autoscaling = normalizeAutoscaling({ ...spec }, existing ?? AUTOSCALING_DEFAULTS);
+  Object.assign(settings, autoscaling);
+  const replicas = spec.replicas !== undefined ? validateReplicas(spec.replicas) : existing?.replicas ?? 1;
+  settings.replicas = clampReplicas(replicas, autoscaling);
+
+  if (spec.healthCheckPath !== undefined) {
+    if (spec.healthCheckPath !== null && typeof spec.healthCheckPath !== 'string') {
+      throw new AppError('healthCheckPath must be a string', 400);
+    }
+    settings.healthCheckPath = spec.healthCheckPath?.trim() || null;
+  }
+  if (spec.healthCheckInterval !== undefined) {
+    settings.healthCheckInterval = validateSeconds(spec.healthCheckInterval, 'healthCheckInterval', 3600);
+  }
+  if (spec.healthCheckTimeout !== undefined) {
+    settings.healthCheckTimeout = validateSeconds(spec.healthCheckTimeout, 'healthCheckTimeout', 300);
+  }
+  if (spec.releaseCommand !== undefined) settings.releaseCommand = normalizeReleaseCommand(spec.releaseCommand);
+  if (spec.deployStrategy !== undefined) settings.deployStrategy = validateDeployStrategy(spec.deployStrategy);
+  if (spec.canarySteps !== undefined) settings.canarySteps = validateCanarySteps(spec.canarySteps);
+  if (spec.canaryStepInterval !== undefined) {
+    settings.canaryStepInterval = validateCanaryStepInterval(spec.canaryStepInterval);
+  }
+  if (spec.supersedePolicy !== undefined) settings.supersedePolicy = validateSupersedePolicy(spec.supersedePolicy);
+  if (spec.previewsEnabled !== undefined) settings.previewsEnabled = validatePreviewsEnabled(spec.previewsEnabled);
+
+  validateServiceTypeSettings(type, {
+    replicas: settings.replicas!,
+    autoscaleEnabled: settings.autoscaleEnabled!,
+    previewsEnabled: settings.previewsEnabled ?? existing?.previewsEnabled ?? false,
+    deployStrategy: settings.deployStrategy ?? existing?.deployStrategy ?? DeploymentStrategy.STANDARD,
+    healthCheckPath: settings.healthCheckPath !== undefined ? settings.healthCheckPath : existing?.healthCheckPath ?? null,
+  });
+  if (type !== ServiceType.WEB && spec.domains?.length) {
+    throw new AppError('Custom domains only apply to web services', 400);
+  }
+
+  return settings;
+}
+
+/**
+ * Apply a spec's values over a service's decrypted ones. A null placeholder keeps
+ * the current value, or adds the key with an empty value when it is missing.
+ * Keys the spec doesn't list are kept.
+ */
+function mergeSecretValues(
+  current: Record<string, string>,
+  values: unknown,
+  field: string
+): { merged: Record<string, string>; changed: boolean; missing: string[] } {
+  if (values === undefined || values === null) {
+    return { merged: current, changed: false, missing: [] };
+  }
+  if (!isRecord(values)) {
+    throw new AppError(`${field} must be a key-value object`, 400);
+  }
+
+  const merged = { ...current };
+  const missing: string[] = [];
+  let changed = false;
+  for (const [key, value] of Object.entries(values as SecretValues)) {
+    if (!key.trim()) continue;
+    if (value === null) {
+      if (!(key in merged)) {
+        merged[key] = '';
+        missing.push(key);
+        changed = true;
+      }
+    } else if (merged[key] !== String(value)) {
+      merged[key] = String(value);
+      changed = true;
+    }
+  }
+  return { merged, changed, missing };
+}
+
+interface PlanContext {
+  userId: string;
+  projectId: string | null;
+  databases: Map<string, ManagedDatabase>; // the project's databases
+  specDatabases: Map<string, DatabaseType>; // databases the import creates
+  changes: ProjectImportChange[];
+  warnings: string[];
+  steps: ApplyStep[];
+}
+
+async function planService(plan: PlanContext, spec: ProjectSpecService, existing: ServiceWithDomains | null) {
+  const { name } = spec;
+
+  // Source: resolved again (and the repository checked) only when it changes
+  const secretChanged = SECRET_FIELDS.some(
+    (field) => typeof spec[field] === 'string' && spec[field] !== decryptOrNull(existing?.[field] ?? null)
+  );
+  const sourceChanged =
+    !existing ||
+    secretChanged ||
+    SOURCE_FIELDS.some((field) => spec[field] !== undefined && !sameValue(spec[field], existing[field]));
+
+  let sourceFields: ServiceFields = {};
+  if (sourceChanged) {
+    const body: Record<string, unknown> = {
+      ...(existing && Object.fromEntries(SOURCE_FIELDS.map((field) => [field, existing[field]]))),
+      ...spec,
+      gitAccessToken: spec.gitAccessToken ?? decryptOrNull(existing?.gitAccessToken ?? null),
+      registryPassword: spec.registryPassword ?? decryptOrNull(existing?.registryPassword ?? null),
+    };
+    const source = body.sourceType !== undefined ? validateServiceSource(body.sourceType) : ServiceSource.GIT;
+    sourceFields =
+      source === ServiceSource.IMAGE ? resolveImageSource(body) : await resolveGitSource(body, plan.userId);
+    // The git host already has the existing webhook secret
+    if (existing?.webhookSecret && sourceFields.webhookSecret) {
+      sourceFields.webhookSecret = existing.webhookSecret;
+    }
+  }
+  for (const field of SECRET_FIELDS) {
+    if (spec[field] === null && !existing?.[field]) {
+      plan.warnings.push(`Service "${name}": ${field} was left out of the spec; set it on the service`);
+    }
+  }
+
+  const settings = normalizeSpecSettings(spec, existing);
+  const resourceFields = {
+    plan: settings.plan ?? existing?.plan ?? InstancePlan.STARTER,
+    memoryLimitMb: settings.memoryLimitMb !== undefined ? settings.memoryLimitMb : existing?.memoryLimitMb ?? null,
+    cpuLimit: settings.cpuLimit !== undefined ? settings.cpuLimit : existing?.cpuLimit ?? null,
+    swapLimitMb: settings.swapLimitMb !== undefined ? settings.swapLimitMb : existing?.swapLimitMb ?? null,
+  };
+  await validateServiceResources(
+    plan.projectId,
+    existing?.id ?? null,
+    resolveServiceResources(resourceFields),
+    reservedReplicas({
+      replicas: settings.replicas!,
+      autoscaleEnabled: settings.autoscaleEnabled!,
+      maxReplicas: settings.maxReplicas!,
+    })
+  );
+
+  const changed: ServiceFields = { ...sourceFields, ...settings };
+  const fields: string[] = (Object.keys(changed) as (keyof ServiceFields)[]).filter(
+    (field) =>
+      !(SECRET_FIELDS as readonly string[]).includes(field) &&
+      field !== 'webhookSecret' &&
+      (!existing || !sameValue(changed[field], existing[field]))
+  );
+  if (secretChanged) {
+    fields.push(...SECRET_FIELDS.filter((field) => typeof spec[field] === 'string'));
+  }
+
+  // Env vars, build args and build secrets
+  const secretValues: Partial<Record<(typeof SECRET_MAP_FIELDS)[number], Record<string, string>>> = {};
+  const missingEnvKeys: string[] = [];
+  for (const field of SECRET_MAP_FIELDS) {
+    const { merged, changed, missing } = mergeSecretValues(
+      decryptValues(existing?.[field]),
+      spec[field],
+      field
+    );
+    if (changed || (!existing && Object.keys(merged).length > 0)) {
+      secretValues[field] = merged;
+      fields.push(field);
+    }
+    if (field === 'envVars') missingEnvKeys.push(...missing);
+    else if (missing.length > 0) {
+      plan.warnings.push(`Service "${name}": set values for ${field} ${missing.join(', ')}`);
+    }
+  }
+
+  // Database links; databases the import creates get their connection string once they exist
+  const envVars = { ...(secretValues.envVars ?? decryptValues(existing?.envVars)) };
+  const pendingLinks: string[] = [];
+  const linkedKeys = new Set<string>();
+  for (const dbName of spec.databases ?? []) {
+    const db = plan.databases.get(dbName);
+    const type = db?.type ?? plan.specDatabases.get(dbName);
+    if (!type) {
+      throw new AppError(`database "${dbName}" is neither in the spec nor in the project`, 400);
+    }
+    const envKey = DATABASE_ENV_KEYS[type];
+    if (linkedKeys.has(envKey)) {
+      throw new AppError(`databases: two linked databases would both set ${envKey}`, 400);
+    }
+    linkedKeys.add(envKey);
+
+    const linkName = `${name} -> ${dbName}`;
+    if (db) {
+      const connectionString = getConnectionString(db) ?? '';
+      if (envVars[envKey] === connectionString) {
+        plan.changes.push({ resource: 'link', name: linkName, action: 'unchanged' });
+        continue;
+      }
+      envVars[envKey] = connectionString;
+    } else {
+      pendingLinks.push(dbName);
+    }
+    plan.changes.push({ resource: 'link', name: linkName, action: 'create' });
+    if (!fields.includes('envVars')) fields.push('envVars');
+  }
+  const unsetKeys = missingEnvKeys.filter((key) => !linkedKeys.has(key));
+  if (unsetKeys.length > 0) {
+    plan.warnings.push(`Service "${name}": set values for env vars ${unsetKeys.join(', ')}`);
+  }
+
+  const action = !existing ? 'create' : fields.length > 0 ? 'update' : 'unchanged';
+  plan.changes.push({ resource: 'service', name, action, ...(action === 'update' && { fields }) });
+
+  if (action !== 'unchanged') {
+    plan.steps.push(async (ctx) => {
+      for (const dbName of pendingLinks) {
+        const db = ctx.databases.get(dbName)!;
+        envVars[DATABASE_ENV_KEYS[db.type]] = getConnectionString(db) ?? '';
+      }
+      const data = {
+        ...sourceFields,
+        ...settings,
+        ...(secretValues.buildArgs && { buildArgs: encryptValues(secretValues.buildArgs) }),
+        ...(secretValues.buildSecrets && { buildSecrets: encryptValues(secretValues.buildSecrets) }),
+        ...(fields.includes('envVars') && { envVars: encryptValues(envVars) }),
+      } satisfies Prisma.ServiceUncheckedUpdateInput;
+
+      if (existing) {
+        await ctx.tx.service.update({ where: { id: existing.id }, data });
+      } else {
+        const service = await ctx.tx.service.create({
+          data: {
+            ...data,
+            name,
+            projectId: ctx.projectId!,
+            subdomain: await generateSubdomain(name),
+          } satisfies Prisma.ServiceUncheckedCreateInput,
+        });
+        ctx.services.set(name, service.id);
+      }
+    });
+  }
+
+  // Custom domains; hostnames are unique across RenderLite, so ones in use elsewhere are skipped
+  for (const rawHostname of spec.domains ?? []) {
+    const hostname = typeof rawHostname === 'string' ? rawHostname.toLowerCase().trim() : '';
+    if (!DOMAIN_PATTERN.test(hostname)) {
+      throw new AppError(`Invalid domain name: ${rawHostname}`, 400);
+    }
+
+    const domain = await prisma.domain.findUnique({ where: { hostname } });
+    if (domain) {
+      plan.changes.push(
+        existing && domain.serviceId === existing.id
+          ? { resource: 'domain', name: hostname, action: 'unchanged' }
+          : { resource: 'domain', name: hostname, action: 'skip', reason: 'in use by another service' }
+      );
+      continue;
+    }
+
+    plan.changes.push({ resource: 'domain', name: hostname, action: 'create' });
+    plan.warnings.push(`Domain ${hostname} must be verified again before it serves traffic`);
+    plan.steps.push(async (ctx) => {
+      await ctx.tx.domain.create({
+        data: {
+          serviceId: ctx.services.get(name)!,
+          hostname,
+          verificationToken: crypto.randomBytes(32).toString('hex'),
+        },
+      });
+    });
+  }
+}
+
+/**
+ * Recreate a project from a spec, or bring an existing project with the same name
+ * in line with it. Every change is planned -- and validated -- before anything is
+ * written, and written in one transaction, so a bad spec or a failed write changes
+ * nothing; new databases' containers start only once it is committed. With dryRun
+ * only the plan is returned.
+ * Imports only add and update: services, databases and domains the spec doesn't
+ * list are left alone, so importing the same spec twice changes nothing the second time.
+ */
+export async function importProjectSpec(userId: string, request: ImportProjectRequest): Promise<ProjectImportPlan> {
+  const spec = parseProjectSpec(request.spec);
+  if (request.name !== undefined && (typeof request.name !== 'string' || !request.name.trim())) {
+    throw new AppError('name must be a non-empty string', 400);
+  }
+  const projectName = request.name?.trim() || spec.name;
+
+  const project = await prisma.project.findUnique({
+    where: { name_userId: { name: projectName, userId } },
+    include: {
+      databases: true,
+      services: { where: { parentServiceId: null }, include: { domains: true } },
+    },
+  });
+  if (project && request.organizationId && project.organizationId !== request.organizationId) {
+    throw new AppError(`Project "${projectName}" already exists outside that organization`, 409);
+  }
+
+  const plan: PlanContext = {
+    userId,
+    projectId: project?.id ?? null,
+    databases: new Map(project?.databases.map((db) => [db.name, db])),
+    specDatabases: new Map(),
+    changes: [],
+    warnings: [],
+    steps: [],
+  };
+
+  plan.changes.push({ resource: 'project', name: projectName, action: project ? 'unchanged' : 'create' });
+  if (!project) {
+    plan.steps.push(async (ctx) => {
+      const created = await ctx.tx.project.create({
+        data: { name: projectName, userId, organizationId: request.organizationId || null },
+      });
+      ctx.projectId = created.id;
+    });
+  }
+
+  for (const db of spec.databases) {
+    const existing = plan.databases.get(db.name);
+    if (existing && existing.type !== db.type) {
+      throw new AppError(`Database "${db.name}" already exists as ${existing.type}, not ${db.type}`, 409);
+    }
+    plan.changes.push({ resource: 'database', name: db.name, action: existing ? 'unchanged' : 'create' });
+    if (!existing) {
+      plan.specDatabases.set(db.name, db.type);
+      plan.steps.push(async (ctx) => {
+        const created = await createManagedDatabaseRecord(ctx.tx, ctx.projectId!, db.name, db.type);
+        ctx.databases.set(db.name, created);
+        ctx.createdDatabases.push(created);
+      });
+    }
+  }
+
+  for (const serviceSpec of spec.services) {
+    const existing = project?.services.find((s) => s.name === serviceSpec.name) ?? null;
+    try {
+      await planService(plan, serviceSpec, existing);
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw new AppError(`Service "${serviceSpec.name}": ${error.message}`, error.statusCode);
+      }
+      throw error;
+    }
+  }
+
+  if (plan.changes.some((change) => change.resource === 'service' && change.action === 'update')) {
+    plan.warnings.push('Updated services pick up their new settings on their next deployment');
+  }
+
+  const result: ProjectImportPlan = {
+    projectId: plan.projectId,
+    applied: false,
+    changes: plan.changes,
+    warnings: plan.warnings,
+  };
+  if (request.dryRun) {
+    return result;
+  }
+
+  const applied = await prisma.$transaction(
+    async (tx) => {
+      const ctx: ImportContext = {
+        tx,
+        projectId: plan.projectId,
+        databases: plan.databases,
+        createdDatabases: [],
+        services: new Map(project?.services.map((s) => [s.name, s.id])),
+      };
+      for (const step of plan.steps) {
+        await step(ctx);
+      }
+      return ctx;
+    },
+    { timeout: IMPORT_TRANSACTION_TIMEOUT_MS }
+  );
+  applied.createdDatabases.forEach(provisionManagedDatabase);
+
+  return { ...result, projectId: applied.projectId, applied: true };
+}
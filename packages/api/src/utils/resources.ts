@@ -0,0 +1,109 @@
+import type { Service } from '@prisma/client';
+import { INSTANCE_PLANS, InstancePlan, RESOURCE_BOUNDS } from '@renderlite/shared';
+import type { ResourceLimits } from '@renderlite/shared';
+import { prisma } from '../lib/prisma.js';
+import { AppError } from '../middleware/errorHandler.js';
+
+type ServiceResourceFields = Pick<Service, 'plan' | 'memoryLimitMb' | 'cpuLimit' | 'swapLimitMb'>;
+
+/**
+ * Container resources for a service: its plan, with any per-service overrides applied
+ */
+export function resolveServiceResources(service: ServiceResourceFields): ResourceLimits {
+  const plan = INSTANCE_PLANS[service.plan] ?? INSTANCE_PLANS[InstancePlan.STARTER];
+
+  return {
+    memoryMb: service.memoryLimitMb ?? plan.memoryMb,
+    cpus: service.cpuLimit ?? plan.cpus,
+    ...(service.swapLimitMb !== null && { swapMb: service.swapLimitMb }),
+  };
+}
+
+/**
+ * Replicas a service can run at once: its maximum when autoscaling, else its replica count
+ */
+export function reservedReplicas(service: Pick<Service, 'replicas' | 'autoscaleEnabled' | 'maxReplicas'>): number {
+  return service.autoscaleEnabled ? Math.max(service.replicas, service.maxReplicas) : service.replicas;
+}
+
+/**
+ * Check a service's resources against per-service bounds and, when the project
+ * belongs to an organization with limits, against the organization's total.
+ * Each replica it may run counts towards the total with the full per-container resources.
+ * Without a project (one that is yet to be created) only the bounds are checked.
+ */
+export async function validateServiceResources(
+  projectId: string | null,
+  serviceId: string | null,
+  resources: ResourceLimits,
+  replicas: number = 1
+): Promise<void> {
+  if (resources.memoryMb < RESOURCE_BOUNDS.MIN_MEMORY_MB || resources.memoryMb > RESOURCE_BOUNDS.MAX_MEMORY_MB) {
+    throw new AppError(
+      `Memory must be between ${RESOURCE_BOUNDS.MIN_MEMORY_MB} and ${RESOURCE_BOUNDS.MAX_MEMORY_MB} MB`,
+      400
+    );
+  }
+  if (resources.cpus < RESOURCE_BOUNDS.MIN_CPUS || resources.cpus > RESOURCE_BOUNDS.MAX_CPUS) {
+    throw new AppError(`CPU must be between ${RESOURCE_BOUNDS.MIN_CPUS} and ${RESOURCE_BOUNDS.MAX_CPUS}`, 400);
+  }
+  if (resources.swapMb !== undefined && (resources.swapMb < 0 || resources.swapMb > RESOURCE_BOUNDS.MAX_SWAP_MB)) {
+    throw new AppError(`Swap must be between 0 and ${RESOURCE_BOUNDS.MAX_SWAP_MB} MB`, 400);
+  }
+  if (!projectId) {
+    return;
+  }
+
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    select: {
+      organization: {
+        select: { id: true, maxMemoryMb: true, maxCpus: true },
+      },
+    },
+  });
+  const org = project?.organization;
+  if (!org || (org.maxMemoryMb === null && org.maxCpus === null)) {
+    return;
+  }
+
+  const otherServices = await prisma.service.findMany({
+    where: {
+      project: { organizationId: org.id },
+      ...(serviceId && { id: { not: serviceId } }),
+    },
+    select: {
+      plan: true,
+      memoryLimitMb: true,
+      cpuLimit: true,
+      swapLimitMb: true,
+      replicas: true,
+      autoscaleEnabled: true,
+      maxReplicas: true,
+    },
+  });
+
+  const used = otherServices.reduce(
+    (total, service) => {
+      const r = resolveServiceResources(service);
+      return {
+        memoryMb: total.memoryMb + r.memoryMb * reservedReplicas(service),
+        cpus: total.cpus + r.cpus * reservedReplicas(service),
+      };
+    },
+    { memoryMb: 0, cpus: 0 }
+  );
+
+  if (org.maxMemoryMb !== null && used.memoryMb + resources.memoryMb * replicas > org.maxMemoryMb) {
+    throw new AppError(
+      `Organization memory limit exceeded: ${used.memoryMb} of ${org.maxMemoryMb} MB already allocated`,
+      400
+    );
+  }
+  if (org.maxCpus !== null && used.cpus + resources.cpus * replicas > org.maxCpus) {
+    throw new AppError(
+      `Organization CPU limit exceeded: ${used.cpus} of ${org.maxCpus} CPUs already allocated`,
+      400
+    );
+  }
+}
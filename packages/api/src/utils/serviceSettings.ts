@@ -0,0 +1,472 @@
+import crypto from 'crypto';
+import {
+  DEFAULTS,
+  DeploymentStrategy,
+  GitProvider,
+  InstancePlan,
+  RESOURCE_BOUNDS,
+  ServiceSource,
+  ServiceType,
+  SupersedePolicy,
+  normalizeCronExpression,
+  validateCronExpression,
+} from '@renderlite/shared';
+import { AppError } from '../middleware/errorHandler.js';
+import { encrypt } from './encryption.js';
+import { getGitProvider, normalizeGitProviderUrl, validateGitProvider } from '../git/index.js';
+import { getGitHubAccessToken } from '../git/github.js';
+
+// Validation of service settings from request bodies, shared by the service routes and
+// project import. Invalid values throw a 400 AppError naming the field.
+
+export function validateDeployStrategy(rawStrategy: unknown): DeploymentStrategy {
+  if (!Object.values(DeploymentStrategy).includes(rawStrategy as DeploymentStrategy)) {
+    throw new AppError(
+      `Invalid deployStrategy. Must be one of: ${Object.values(DeploymentStrategy).join(', ')}`,
+      400
+    );
+  }
+  return rawStrategy as DeploymentStrategy;
+}
+
+export function validateSupersedePolicy(rawPolicy: unknown): SupersedePolicy {
+  if (!Object.values(SupersedePolicy).includes(rawPolicy as SupersedePolicy)) {
+    throw new AppError(
+      `Invalid supersedePolicy. Must be one of: ${Object.values(SupersedePolicy).join(', ')}`,
+      400
+    );
+  }
+  return rawPolicy as SupersedePolicy;
+}
+
+export function validatePreviewsEnabled(rawEnabled: unknown): boolean {
+  if (typeof rawEnabled !== 'boolean') {
+    throw new AppError('previewsEnabled must be a boolean', 400);
+  }
+  return rawEnabled;
+}
+
+export function validateCanarySteps(rawSteps: unknown): number[] {
+  if (!Array.isArray(rawSteps) || rawSteps.length === 0) {
+    throw new AppError('canarySteps must be a non-empty array of percentages', 400);
+  }
+
+  const steps = rawSteps.map((step) => Number(step));
+  if (steps.some((step) => !Number.isInteger(step) || step < 1 || step > 100)) {
+    throw new AppError('canarySteps must be whole percentages between 1 and 100', 400);
+  }
+  if (steps.some((step, i) => i > 0 && step <= steps[i - 1])) {
+    throw new AppError('canarySteps must be in increasing order', 400);
+  }
+
+  return steps;
+}
+
+export function validateCanaryStepInterval(rawInterval: unknown): number {
+  const interval = Number(rawInterval);
+  if (!Number.isInteger(interval) || interval < 10 || interval > 3600) {
+    throw new AppError('canaryStepInterval must be between 10 and 3600 seconds', 400);
+  }
+  return interval;
+}
+
+/**
+ * Normalize a path inside the repository (root directory, Dockerfile path).
+ * Rejects absolute paths and `..` so builds can't escape the checkout.
+ */
+export function normalizeRepoPath(rawPath: unknown, field: string): string | null {
+  if (rawPath === null || rawPath === undefined) {
+    return null;
+  }
+  if (typeof rawPath !== 'string') {
+    throw new AppError(`${field} must be a string`, 400);
+  }
+
+  const normalized = rawPath.trim().replace(/^\.\//, '').replace(/\/+$/, '');
+  if (!normalized || normalized === '.') {
+    return null;
+  }
+  if (normalized.startsWith('/') || normalized.split('/').includes('..')) {
+    throw new AppError(`${field} must be a relative path inside the repository`, 400);
+  }
+  return normalized;
+}
+
+export function normalizeDockerTarget(rawTarget: unknown): string | null {
+  if (rawTarget === null || rawTarget === undefined) {
+    return null;
+  }
+  if (typeof rawTarget !== 'string' || (rawTarget.trim() && !/^[A-Za-z0-9][A-Za-z0-9_.-]*$/.test(rawTarget.trim()))) {
+    throw new AppError('dockerTarget must be a valid build stage name', 400);
+  }
+  return rawTarget.trim() || null;
+}
+
+export function normalizeWatchPaths(rawPaths: unknown): string[] {
+  if (rawPaths === null || rawPaths === undefined) {
+    return [];
+  }
+  if (!Array.isArray(rawPaths) || rawPaths.some((watchPath) => typeof watchPath !== 'string')) {
+    throw new AppError('watchPaths must be an array of paths', 400);
+  }
+
+  return rawPaths
+    .map((watchPath: string) => normalizeRepoPath(watchPath, 'watchPaths'))
+    .filter((watchPath): watchPath is string => watchPath !== null);
+}
+
+export function normalizePort(rawPort: unknown): number | null {
+  if (rawPort === null || rawPort === undefined || rawPort === '') {
+    return null;
+  }
+  const port = Number(rawPort);
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    throw new AppError('port must be between 1 and 65535', 400);
+  }
+  return port;
+}
+
+export function validatePlan(rawPlan: unknown): InstancePlan {
+  if (!Object.values(InstancePlan).includes(rawPlan as InstancePlan)) {
+    throw new AppError(
+      `Invalid plan. Must be one of: ${Object.values(InstancePlan).join(', ')}`,
+      400
+    );
+  }
+  return rawPlan as InstancePlan;
+}
+
+/**
+ * Normalize an optional numeric resource override; null/empty clears it
+ */
+export function normalizeResourceOverride(rawValue: unknown, field: string, integer: boolean): number | null {
+  if (rawValue === null || rawValue === undefined || rawValue === '') {
+    return null;
+  }
+  const value = Number(rawValue);
+  if (!Number.isFinite(value) || (integer && !Number.isInteger(value))) {
+    throw new AppError(`${field} must be a ${integer ? 'whole number' : 'number'}`, 400);
+  }
+  return value;
+}
+
+export function validateReplicas(rawReplicas: unknown, field: string = 'replicas'): number {
+  const replicas = Number(rawReplicas);
+  if (!Number.isInteger(replicas) || replicas < 1 || replicas > RESOURCE_BOUNDS.MAX_REPLICAS) {
+    throw new AppError(`${field} must be between 1 and ${RESOURCE_BOUNDS.MAX_REPLICAS}`, 400);
+  }
+  return replicas;
+}
+
+export interface AutoscalingSettings {
+  autoscaleEnabled: boolean;
+  minReplicas: number;
+  maxReplicas: number;
+  scaleCpuPercent: number | null;
+  scaleMemoryPercent: number | null;
+  scaleCooldownSeconds: number;
+}
+
+export const AUTOSCALING_DEFAULTS: AutoscalingSettings = {
+  autoscaleEnabled: false,
+  minReplicas: 1,
+  maxReplicas: 3,
+  scaleCpuPercent: 80,
+  scaleMemoryPercent: null,
+  scaleCooldownSeconds: 300,
+};
+
+function normalizeScalePercent(rawPercent: unknown, field: string): number | null {
+  if (rawPercent === null || rawPercent === '') {
+    return null;
+  }
+  const percent = Number(rawPercent);
+  if (!Number.isInteger(percent) || percent < 1 || percent > 100) {
+    throw new AppError(`${field} must be a whole percentage between 1 and 100`, 400);
+  }
+  return percent;
+}
+
+/**
+ * Validate autoscaling settings from a request body, applied over the current settings
+ */
+export function normalizeAutoscaling(body: Record<string, unknown>, current: AutoscalingSettings): AutoscalingSettings {
+  const { autoscaleEnabled, minReplicas, maxReplicas, scaleCpuPercent, scaleMemoryPercent, scaleCooldownSeconds } =
+    body;
+
+  if (autoscaleEnabled !== undefined && typeof autoscaleEnabled !== 'boolean') {
+    throw new AppError('autoscaleEnabled must be a boolean', 400);
+  }
+  const cooldown = scaleCooldownSeconds !== undefined ? Number(scaleCooldownSeconds) : current.scaleCooldownSeconds;
+  if (!Number.isInteger(cooldown) || cooldown < 30 || cooldown > 86400) {
+    throw new AppError('scaleCooldownSeconds must be between 30 and 86400 seconds', 400);
+  }
+
+  const settings: AutoscalingSettings = {
+    autoscaleEnabled: autoscaleEnabled ?? current.autoscaleEnabled,
+    minReplicas: minReplicas !== undefined ? validateReplicas(minReplicas, 'minReplicas') : current.minReplicas,
+    maxReplicas: maxReplicas !== undefined ? validateReplicas(maxReplicas, 'maxReplicas') : current.maxReplicas,
+    scaleCpuPercent:
+      scaleCpuPercent !== undefined
+        ? normalizeScalePercent(scaleCpuPercent, 'scaleCpuPercent')
+        : current.scaleCpuPercent,
+    scaleMemoryPercent:
+      scaleMemoryPercent !== undefined
+        ? normalizeScalePercent(scaleMemoryPercent, 'scaleMemoryPercent')
+        : current.scaleMemoryPercent,
+    scaleCooldownSeconds: cooldown,
+  };
+
+  if (settings.minReplicas > settings.maxReplicas) {
+    throw new AppError('minReplicas cannot be greater than maxReplicas', 400);
+  }
+  if (settings.autoscaleEnabled && settings.scaleCpuPercent === null && settings.scaleMemoryPercent === null) {
+    throw new AppError('Autoscaling needs a CPU or memory threshold', 400);
+  }
+  return settings;
+}
+
+/**
+ * Keep a replica count inside the autoscaling range while autoscaling is on
+ */
+export function clampReplicas(replicas: number, settings: AutoscalingSettings): number {
+  if (!settings.autoscaleEnabled) {
+    return replicas;
+  }
+  return Math.min(settings.maxReplicas, Math.max(settings.minReplicas, replicas));
+}
+
+export function normalizeReleaseCommand(rawCommand: unknown): string | null {
+  if (rawCommand === null || rawCommand === undefined) {
+    return null;
+  }
+  if (typeof rawCommand !== 'string') {
+    throw new AppError('releaseCommand must be a string', 400);
+  }
+  return rawCommand.trim() || null;
+}
+
+export function normalizeGitAccessToken(rawToken: unknown): string | null {
+  if (rawToken === null || rawToken === undefined) {
+    return null;
+  }
+  if (typeof rawToken !== 'string') {
+    throw new AppError('gitAccessToken must be a string', 400);
+  }
+  return rawToken.trim() || null;
+}
+
+// name[:tag][@digest], with an optional registry host, e.g. ghcr.io/acme/api:1.4
+const IMAGE_REF_PATTERN =
+  /^(?:[a-zA-Z0-9.-]+(?::[0-9]+)?\/)?[a-z0-9]+(?:[._-][a-z0-9]+)*(?:\/[a-z0-9]+(?:[._-][a-z0-9]+)*)*(?::[\w][\w.-]{0,127})?(?:@sha256:[a-f0-9]{64})?$/;
+
+export function validateServiceSource(rawSource: unknown): ServiceSource {
+  if (typeof rawSource !== 'string' || !Object.values(ServiceSource).includes(rawSource as ServiceSource)) {
+    throw new AppError(`sourceType must be one of: ${Object.values(ServiceSource).join(', ')}`, 400);
+  }
+  return rawSource as ServiceSource;
+}
+
+export function normalizeImageRef(rawRef: unknown): string {
+  if (typeof rawRef !== 'string' || !rawRef.trim()) {
+    throw new AppError('imageRef is required for image services', 400);
+  }
+  const ref = rawRef.trim();
+  if (!IMAGE_REF_PATTERN.test(ref)) {
+    throw new AppError('imageRef must be an image reference like ghcr.io/owner/image:tag', 400);
+  }
+  return ref;
+}
+
+export function normalizeRegistryUsername(rawUsername: unknown): string | null {
+  if (rawUsername === null || rawUsername === undefined) {
+    return null;
+  }
+  if (typeof rawUsername !== 'string') {
+    throw new AppError('registryUsername must be a string', 400);
+  }
+  return rawUsername.trim() || null;
+}
+
+export function normalizeRegistryPassword(rawPassword: unknown): string | null {
+  if (rawPassword === null || rawPassword === undefined || rawPassword === '') {
+    return null;
+  }
+  if (typeof rawPassword !== 'string') {
+    throw new AppError('registryPassword must be a string', 400);
+  }
+  return encrypt(rawPassword);
+}
+
+/**
+ * Source settings of a new image service. Image services have no repository and
+ * no webhook; each deploy pulls imageRef again, so moving tags pick up new pushes.
+ */
+export function resolveImageSource(body: Record<string, unknown>) {
+  return {
+    sourceType: ServiceSource.IMAGE,
+    imageRef: normalizeImageRef(body.imageRef),
+    registryUsername: normalizeRegistryUsername(body.registryUsername),
+    registryPassword: normalizeRegistryPassword(body.registryPassword),
+    webhookSecret: null,
+  };
+}
+
+/**
+ * Source settings of a new git service, after checking the repository and branch
+ * exist with its provider
+ */
+export async function resolveGitSource(body: Record<string, any>, userId: string) {
+  const { repoUrl, gitProvider, gitProviderUrl, gitAccessToken, branch } = body;
+  if (!repoUrl) {
+    throw new AppError('repoUrl is required', 400);
+  }
+
+  const providerType = gitProvider !== undefined ? validateGitProvider(gitProvider) : GitProvider.GITHUB;
+  const providerUrl = normalizeGitProviderUrl(providerType, gitProviderUrl);
+  const provider = getGitProvider(providerType);
+  const serviceGitToken =
+    providerType === GitProvider.GITLAB || providerType === GitProvider.GITEA
+      ? normalizeGitAccessToken(gitAccessToken)
+      : null;
+  // GitHub repositories are read with the owner's OAuth token, others with the service's own
+  const gitToken =
+    providerType === GitProvider.GITHUB ? await getGitHubAccessToken(userId) : serviceGitToken;
+
+  const repository = provider.parseRepoUrl(repoUrl, providerUrl);
+  const verifiedRepo = await provider.verifyRepository(repository, gitToken);
+
+  const selectedBranch = typeof branch === 'string' ? branch.trim() : '';
+  if (selectedBranch) {
+    await provider.verifyBranch(repository, selectedBranch, gitToken);
+  }
+
+  return {
+    sourceType: ServiceSource.GIT,
+    repoUrl: verifiedRepo.url,
+    branch: selectedBranch || verifiedRepo.defaultBranch || 'main',
+    gitProvider: providerType,
+    gitProviderUrl: providerUrl,
+    gitAccessToken: serviceGitToken ? encrypt(serviceGitToken) : null,
+    webhookSecret: provider.webhooks ? crypto.randomBytes(32).toString('hex') : null,
+  };
+}
+
+export function validateServiceType(rawType: unknown): ServiceType {
+  if (typeof rawType !== 'string' || !Object.values(ServiceType).includes(rawType as ServiceType)) {
+    throw new AppError(`type must be one of: ${Object.values(ServiceType).join(', ')}`, 400);
+  }
+  return rawType as ServiceType;
+}
+
+export function normalizeCronSchedule(rawSchedule: unknown): string | null {
+  if (rawSchedule === null || rawSchedule === undefined) {
+    return null;
+  }
+  if (typeof rawSchedule !== 'string') {
+    throw new AppError('cronSchedule must be a string', 400);
+  }
+  if (!rawSchedule.trim()) {
+    return null;
+  }
+  const error = validateCronExpression(rawSchedule);
+  if (error) {
+    throw new AppError(`cronSchedule ${error}`, 400);
+  }
+  return normalizeCronExpression(rawSchedule);
+}
+
+export function normalizeCronCommand(rawCommand: unknown): string | null {
+  if (rawCommand === null || rawCommand === undefined) {
+    return null;
+  }
+  if (typeof rawCommand !== 'string') {
+    throw new AppError('cronCommand must be a string', 400);
+  }
+  return rawCommand.trim() || null;
+}
+
+export function validateCronTimeout(rawSeconds: unknown): number {
+  const seconds = Number(rawSeconds);
+  if (!Number.isInteger(seconds) || seconds < 1 || seconds > DEFAULTS.CRON_MAX_TIMEOUT_SECONDS) {
+    throw new AppError(`cronTimeoutSeconds must be between 1 and ${DEFAULTS.CRON_MAX_TIMEOUT_SECONDS} seconds`, 400);
+  }
+  return seconds;
+}
+
+export interface CronServiceSettings {
+  cronSchedule: string | null;
+  cronCommand: string | null;
+  cronTimeoutSeconds: number;
+}
+
+export const CRON_DEFAULTS: CronServiceSettings = {
+  cronSchedule: null,
+  cronCommand: null,
+  cronTimeoutSeconds: DEFAULTS.CRON_TIMEOUT_SECONDS,
+};
+
+const CRON_FIELDS = ['cronSchedule', 'cronCommand', 'cronTimeoutSeconds'] as const;
+
+/**
+ * Schedule, command and max runtime of a cron service, resolved over its current
+ * ones (or the defaults); a cron service can't be left without a schedule or a
+ * command. Other service types can't set them, and get nothing back.
+ */
+export function normalizeCronSettings(
+  type: ServiceType,
+  body: Record<string, unknown>,
+  current: CronServiceSettings
+): Partial<CronServiceSettings> {
+  if (type !== ServiceType.CRON) {
+    const given = CRON_FIELDS.filter((field) => body[field] !== undefined);
+    if (given.length > 0) {
+      throw new AppError(`${given.join(', ')} only apply to cron services`, 400);
+    }
+    return {};
+  }
+
+  const settings: CronServiceSettings = {
+    cronSchedule: body.cronSchedule !== undefined ? normalizeCronSchedule(body.cronSchedule) : current.cronSchedule,
+    cronCommand: body.cronCommand !== undefined ? normalizeCronCommand(body.cronCommand) : current.cronCommand,
+    cronTimeoutSeconds:
+      body.cronTimeoutSeconds !== undefined ? validateCronTimeout(body.cronTimeoutSeconds) : current.cronTimeoutSeconds,
+  };
+  if (!settings.cronSchedule || !settings.cronCommand) {
+    throw new AppError('cronSchedule and cronCommand are required for cron services', 400);
+  }
+  return settings;
+}
+
+/**
+ * Cron and worker services take no traffic, so previews, canary deploys and HTTP
+ * health checks don't apply to them; cron services also run one short-lived
+ * container at a time, so neither do replicas or autoscaling
+ */
+export function validateServiceTypeSettings(
+  type: ServiceType,
+  settings: {
+    replicas: number;
+    autoscaleEnabled: boolean;
+    previewsEnabled: boolean;
+    deployStrategy: string;
+    healthCheckPath: string | null;
+  }
+): void {
+  if (type === ServiceType.WEB) {
+    return;
+  }
+  const label = type === ServiceType.CRON ? 'Cron services' : 'Worker services';
+  if (type === ServiceType.CRON && (settings.replicas !== 1 || settings.autoscaleEnabled)) {
+    throw new AppError('Cron services run one container at a time; replicas and autoscaling do not apply', 400);
+  }
+  if (settings.previewsEnabled) {
+    throw new AppError(`${label} cannot deploy pull request previews`, 400);
+  }
+  if (settings.deployStrategy === DeploymentStrategy.CANARY) {
+    throw new AppError(`${label} cannot use canary deploys`, 400);
+  }
+  if (settings.healthCheckPath) {
+    throw new AppError(`${label} take no HTTP traffic; healthCheckPath does not apply`, 400);
+  }
+}
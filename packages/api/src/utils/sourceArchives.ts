@@ -0,0 +1,40 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { AppError } from '../middleware/errorHandler.js';
+
+// Must be the same directory as the worker's (a shared volume in docker-compose)
+const SOURCE_ARCHIVE_DIR = process.env.SOURCE_ARCHIVE_DIR || path.join(os.tmpdir(), 'renderlite-uploads');
+
+function archivePath(deploymentId: string): string {
+  return path.join(SOURCE_ARCHIVE_DIR, `${deploymentId}.tar.gz`);
+}
+
+/**
+ * sha256 of an uploaded source tarball, after checking it is gzip data. The worker
+ * tags the image it builds with the start of the hash.
+ */
+export function hashSourceArchive(archive: Buffer): string {
+  if (archive.length < 2 || archive[0] !== 0x1f || archive[1] !== 0x8b) {
+    throw new AppError('Source archive must be a gzipped tarball (.tar.gz)', 400);
+  }
+  return crypto.createHash('sha256').update(archive).digest('hex');
+}
+
+/**
+ * Store an uploaded tarball for the worker to unpack when it runs the deployment.
+ * The worker deletes it once the deployment has run.
+ */
+export async function saveSourceArchive(deploymentId: string, archive: Buffer): Promise<void> {
+  await fs.mkdir(SOURCE_ARCHIVE_DIR, { recursive: true });
+  await fs.writeFile(archivePath(deploymentId), archive, { mode: 0o600 });
+}
+
+/**
+ * Delete the tarball of a deployment that will never run (cancelled or skipped
+ * while queued). A no-op for deployments without one.
+ */
+export async function removeSourceArchive(deploymentId: string): Promise<void> {
+  await fs.rm(archivePath(deploymentId), { force: true });
+}
@@ -0,0 +1,85 @@
+import type { Deployment, Service } from '@prisma/client';
+import { DeploymentStatus, REDIS_KEYS, SupersedePolicy } from '@renderlite/shared';
+import { prisma } from '../lib/prisma.js';
+import { buildQueue, rollbackQueue } from '../lib/queue.js';
+import { redis } from '../lib/redis.js';
+import type { SocketHandlers } from '../socket/index.js';
+import { removeSourceArchive } from './sourceArchives.js';
+
+const CANCEL_REQUEST_TTL_SECONDS = 60 * 60;
+
+/**
+ * Ask the worker running a build to stop it (see worker jobs/cancellation.ts).
+ * requestedBy is the id of the deployment that superseded it, or 'user'.
+ */
+export async function requestCancellation(deploymentId: string, requestedBy: string = 'user'): Promise<void> {
+  await redis.set(REDIS_KEYS.CANCEL_DEPLOYMENT(deploymentId), requestedBy, 'EX', CANCEL_REQUEST_TTL_SECONDS);
+}
+
+/**
+ * Apply a service's supersede policy once a new deployment is queued: older queued
+ * deployments are taken off the queue and marked SKIPPED, and with INTERRUPT a build
+ * already running is asked to cancel (it ends CANCELLED). Either way they link to the
+ * new deployment. Rollbacks that already started are left to finish.
+ */
+export async function supersedeDeployments(
+  service: Pick<Service, 'id' | 'supersedePolicy'>,
+  deployment: Pick<Deployment, 'id' | 'createdAt'>,
+  socketHandlers?: SocketHandlers
+): Promise<void> {
+  if (service.supersedePolicy === SupersedePolicy.NONE) {
+    return;
+  }
+
+  const interrupt = service.supersedePolicy === SupersedePolicy.INTERRUPT;
+  const olderDeployments = await prisma.deployment.findMany({
+    where: {
+      serviceId: service.id,
+      id: { not: deployment.id },
+      createdAt: { lte: deployment.createdAt },
+      status: {
+        in: interrupt
+          ? [DeploymentStatus.QUEUED, DeploymentStatus.BUILDING]
+          : [DeploymentStatus.QUEUED],
+      },
+    },
+    select: { id: true, status: true },
+  });
+
+  for (const older of olderDeployments) {
+    try {
+      const buildJob = await buildQueue.getJob(older.id);
+      const job = buildJob ?? (await rollbackQueue.getJob(older.id));
+
+      // A job the worker already picked up can't be removed (it is locked)
+      let removed = older.status === DeploymentStatus.QUEUED;
+      if (removed && job) {
+        try {
+          await job.remove();
+        } catch {
+          removed = false;
+        }
+      }
+
+      if (removed) {
+        const skipped = await prisma.deployment.updateMany({
+          where: { id: older.id, status: DeploymentStatus.QUEUED },
+          data: {
+            status: DeploymentStatus.SKIPPED,
+            supersededById: deployment.id,
+            logs: `Skipped: superseded by deployment ${deployment.id.substring(0, 8)}`,
+            finishedAt: new Date(),
+          },
+        });
+        if (skipped.count > 0) {
+          socketHandlers?.emitDeploymentStatus(older.id, DeploymentStatus.SKIPPED);
+        }
+        await removeSourceArchive(older.id);
+      } else if (interrupt && buildJob) {
+        await requestCancellation(older.id, deployment.id);
+      }
+    } catch (error) {
+      console.error(`Failed to supersede deployment ${older.id}:`, error);
+    }
+  }
+}
@@ -0,0 +1,82 @@
+import type { WebhookCommit } from '@renderlite/shared';
+
+/** GitHub lists at most this many commits in a push payload; longer pushes are truncated */
+const PUSH_PAYLOAD_COMMIT_LIMIT = 20;
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Convert a watch path into a regex. Patterns are relative to the repo root:
+ * `*` matches within a path segment, `**` across segments, and a pattern
+ * without wildcards matches that file or everything under that directory.
+ */
+function watchPathToRegExp(pattern: string): RegExp {
+  const normalized = pattern.trim().replace(/^\.?\/+/, '').replace(/\/+$/, '');
+
+  if (!/[*?]/.test(normalized)) {
+    return new RegExp(`^${escapeRegExp(normalized)}(/.*)?$`);
+  }
+
+  const source = normalized
+    .split('**')
+    .map((part) => part.split('*').map((piece) => escapeRegExp(piece).replace(/\?/g, '[^/]')).join('[^/]*'))
+    .join('.*');
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Watch paths that decide whether a push should redeploy a service.
+ * Falls back to the service's root directory; an empty list means "any change".
+ */
+export function getEffectiveWatchPaths(service: {
+  watchPaths: string[];
+  rootDirectory: string | null;
+}): string[] {
+  if (service.watchPaths.length > 0) {
+    return service.watchPaths;
+  }
+  return service.rootDirectory ? [service.rootDirectory] : [];
+}
+
+/**
+ * Collect the files touched by a push, or null when the payload can't tell us
+ * (no commit list, or a truncated one). Providers that report the push's total
+ * commit count pass it; otherwise a full page of commits counts as truncated.
+ */
+export function getChangedFiles(commits: WebhookCommit[] | undefined, totalCommits?: number): string[] | null {
+  if (!commits || commits.length === 0) {
+    return null;
+  }
+  const truncated =
+    totalCommits !== undefined ? totalCommits > commits.length : commits.length >= PUSH_PAYLOAD_COMMIT_LIMIT;
+  if (truncated) {
+    return null;
+  }
+
+  const files = new Set<string>();
+  for (const commit of commits) {
+    for (const file of [...(commit.added ?? []), ...(commit.removed ?? []), ...(commit.modified ?? [])]) {
+      files.add(file);
+    }
+  }
+  return [...files];
+}
+
+/**
+ * Whether a push touched any of the given watch paths. Pushes whose changed
+ * files are unknown always count as a match so deploys are never missed.
+ */
+export function pushMatchesWatchPaths(changedFiles: string[] | null, watchPaths: string[]): boolean {
+  if (watchPaths.length === 0) {
+    return true;
+  }
+
+  if (!changedFiles) {
+    return true;
+  }
+
+  const patterns = watchPaths.map(watchPathToRegExp);
+  return changedFiles.some((file) => patterns.some((pattern) => pattern.test(file)));
+}
@@ -0,0 +1,146 @@
+import axios from 'axios';
+import type { Readable } from 'stream';
+import type {
+  Blueprint,
+  Deployment,
+  DeploymentStrategy,
+  ImportProjectRequest,
+  LogLine,
+  Project,
+  ProjectImportPlan,
+  Service,
+} from '@renderlite/shared';
+import type { CliConfig } from './config.js';
+import { CliError, EXIT_CODES } from './errors.js';
+
+export interface UserProfile {
+  id: string;
+  email: string;
+  username: string;
+}
+
+export type ProjectSummary = Project & { _count: { services: number } };
+export type ServiceSummary = Service & { project: { id: string; name: string } };
+export type ServiceDetail = ServiceSummary & { deployments: Deployment[] };
+
+export interface BlueprintValidation {
+  valid: boolean;
+  errors: string[]; // problems with the file itself
+  problems: string[]; // what would fail the service's next deploy
+  blueprint: Blueprint | null;
+}
+
+export interface DeploymentLogs {
+  id: string;
+  status: Deployment['status'];
+  logs: string;
+  logLines: LogLine[] | null;
+}
+
+async function readStream(stream: Readable): Promise<string> {
+  let text = '';
+  for await (const chunk of stream) {
+    text += chunk.toString();
+  }
+  return text;
+}
+
+/**
+ * Turn a failed request into a CliError with the API's own error message
+ */
+async function toCliError(error: unknown): Promise<CliError> {
+  if (!axios.isAxiosError(error)) {
+    return error instanceof CliError ? error : new CliError(error instanceof Error ? error.message : String(error));
+  }
+  if (!error.response) {
+    return new CliError(`Could not reach the RenderLite API: ${error.message}`);
+  }
+  if (error.response.status === 401) {
+    return new CliError('Not logged in, or the token has expired. Run `renderlite login`.', EXIT_CODES.ERROR, 401);
+  }
+
+  let data = error.response.data;
+  // Streaming requests (service logs) get their error body as a stream too
+  if (data && typeof data.pipe === 'function') {
+    try {
+      data = JSON.parse(await readStream(data));
+    } catch {
+      data = null;
+    }
+  }
+  const { status } = error.response;
+  return new CliError(data?.error || `API request failed with status ${status}`, EXIT_CODES.ERROR, status);
+}
+
+/**
+ * Client for the RenderLite REST API -- the endpoints the dashboard uses
+ * (frontend/src/api/client.ts). Failed requests reject with a CliError.
+ */
+export function createApiClient(config: CliConfig) {
+  const api = axios.create({
+    baseURL: config.apiUrl,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(config.token && { Authorization: `Bearer ${config.token}` }),
+    },
+  });
+
+  api.interceptors.response.use(
+    (response) => response,
+    async (error) => Promise.reject(await toCliError(error))
+  );
+
+  return {
+    auth: {
+      devLogin: async () => (await api.post<{ token: string; user: UserProfile }>('/auth/dev-login')).data,
+      me: async () => (await api.get<UserProfile>('/auth/me')).data,
+    },
+
+    projects: {
+      list: async () => (await api.get<ProjectSummary[]>('/api/projects')).data,
+      export: async (id: string, format: 'json' | 'yaml') =>
+        (
+          await api.get<string>(`/api/projects/${id}/export`, {
+            params: { format },
+            responseType: 'text',
+            transformResponse: (data) => data,
+          })
+        ).data,
+      import: async (request: ImportProjectRequest) =>
+        (await api.post<ProjectImportPlan>('/api/projects/import', request)).data,
+    },
+
+    services: {
+      list: async (projectId?: string) =>
+        (await api.get<ServiceSummary[]>('/api/services', { params: { projectId } })).data,
+      get: async (id: string) => (await api.get<ServiceDetail>(`/api/services/${id}`)).data,
+      getEnv: async (id: string) => (await api.get<Record<string, string>>(`/api/services/${id}/env`)).data,
+      updateEnv: async (id: string, changes: { set?: Record<string, string>; unset?: string[] }) =>
+        (await api.patch<{ envVars: Record<string, string> | null }>(`/api/services/${id}/env`, changes)).data,
+      logs: async (id: string, options: { tail: number; follow: boolean }) =>
+        (
+          await api.get<Readable>(`/api/services/${id}/logs`, {
+            params: { tail: options.tail, follow: options.follow || undefined },
+            responseType: 'stream',
+          })
+        ).data,
+    },
+
+    deployments: {
+      list: async (serviceId: string) =>
+        (await api.get<Deployment[]>('/api/deployments', { params: { serviceId } })).data,
+      get: async (id: string) => (await api.get<Deployment>(`/api/deployments/${id}`)).data,
+      getLogs: async (id: string) => (await api.get<DeploymentLogs>(`/api/deployments/${id}/logs`)).data,
+      trigger: async (serviceId: string, options: { ref?: string; strategy?: DeploymentStrategy } = {}) =>
+        (await api.post<Deployment>('/api/deployments', { serviceId, ...options })).data,
+      rollback: async (id: string) => (await api.post<Deployment>(`/api/deployments/${id}/rollback`)).data,
+    },
+
+    blueprints: {
+      validate: async (content: string, serviceId?: string) =>
+        (await api.post<BlueprintValidation>('/api/blueprints/validate', { content, serviceId })).data,
+    },
+  };
+}
+
+export type ApiClient = ReturnType<typeof createApiClient>;
@@ -0,0 +1,77 @@
+import { createInterface } from 'readline/promises';
+import { createApiClient } from '../api.js';
+import { CONFIG_PATH, saveConfig } from '../config.js';
+import { CliError } from '../errors.js';
+import type { Command } from './types.js';
+
+async function readToken(): Promise<string> {
+  // Piped in, e.g. `echo "$RENDERLITE_TOKEN" | renderlite login`
+  if (!process.stdin.isTTY) {
+    let input = '';
+    for await (const chunk of process.stdin) {
+      input += chunk.toString();
+    }
+    return input.trim();
+  }
+
+  const prompt = createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    console.log('Sign in to the dashboard, then copy the "token" value from the browser\'s local storage.');
+    return (await prompt.question('API token: ')).trim();
+  } finally {
+    prompt.close();
+  }
+}
+
+export const login: Command = {
+  usage: '[--dev | --token <token>] [--api-url <url>]',
+  description: 'Log in with the development login or a pasted API token',
+  options: {
+    dev: { type: 'boolean' },
+    token: { type: 'string' },
+    'api-url': { type: 'string' },
+  },
+  async run({ config, values }) {
+    const apiUrl = typeof values['api-url'] === 'string' ? values['api-url'].replace(/\/+$/, '') : config.apiUrl;
+
+    let token: string;
+    if (values.dev) {
+      try {
+        token = (await createApiClient({ apiUrl }).auth.devLogin()).token;
+      } catch (error) {
+        if (error instanceof CliError && error.statusCode === 404) {
+          throw new CliError('Dev login is not enabled on this server (DEV_AUTH_ENABLED)');
+        }
+        throw error;
+      }
+    } else {
+      token = typeof values.token === 'string' ? values.token.trim() : await readToken();
+    }
+
+    if (!token) {
+      throw new CliError('No token given');
+    }
+
+    const user = await createApiClient({ apiUrl, token }).auth.me();
+    await saveConfig({ apiUrl, token });
+    console.log(`Logged in to ${apiUrl} as ${user.username}`);
+  },
+};
+
+export const logout: Command = {
+  usage: '',
+  description: 'Forget the saved API token',
+  async run({ config }) {
+    await saveConfig({ apiUrl: config.apiUrl });
+    console.log(`Logged out (${CONFIG_PATH})`);
+  },
+};
+
+export const whoami: Command = {
+  usage: '',
+  description: 'Show the logged-in user',
+  async run({ config, client }) {
+    const user = await client.auth.me();
+    console.log(`${user.username} <${user.email}> on ${config.apiUrl}`);
+  },
+};
@@ -0,0 +1,94 @@
+import { DeploymentStatus, DeploymentStrategy } from '@renderlite/shared';
+import type { ApiClient } from '../api.js';
+import type { CliConfig } from '../config.js';
+import { CliError, EXIT_CODES } from '../errors.js';
+import { printLogLine } from '../output.js';
+import { resolveService } from '../resolve.js';
+import { followDeployment } from '../socket.js';
+import type { Command } from './types.js';
+
+/**
+ * Stream a deployment's output until it finishes; the exit code reflects the result
+ */
+async function waitForDeployment(client: ApiClient, config: CliConfig, deploymentId: string): Promise<number> {
+  const status = await followDeployment(client, config, deploymentId, printLogLine);
+
+  if (status === DeploymentStatus.SUCCESS) {
+    console.log(`\nDeployment ${deploymentId} succeeded`);
+    return EXIT_CODES.OK;
+  }
+  if (status === DeploymentStatus.FAILED) {
+    console.error(`\nDeployment ${deploymentId} failed`);
+    return EXIT_CODES.DEPLOYMENT_FAILED;
+  }
+  console.error(`\nDeployment ${deploymentId} was ${status === DeploymentStatus.SKIPPED ? 'skipped' : 'cancelled'}`);
+  return EXIT_CODES.DEPLOYMENT_CANCELLED;
+}
+
+export const deploy: Command = {
+  usage: '<service> [--ref <ref>] [--strategy STANDARD|CANARY] [--wait]',
+  description: 'Deploy a service; --wait streams the build and exits with its result',
+  options: {
+    ref: { type: 'string' },
+    strategy: { type: 'string' },
+    wait: { type: 'boolean', short: 'w' },
+  },
+  async run({ config, client, positionals, values }) {
+    const [serviceRef] = positionals;
+    if (!serviceRef) {
+      throw new CliError('Missing <service>', EXIT_CODES.USAGE);
+    }
+
+    const strategy = values.strategy;
+    if (strategy !== undefined && !Object.values(DeploymentStrategy).includes(strategy as DeploymentStrategy)) {
+      throw new CliError(`--strategy must be one of: ${Object.values(DeploymentStrategy).join(', ')}`, EXIT_CODES.USAGE);
+    }
+
+    const service = await resolveService(client, serviceRef);
+    const deployment = await client.deployments.trigger(service.id, {
+      ref: typeof values.ref === 'string' ? values.ref : undefined,
+      strategy: strategy as DeploymentStrategy | undefined,
+    });
+    console.log(`Deployment ${deployment.id} of ${service.name} queued`);
+
+    if (values.wait) {
+      return waitForDeployment(client, config, deployment.id);
+    }
+  },
+};
+
+export const rollback: Command = {
+  usage: '<service> [<deployment>] [--wait]',
+  description: 'Redeploy an earlier successful deployment; by default the one before the current image',
+  options: {
+    wait: { type: 'boolean', short: 'w' },
+  },
+  async run({ config, client, positionals, values }) {
+    const [serviceRef, deploymentId] = positionals;
+    if (!serviceRef) {
+      throw new CliError('Missing <service>', EXIT_CODES.USAGE);
+    }
+
+    const service = await resolveService(client, serviceRef);
+    let targetId = deploymentId;
+    if (!targetId) {
+      // Newest first; rollbacks reuse an image, so skip deployments of the current one
+      const successful = (await client.deployments.list(service.id)).filter(
+        (deployment) => deployment.status === DeploymentStatus.SUCCESS && deployment.imageTag
+      );
+      const current = successful[0];
+      const target = successful.find((deployment) => deployment.imageTag !== current?.imageTag);
+      if (!target) {
+        throw new CliError(`${service.name} has no earlier successful deployment to roll back to`);
+      }
+      targetId = target.id;
+    }
+
+    const deployment = await client.deployments.rollback(targetId);
+    console.log(`Rollback ${deployment.id} of ${service.name} to ${deployment.imageTag} queued`);
+
+    if (values.wait) {
+      return waitForDeployment(client, config, deployment.id);
+    }
+  },
+};
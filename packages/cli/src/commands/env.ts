@@ -0,0 +1,70 @@
+import { CliError, EXIT_CODES } from '../errors.js';
+import { resolveService } from '../resolve.js';
+import type { Command } from './types.js';
+
+const REDEPLOY_HINT = 'Changes apply from the next deployment.';
+
+export const envGet: Command = {
+  usage: '<service> [<key>]',
+  description: 'Print environment variables as KEY=value, or the value of one',
+  async run({ client, positionals }) {
+    const [serviceRef, key] = positionals;
+    if (!serviceRef) {
+      throw new CliError('Missing <service>', EXIT_CODES.USAGE);
+    }
+
+    const service = await resolveService(client, serviceRef);
+    const envVars = await client.services.getEnv(service.id);
+
+    if (key) {
+      if (!(key in envVars)) {
+        throw new CliError(`${key} is not set on ${service.name}`);
+      }
+      console.log(envVars[key]);
+      return;
+    }
+
+    Object.keys(envVars)
+      .sort()
+      .forEach((name) => console.log(`${name}=${envVars[name]}`));
+  },
+};
+
+export const envSet: Command = {
+  usage: '<service> <KEY=value>...',
+  description: 'Set environment variables, keeping the others',
+  async run({ client, positionals }) {
+    const [serviceRef, ...assignments] = positionals;
+    if (!serviceRef || assignments.length === 0) {
+      throw new CliError('Missing <service> or KEY=value', EXIT_CODES.USAGE);
+    }
+
+    const set: Record<string, string> = {};
+    for (const assignment of assignments) {
+      const separator = assignment.indexOf('=');
+      if (separator <= 0) {
+        throw new CliError(`Expected KEY=value, got "${assignment}"`, EXIT_CODES.USAGE);
+      }
+      set[assignment.slice(0, separator)] = assignment.slice(separator + 1);
+    }
+
+    const service = await resolveService(client, serviceRef);
+    await client.services.updateEnv(service.id, { set });
+    console.log(`Set ${Object.keys(set).join(', ')} on ${service.name}. ${REDEPLOY_HINT}`);
+  },
+};
+
+export const envUnset: Command = {
+  usage: '<service> <KEY>...',
+  description: 'Remove environment variables',
+  async run({ client, positionals }) {
+    const [serviceRef, ...keys] = positionals;
+    if (!serviceRef || keys.length === 0) {
+      throw new CliError('Missing <service> or KEY', EXIT_CODES.USAGE);
+    }
+
+    const service = await resolveService(client, serviceRef);
+    await client.services.updateEnv(service.id, { unset: keys });
+    console.log(`Removed ${keys.join(', ')} from ${service.name}. ${REDEPLOY_HINT}`);
+  },
+};
@@ -0,0 +1,41 @@
+import { login, logout, whoami } from './auth.js';
+import { deploy, rollback } from './deploy.js';
+import { envGet, envSet, envUnset } from './env.js';
+import { logs } from './logs.js';
+import { projects, projectsExport, projectsImport } from './projects.js';
+import { services } from './services.js';
+import { validate } from './validate.js';
+import type { Command } from './types.js';
+
+export type { Command, CommandContext } from './types.js';
+
+// Keyed by the words that invoke them, e.g. `renderlite env set`
+export const COMMANDS: Record<string, Command> = {
+  login,
+  logout,
+  whoami,
+  projects,
+  'projects export': projectsExport,
+  'projects import': projectsImport,
+  services,
+  deploy,
+  rollback,
+  'env get': envGet,
+  'env set': envSet,
+  'env unset': envUnset,
+  logs,
+  validate,
+};
+
+/**
+ * The command named by the start of argv, and the arguments after its name
+ */
+export function findCommand(argv: string[]): { name: string; command: Command; args: string[] } | null {
+  for (const words of [2, 1]) {
+    const name = argv.slice(0, words).join(' ');
+    if (argv.length >= words && COMMANDS[name]) {
+      return { name, command: COMMANDS[name], args: argv.slice(words) };
+    }
+  }
+  return null;
+}
@@ -0,0 +1,29 @@
+import { CliError, EXIT_CODES } from '../errors.js';
+import { resolveService } from '../resolve.js';
+import type { Command } from './types.js';
+
+export const logs: Command = {
+  usage: '<service> [--tail <lines>] [--follow]',
+  description: "Print a service's runtime logs; --follow keeps streaming new lines",
+  options: {
+    tail: { type: 'string', short: 'n' },
+    follow: { type: 'boolean', short: 'f' },
+  },
+  async run({ client, positionals, values }) {
+    const [serviceRef] = positionals;
+    if (!serviceRef) {
+      throw new CliError('Missing <service>', EXIT_CODES.USAGE);
+    }
+
+    const tail = values.tail === undefined ? 100 : Number(values.tail);
+    if (!Number.isInteger(tail) || tail < 0) {
+      throw new CliError('--tail must be a whole number', EXIT_CODES.USAGE);
+    }
+
+    const service = await resolveService(client, serviceRef);
+    const stream = await client.services.logs(service.id, { tail, follow: Boolean(values.follow) });
+    for await (const chunk of stream) {
+      process.stdout.write(chunk);
+    }
+  },
+};
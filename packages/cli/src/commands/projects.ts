@@ -0,0 +1,90 @@
+import fs from 'fs/promises';
+import { CliError, EXIT_CODES } from '../errors.js';
+import { printTable } from '../output.js';
+import { resolveProject } from '../resolve.js';
+import type { Command } from './types.js';
+
+export const projects: Command = {
+  usage: '',
+  description: 'List projects',
+  async run({ client }) {
+    const projects = await client.projects.list();
+    if (projects.length === 0) {
+      console.log('No projects');
+      return;
+    }
+
+    printTable(
+      ['ID', 'NAME', 'SERVICES'],
+      projects.map((project) => [project.id, project.name, String(project._count.services)])
+    );
+  },
+};
+
+export const projectsExport: Command = {
+  usage: '<project> [--format json|yaml] [--output <file>]',
+  description: 'Export a project as a spec; secret values are left out',
+  options: {
+    format: { type: 'string' },
+    output: { type: 'string', short: 'o' },
+  },
+  async run({ client, positionals, values }) {
+    const [projectRef] = positionals;
+    if (!projectRef) {
+      throw new CliError('Missing <project>', EXIT_CODES.USAGE);
+    }
+    const format = (values.format as string | undefined) ?? 'yaml';
+    if (format !== 'json' && format !== 'yaml') {
+      throw new CliError('--format must be json or yaml', EXIT_CODES.USAGE);
+    }
+
+    const project = await resolveProject(client, projectRef);
+    const exported = await client.projects.export(project.id, format);
+    const spec = format === 'json' ? `${JSON.stringify(JSON.parse(exported), null, 2)}\n` : exported;
+
+    if (values.output) {
+      await fs.writeFile(values.output as string, spec);
+      console.error(`Exported ${project.name} to ${values.output}`);
+      return;
+    }
+    process.stdout.write(spec);
+  },
+};
+
+export const projectsImport: Command = {
+  usage: '<file> [--name <project>] [--org <organization id>] [--dry-run]',
+  description: 'Create or update a project from a spec; --dry-run only prints the plan',
+  options: {
+    name: { type: 'string' },
+    org: { type: 'string' },
+    'dry-run': { type: 'boolean' },
+  },
+  async run({ client, positionals, values }) {
+    const [file] = positionals;
+    if (!file) {
+      throw new CliError('Missing <file>', EXIT_CODES.USAGE);
+    }
+    const spec = await fs.readFile(file, 'utf8').catch(() => {
+      throw new CliError(`Could not read ${file}`, EXIT_CODES.USAGE);
+    });
+
+    const plan = await client.projects.import({
+      spec,
+      name: values.name as string | undefined,
+      organizationId: values.org as string | undefined,
+      dryRun: Boolean(values['dry-run']),
+    });
+
+    printTable(
+      ['ACTION', 'RESOURCE', 'NAME', 'DETAIL'],
+      plan.changes.map((change) => [
+        change.action,
+        change.resource,
+        change.name,
+        change.fields?.join(', ') ?? change.reason ?? '',
+      ])
+    );
+    plan.warnings.forEach((warning) => console.error(`Warning: ${warning}`));
+    console.log(plan.applied ? `\nImported into project ${plan.projectId}` : '\nDry run: nothing was changed');
+  },
+};
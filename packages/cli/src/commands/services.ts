@@ -0,0 +1,22 @@
+import { printTable } from '../output.js';
+import type { Command } from './types.js';
+
+export const services: Command = {
+  usage: '[--project <id>]',
+  description: 'List services, optionally of one project',
+  options: {
+    project: { type: 'string' },
+  },
+  async run({ client, values }) {
+    const services = await client.services.list(typeof values.project === 'string' ? values.project : undefined);
+    if (services.length === 0) {
+      console.log('No services');
+      return;
+    }
+
+    printTable(
+      ['ID', 'NAME', 'SUBDOMAIN', 'PROJECT', 'STATUS'],
+      services.map((service) => [service.id, service.name, service.subdomain, service.project.name, service.status])
+    );
+  },
+};
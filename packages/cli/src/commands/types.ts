@@ -0,0 +1,18 @@
+import type { ParseArgsConfig } from 'util';
+import type { ApiClient } from '../api.js';
+import type { CliConfig } from '../config.js';
+
+export interface CommandContext {
+  config: CliConfig;
+  client: ApiClient;
+  positionals: string[];
+  values: Record<string, string | boolean | undefined>;
+}
+
+export interface Command {
+  usage: string; // arguments and options, after the command name
+  description: string;
+  options?: ParseArgsConfig['options'];
+  // Resolves with the process exit code; nothing means success
+  run: (context: CommandContext) => Promise<number | void>;
+}
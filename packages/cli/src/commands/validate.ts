@@ -0,0 +1,34 @@
+import fs from 'fs/promises';
+import { BLUEPRINT_FILENAME } from '@renderlite/shared';
+import { CliError, EXIT_CODES } from '../errors.js';
+import { resolveService } from '../resolve.js';
+import type { Command } from './types.js';
+
+export const validate: Command = {
+  usage: '[<file>] [--service <service>]',
+  description: `Check a ${BLUEPRINT_FILENAME} (default: the one in this directory), and against a service with --service`,
+  options: {
+    service: { type: 'string', short: 's' },
+  },
+  async run({ client, positionals, values }) {
+    const [file = BLUEPRINT_FILENAME] = positionals;
+    const content = await fs.readFile(file, 'utf8').catch(() => {
+      throw new CliError(`Could not read ${file}`, EXIT_CODES.USAGE);
+    });
+
+    const serviceId = values.service
+      ? (await resolveService(client, values.service as string)).id
+      : undefined;
+    const result = await client.blueprints.validate(content, serviceId);
+
+    if (result.valid) {
+      console.log(`${file} is valid`);
+      return;
+    }
+    for (const message of [...result.errors, ...result.problems]) {
+      console.error(`  - ${message}`);
+    }
+    console.error(`${file} is not valid`);
+    return EXIT_CODES.ERROR;
+  },
+};
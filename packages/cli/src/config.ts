@@ -0,0 +1,39 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+export interface CliConfig {
+  apiUrl: string;
+  token?: string;
+}
+
+const DEFAULT_API_URL = 'http://localhost:3001';
+
+export const CONFIG_PATH =
+  process.env.RENDERLITE_CONFIG || path.join(os.homedir(), '.config', 'renderlite', 'config.json');
+
+/**
+ * The saved login. RENDERLITE_API_URL and RENDERLITE_TOKEN take precedence over it,
+ * so CI jobs can run without `renderlite login`.
+ */
+export async function loadConfig(): Promise<CliConfig> {
+  let saved: Partial<CliConfig> = {};
+  try {
+    saved = JSON.parse(await fs.readFile(CONFIG_PATH, 'utf8'));
+  } catch {
+    // not logged in yet
+  }
+
+  return {
+    apiUrl: (process.env.RENDERLITE_API_URL || saved.apiUrl || DEFAULT_API_URL).replace(/\/+$/, ''),
+    token: process.env.RENDERLITE_TOKEN || saved.token,
+  };
+}
+
+/**
+ * Save the API URL and token, readable only by the current user
+ */
+export async function saveConfig(config: CliConfig): Promise<void> {
+  await fs.mkdir(path.dirname(CONFIG_PATH), { recursive: true });
+  await fs.writeFile(CONFIG_PATH, `${JSON.stringify(config, null, 2)}\n`, { mode: 0o600 });
+}
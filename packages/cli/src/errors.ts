@@ -0,0 +1,22 @@
+/**
+ * Process exit codes. A failed deployment exits differently from a failure to talk
+ * to the API, so CI pipelines can tell the two apart.
+ */
+export const EXIT_CODES = {
+  OK: 0,
+  ERROR: 1, // API, network or authentication error
+  USAGE: 2, // unknown command or bad arguments
+  DEPLOYMENT_FAILED: 3,
+  DEPLOYMENT_CANCELLED: 4, // cancelled, or skipped for a newer deployment
+} as const;
+
+export class CliError extends Error {
+  exitCode: number;
+  statusCode?: number; // HTTP status, for errors from the API
+
+  constructor(message: string, exitCode: number = EXIT_CODES.ERROR, statusCode?: number) {
+    super(message);
+    this.exitCode = exitCode;
+    this.statusCode = statusCode;
+  }
+}
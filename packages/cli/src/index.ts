@@ -0,0 +1,81 @@
+#!/usr/bin/env node
+import { parseArgs } from 'util';
+import { createApiClient } from './api.js';
+import { COMMANDS, findCommand } from './commands/index.js';
+import { loadConfig } from './config.js';
+import { CliError, EXIT_CODES } from './errors.js';
+
+function printHelp(): void {
+  const width = Math.max(...Object.keys(COMMANDS).map((name) => name.length));
+  console.log('Usage: renderlite <command> [options]\n\nCommands:');
+  for (const [name, command] of Object.entries(COMMANDS)) {
+    console.log(`  ${name.padEnd(width)}  ${command.description}`);
+  }
+  console.log(`
+Run \`renderlite <command> --help\` for a command's options.
+
+Environment:
+  RENDERLITE_API_URL  API to talk to (default: the one saved by login, or http://localhost:3001)
+  RENDERLITE_TOKEN    API token to use instead of the saved login, e.g. in CI
+
+Exit codes:
+  0  success
+  1  error talking to the API
+  2  bad command or arguments
+  3  deployment failed (with --wait)
+  4  deployment cancelled or skipped (with --wait)`);
+}
+
+async function main(argv: string[]): Promise<number> {
+  const match = findCommand(argv);
+  if (!match) {
+    printHelp();
+    const askedForHelp = argv.length === 0 || ['help', '--help', '-h'].includes(argv[0]);
+    return askedForHelp ? EXIT_CODES.OK : EXIT_CODES.USAGE;
+  }
+
+  const { name, command, args } = match;
+  const usage = `Usage: renderlite ${name} ${command.usage}`.trimEnd();
+
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args,
+      options: { ...command.options, help: { type: 'boolean', short: 'h' } },
+      allowPositionals: true,
+    });
+  } catch (error) {
+    throw new CliError(`${error instanceof Error ? error.message : error}\n${usage}`, EXIT_CODES.USAGE);
+  }
+
+  if (parsed.values.help) {
+    console.log(`${usage}\n\n${command.description}`);
+    return EXIT_CODES.OK;
+  }
+
+  const config = await loadConfig();
+  try {
+    const exitCode = await command.run({
+      config,
+      client: createApiClient(config),
+      positionals: parsed.positionals,
+      values: parsed.values,
+    });
+    return exitCode ?? EXIT_CODES.OK;
+  } catch (error) {
+    if (error instanceof CliError && error.exitCode === EXIT_CODES.USAGE) {
+      error.message = `${error.message}\n${usage}`;
+    }
+    throw error;
+  }
+}
+
+main(process.argv.slice(2)).then(
+  (exitCode) => {
+    process.exitCode = exitCode;
+  },
+  (error) => {
+    console.error(`Error: ${error instanceof Error ? error.message : error}`);
+    process.exitCode = error instanceof CliError ? error.exitCode : EXIT_CODES.ERROR;
+  }
+);
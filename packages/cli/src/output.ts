@@ -0,0 +1,21 @@
+import type { LogLine } from '@renderlite/shared';
+
+/**
+ * Print rows as left-aligned columns under a header row
+ */
+export function printTable(headers: string[], rows: string[][]): void {
+  const widths = headers.map((header, column) =>
+    Math.max(header.length, ...rows.map((row) => (row[column] ?? '').length))
+  );
+  const formatRow = (row: string[]) =>
+    row
+      .map((cell, column) => (column === row.length - 1 ? cell : cell.padEnd(widths[column])))
+      .join('  ');
+
+  console.log(formatRow(headers));
+  rows.forEach((row) => console.log(formatRow(row)));
+}
+
+export function printLogLine(line: LogLine): void {
+  process.stdout.write(`${line.message}\n`);
+}
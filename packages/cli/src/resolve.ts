@@ -0,0 +1,42 @@
+import type { ApiClient, ProjectSummary, ServiceSummary } from './api.js';
+import { CliError } from './errors.js';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Find a service by id, subdomain or name. Names are only unique within a project,
+ * so a name shared by several services has to be given as an id or subdomain.
+ */
+export async function resolveService(client: ApiClient, ref: string): Promise<ServiceSummary> {
+  if (UUID_PATTERN.test(ref)) {
+    return client.services.get(ref);
+  }
+
+  const services = await client.services.list();
+  const bySubdomain = services.find((service) => service.subdomain === ref);
+  if (bySubdomain) {
+    return bySubdomain;
+  }
+
+  const byName = services.filter((service) => service.name === ref);
+  if (byName.length > 1) {
+    const candidates = byName.map((service) => `${service.subdomain} (${service.project.name})`).join(', ');
+    throw new CliError(`Several services are named "${ref}": ${candidates}. Use the subdomain instead.`);
+  }
+  if (byName.length === 0) {
+    throw new CliError(`Service not found: ${ref}`);
+  }
+  return byName[0];
+}
+
+/**
+ * Find a project by id or name
+ */
+export async function resolveProject(client: ApiClient, ref: string): Promise<ProjectSummary> {
+  const projects = await client.projects.list();
+  const project = projects.find((p) => p.id === ref) ?? projects.find((p) => p.name === ref);
+  if (!project) {
+    throw new CliError(`Project not found: ${ref}`);
+  }
+  return project;
+}
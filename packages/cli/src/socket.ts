@@ -0,0 +1,109 @@
+import { io } from 'socket.io-client';
+import { DeploymentStatus } from '@renderlite/shared';
+import type { LogLine, RealtimeEvent } from '@renderlite/shared';
+import type { ApiClient } from './api.js';
+import type { CliConfig } from './config.js';
+import { CliError } from './errors.js';
+
+type DeploymentLogEvent = Omit<Extract<RealtimeEvent, { type: 'deployment:log' }>, 'type'>;
+type DeploymentStatusEvent = Omit<Extract<RealtimeEvent, { type: 'deployment:status' }>, 'type'>;
+
+const FINISHED_STATUSES: string[] = [
+  DeploymentStatus.SUCCESS,
+  DeploymentStatus.FAILED,
+  DeploymentStatus.CANCELLED,
+  DeploymentStatus.SKIPPED,
+];
+
+// Backstop for a final status the socket missed, e.g. while reconnecting
+const STATUS_POLL_INTERVAL_MS = 5000;
+
+export function isFinished(status: string): boolean {
+  return FINISHED_STATUSES.includes(status);
+}
+
+/**
+ * Stream a deployment's build and rollout output over the API's socket.io
+ * `subscribe:deployment` channel until it finishes, resolving with its final status.
+ * A deployment that already finished before the subscription has its stored output
+ * printed instead.
+ */
+export function followDeployment(
+  client: ApiClient,
+  config: CliConfig,
+  deploymentId: string,
+  onLine: (line: LogLine) => void
+): Promise<DeploymentStatus> {
+  return new Promise((resolve, reject) => {
+    const socket = io(config.apiUrl, {
+      auth: { token: config.token },
+      transports: ['websocket'],
+      reconnectionAttempts: 5,
+    });
+    let streamed = false;
+    let done = false;
+
+    const stop = () => {
+      done = true;
+      clearInterval(poll);
+      socket.disconnect();
+    };
+    const finish = (status: DeploymentStatus) => {
+      if (done) return;
+      stop();
+      resolve(status);
+    };
+    const fail = (error: unknown) => {
+      if (done) return;
+      stop();
+      reject(error);
+    };
+
+    const checkStatus = async () => {
+      const deployment = await client.deployments.get(deploymentId);
+      if (done || !isFinished(deployment.status)) return;
+
+      if (!streamed) {
+        const { logs, logLines } = await client.deployments.getLogs(deploymentId);
+        const lines =
+          logLines ??
+          logs.split('\n').map((message): LogLine => ({ stream: 'system', level: 'info', message, timestamp: '' }));
+        lines.forEach(onLine);
+      }
+      finish(deployment.status);
+    };
+
+    const poll = setInterval(() => {
+      checkStatus().catch(fail);
+    }, STATUS_POLL_INTERVAL_MS);
+
+    socket.on('connect', () => {
+      socket.emit('subscribe:deployment', deploymentId);
+      checkStatus().catch(fail);
+    });
+
+    socket.on('deployment:log', (event: DeploymentLogEvent) => {
+      if (event.deploymentId !== deploymentId || done) return;
+      streamed = true;
+      onLine({
+        stream: event.stream ?? 'system',
+        level: event.level ?? 'info',
+        message: event.log,
+        timestamp: event.timestamp,
+      });
+    });
+
+    socket.on('deployment:status', (event: DeploymentStatusEvent) => {
+      if (event.deploymentId === deploymentId && isFinished(event.status)) {
+        finish(event.status);
+      }
+    });
+
+    socket.on('connect_error', (error) => {
+      // socket.active is false once socket.io gives up, e.g. when the token is rejected
+      if (!socket.active) {
+        fail(new CliError(`Could not stream deployment logs: ${error.message}`));
+      }
+    });
+  });
+}
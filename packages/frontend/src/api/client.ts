@@ -48,18 +48,34 @@ export const servicesApi = {
   create: (data: {
     name: string;
     projectId: string;
-    repoUrl: string;
+    type?: 'WEB' | 'CRON' | 'WORKER';
+    sourceType?: 'GIT' | 'IMAGE';
+    repoUrl?: string;
+    imageRef?: string;
+    registryUsername?: string;
+    registryPassword?: string;
+    gitProvider?: 'GITHUB' | 'GITLAB' | 'GITEA' | 'GENERIC';
+    gitProviderUrl?: string;
+    gitAccessToken?: string;
     branch?: string;
     runtime?: string;
     envVars?: Record<string, string>;
     healthCheckPath?: string;
     healthCheckInterval?: number;
     healthCheckTimeout?: number;
+    cronSchedule?: string;
+    cronCommand?: string;
+    cronTimeoutSeconds?: number;
   }) => api.post('/api/services', data),
   listGitHubRepos: (q?: string, page: number = 1, perPage: number = 50) =>
     api.get('/api/services/github/repos', { params: { q, page, perPage } }),
   update: (id: string, data: any) => api.put(`/api/services/${id}`, data),
   delete: (id: string) => api.delete(`/api/services/${id}`),
+  scalingEvents: (id: string) => api.get(`/api/services/${id}/scaling-events`),
+  runs: (id: string) => api.get(`/api/services/${id}/runs`),
+  getRun: (id: string, runId: string) => api.get(`/api/services/${id}/runs/${runId}`),
+  generateDeployKey: (id: string) => api.post(`/api/services/${id}/deploy-key`),
+  deleteDeployKey: (id: string) => api.delete(`/api/services/${id}/deploy-key`),
 };
 
 // --- Deployments ---
@@ -67,10 +83,13 @@ export const deploymentsApi = {
   list: (serviceId?: string) =>
     api.get('/api/deployments', { params: { serviceId } }),
   get: (id: string) => api.get(`/api/deployments/${id}`),
-  trigger: (serviceId: string) => api.post('/api/deployments', { serviceId }),
+  trigger: (serviceId: string, ref?: string) =>
+    api.post('/api/deployments', { serviceId, ref }),
   getLogs: (id: string) => api.get(`/api/deployments/${id}/logs`),
   cancel: (id: string) => api.post(`/api/deployments/${id}/cancel`),
   rollback: (id: string) => api.post(`/api/deployments/${id}/rollback`),
+  promote: (id: string) => api.post(`/api/deployments/${id}/promote`),
+  abort: (id: string) => api.post(`/api/deployments/${id}/abort`),
 };
 
 // --- Metrics ---
@@ -95,7 +114,7 @@ export const organizationsApi = {
   get: (id: string) => api.get(`/api/organizations/${id}`),
   create: (data: { name: string; slug: string }) =>
     api.post('/api/organizations', data),
-  update: (id: string, data: { name: string }) =>
+  update: (id: string, data: { name?: string; maxMemoryMb?: number | null; maxCpus?: number | null }) =>
     api.put(`/api/organizations/${id}`, data),
   delete: (id: string) => api.delete(`/api/organizations/${id}`),
   addMember: (orgId: string, data: { email: string; role?: string }) =>
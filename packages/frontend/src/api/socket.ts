@@ -42,23 +42,30 @@ export function disconnectSocket() {
 // Subscribe to deployment logs
 export function subscribeToDeployment(
   deploymentId: string,
-  onLog: (data: { log: string; timestamp: string }) => void,
-  onStatus: (data: { status: string; containerId?: string }) => void
+  onLog: (data: { log: string; stream?: string; level?: string; timestamp: string }) => void,
+  onStatus: (data: { status: string; containerIds?: string[]; steps?: any[] }) => void
 ) {
   const socket = getSocket();
 
-  const logHandler = (data: { deploymentId: string; log: string; timestamp: string }) => {
+  const logHandler = (data: {
+    deploymentId: string;
+    log: string;
+    stream?: string;
+    level?: string;
+    timestamp: string;
+  }) => {
     if (data.deploymentId === deploymentId) {
-      onLog({ log: data.log, timestamp: data.timestamp });
+      onLog({ log: data.log, stream: data.stream, level: data.level, timestamp: data.timestamp });
     }
   };
   const statusHandler = (data: {
     deploymentId: string;
     status: string;
-    containerId?: string;
+    containerIds?: string[];
+    steps?: any[];
   }) => {
     if (data.deploymentId === deploymentId) {
-      onStatus({ status: data.status, containerId: data.containerId });
+      onStatus({ status: data.status, containerIds: data.containerIds, steps: data.steps });
     }
   };
 
@@ -21,6 +21,8 @@ import {
   Zap,
   CircleDot,
   ExternalLink,
+  Ban,
+  SkipForward,
 } from 'lucide-react';
 
 function getGreeting() {
@@ -78,6 +80,10 @@ export default function Dashboard() {
         return <CheckCircle className="w-5 h-5 text-emerald-400 shrink-0" />;
       case 'FAILED':
         return <XCircle className="w-5 h-5 text-red-400 shrink-0" />;
+      case 'CANCELLED':
+        return <Ban className="w-5 h-5 text-yellow-400 shrink-0" />;
+      case 'SKIPPED':
+        return <SkipForward className="w-5 h-5 text-gray-400 shrink-0" />;
       case 'BUILDING':
         return <Activity className="w-5 h-5 text-blue-400 animate-pulse shrink-0" />;
       default:
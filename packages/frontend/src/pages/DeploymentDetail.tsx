@@ -13,12 +13,21 @@ import {
   Activity,
   Clock,
   GitCommit,
+  GitBranch,
   ExternalLink,
   ChevronRight,
   Copy,
   Lock,
   Unlock,
   RotateCcw,
+  ArrowUpCircle,
+  StopCircle,
+  Ban,
+  SkipForward,
+  Loader2,
+  Eye,
+  EyeOff,
+  Upload,
 } from 'lucide-react';
 import { toast } from 'sonner';
 
@@ -29,6 +38,8 @@ const statusColors: Record<string, string> = {
   BUILDING: 'bg-blue-500/20 text-blue-400 border border-blue-500/20',
   SUCCESS: 'bg-green-500/20 text-[#00ff00] border border-green-500/20',
   FAILED: 'bg-red-500/20 text-[#ff003c] border border-red-500/20',
+  CANCELLED: 'bg-yellow-500/20 text-yellow-400 border border-yellow-500/20',
+  SKIPPED: 'bg-white/10 text-gray-400 border border-white/10',
 };
 
 const statusIcons: Record<string, React.ReactNode> = {
@@ -36,13 +47,71 @@ const statusIcons: Record<string, React.ReactNode> = {
   BUILDING: <Activity className="w-5 h-5 text-[#0070f3] animate-pulse" />,
   SUCCESS: <CheckCircle className="w-5 h-5 text-[#00ff00]" />,
   FAILED: <XCircle className="w-5 h-5 text-[#ff003c]" />,
+  CANCELLED: <Ban className="w-5 h-5 text-yellow-400" />,
+  SKIPPED: <SkipForward className="w-5 h-5 text-gray-400" />,
 };
 
+const stepLabels: Record<string, string> = {
+  CLONE: 'Clone',
+  PULL: 'Pull image',
+  UNPACK: 'Unpack source',
+  BUILD: 'Build',
+  RELEASE: 'Release command',
+  START: 'Start containers',
+  HEALTH_CHECK: 'Health check',
+  SWAP: 'Switch traffic',
+};
+
+const stepIcons: Record<string, React.ReactNode> = {
+  RUNNING: <Loader2 className="w-4 h-4 text-[#0070f3] animate-spin" />,
+  SUCCESS: <CheckCircle className="w-4 h-4 text-[#00ff00]" />,
+  FAILED: <XCircle className="w-4 h-4 text-[#ff003c]" />,
+  CANCELLED: <Ban className="w-4 h-4 text-yellow-400" />,
+};
+
+const stepBarColors: Record<string, string> = {
+  RUNNING: 'bg-[#0070f3]',
+  SUCCESS: 'bg-[#00ff00]/70',
+  FAILED: 'bg-[#ff003c]/70',
+  CANCELLED: 'bg-yellow-400/70',
+};
+
+function stepDurationMs(step: any): number {
+  const end = step.finishedAt ? new Date(step.finishedAt).getTime() : Date.now();
+  return Math.max(0, end - new Date(step.startedAt).getTime());
+}
+
+interface LogLine {
+  stream: string;
+  level: string;
+  message: string;
+}
+
+// Deployments from before lines were stored only have plain text logs
+function parseLegacyLogs(logs: string): LogLine[] {
+  return logs
+    .split('\n')
+    .filter((line) => line.trim())
+    .map((message) => ({
+      stream: 'system',
+      level: message.includes('[ERROR]') ? 'error' : message.includes('[WARN]') ? 'warn' : 'info',
+      message,
+    }));
+}
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
 export default function DeploymentDetail() {
   const { deploymentId } = useParams<{ deploymentId: string }>();
   const queryClient = useQueryClient();
-  const [liveLogs, setLiveLogs] = useState<string[]>([]);
+  const [liveLogs, setLiveLogs] = useState<LogLine[]>([]);
+  const [showVerbose, setShowVerbose] = useState(false);
   const [currentStatus, setCurrentStatus] = useState<string>('');
+  const [liveSteps, setLiveSteps] = useState<any[] | null>(null);
   const [autoScroll, setAutoScroll] = useState(true);
   const logsEndRef = useRef<HTMLDivElement>(null);
 
@@ -55,10 +124,44 @@ export default function DeploymentDetail() {
     onError: (err: any) => toast.error(err.response?.data?.error || 'Rollback failed'),
   });
 
+  const promoteMutation = useMutation({
+    mutationFn: () => deploymentsApi.promote(deploymentId!),
+    onSuccess: () => {
+      toast.success('Promoting canary to all traffic');
+      queryClient.invalidateQueries({ queryKey: ['deployment', deploymentId] });
+    },
+    onError: (err: any) => toast.error(err.response?.data?.error || 'Promote failed'),
+  });
+
+  const abortMutation = useMutation({
+    mutationFn: () => deploymentsApi.abort(deploymentId!),
+    onSuccess: () => {
+      toast.success('Aborting canary -- traffic is moving back to the previous deployment');
+      queryClient.invalidateQueries({ queryKey: ['deployment', deploymentId] });
+    },
+    onError: (err: any) => toast.error(err.response?.data?.error || 'Abort failed'),
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: () => deploymentsApi.cancel(deploymentId!),
+    onSuccess: (response) => {
+      toast.success(
+        response.status === 202 ? 'Cancelling -- the build is being stopped' : 'Deployment cancelled'
+      );
+      queryClient.invalidateQueries({ queryKey: ['deployment', deploymentId] });
+    },
+    onError: (err: any) => toast.error(err.response?.data?.error || 'Cancel failed'),
+  });
+
   const { data: deployment, isLoading, refetch } = useQuery({
     queryKey: ['deployment', deploymentId],
     queryFn: () => deploymentsApi.get(deploymentId!).then((res) => res.data),
     enabled: !!deploymentId,
+    // Canary traffic weight changes without a status event, so poll while it rolls out
+    refetchInterval: (query) =>
+      query.state.data?.strategy === 'CANARY' && query.state.data?.status === 'BUILDING'
+        ? 5000
+        : false,
   });
 
   const { data: logsData } = useQuery({
@@ -75,18 +178,26 @@ export default function DeploymentDetail() {
     const unsubscribe = subscribeToDeployment(
       deploymentId,
       (data) => {
-        setLiveLogs((prev) => [...prev, data.log]);
+        setLiveLogs((prev) => [
+          ...prev,
+          { stream: data.stream ?? 'system', level: data.level ?? 'info', message: data.log },
+        ]);
       },
       (data) => {
         setCurrentStatus(data.status);
-        if (data.status === 'SUCCESS' || data.status === 'FAILED') {
+        if (data.steps) {
+          setLiveSteps(data.steps);
+        }
+        if (['SUCCESS', 'FAILED', 'CANCELLED', 'SKIPPED'].includes(data.status)) {
+          setLiveSteps(null);
           refetch();
+          queryClient.invalidateQueries({ queryKey: ['deployment-logs', deploymentId] });
         }
       }
     );
 
     return unsubscribe;
-  }, [deploymentId, refetch]);
+  }, [deploymentId, refetch, queryClient]);
 
   // Update status from deployment data
   useEffect(() => {
@@ -100,33 +211,35 @@ export default function DeploymentDetail() {
     if (autoScroll) {
       logsEndRef.current?.scrollIntoView({ behavior: 'smooth' });
     }
-  }, [liveLogs, logsData, autoScroll]);
+  }, [liveLogs, logsData, autoScroll, showVerbose]);
 
-  // Parse logs for display
-  const formatLogs = (logs: string) => {
-    if (!logs) return [];
-    return logs.split('\n').filter((line) => line.trim());
-  };
-
-  const allLogs = Array.from(
-    new Set([...formatLogs(logsData?.logs || ''), ...liveLogs])
-  );
+  // Stored lines once the deployment finished, live lines while it runs
+  const allLogs: LogLine[] = logsData?.logLines
+    ? logsData.logLines
+    : liveLogs.length > 0
+      ? liveLogs
+      : parseLegacyLogs(logsData?.logs || '');
+  const verboseCount = allLogs.filter((line) => line.level === 'verbose').length;
+  const visibleLogs = showVerbose ? allLogs : allLogs.filter((line) => line.level !== 'verbose');
 
-  const getLogLineClass = (line: string) => {
-    if (line.includes('[ERROR]') || line.toLowerCase().includes('error') || line.toLowerCase().includes('failed')) {
+  const getLogLineClass = (line: LogLine) => {
+    if (line.level === 'error') {
       return 'text-[#ff5f56]';
     }
-    if (line.includes('Done:') || line.toLowerCase().includes('success')) {
-      return 'text-[#27c93f]';
-    }
-    if (line.includes('[WARN]') || line.toLowerCase().includes('warning')) {
+    if (line.level === 'warn') {
       return 'text-[#ffbd2e]';
     }
-    if (line.includes('==>') || line.includes('Info:')) {
+    if (line.level === 'verbose') {
+      return 'text-gray-500';
+    }
+    if (line.message.includes('Done:') || line.message.toLowerCase().includes('success')) {
+      return 'text-[#27c93f]';
+    }
+    if (line.message.includes('==>') || line.message.includes('Info:')) {
       return 'text-[#3b82f6]';
     }
-    if (line.includes('STEP')) {
-      return 'text-white font-bold bg-white/10 px-2 py-0.5 rounded inline-block mt-2 mb-1';
+    if (line.stream === 'stderr') {
+      return 'text-gray-400';
     }
     return 'text-gray-300';
   };
@@ -154,6 +267,18 @@ export default function DeploymentDetail() {
     return <div className="text-center py-12 text-gray-500">Deployment not found</div>;
   }
 
+  const isCanaryLive =
+    deployment.strategy === 'CANARY' &&
+    (currentStatus || deployment.status) === 'BUILDING' &&
+    deployment.trafficWeight !== null &&
+    deployment.trafficWeight !== undefined;
+
+  const steps: any[] = liveSteps ?? deployment.steps ?? [];
+  const totalStepsMs = steps.reduce((total, step) => total + stepDurationMs(step), 0);
+
+  const isCancellable =
+    ['QUEUED', 'BUILDING'].includes(currentStatus || deployment.status) && !isCanaryLive;
+
   return (
     <PageTransition>
       {/* Header */}
@@ -191,12 +316,24 @@ export default function DeploymentDetail() {
               transition={{ delay: 0.1 }}
               className="flex flex-wrap items-center gap-5 mt-4 text-sm text-gray-400 font-medium"
             >
+              {deployment?.ref && (
+                <span className="flex items-center font-mono bg-white/5 px-2.5 py-1 rounded-md border border-white/10" title="Requested ref">
+                  <GitBranch className="w-4 h-4 mr-1.5" />
+                  {deployment.ref}
+                </span>
+              )}
               {deployment?.commitSha && (
-                <span className="flex items-center font-mono bg-white/5 px-2.5 py-1 rounded-md border border-white/10">
+                <span className="flex items-center font-mono bg-white/5 px-2.5 py-1 rounded-md border border-white/10" title="Resolved commit">
                   <GitCommit className="w-4 h-4 mr-1.5" />
                   {deployment.commitSha.substring(0, 7)}
                 </span>
               )}
+              {deployment?.sourceArchiveHash && (
+                <span className="flex items-center font-mono bg-white/5 px-2.5 py-1 rounded-md border border-white/10" title="Uploaded source archive (sha256)">
+                  <Upload className="w-4 h-4 mr-1.5" />
+                  {deployment.sourceArchiveHash.substring(0, 12)}
+                </span>
+              )}
               <span className="flex items-center">
                 <Clock className="w-4 h-4 mr-1.5 text-gray-500" />
                 Started: {deployment?.createdAt ? new Date(deployment.createdAt).toLocaleString() : 'Loading...'}
@@ -207,6 +344,25 @@ export default function DeploymentDetail() {
                   Finished: {new Date(deployment.finishedAt).toLocaleString()}
                 </span>
               )}
+              {deployment?.supersededById && (
+                <Link
+                  to={`/deployments/${deployment.supersededById}`}
+                  className="flex items-center bg-white/5 px-2.5 py-1 rounded-md border border-white/10 hover:text-white transition-colors"
+                  title="The newer deployment that replaced this one"
+                >
+                  <SkipForward className="w-4 h-4 mr-1.5 text-gray-500" />
+                  Superseded by <span className="ml-1.5 font-mono">#{deployment.supersededById.substring(0, 8)}</span>
+                </Link>
+              )}
+              {deployment?.strategy === 'CANARY' && (
+                <span className="flex items-center bg-white/5 px-2.5 py-1 rounded-md border border-white/10">
+                  <Activity className="w-4 h-4 mr-1.5 text-gray-500" />
+                  Canary
+                  {deployment.trafficWeight !== null && deployment.trafficWeight !== undefined && (
+                    <span className="ml-1.5 font-mono text-white">{deployment.trafficWeight}% traffic</span>
+                  )}
+                </span>
+              )}
             </motion.div>
           </div>
           <motion.div 
@@ -216,6 +372,39 @@ export default function DeploymentDetail() {
             className="flex items-center space-x-4 bg-[#111]/80 backdrop-blur-sm border border-white/10 px-5 py-3 rounded-xl shadow-inner"
           >
             {statusIcons[currentStatus || deployment?.status || 'QUEUED']}
+            {isCanaryLive && (
+              <>
+                <button
+                  onClick={() => promoteMutation.mutate()}
+                  disabled={promoteMutation.isPending || abortMutation.isPending}
+                  className="flex items-center text-sm font-medium text-gray-400 hover:text-white ml-4 border-l border-white/10 pl-4 transition-colors disabled:opacity-50"
+                  title="Send all traffic to this deployment now"
+                >
+                  <ArrowUpCircle className="w-4 h-4 mr-2" />
+                  {promoteMutation.isPending ? 'Promoting...' : 'Promote'}
+                </button>
+                <button
+                  onClick={() => abortMutation.mutate()}
+                  disabled={promoteMutation.isPending || abortMutation.isPending}
+                  className="flex items-center text-sm font-medium text-[#ff003c] hover:text-red-300 ml-4 border-l border-white/10 pl-4 transition-colors disabled:opacity-50"
+                  title="Send all traffic back to the previous deployment"
+                >
+                  <StopCircle className="w-4 h-4 mr-2" />
+                  {abortMutation.isPending ? 'Aborting...' : 'Abort'}
+                </button>
+              </>
+            )}
+            {isCancellable && (
+              <button
+                onClick={() => cancelMutation.mutate()}
+                disabled={cancelMutation.isPending}
+                className="flex items-center text-sm font-medium text-[#ff003c] hover:text-red-300 ml-4 border-l border-white/10 pl-4 transition-colors disabled:opacity-50"
+                title="Stop this deployment -- the service keeps its current release"
+              >
+                <Ban className="w-4 h-4 mr-2" />
+                {cancelMutation.isPending ? 'Cancelling...' : 'Cancel'}
+              </button>
+            )}
             {(currentStatus || deployment?.status) === 'SUCCESS' && (
               <>
                 <button
@@ -250,21 +439,30 @@ export default function DeploymentDetail() {
               <p className="text-[10px] text-gray-500 mb-1.5 uppercase font-bold tracking-widest">Service</p>
               <p className="font-semibold text-white text-base">{deployment?.service?.name}</p>
             </div>
-            <div>
-              <p className="text-[10px] text-gray-500 mb-1.5 uppercase font-bold tracking-widest">Repository</p>
-              <a
-                href={deployment?.service?.repoUrl}
-                target="_blank"
-                rel="noopener noreferrer"
-                className="font-semibold text-white text-base hover:underline decoration-white/30 underline-offset-4 transition-all"
-              >
-                View on GitHub
-              </a>
-            </div>
-            <div>
-              <p className="text-[10px] text-gray-500 mb-1.5 uppercase font-bold tracking-widest">Branch</p>
-              <p className="font-semibold text-white text-base font-mono">{deployment?.service?.branch}</p>
-            </div>
+            {deployment?.service?.sourceType === 'IMAGE' ? (
+              <div className="col-span-2">
+                <p className="text-[10px] text-gray-500 mb-1.5 uppercase font-bold tracking-widest">Image</p>
+                <p className="font-semibold text-white text-base font-mono truncate">{deployment?.ref || deployment?.service?.imageRef}</p>
+              </div>
+            ) : (
+              <>
+                <div>
+                  <p className="text-[10px] text-gray-500 mb-1.5 uppercase font-bold tracking-widest">Repository</p>
+                  <a
+                    href={deployment?.service?.repoUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="font-semibold text-white text-base hover:underline decoration-white/30 underline-offset-4 transition-all"
+                  >
+                    View repository
+                  </a>
+                </div>
+                <div>
+                  <p className="text-[10px] text-gray-500 mb-1.5 uppercase font-bold tracking-widest">Branch</p>
+                  <p className="font-semibold text-white text-base font-mono">{deployment?.service?.branch}</p>
+                </div>
+              </>
+            )}
             <div>
               <p className="text-[10px] text-gray-500 mb-1.5 uppercase font-bold tracking-widest">Subdomain</p>
               <p className="font-semibold text-white text-base font-mono">{deployment?.service?.subdomain}</p>
@@ -272,6 +470,41 @@ export default function DeploymentDetail() {
         </div>
       </AnimatedCard>
 
+      {/* Step timeline */}
+      {steps.length > 0 && (
+        <AnimatedCard delay={0.35} className="mb-8">
+          <div className="flex items-center justify-between mb-5">
+            <h2 className="text-xs font-bold text-gray-400 uppercase tracking-wider">Steps</h2>
+            <span className="text-xs text-gray-500 font-mono">{formatDuration(totalStepsMs)} total</span>
+          </div>
+          <div className="space-y-3">
+            {steps.map((step) => {
+              const duration = stepDurationMs(step);
+              return (
+                <div key={step.id} className="flex items-center gap-4 text-sm">
+                  <div className="flex items-center w-56 flex-shrink-0 min-w-0">
+                    <span className="mr-3 flex-shrink-0">{stepIcons[step.status]}</span>
+                    <span className="text-gray-200 font-medium truncate">
+                      {stepLabels[step.name] || step.name}
+                      {step.detail && <span className="ml-2 text-xs text-gray-500">{step.detail}</span>}
+                    </span>
+                  </div>
+                  <div className="flex-1 h-2 bg-white/5 rounded-full overflow-hidden">
+                    <div
+                      className={`h-full rounded-full ${stepBarColors[step.status] || 'bg-white/30'}`}
+                      style={{ width: `${totalStepsMs > 0 ? Math.max(1, (duration / totalStepsMs) * 100) : 0}%` }}
+                    />
+                  </div>
+                  <span className="w-16 text-right text-xs text-gray-400 font-mono flex-shrink-0">
+                    {formatDuration(duration)}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        </AnimatedCard>
+      )}
+
       {/* Logs */}
       <motion.div 
         initial={{ opacity: 0, y: 20 }}
@@ -291,6 +524,15 @@ export default function DeploymentDetail() {
             </h2>
           </div>
           <div className="flex items-center space-x-3">
+            {verboseCount > 0 && (
+              <button
+                onClick={() => setShowVerbose(!showVerbose)}
+                className={`flex items-center px-3 py-1.5 text-xs font-medium rounded-md transition-colors ${showVerbose ? 'bg-white/10 text-white' : 'text-gray-500 hover:text-white hover:bg-white/5'}`}
+              >
+                {showVerbose ? <Eye className="w-3 h-3 mr-1.5" /> : <EyeOff className="w-3 h-3 mr-1.5" />}
+                Verbose ({verboseCount})
+              </button>
+            )}
             <button
               onClick={() => setAutoScroll(!autoScroll)}
               className={`flex items-center px-3 py-1.5 text-xs font-medium rounded-md transition-colors ${autoScroll ? 'bg-white/10 text-white' : 'text-gray-500 hover:text-white hover:bg-white/5'}`}
@@ -300,7 +542,7 @@ export default function DeploymentDetail() {
             </button>
             <button
               onClick={() => {
-                navigator.clipboard.writeText(allLogs.join('\n'));
+                navigator.clipboard.writeText(allLogs.map((line) => line.message).join('\n'));
                 toast.success('Logs copied to clipboard');
               }}
               className="flex items-center px-3 py-1.5 text-xs font-medium text-gray-400 hover:text-white hover:bg-white/5 rounded-md transition-colors"
@@ -311,7 +553,7 @@ export default function DeploymentDetail() {
           </div>
         </div>
         <div className="log-viewer h-[600px] border-none rounded-none p-6 font-mono text-[13px] leading-relaxed custom-scrollbar selection:bg-white/20 selection:text-white overflow-y-auto">
-          {allLogs.length === 0 ? (
+          {visibleLogs.length === 0 ? (
             <div className="h-full flex flex-col items-center justify-center py-20">
               <Activity className="w-10 h-10 text-gray-600 mb-4 animate-pulse" />
               <p className="text-gray-400 font-medium font-sans">
@@ -322,9 +564,9 @@ export default function DeploymentDetail() {
             </div>
           ) : (
             <div className="space-y-0.5">
-              {allLogs.map((line, index) => (
+              {visibleLogs.map((line, index) => (
                 <div key={index} className={`log-line ${getLogLineClass(line)} hover:bg-white/[0.02] -mx-2 px-2 rounded transition-colors`}>
-                  {line}
+                  {line.message}
                 </div>
               ))}
               <div ref={logsEndRef} className="h-4" />
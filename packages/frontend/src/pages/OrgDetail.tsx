@@ -8,7 +8,7 @@ import { Skeleton } from '../components/Skeleton';
 import { Tabs, TabsList, TabsTrigger, TabsContent } from '../components/Tabs';
 import { motion, AnimatePresence } from 'framer-motion';
 import {
-  Building2, Users, FolderKanban, ChevronRight, Trash2, UserPlus,
+  Building2, Users, FolderKanban, ChevronRight, Trash2, UserPlus, Gauge,
 } from 'lucide-react';
 import { toast } from 'sonner';
 import {
@@ -68,6 +68,16 @@ export default function OrgDetail() {
     onError: (err: any) => toast.error(err.response?.data?.error || 'Failed to update role'),
   });
 
+  const updateLimitsMutation = useMutation({
+    mutationFn: (data: { maxMemoryMb: number | null; maxCpus: number | null }) =>
+      organizationsApi.update(orgId!, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['organization', orgId] });
+      toast.success('Resource limits updated');
+    },
+    onError: (err: any) => toast.error(err.response?.data?.error || 'Failed to update resource limits'),
+  });
+
   const isOwnerOrAdmin = org?.currentUserRole === 'OWNER' || org?.currentUserRole === 'ADMIN';
 
   if (isLoading) {
@@ -114,6 +124,7 @@ export default function OrgDetail() {
         <TabsList>
           <TabsTrigger value="members">Members</TabsTrigger>
           <TabsTrigger value="projects">Projects</TabsTrigger>
+          <TabsTrigger value="limits">Limits</TabsTrigger>
         </TabsList>
 
         <TabsContent value="members">
@@ -206,6 +217,60 @@ export default function OrgDetail() {
             )}
           </AnimatedCard>
         </TabsContent>
+
+        <TabsContent value="limits">
+          <AnimatedCard delay={0.1}>
+            <h2 className="text-xl font-bold text-white mb-6 tracking-tight flex items-center">
+              <Gauge className="w-5 h-5 mr-2 text-gray-400" />
+              Resource Limits
+            </h2>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-400 mb-2">Total Memory (MB)</label>
+                <input
+                  type="number"
+                  min={1}
+                  defaultValue={org.maxMemoryMb ?? ''}
+                  placeholder="Unlimited"
+                  id="orgMaxMemoryMb"
+                  disabled={!isOwnerOrAdmin}
+                  className="w-full px-4 py-3 bg-black border border-white/10 rounded-xl text-white font-mono text-sm placeholder-gray-600 focus:ring-2 focus:ring-white/20 focus:border-white/30 transition-all outline-none disabled:opacity-50"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-400 mb-2">Total CPUs</label>
+                <input
+                  type="number"
+                  min={0.1}
+                  step={0.1}
+                  defaultValue={org.maxCpus ?? ''}
+                  placeholder="Unlimited"
+                  id="orgMaxCpus"
+                  disabled={!isOwnerOrAdmin}
+                  className="w-full px-4 py-3 bg-black border border-white/10 rounded-xl text-white font-mono text-sm placeholder-gray-600 focus:ring-2 focus:ring-white/20 focus:border-white/30 transition-all outline-none disabled:opacity-50"
+                />
+              </div>
+            </div>
+            <div className="flex items-center justify-between mt-4">
+              <p className="text-xs text-gray-500">The combined memory and CPU of every service in this organization's projects. Leave empty for no limit.</p>
+              {isOwnerOrAdmin && (
+                <button
+                  onClick={() => {
+                    const value = (id: string) => (document.getElementById(id) as HTMLInputElement).value;
+                    updateLimitsMutation.mutate({
+                      maxMemoryMb: value('orgMaxMemoryMb') ? Number(value('orgMaxMemoryMb')) : null,
+                      maxCpus: value('orgMaxCpus') ? Number(value('orgMaxCpus')) : null,
+                    });
+                  }}
+                  disabled={updateLimitsMutation.isPending}
+                  className="px-5 py-3 bg-white text-black rounded-xl hover:bg-gray-200 disabled:opacity-50 font-medium text-sm transition-all active:scale-95 ml-4"
+                >
+                  Save
+                </button>
+              )}
+            </div>
+          </AnimatedCard>
+        </TabsContent>
       </Tabs>
 
       {/* Invite Modal */}
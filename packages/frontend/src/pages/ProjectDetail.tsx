@@ -22,6 +22,10 @@ import {
   ChevronRight,
   Database,
   Building2,
+  Ban,
+  SkipForward,
+  GitPullRequest,
+  Package,
 } from 'lucide-react';
 import { toast } from 'sonner';
 import { useForm } from 'react-hook-form';
@@ -48,11 +52,51 @@ import { Tooltip, TooltipContent, TooltipTrigger } from '../components/Tooltip';
 
 const serviceSchema = z.object({
   name: z.string().min(3, 'Service name must be at least 3 characters').regex(/^[a-z0-9-]+$/, 'Lowercase letters, numbers, and dashes only'),
-  repoUrl: z.string().url('Must be a valid URL').startsWith('https://github.com/', 'Must be a GitHub repository URL'),
+  gitProvider: z.enum(['GITHUB', 'GITLAB', 'GITEA', 'GENERIC']),
+  gitProviderUrl: z.string().optional(),
+  gitAccessToken: z.string().optional(),
+  type: z.enum(['WEB', 'CRON', 'WORKER']),
+  cronSchedule: z.string().optional(),
+  cronCommand: z.string().optional(),
+  sourceType: z.enum(['GIT', 'IMAGE']),
+  repoUrl: z.string().optional(),
+  imageRef: z.string().optional(),
+  registryUsername: z.string().optional(),
+  registryPassword: z.string().optional(),
   branch: z.string().min(1, 'Branch name is required'),
+}).superRefine((data, ctx) => {
+  if (data.type === 'CRON') {
+    if (data.cronSchedule?.trim().split(/\s+/).length !== 5) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['cronSchedule'], message: 'Five-field cron expression, e.g. 0 3 * * *' });
+    }
+    if (!data.cronCommand?.trim()) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['cronCommand'], message: 'Command is required' });
+    }
+  }
+  if (data.sourceType === 'IMAGE') {
+    if (!data.imageRef?.trim()) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['imageRef'], message: 'Image is required' });
+    }
+    return;
+  }
+  if (!data.repoUrl?.trim()) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['repoUrl'], message: 'Repository URL is required' });
+  } else if (data.gitProvider === 'GITHUB' && !data.repoUrl.startsWith('https://github.com/')) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['repoUrl'], message: 'Must be a GitHub repository URL' });
+  }
+  if (data.gitProvider === 'GITEA' && !data.gitProviderUrl?.trim()) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['gitProviderUrl'], message: 'Instance URL is required for Gitea' });
+  }
 });
 
 type ServiceFormData = z.infer<typeof serviceSchema>;
+const SERVICE_FORM_DEFAULTS: Partial<ServiceFormData> = { type: 'WEB', sourceType: 'GIT', gitProvider: 'GITHUB', branch: 'main' };
+const REPO_URL_PLACEHOLDERS: Record<ServiceFormData['gitProvider'], string> = {
+  GITHUB: 'https://github.com/username/repo',
+  GITLAB: 'https://gitlab.com/group/repo',
+  GITEA: 'https://git.example.com/owner/repo',
+  GENERIC: 'https://git.example.com/repo.git or git@example.com:repo.git',
+};
 type GitHubRepositoryOption = {
   id: number;
   name: string;
@@ -96,11 +140,12 @@ export default function ProjectDetail() {
 
   const { register, handleSubmit, reset, setValue, watch, formState: { errors } } = useForm<ServiceFormData>({
     resolver: zodResolver(serviceSchema),
-    defaultValues: {
-      branch: 'main'
-    }
+    defaultValues: SERVICE_FORM_DEFAULTS
   });
   const watchedRepoUrl = watch('repoUrl');
+  const watchedSourceType = watch('sourceType');
+  const watchedType = watch('type');
+  const watchedGitProvider = watch('gitProvider');
 
   const { data: project, isLoading } = useQuery({
     queryKey: ['project', projectId],
@@ -111,7 +156,7 @@ export default function ProjectDetail() {
   const { data: githubReposResponse, isLoading: isReposLoading, isFetching: isReposFetching, refetch: refetchRepos } = useQuery({
     queryKey: ['github-repos', repoSearch],
     queryFn: () => servicesApi.listGitHubRepos(repoSearch || undefined).then((res) => res.data),
-    enabled: showCreateModal,
+    enabled: showCreateModal && watchedSourceType === 'GIT' && watchedGitProvider === 'GITHUB',
     staleTime: 60_000,
   });
   const githubRepos: GitHubRepositoryOption[] = githubReposResponse?.repositories || [];
@@ -123,7 +168,7 @@ export default function ProjectDetail() {
       queryClient.invalidateQueries({ queryKey: ['project', projectId] });
       setShowCreateModal(false);
       setRepoSearch('');
-      reset({ branch: 'main' });
+      reset(SERVICE_FORM_DEFAULTS);
       toast.success('Service created. Starting initial deployment...');
       try {
         await deploymentsApi.trigger(createdService.id);
@@ -182,8 +227,8 @@ export default function ProjectDetail() {
     onError: () => toast.error('Failed to delete database'),
   });
 
-  const onSubmit = (data: ServiceFormData) => {
-    createServiceMutation.mutate(data);
+  const onSubmit = ({ cronSchedule, cronCommand, ...data }: ServiceFormData) => {
+    createServiceMutation.mutate(data.type === 'CRON' ? { ...data, cronSchedule, cronCommand } : data);
   };
 
   const handleRepositorySelect = (repo: GitHubRepositoryOption) => {
@@ -284,7 +329,7 @@ export default function ProjectDetail() {
             </div>
             <h3 className="text-2xl font-bold text-white tracking-tight">No services yet</h3>
             <p className="text-gray-400 mt-3 text-base max-w-md mx-auto">
-              Deploy your first application from a GitHub repository to get started with {project.name}.
+              Deploy your first application from a git repository to get started with {project.name}.
             </p>
             <button
               onClick={() => setShowCreateModal(true)}
@@ -313,22 +358,35 @@ export default function ProjectDetail() {
                         {service.name}
                       </Link>
             <div className="flex items-center text-sm text-gray-400 mt-3 font-semibold tracking-wide">
-              <span className="flex items-center bg-white/5 px-2.5 py-1 rounded-md border border-white/10">
-                <GitBranch className="w-4 h-4 mr-1.5" />
-                {service.branch}
-              </span>
-                        <a
-                          href={service.repoUrl}
-                          target="_blank"
-                          rel="noopener noreferrer"
-                          className="flex items-center hover:text-white transition-colors"
-                        >
-                          <ExternalLink className="w-4 h-4 mr-1.5" />
-                          Repository
-                        </a>
+              {service.sourceType === 'IMAGE' ? (
+                <span className="flex items-center bg-white/5 px-2.5 py-1 rounded-md border border-white/10 font-mono">
+                  <Package className="w-4 h-4 mr-1.5" />
+                  {service.imageRef}
+                </span>
+              ) : (
+                <>
+                  <span className="flex items-center bg-white/5 px-2.5 py-1 rounded-md border border-white/10">
+                    <GitBranch className="w-4 h-4 mr-1.5" />
+                    {service.branch}
+                  </span>
+                  <a
+                    href={service.repoUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center hover:text-white transition-colors"
+                  >
+                    <ExternalLink className="w-4 h-4 mr-1.5" />
+                    Repository
+                  </a>
+                </>
+              )}
                       </div>
                       <p className="text-sm text-gray-500 mt-3 font-mono bg-black/50 px-3 py-1.5 rounded-md border border-white/5 inline-block">
-                        {`${service.subdomain}.${BASE_DOMAIN}`}
+                        {service.type === 'CRON'
+                          ? `cron: ${service.cronSchedule}`
+                          : service.type === 'WORKER'
+                            ? 'background worker'
+                            : `${service.subdomain}.${BASE_DOMAIN}`}
                       </p>
                     </div>
                   </div>
@@ -402,6 +460,12 @@ export default function ProjectDetail() {
                             {deployment.status === 'FAILED' && (
                               <XCircle className="w-4 h-4 text-[#ff003c] mr-3 rounded-full" />
                             )}
+                            {deployment.status === 'CANCELLED' && (
+                              <Ban className="w-4 h-4 text-yellow-400 mr-3" />
+                            )}
+                            {deployment.status === 'SKIPPED' && (
+                              <SkipForward className="w-4 h-4 text-gray-400 mr-3" />
+                            )}
                             {deployment.status === 'BUILDING' && (
                               <Activity className="w-4 h-4 text-[#0070f3] mr-3 animate-pulse rounded-full" />
                             )}
@@ -429,6 +493,73 @@ export default function ProjectDetail() {
         </div>
       )}
 
+      {/* Preview Environments */}
+      {project.previews?.length > 0 && (
+        <div className="mt-10">
+          <h2 className="text-2xl font-bold text-white tracking-tight flex items-center mb-6">
+            <GitPullRequest className="w-6 h-6 mr-3 text-gray-400" />
+            Preview Environments
+          </h2>
+          <div className="space-y-3">
+            {project.previews.map((preview: any) => (
+              <AnimatedCard key={preview.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <Link
+                    to={`/services/${preview.id}`}
+                    className="text-sm font-semibold text-white hover:text-gray-300 transition-colors"
+                  >
+                    #{preview.pullRequestNumber} {preview.pullRequestTitle}
+                  </Link>
+                  <div className="flex flex-wrap items-center gap-3 mt-1 text-xs text-gray-500">
+                    <span>Preview of {preview.parentService?.name}</span>
+                    <span className="flex items-center">
+                      <GitBranch className="w-3 h-3 mr-1" />
+                      {preview.branch}
+                    </span>
+                    <a
+                      href={`http://${preview.subdomain}.${BASE_DOMAIN}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="font-mono hover:text-white transition-colors"
+                    >
+                      {`${preview.subdomain}.${BASE_DOMAIN}`}
+                    </a>
+                    {preview.pullRequestUrl && (
+                      <a
+                        href={preview.pullRequestUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center hover:text-white transition-colors"
+                      >
+                        <ExternalLink className="w-3 h-3 mr-1" />
+                        Pull request
+                      </a>
+                    )}
+                  </div>
+                </div>
+                <div className="flex items-center space-x-3">
+                  {preview.deployments?.[0] && (
+                    <Link
+                      to={`/deployments/${preview.deployments[0].id}`}
+                      className="text-xs font-mono text-gray-400 hover:text-white transition-colors"
+                    >
+                      {preview.deployments[0].commitSha?.substring(0, 7) || 'No commit'}
+                    </Link>
+                  )}
+                  <span
+                    className={`px-3 py-1.5 text-xs font-semibold tracking-wider rounded-md ${
+                      statusColors[preview.status] || statusColors.CREATED
+                    }`}
+                  >
+                    {preview.status}
+                  </span>
+                </div>
+              </AnimatedCard>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Databases Section */}
       <div className="mt-10">
         <div className="flex items-center justify-between mb-6">
@@ -537,90 +668,224 @@ export default function ProjectDetail() {
                   />
                   {errors.name && <p className="text-red-400 text-sm mt-2 font-medium">{errors.name.message}</p>}
                 </div>
-                <div className="rounded-xl border border-white/10 bg-black/40 p-4">
-                  <div className="flex items-center justify-between mb-3">
-                    <p className="text-sm font-medium text-gray-300">Import from GitHub</p>
-                    <button
-                      type="button"
-                      onClick={() => refetchRepos()}
-                      className="text-xs px-3 py-1.5 bg-white/5 border border-white/10 rounded-lg text-gray-300 hover:text-white hover:bg-white/10 transition-all"
-                    >
-                      {isReposFetching ? 'Refreshing...' : 'Refresh'}
-                    </button>
-                  </div>
-                  <input
-                    type="text"
-                    value={repoSearch}
-                    onChange={(e) => setRepoSearch(e.target.value)}
-                    placeholder="Search your repositories..."
-                    className="w-full px-3 py-2.5 bg-black border border-white/10 rounded-lg text-white placeholder-gray-600 focus:ring-2 focus:ring-white/20 focus:border-white/30 transition-all outline-none text-sm"
-                  />
-                  <div className="mt-3 max-h-44 overflow-y-auto space-y-2 pr-1 custom-scrollbar">
-                    {isReposLoading ? (
-                      <p className="text-xs text-gray-500 px-1 py-2">Loading repositories...</p>
-                    ) : githubRepos.length === 0 ? (
-                      <p className="text-xs text-gray-500 px-1 py-2">
-                        {githubReposResponse?.requiresReconnect
-                          ? 'No GitHub token found. Sign out and sign in with GitHub again to import repositories.'
-                          : 'No repositories found. You can still paste a repository URL manually below.'}
-                      </p>
-                    ) : (
-                      githubRepos.map((repo) => (
-                        <button
-                          key={repo.id}
-                          type="button"
-                          onClick={() => handleRepositorySelect(repo)}
-                          className={`w-full text-left rounded-lg px-3 py-2.5 border transition-all ${
-                            watchedRepoUrl === repo.htmlUrl
-                              ? 'border-white/40 bg-white/10'
-                              : 'border-white/10 bg-black hover:border-white/20 hover:bg-white/[0.03]'
-                          }`}
-                        >
-                          <div className="flex items-center justify-between gap-2">
-                            <span className="text-sm text-white font-medium truncate">{repo.fullName}</span>
-                            {repo.private && (
-                              <span className="text-[10px] uppercase tracking-wider px-2 py-0.5 border border-white/20 rounded text-gray-300">
-                                Private
-                              </span>
-                            )}
-                          </div>
-                          <p className="text-xs text-gray-500 mt-1">Default branch: {repo.defaultBranch}</p>
-                        </button>
-                      ))
-                    )}
-                  </div>
-                </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-400 mb-2">
-                    GitHub Repository URL
+                    Type
                   </label>
-                  <input
-                    type="url"
-                    {...register('repoUrl')}
-                    placeholder="https://github.com/username/repo"
-                    className="w-full px-4 py-3 bg-black border border-white/10 rounded-xl text-white placeholder-gray-600 focus:ring-2 focus:ring-white/20 focus:border-white/30 transition-all outline-none"
-                  />
-                  {errors.repoUrl && <p className="text-red-400 text-sm mt-2 font-medium">{errors.repoUrl.message}</p>}
+                  <select {...register('type')} className="w-full px-4 py-3 bg-black border border-white/10 rounded-xl text-white focus:ring-2 focus:ring-white/20 focus:border-white/30 transition-all outline-none">
+                    <option value="WEB">Web service (serves HTTP traffic)</option>
+                    <option value="WORKER">Background worker (listens on no port, e.g. a queue consumer)</option>
+                    <option value="CRON">Cron job (runs a command on a schedule)</option>
+                  </select>
                 </div>
+                {watchedType === 'CRON' && (
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-400 mb-2">
+                        Schedule (UTC)
+                      </label>
+                      <input
+                        type="text"
+                        {...register('cronSchedule')}
+                        placeholder="0 3 * * *"
+                        className="w-full px-4 py-3 bg-black border border-white/10 rounded-xl text-white font-mono placeholder-gray-600 focus:ring-2 focus:ring-white/20 focus:border-white/30 transition-all outline-none"
+                      />
+                      {errors.cronSchedule && <p className="text-red-400 text-sm mt-2 font-medium">{errors.cronSchedule.message}</p>}
+                    </div>
+                    <div className="md:col-span-2">
+                      <label className="block text-sm font-medium text-gray-400 mb-2">
+                        Command
+                      </label>
+                      <input
+                        type="text"
+                        {...register('cronCommand')}
+                        placeholder="node scripts/cleanup.js"
+                        className="w-full px-4 py-3 bg-black border border-white/10 rounded-xl text-white font-mono placeholder-gray-600 focus:ring-2 focus:ring-white/20 focus:border-white/30 transition-all outline-none"
+                      />
+                      {errors.cronCommand && <p className="text-red-400 text-sm mt-2 font-medium">{errors.cronCommand.message}</p>}
+                    </div>
+                  </div>
+                )}
                 <div>
                   <label className="block text-sm font-medium text-gray-400 mb-2">
-                    Branch
+                    Source
                   </label>
-                  <input
-                    type="text"
-                    {...register('branch')}
-                    placeholder="main"
-                    className="w-full px-4 py-3 bg-black border border-white/10 rounded-xl text-white placeholder-gray-600 focus:ring-2 focus:ring-white/20 focus:border-white/30 transition-all outline-none"
-                  />
-                  {errors.branch && <p className="text-red-400 text-sm mt-2 font-medium">{errors.branch.message}</p>}
+                  <select {...register('sourceType')} className="w-full px-4 py-3 bg-black border border-white/10 rounded-xl text-white focus:ring-2 focus:ring-white/20 focus:border-white/30 transition-all outline-none">
+                    <option value="GIT">Git repository (build from source)</option>
+                    <option value="IMAGE">Prebuilt container image</option>
+                  </select>
                 </div>
+                {watchedSourceType === 'GIT' ? (
+                  <>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-400 mb-2">
+                        Git Provider
+                      </label>
+                      <select {...register('gitProvider')} className="w-full px-4 py-3 bg-black border border-white/10 rounded-xl text-white focus:ring-2 focus:ring-white/20 focus:border-white/30 transition-all outline-none">
+                        <option value="GITHUB">GitHub</option>
+                        <option value="GITLAB">GitLab</option>
+                        <option value="GITEA">Gitea / Forgejo</option>
+                        <option value="GENERIC">Other git URL (no webhooks)</option>
+                      </select>
+                    </div>
+                    {(watchedGitProvider === 'GITLAB' || watchedGitProvider === 'GITEA') && (
+                      <>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-400 mb-2">
+                            Instance URL {watchedGitProvider === 'GITLAB' && <span className="text-gray-600">(optional, defaults to gitlab.com)</span>}
+                          </label>
+                          <input
+                            type="url"
+                            {...register('gitProviderUrl')}
+                            placeholder={watchedGitProvider === 'GITLAB' ? 'https://gitlab.com' : 'https://git.example.com'}
+                            className="w-full px-4 py-3 bg-black border border-white/10 rounded-xl text-white placeholder-gray-600 focus:ring-2 focus:ring-white/20 focus:border-white/30 transition-all outline-none"
+                          />
+                          {errors.gitProviderUrl && <p className="text-red-400 text-sm mt-2 font-medium">{errors.gitProviderUrl.message}</p>}
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-400 mb-2">
+                            Access Token <span className="text-gray-600">(private repositories)</span>
+                          </label>
+                          <input
+                            type="password"
+                            {...register('gitAccessToken')}
+                            placeholder="Token with read access to the repository"
+                            autoComplete="off"
+                            className="w-full px-4 py-3 bg-black border border-white/10 rounded-xl text-white placeholder-gray-600 focus:ring-2 focus:ring-white/20 focus:border-white/30 transition-all outline-none"
+                          />
+                        </div>
+                      </>
+                    )}
+                    {watchedGitProvider === 'GITHUB' && (
+                      <div className="rounded-xl border border-white/10 bg-black/40 p-4">
+                        <div className="flex items-center justify-between mb-3">
+                          <p className="text-sm font-medium text-gray-300">Import from GitHub</p>
+                          <button
+                            type="button"
+                            onClick={() => refetchRepos()}
+                            className="text-xs px-3 py-1.5 bg-white/5 border border-white/10 rounded-lg text-gray-300 hover:text-white hover:bg-white/10 transition-all"
+                          >
+                            {isReposFetching ? 'Refreshing...' : 'Refresh'}
+                          </button>
+                        </div>
+                        <input
+                          type="text"
+                          value={repoSearch}
+                          onChange={(e) => setRepoSearch(e.target.value)}
+                          placeholder="Search your repositories..."
+                          className="w-full px-3 py-2.5 bg-black border border-white/10 rounded-lg text-white placeholder-gray-600 focus:ring-2 focus:ring-white/20 focus:border-white/30 transition-all outline-none text-sm"
+                        />
+                        <div className="mt-3 max-h-44 overflow-y-auto space-y-2 pr-1 custom-scrollbar">
+                          {isReposLoading ? (
+                            <p className="text-xs text-gray-500 px-1 py-2">Loading repositories...</p>
+                          ) : githubRepos.length === 0 ? (
+                            <p className="text-xs text-gray-500 px-1 py-2">
+                              {githubReposResponse?.requiresReconnect
+                                ? 'No GitHub token found. Sign out and sign in with GitHub again to import repositories.'
+                                : 'No repositories found. You can still paste a repository URL manually below.'}
+                            </p>
+                          ) : (
+                            githubRepos.map((repo) => (
+                              <button
+                                key={repo.id}
+                                type="button"
+                                onClick={() => handleRepositorySelect(repo)}
+                                className={`w-full text-left rounded-lg px-3 py-2.5 border transition-all ${
+                                  watchedRepoUrl === repo.htmlUrl
+                                    ? 'border-white/40 bg-white/10'
+                                    : 'border-white/10 bg-black hover:border-white/20 hover:bg-white/[0.03]'
+                                }`}
+                              >
+                                <div className="flex items-center justify-between gap-2">
+                                  <span className="text-sm text-white font-medium truncate">{repo.fullName}</span>
+                                  {repo.private && (
+                                    <span className="text-[10px] uppercase tracking-wider px-2 py-0.5 border border-white/20 rounded text-gray-300">
+                                      Private
+                                    </span>
+                                  )}
+                                </div>
+                                <p className="text-xs text-gray-500 mt-1">Default branch: {repo.defaultBranch}</p>
+                              </button>
+                            ))
+                          )}
+                        </div>
+                      </div>
+                    )}
+                    <div>
+                      <label className="block text-sm font-medium text-gray-400 mb-2">
+                        Repository URL
+                      </label>
+                      <input
+                        type="text"
+                        {...register('repoUrl')}
+                        placeholder={REPO_URL_PLACEHOLDERS[watchedGitProvider]}
+                        className="w-full px-4 py-3 bg-black border border-white/10 rounded-xl text-white placeholder-gray-600 focus:ring-2 focus:ring-white/20 focus:border-white/30 transition-all outline-none"
+                      />
+                      {errors.repoUrl && <p className="text-red-400 text-sm mt-2 font-medium">{errors.repoUrl.message}</p>}
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-400 mb-2">
+                        Branch
+                      </label>
+                      <input
+                        type="text"
+                        {...register('branch')}
+                        placeholder="main"
+                        className="w-full px-4 py-3 bg-black border border-white/10 rounded-xl text-white placeholder-gray-600 focus:ring-2 focus:ring-white/20 focus:border-white/30 transition-all outline-none"
+                      />
+                      {errors.branch && <p className="text-red-400 text-sm mt-2 font-medium">{errors.branch.message}</p>}
+                    </div>
+                  </>
+                ) : (
+                  <>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-400 mb-2">
+                        Image
+                      </label>
+                      <input
+                        type="text"
+                        {...register('imageRef')}
+                        placeholder="ghcr.io/acme/api:1.4"
+                        className="w-full px-4 py-3 bg-black border border-white/10 rounded-xl text-white placeholder-gray-600 focus:ring-2 focus:ring-white/20 focus:border-white/30 transition-all outline-none"
+                      />
+                      {errors.imageRef && <p className="text-red-400 text-sm mt-2 font-medium">{errors.imageRef.message}</p>}
+                    </div>
+                    <div className="grid grid-cols-2 gap-3">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-400 mb-2">
+                          Registry Username
+                        </label>
+                        <input
+                          type="text"
+                          {...register('registryUsername')}
+                          placeholder="Optional"
+                          autoComplete="off"
+                          className="w-full px-4 py-3 bg-black border border-white/10 rounded-xl text-white placeholder-gray-600 focus:ring-2 focus:ring-white/20 focus:border-white/30 transition-all outline-none"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-400 mb-2">
+                          Registry Password
+                        </label>
+                        <input
+                          type="password"
+                          {...register('registryPassword')}
+                          placeholder="Token or password"
+                          autoComplete="off"
+                          className="w-full px-4 py-3 bg-black border border-white/10 rounded-xl text-white placeholder-gray-600 focus:ring-2 focus:ring-white/20 focus:border-white/30 transition-all outline-none"
+                        />
+                      </div>
+                    </div>
+                    <p className="text-xs text-gray-500">Each deploy pulls the image again, so redeploying picks up a new push to a tag like <code className="text-gray-400">:latest</code>.</p>
+                  </>
+                )}
                 <div className="flex justify-end space-x-3 pt-6 border-t border-white/10 mt-8">
                   <button
                     type="button"
                     onClick={() => {
                       setShowCreateModal(false);
                       setRepoSearch('');
-                      reset({ branch: 'main' });
+                      reset(SERVICE_FORM_DEFAULTS);
                     }}
                     className="px-5 py-2.5 text-gray-400 hover:text-white transition-colors font-medium rounded-lg hover:bg-white/5"
                   >
@@ -10,6 +10,7 @@ import { motion, AnimatePresence } from 'framer-motion';
 import {
   Play,
   GitBranch,
+  GitCommit,
   ExternalLink,
   Cpu,
   HardDrive,
@@ -30,6 +31,17 @@ import {
   Plus,
   ShieldCheck,
   ShieldAlert,
+  SlidersHorizontal,
+  TerminalSquare,
+  FolderGit2,
+  Gauge,
+  TrendingUp,
+  Ban,
+  SkipForward,
+  GitPullRequest,
+  KeyRound,
+  Package,
+  Timer,
 } from 'lucide-react';
 import {
   XAxis,
@@ -46,6 +58,12 @@ import { Tabs, TabsList, TabsTrigger, TabsContent } from '../components/Tabs';
 
 const BASE_DOMAIN = import.meta.env.VITE_BASE_DOMAIN || 'renderlite.local';
 
+const instancePlans: Record<string, { label: string; memoryMb: number; cpus: number }> = {
+  STARTER: { label: 'Starter', memoryMb: 512, cpus: 0.5 },
+  STANDARD: { label: 'Standard', memoryMb: 1024, cpus: 1 },
+  PRO: { label: 'Pro', memoryMb: 2048, cpus: 2 },
+};
+
 const statusColors: Record<string, string> = {
   CREATED: 'bg-white/10 text-gray-300 border border-white/10',
   DEPLOYING: 'bg-blue-500/20 text-blue-400 border border-blue-500/20',
@@ -54,12 +72,32 @@ const statusColors: Record<string, string> = {
   FAILED: 'bg-red-500/20 text-[#ff003c] border border-red-500/20',
 };
 
+const runStatusColors: Record<string, string> = {
+  RUNNING: 'bg-blue-500/20 text-blue-400',
+  SUCCEEDED: 'bg-green-500/20 text-[#00ff00]',
+  FAILED: 'bg-red-500/20 text-[#ff003c]',
+  TIMED_OUT: 'bg-yellow-500/20 text-yellow-400',
+  SKIPPED: 'bg-white/10 text-gray-400',
+};
+
+type VariablesField = 'envVars' | 'buildArgs' | 'buildSecrets' | 'previewEnvVars';
+
+const variablesModalTitles: Record<VariablesField, string> = {
+  envVars: 'Environment Variables',
+  buildArgs: 'Build Arguments',
+  buildSecrets: 'Build Secrets',
+  previewEnvVars: 'Preview Environment Overrides',
+};
+
 export default function ServiceDetail() {
   const { serviceId } = useParams<{ serviceId: string }>();
   const queryClient = useQueryClient();
   const [metricsHistory, setMetricsHistory] = useState<any[]>([]);
   const [currentStatus, setCurrentStatus] = useState<string>('');
   const [showEnvModal, setShowEnvModal] = useState(false);
+  const [envModalField, setEnvModalField] = useState<VariablesField>('envVars');
+  const [showDeployRefModal, setShowDeployRefModal] = useState(false);
+  const [deployRef, setDeployRef] = useState('');
   const [envVars, setEnvVars] = useState<{ key: string; value: string; hidden?: boolean }[]>([
     { key: '', value: '', hidden: true },
   ]);
@@ -70,6 +108,13 @@ export default function ServiceDetail() {
     enabled: !!serviceId,
   });
 
+  const { data: scalingEvents } = useQuery({
+    queryKey: ['scaling-events', serviceId],
+    queryFn: () => servicesApi.scalingEvents(serviceId!).then((res) => res.data),
+    enabled: !!serviceId,
+    refetchInterval: 30000,
+  });
+
   const { data: metrics } = useQuery({
     queryKey: ['service-metrics', serviceId],
     queryFn: () => metricsApi.getServiceMetrics(serviceId!).then((res) => res.data),
@@ -78,28 +123,57 @@ export default function ServiceDetail() {
   });
 
   const deployMutation = useMutation({
-    mutationFn: () => deploymentsApi.trigger(serviceId!),
+    mutationFn: (ref?: string) => deploymentsApi.trigger(serviceId!, ref),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['service', serviceId] });
+      setShowDeployRefModal(false);
+      setDeployRef('');
       toast.success('Deployment triggered');
     },
-    onError: () => {
-      toast.error('Failed to trigger deployment');
+    onError: (err: any) => {
+      toast.error(err.response?.data?.error || 'Failed to trigger deployment');
     }
   });
 
   const updateServiceMutation = useMutation({
     mutationFn: (data: any) => servicesApi.update(serviceId!, data),
-    onSuccess: () => {
+    onSuccess: (response) => {
       queryClient.invalidateQueries({ queryKey: ['service', serviceId] });
+      queryClient.invalidateQueries({ queryKey: ['scaling-events', serviceId] });
       setShowEnvModal(false);
-      toast.success('Service updated successfully');
+      toast.success(
+        response.data.resourcesApplied === false
+          ? 'Service updated. New resource limits apply on the next deploy'
+          : 'Service updated successfully'
+      );
     },
     onError: () => {
       toast.error('Failed to update service');
     }
   });
 
+  const generateDeployKeyMutation = useMutation({
+    mutationFn: () => servicesApi.generateDeployKey(serviceId!),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['service', serviceId] });
+      toast.success('Deploy key generated. Add it to your repository before the next deploy');
+    },
+    onError: () => {
+      toast.error('Failed to generate deploy key');
+    }
+  });
+
+  const deleteDeployKeyMutation = useMutation({
+    mutationFn: () => servicesApi.deleteDeployKey(serviceId!),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['service', serviceId] });
+      toast.success('Deploy key removed');
+    },
+    onError: () => {
+      toast.error('Failed to remove deploy key');
+    }
+  });
+
   // Subscribe to real-time metrics
   useEffect(() => {
     if (!serviceId) return;
@@ -143,11 +217,19 @@ export default function ServiceDetail() {
     }
   }, [metrics]);
 
+  const openVariablesModal = (field: VariablesField) => {
+    if (field !== envModalField) {
+      setEnvModalField(field);
+      setEnvVars([{ key: '', value: '', hidden: true }]);
+    }
+    setShowEnvModal(true);
+  };
+
   const handleSaveEnvVars = () => {
     const envObj = envVars
       .filter((e) => e.key.trim())
       .reduce((acc, { key, value }) => ({ ...acc, [key]: value }), {});
-    updateServiceMutation.mutate({ envVars: envObj });
+    updateServiceMutation.mutate({ [envModalField]: envObj });
   };
 
   if (isLoading) {
@@ -179,6 +261,10 @@ export default function ServiceDetail() {
   }
 
   const displayStatus = currentStatus || service.status;
+  // Cron services take no traffic: they have runs instead of metrics, domains and replicas
+  const isCron = service.type === 'CRON';
+  // Only web services listen on a port, so only they get a URL, domains, health checks and previews
+  const isWeb = service.type === 'WEB';
 
   return (
     <PageTransition>
@@ -215,28 +301,61 @@ export default function ServiceDetail() {
               transition={{ delay: 0.1 }}
               className="flex flex-wrap items-center gap-5 mt-4 text-sm text-gray-400 font-semibold tracking-wide"
             >
-              <span className="flex items-center bg-white/5 px-2.5 py-1 rounded-md border border-white/10">
-                <GitBranch className="w-4 h-4 mr-1.5" />
-                {service.branch}
-              </span>
-              <a
-                href={service.repoUrl}
-                target="_blank"
-                rel="noopener noreferrer"
-                className="flex items-center hover:text-white transition-colors"
-              >
-                <ExternalLink className="w-4 h-4 mr-1.5" />
-                Repository
-              </a>
-              <a
-                href={`http://${service.subdomain}.${BASE_DOMAIN}`}
-                target="_blank"
-                rel="noopener noreferrer"
-                className="flex items-center text-gray-300 hover:text-white transition-colors bg-black/50 px-3 py-1 rounded-md border border-white/5"
-              >
-                <ExternalLink className="w-4 h-4 mr-1.5" />
-                {`${service.subdomain}.${BASE_DOMAIN}`}
-              </a>
+              {service.sourceType === 'IMAGE' ? (
+                <span className="flex items-center bg-white/5 px-2.5 py-1 rounded-md border border-white/10 font-mono">
+                  <Package className="w-4 h-4 mr-1.5" />
+                  {service.imageRef}
+                </span>
+              ) : (
+                <span className="flex items-center bg-white/5 px-2.5 py-1 rounded-md border border-white/10">
+                  <GitBranch className="w-4 h-4 mr-1.5" />
+                  {service.branch}
+                </span>
+              )}
+              {service.pullRequestNumber && (
+                <a
+                  href={service.pullRequestUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex items-center hover:text-white transition-colors"
+                  title={service.pullRequestTitle}
+                >
+                  <GitPullRequest className="w-4 h-4 mr-1.5" />
+                  Preview of PR #{service.pullRequestNumber}
+                </a>
+              )}
+              {service.repoUrl && (
+                <a
+                  href={service.repoUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex items-center hover:text-white transition-colors"
+                >
+                  <ExternalLink className="w-4 h-4 mr-1.5" />
+                  Repository
+                </a>
+              )}
+              {isCron ? (
+                <span className="flex items-center text-gray-300 bg-black/50 px-3 py-1 rounded-md border border-white/5 font-mono">
+                  <Timer className="w-4 h-4 mr-1.5" />
+                  {service.cronSchedule} (UTC)
+                </span>
+              ) : !isWeb ? (
+                <span className="flex items-center text-gray-300 bg-black/50 px-3 py-1 rounded-md border border-white/5">
+                  <Cpu className="w-4 h-4 mr-1.5" />
+                  Background worker
+                </span>
+              ) : (
+                <a
+                  href={`http://${service.subdomain}.${BASE_DOMAIN}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex items-center text-gray-300 hover:text-white transition-colors bg-black/50 px-3 py-1 rounded-md border border-white/5"
+                >
+                  <ExternalLink className="w-4 h-4 mr-1.5" />
+                  {`${service.subdomain}.${BASE_DOMAIN}`}
+                </a>
+              )}
             </motion.div>
           </div>
           <motion.div 
@@ -246,14 +365,23 @@ export default function ServiceDetail() {
             className="flex items-center space-x-3"
           >
             <button
-              onClick={() => setShowEnvModal(true)}
+              onClick={() => openVariablesModal('envVars')}
               className="flex items-center px-4 py-2.5 bg-transparent border border-white/20 text-white rounded-lg hover:bg-white/5 transition-all font-medium active:scale-95"
             >
               <Settings className="w-4 h-4 mr-2" />
               Environment
             </button>
             <button
-              onClick={() => deployMutation.mutate()}
+              onClick={() => setShowDeployRefModal(true)}
+              disabled={deployMutation.isPending || displayStatus === 'DEPLOYING'}
+              className="flex items-center px-4 py-2.5 bg-transparent border border-white/20 text-white rounded-lg hover:bg-white/5 disabled:opacity-50 transition-all font-medium active:scale-95"
+              title="Deploy a specific commit, tag or branch"
+            >
+              <GitCommit className="w-4 h-4 mr-2" />
+              Deploy Ref
+            </button>
+            <button
+              onClick={() => deployMutation.mutate(undefined)}
               disabled={deployMutation.isPending || displayStatus === 'DEPLOYING'}
               className="flex items-center px-5 py-2.5 bg-white text-black rounded-lg hover:bg-gray-200 disabled:opacity-50 transition-all font-medium active:scale-95"
             >
@@ -264,19 +392,32 @@ export default function ServiceDetail() {
         </div>
       </div>
 
-      <Tabs defaultValue="overview" className="w-full">
+      <Tabs defaultValue={isCron ? 'runs' : 'overview'} className="w-full">
         <TabsList>
-          <TabsTrigger value="overview">Overview</TabsTrigger>
+          {!isCron && <TabsTrigger value="overview">Overview</TabsTrigger>}
+          {/* Other services have runs when their renderlite.yaml declares cron jobs */}
+          <TabsTrigger value="runs">Runs</TabsTrigger>
           <TabsTrigger value="deployments">Deployments</TabsTrigger>
-          <TabsTrigger value="domains">Domains</TabsTrigger>
+          {isWeb && <TabsTrigger value="domains">Domains</TabsTrigger>}
           <TabsTrigger value="settings">Settings</TabsTrigger>
         </TabsList>
 
+        <TabsContent value="runs">
+          <RunsTab serviceId={serviceId!} isCron={isCron} />
+        </TabsContent>
+
         <TabsContent value="overview">
           <div className="grid grid-cols-1 gap-6">
             {/* Metrics */}
             <AnimatedCard delay={0.3} className="flex flex-col h-[420px]">
-              <h2 className="text-xl font-bold text-white mb-6 tracking-tight">Metrics</h2>
+              <h2 className="text-xl font-bold text-white mb-6 tracking-tight flex items-center justify-between">
+                Metrics
+                {displayStatus === 'RUNNING' && service.replicas > 1 && (
+                  <span className="text-xs font-medium text-gray-400 px-2.5 py-1 bg-white/5 border border-white/10 rounded-md">
+                    {metrics?.metrics?.replicas ?? service.containerIds?.length ?? 0}/{service.replicas} replicas
+                  </span>
+                )}
+              </h2>
               {displayStatus !== 'RUNNING' ? (
                 <div className="flex-1 flex items-center justify-center text-gray-500 border border-dashed border-white/10 rounded-xl bg-black/30">
                   Service is not running. Deploy to see metrics.
@@ -378,6 +519,12 @@ export default function ServiceDetail() {
                       {deployment.status === 'FAILED' && (
                         <XCircle className="w-5 h-5 text-[#ff003c] mr-4 flex-shrink-0" />
                       )}
+                      {deployment.status === 'CANCELLED' && (
+                        <Ban className="w-5 h-5 text-yellow-400 mr-4 flex-shrink-0" />
+                      )}
+                      {deployment.status === 'SKIPPED' && (
+                        <SkipForward className="w-5 h-5 text-gray-400 mr-4 flex-shrink-0" />
+                      )}
                       {deployment.status === 'BUILDING' && (
                         <Activity className="w-5 h-5 text-[#0070f3] mr-4 animate-pulse flex-shrink-0" />
                       )}
@@ -386,7 +533,10 @@ export default function ServiceDetail() {
                       )}
                       <div className="min-w-0">
                         <p className="text-sm font-medium text-gray-200 group-hover:text-white transition-colors font-mono">
-                          {deployment.commitSha?.substring(0, 7) || 'No commit'}
+                          {deployment.commitSha?.substring(0, 7) || (deployment.sourceArchiveHash ? 'Upload' : 'No commit')}
+                          {deployment.ref && deployment.ref !== service.branch && (
+                            <span className="ml-2 text-xs text-gray-500">{deployment.ref}</span>
+                          )}
                         </p>
                         <p className="text-xs text-gray-500 mt-1 uppercase tracking-wider font-semibold">{deployment.status}</p>
                       </div>
@@ -434,7 +584,7 @@ export default function ServiceDetail() {
             </h2>
             {service.webhookUrl ? (
               <div className="space-y-4">
-                <p className="text-sm text-gray-400">Configure this webhook URL in your GitHub repository settings to auto-deploy on push.</p>
+                <p className="text-sm text-gray-400">Configure this webhook URL in your repository settings to auto-deploy on push.</p>
                 <div className="flex items-center space-x-2">
                   <code className="flex-1 px-4 py-3 bg-black border border-white/10 rounded-xl text-green-400 font-mono text-sm truncate">{service.webhookUrl}</code>
                   <button onClick={() => { navigator.clipboard.writeText(service.webhookUrl); toast.success('Webhook URL copied'); }} className="p-3 bg-white/5 border border-white/10 rounded-xl hover:bg-white/10 transition-all text-gray-400 hover:text-white">
@@ -449,43 +599,670 @@ export default function ServiceDetail() {
                     </button>
                   </div>
                 )}
-                <p className="text-xs text-gray-500 mt-2">In GitHub: Settings &rarr; Webhooks &rarr; Add webhook. Set content type to <code className="text-gray-400">application/json</code> and paste the secret.</p>
+                <p className="text-xs text-gray-500 mt-2">
+                  {service.gitProvider === 'GITLAB' ? (
+                    <>In GitLab: Settings &rarr; Webhooks &rarr; Add new webhook. Paste the secret as the secret token and enable push events, plus merge request events for preview environments.</>
+                  ) : service.gitProvider === 'GITEA' ? (
+                    <>In Gitea / Forgejo: Settings &rarr; Webhooks &rarr; Add webhook &rarr; Gitea. Set content type to <code className="text-gray-400">application/json</code>, paste the secret and send push events, plus pull request events for preview environments.</>
+                  ) : (
+                    <>In GitHub: Settings &rarr; Webhooks &rarr; Add webhook. Set content type to <code className="text-gray-400">application/json</code> and paste the secret. Send pull request events too for preview environments.</>
+                  )}
+                </p>
               </div>
+            ) : service.gitProvider === 'GENERIC' ? (
+              <p className="text-gray-500 text-sm">Services from a plain git URL have no webhooks; deploy them manually.</p>
             ) : (
               <p className="text-gray-500 text-sm">Webhook not configured for this service.</p>
             )}
           </AnimatedCard>
 
+          {isCron && (
+            <AnimatedCard delay={0.2} className="mt-6">
+              <h2 className="text-xl font-bold text-white mb-6 tracking-tight flex items-center">
+                <Timer className="w-5 h-5 mr-2 text-gray-400" />
+                Schedule
+              </h2>
+              <div className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-400 mb-2">Cron Expression (UTC)</label>
+                    <input
+                      type="text"
+                      defaultValue={service.cronSchedule || ''}
+                      placeholder="0 3 * * *"
+                      id="cronSchedule"
+                      className="w-full px-4 py-3 bg-black border border-white/10 rounded-xl text-white font-mono text-sm placeholder-gray-600 focus:ring-2 focus:ring-white/20 focus:border-white/30 transition-all outline-none"
+                    />
+                  </div>
+                  <div className="md:col-span-2">
+                    <label className="block text-sm font-medium text-gray-400 mb-2">Command</label>
+                    <input
+                      type="text"
+                      defaultValue={service.cronCommand || ''}
+                      placeholder="node scripts/cleanup.js"
+                      id="cronCommand"
+                      className="w-full px-4 py-3 bg-black border border-white/10 rounded-xl text-white font-mono text-sm placeholder-gray-600 focus:ring-2 focus:ring-white/20 focus:border-white/30 transition-all outline-none"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-400 mb-2">Max Runtime (s)</label>
+                    <input
+                      type="number"
+                      min={1}
+                      defaultValue={service.cronTimeoutSeconds ?? 3600}
+                      id="cronTimeoutSeconds"
+                      className="w-full px-4 py-3 bg-black border border-white/10 rounded-xl text-white font-mono text-sm placeholder-gray-600 focus:ring-2 focus:ring-white/20 focus:border-white/30 transition-all outline-none"
+                    />
+                  </div>
+                </div>
+                <div className="flex items-center justify-between">
+                  <p className="text-xs text-gray-500">Each run starts a short-lived container from the latest deployed image. A run still going after the max runtime is stopped, and a run is skipped while the previous one is still going. Like other settings, changes apply from the next deploy.</p>
+                  <button
+                    onClick={() => {
+                      const value = (id: string) => (document.getElementById(id) as HTMLInputElement).value.trim();
+                      updateServiceMutation.mutate({
+                        cronSchedule: value('cronSchedule'),
+                        cronCommand: value('cronCommand'),
+                        cronTimeoutSeconds: Number(value('cronTimeoutSeconds')),
+                      });
+                    }}
+                    className="px-5 py-3 bg-white text-black rounded-xl hover:bg-gray-200 font-medium text-sm transition-all active:scale-95 ml-4"
+                  >
+                    Save
+                  </button>
+                </div>
+              </div>
+            </AnimatedCard>
+          )}
+
+          {isWeb && (
+            <AnimatedCard delay={0.2} className="mt-6">
+              <h2 className="text-xl font-bold text-white mb-6 tracking-tight flex items-center">
+                <HeartPulse className="w-5 h-5 mr-2 text-gray-400" />
+                Health Check
+              </h2>
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-400 mb-2">Port</label>
+                  <div className="flex items-center space-x-3">
+                    <input
+                      type="number"
+                      min={1}
+                      max={65535}
+                      defaultValue={service.port ?? ''}
+                      placeholder="Auto-detect"
+                      id="servicePort"
+                      className="flex-1 px-4 py-3 bg-black border border-white/10 rounded-xl text-white font-mono text-sm placeholder-gray-600 focus:ring-2 focus:ring-white/20 focus:border-white/30 transition-all outline-none"
+                    />
+                    <button
+                      onClick={() => {
+                        const input = document.getElementById('servicePort') as HTMLInputElement;
+                        updateServiceMutation.mutate({ port: input.value ? Number(input.value) : null });
+                      }}
+                      className="px-5 py-3 bg-white text-black rounded-xl hover:bg-gray-200 font-medium text-sm transition-all active:scale-95"
+                    >
+                      Save
+                    </button>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-2">The port your app listens on. It is passed to the container as <code className="text-gray-400">PORT</code>. Leave empty to use the image's <code className="text-gray-400">EXPOSE</code> port (or 3000).</p>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-400 mb-2">Health Check Path</label>
+                  <div className="flex items-center space-x-3">
+                    <input
+                      type="text"
+                      defaultValue={service.healthCheckPath || ''}
+                      placeholder="/health or /api/ping"
+                      id="healthCheckPath"
+                      className="flex-1 px-4 py-3 bg-black border border-white/10 rounded-xl text-white font-mono text-sm placeholder-gray-600 focus:ring-2 focus:ring-white/20 focus:border-white/30 transition-all outline-none"
+                    />
+                    <button
+                      onClick={() => {
+                        const input = document.getElementById('healthCheckPath') as HTMLInputElement;
+                        updateServiceMutation.mutate({ healthCheckPath: input.value || null });
+                      }}
+                      className="px-5 py-3 bg-white text-black rounded-xl hover:bg-gray-200 font-medium text-sm transition-all active:scale-95"
+                    >
+                      Save
+                    </button>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-2">When set, deployments will wait for this endpoint to return 2xx before going live. Enables zero-downtime blue-green deploys.</p>
+                </div>
+              </div>
+            </AnimatedCard>
+          )}
+
           <AnimatedCard delay={0.2} className="mt-6">
             <h2 className="text-xl font-bold text-white mb-6 tracking-tight flex items-center">
-              <HeartPulse className="w-5 h-5 mr-2 text-gray-400" />
-              Health Check
+              <Gauge className="w-5 h-5 mr-2 text-gray-400" />
+              Resources
             </h2>
             <div className="space-y-4">
               <div>
-                <label className="block text-sm font-medium text-gray-400 mb-2">Health Check Path</label>
+                <label className="block text-sm font-medium text-gray-400 mb-2">Instance Plan</label>
+                <select
+                  defaultValue={service.plan || 'STARTER'}
+                  id="servicePlan"
+                  className="w-full px-4 py-3 bg-black border border-white/10 rounded-xl text-white text-sm focus:ring-2 focus:ring-white/20 focus:border-white/30 transition-all outline-none"
+                >
+                  {Object.entries(instancePlans).map(([plan, { label, memoryMb, cpus }]) => (
+                    <option key={plan} value={plan}>
+                      {label} ({memoryMb} MB, {cpus} CPU)
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className={`grid grid-cols-1 gap-4 ${isCron ? 'md:grid-cols-3' : 'md:grid-cols-4'}`}>
+                {!isCron && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-400 mb-2">Replicas</label>
+                    <input
+                      type="number"
+                      min={1}
+                      max={10}
+                      defaultValue={service.replicas ?? 1}
+                      id="replicas"
+                      className="w-full px-4 py-3 bg-black border border-white/10 rounded-xl text-white font-mono text-sm placeholder-gray-600 focus:ring-2 focus:ring-white/20 focus:border-white/30 transition-all outline-none"
+                    />
+                  </div>
+                )}
+                <div>
+                  <label className="block text-sm font-medium text-gray-400 mb-2">Memory (MB)</label>
+                  <input
+                    type="number"
+                    min={64}
+                    defaultValue={service.memoryLimitMb ?? ''}
+                    placeholder="Plan default"
+                    id="memoryLimitMb"
+                    className="w-full px-4 py-3 bg-black border border-white/10 rounded-xl text-white font-mono text-sm placeholder-gray-600 focus:ring-2 focus:ring-white/20 focus:border-white/30 transition-all outline-none"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-400 mb-2">CPUs</label>
+                  <input
+                    type="number"
+                    min={0.1}
+                    step={0.1}
+                    defaultValue={service.cpuLimit ?? ''}
+                    placeholder="Plan default"
+                    id="cpuLimit"
+                    className="w-full px-4 py-3 bg-black border border-white/10 rounded-xl text-white font-mono text-sm placeholder-gray-600 focus:ring-2 focus:ring-white/20 focus:border-white/30 transition-all outline-none"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-400 mb-2">Swap (MB)</label>
+                  <input
+                    type="number"
+                    min={0}
+                    defaultValue={service.swapLimitMb ?? ''}
+                    placeholder="Docker default"
+                    id="swapLimitMb"
+                    className="w-full px-4 py-3 bg-black border border-white/10 rounded-xl text-white font-mono text-sm placeholder-gray-600 focus:ring-2 focus:ring-white/20 focus:border-white/30 transition-all outline-none"
+                  />
+                </div>
+              </div>
+              <div className="flex items-center justify-between">
+                <p className="text-xs text-gray-500">Overrides replace the plan's memory and CPU of each replica. Changes apply to running containers right away when possible, otherwise on the next deploy. Replicas share traffic and are replaced one at a time on deploys with a health check. Totals across all replicas are checked against the organization's limits.</p>
+                <button
+                  onClick={() => {
+                    const value = (id: string) => (document.getElementById(id) as HTMLInputElement).value;
+                    const numberOrNull = (id: string) => (value(id) ? Number(value(id)) : null);
+                    updateServiceMutation.mutate({
+                      ...(!isCron && { replicas: Number(value('replicas')) }),
+                      plan: value('servicePlan'),
+                      memoryLimitMb: numberOrNull('memoryLimitMb'),
+                      cpuLimit: numberOrNull('cpuLimit'),
+                      swapLimitMb: numberOrNull('swapLimitMb'),
+                    });
+                  }}
+                  className="px-5 py-3 bg-white text-black rounded-xl hover:bg-gray-200 font-medium text-sm transition-all active:scale-95 ml-4"
+                >
+                  Save
+                </button>
+              </div>
+            </div>
+          </AnimatedCard>
+
+          {!isCron && (
+            <AnimatedCard delay={0.2} className="mt-6">
+              <h2 className="text-xl font-bold text-white mb-6 tracking-tight flex items-center">
+                <TrendingUp className="w-5 h-5 mr-2 text-gray-400" />
+                Autoscaling
+              </h2>
+              <div className="space-y-4">
+                <label className="flex items-center space-x-3 text-sm text-gray-300">
+                  <input
+                    type="checkbox"
+                    defaultChecked={service.autoscaleEnabled}
+                    id="autoscaleEnabled"
+                    className="w-4 h-4 rounded border-white/10 bg-black"
+                  />
+                  <span>Scale replicas automatically based on CPU and memory usage</span>
+                </label>
+                <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+                  {([
+                    ['minReplicas', 'Min Replicas', service.minReplicas, '1'],
+                    ['maxReplicas', 'Max Replicas', service.maxReplicas, '3'],
+                    ['scaleCpuPercent', 'CPU Threshold (%)', service.scaleCpuPercent, 'Off'],
+                    ['scaleMemoryPercent', 'Memory Threshold (%)', service.scaleMemoryPercent, 'Off'],
+                    ['scaleCooldownSeconds', 'Cooldown (s)', service.scaleCooldownSeconds, '300'],
+                  ] as const).map(([field, label, value, placeholder]) => (
+                    <div key={field}>
+                      <label className="block text-sm font-medium text-gray-400 mb-2">{label}</label>
+                      <input
+                        type="number"
+                        min={1}
+                        defaultValue={value ?? ''}
+                        placeholder={placeholder}
+                        id={field}
+                        className="w-full px-4 py-3 bg-black border border-white/10 rounded-xl text-white font-mono text-sm placeholder-gray-600 focus:ring-2 focus:ring-white/20 focus:border-white/30 transition-all outline-none"
+                      />
+                    </div>
+                  ))}
+                </div>
+                <div className="flex items-center justify-between">
+                  <p className="text-xs text-gray-500">Adds a replica when average usage stays above a threshold, and removes one when it stays below half of every threshold. Usage is measured against each replica's limits. The cooldown is the minimum time between scaling changes.</p>
+                  <button
+                    onClick={() => {
+                      const value = (id: string) => (document.getElementById(id) as HTMLInputElement).value;
+                      const numberOrNull = (id: string) => (value(id) ? Number(value(id)) : null);
+                      updateServiceMutation.mutate({
+                        autoscaleEnabled: (document.getElementById('autoscaleEnabled') as HTMLInputElement).checked,
+                        minReplicas: Number(value('minReplicas')),
+                        maxReplicas: Number(value('maxReplicas')),
+                        scaleCpuPercent: numberOrNull('scaleCpuPercent'),
+                        scaleMemoryPercent: numberOrNull('scaleMemoryPercent'),
+                        scaleCooldownSeconds: Number(value('scaleCooldownSeconds')),
+                      });
+                    }}
+                    className="px-5 py-3 bg-white text-black rounded-xl hover:bg-gray-200 font-medium text-sm transition-all active:scale-95 ml-4"
+                  >
+                    Save
+                  </button>
+                </div>
+                <div>
+                  <p className="text-sm font-medium text-gray-400 mb-2">Scaling Events</p>
+                  {!scalingEvents || scalingEvents.length === 0 ? (
+                    <p className="text-sm text-gray-500">No scaling events yet.</p>
+                  ) : (
+                    <div className="space-y-2 max-h-64 overflow-y-auto">
+                      {scalingEvents.map((event: any) => (
+                        <div key={event.id} className="flex items-center justify-between p-3 bg-black border border-white/5 rounded-xl text-sm">
+                          <div className="flex items-center space-x-3 min-w-0">
+                            <span className="font-mono text-white flex-shrink-0">
+                              {event.fromReplicas} → {event.toReplicas}
+                            </span>
+                            <span className={`px-2 py-0.5 text-xs rounded-md flex-shrink-0 ${event.automatic ? 'bg-blue-500/20 text-blue-400' : 'bg-white/10 text-gray-300'}`}>
+                              {event.automatic ? 'Auto' : 'Manual'}
+                            </span>
+                            <span className="text-gray-400 truncate">{event.reason}</span>
+                          </div>
+                          <span className="text-xs text-gray-500 flex-shrink-0 ml-3">
+                            {new Date(event.createdAt).toLocaleString()}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </div>
+            </AnimatedCard>
+          )}
+
+          <AnimatedCard delay={0.25} className="mt-6">
+            <h2 className="text-xl font-bold text-white mb-6 tracking-tight flex items-center">
+              <FolderGit2 className="w-5 h-5 mr-2 text-gray-400" />
+              Build
+            </h2>
+            <div className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-400 mb-2">Root Directory</label>
+                  <input
+                    type="text"
+                    defaultValue={service.rootDirectory || ''}
+                    placeholder="apps/web"
+                    id="rootDirectory"
+                    className="w-full px-4 py-3 bg-black border border-white/10 rounded-xl text-white font-mono text-sm placeholder-gray-600 focus:ring-2 focus:ring-white/20 focus:border-white/30 transition-all outline-none"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-400 mb-2">Dockerfile Path</label>
+                  <input
+                    type="text"
+                    defaultValue={service.dockerfilePath || ''}
+                    placeholder="Dockerfile"
+                    id="dockerfilePath"
+                    className="w-full px-4 py-3 bg-black border border-white/10 rounded-xl text-white font-mono text-sm placeholder-gray-600 focus:ring-2 focus:ring-white/20 focus:border-white/30 transition-all outline-none"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-400 mb-2">Target Stage</label>
+                  <input
+                    type="text"
+                    defaultValue={service.dockerTarget || ''}
+                    placeholder="production"
+                    id="dockerTarget"
+                    className="w-full px-4 py-3 bg-black border border-white/10 rounded-xl text-white font-mono text-sm placeholder-gray-600 focus:ring-2 focus:ring-white/20 focus:border-white/30 transition-all outline-none"
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-400 mb-2">Watch Paths</label>
+                <input
+                  type="text"
+                  defaultValue={(service.watchPaths || []).join(', ')}
+                  placeholder="apps/web/**, packages/ui/**"
+                  id="watchPaths"
+                  className="w-full px-4 py-3 bg-black border border-white/10 rounded-xl text-white font-mono text-sm placeholder-gray-600 focus:ring-2 focus:ring-white/20 focus:border-white/30 transition-all outline-none"
+                />
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {(['buildArgs', 'buildSecrets'] as const).map((field) => (
+                  <div key={field} className="p-4 bg-black border border-white/5 rounded-xl">
+                    <div className="flex items-center justify-between mb-2">
+                      <p className="text-sm font-medium text-gray-400">{variablesModalTitles[field]}</p>
+                      <button
+                        onClick={() => openVariablesModal(field)}
+                        className="text-xs font-medium text-gray-400 hover:text-white transition-colors"
+                      >
+                        Edit
+                      </button>
+                    </div>
+                    <p className="font-mono text-xs text-gray-500 break-all">
+                      {service[field] ? Object.keys(service[field]).join(', ') : 'None'}
+                    </p>
+                  </div>
+                ))}
+              </div>
+              <div className="flex items-center justify-between">
+                <p className="text-xs text-gray-500">Paths are relative to the repository root; the Dockerfile path is relative to the root directory. Pushes only redeploy when they change a watched path (the root directory by default). Build arguments and secrets are available only while the image builds; secrets are mounted with <code className="text-gray-400">RUN --mount=type=secret,id=NAME</code>, and a service without a Dockerfile fails to build while any are set.</p>
+                <button
+                  onClick={() => {
+                    const value = (id: string) => (document.getElementById(id) as HTMLInputElement).value.trim();
+                    updateServiceMutation.mutate({
+                      rootDirectory: value('rootDirectory') || null,
+                      dockerfilePath: value('dockerfilePath') || null,
+                      dockerTarget: value('dockerTarget') || null,
+                      watchPaths: value('watchPaths')
+                        .split(',')
+                        .map((watchPath) => watchPath.trim())
+                        .filter(Boolean),
+                    });
+                  }}
+                  className="px-5 py-3 bg-white text-black rounded-xl hover:bg-gray-200 font-medium text-sm transition-all active:scale-95 ml-4"
+                >
+                  Save
+                </button>
+              </div>
+            </div>
+          </AnimatedCard>
+
+          <AnimatedCard delay={0.25} className="mt-6">
+            <h2 className="text-xl font-bold text-white mb-6 tracking-tight flex items-center">
+              <TerminalSquare className="w-5 h-5 mr-2 text-gray-400" />
+              Release Command
+            </h2>
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-400 mb-2">Command</label>
                 <div className="flex items-center space-x-3">
                   <input
                     type="text"
-                    defaultValue={service.healthCheckPath || ''}
-                    placeholder="/health or /api/ping"
-                    id="healthCheckPath"
+                    defaultValue={service.releaseCommand || ''}
+                    placeholder="npx prisma migrate deploy"
+                    id="releaseCommand"
                     className="flex-1 px-4 py-3 bg-black border border-white/10 rounded-xl text-white font-mono text-sm placeholder-gray-600 focus:ring-2 focus:ring-white/20 focus:border-white/30 transition-all outline-none"
                   />
                   <button
                     onClick={() => {
-                      const input = document.getElementById('healthCheckPath') as HTMLInputElement;
-                      updateServiceMutation.mutate({ healthCheckPath: input.value || null });
+                      const input = document.getElementById('releaseCommand') as HTMLInputElement;
+                      updateServiceMutation.mutate({ releaseCommand: input.value || null });
                     }}
                     className="px-5 py-3 bg-white text-black rounded-xl hover:bg-gray-200 font-medium text-sm transition-all active:scale-95"
                   >
                     Save
                   </button>
                 </div>
-                <p className="text-xs text-gray-500 mt-2">When set, deployments will wait for this endpoint to return 2xx before going live. Enables zero-downtime blue-green deploys.</p>
+                <p className="text-xs text-gray-500 mt-2">Runs in a one-off container from the new image after each build, before it receives traffic. Use it for database migrations. A non-zero exit fails the deployment.</p>
               </div>
             </div>
           </AnimatedCard>
+
+          {isWeb && (
+            <AnimatedCard delay={0.3} className="mt-6">
+              <h2 className="text-xl font-bold text-white mb-6 tracking-tight flex items-center">
+                <SlidersHorizontal className="w-5 h-5 mr-2 text-gray-400" />
+                Deploy Strategy
+              </h2>
+              <div className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-400 mb-2">Strategy</label>
+                    <select
+                      defaultValue={service.deployStrategy || 'STANDARD'}
+                      id="deployStrategy"
+                      className="w-full px-4 py-3 bg-black border border-white/10 rounded-xl text-white text-sm focus:ring-2 focus:ring-white/20 focus:border-white/30 transition-all outline-none"
+                    >
+                      <option value="STANDARD">Standard</option>
+                      <option value="CANARY">Canary</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-400 mb-2">Traffic Steps (%)</label>
+                    <input
+                      type="text"
+                      defaultValue={(service.canarySteps || [10, 50, 100]).join(', ')}
+                      placeholder="10, 50, 100"
+                      id="canarySteps"
+                      className="w-full px-4 py-3 bg-black border border-white/10 rounded-xl text-white font-mono text-sm placeholder-gray-600 focus:ring-2 focus:ring-white/20 focus:border-white/30 transition-all outline-none"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-400 mb-2">Step Interval (seconds)</label>
+                    <input
+                      type="number"
+                      min={10}
+                      defaultValue={service.canaryStepInterval ?? 60}
+                      id="canaryStepInterval"
+                      className="w-full px-4 py-3 bg-black border border-white/10 rounded-xl text-white font-mono text-sm placeholder-gray-600 focus:ring-2 focus:ring-white/20 focus:border-white/30 transition-all outline-none"
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-400 mb-2">When a new deployment starts</label>
+                  <select
+                    defaultValue={service.supersedePolicy || 'QUEUED'}
+                    id="supersedePolicy"
+                    className="w-full px-4 py-3 bg-black border border-white/10 rounded-xl text-white text-sm focus:ring-2 focus:ring-white/20 focus:border-white/30 transition-all outline-none"
+                  >
+                    <option value="NONE">Run every deployment, one after another</option>
+                    <option value="QUEUED">Skip older queued deployments</option>
+                    <option value="INTERRUPT">Skip older queued deployments and cancel a running build</option>
+                  </select>
+                </div>
+                <div className="flex items-center justify-between">
+                  <p className="text-xs text-gray-500">Canary deploys shift traffic to the new version step by step and roll back automatically if its error rate rises.</p>
+                  <button
+                    onClick={() => {
+                      const strategy = document.getElementById('deployStrategy') as HTMLSelectElement;
+                      const steps = document.getElementById('canarySteps') as HTMLInputElement;
+                      const interval = document.getElementById('canaryStepInterval') as HTMLInputElement;
+                      const supersedePolicy = document.getElementById('supersedePolicy') as HTMLSelectElement;
+                      updateServiceMutation.mutate({
+                        deployStrategy: strategy.value,
+                        supersedePolicy: supersedePolicy.value,
+                        canarySteps: steps.value
+                          .split(',')
+                          .map((step) => step.trim())
+                          .filter(Boolean)
+                          .map(Number),
+                        canaryStepInterval: Number(interval.value),
+                      });
+                    }}
+                    className="px-5 py-3 bg-white text-black rounded-xl hover:bg-gray-200 font-medium text-sm transition-all active:scale-95 ml-4"
+                  >
+                    Save
+                  </button>
+                </div>
+              </div>
+            </AnimatedCard>
+          )}
+
+          {!service.parentServiceId && service.sourceType !== 'IMAGE' && isWeb && (
+            <AnimatedCard delay={0.3} className="mt-6">
+              <h2 className="text-xl font-bold text-white mb-6 tracking-tight flex items-center">
+                <GitPullRequest className="w-5 h-5 mr-2 text-gray-400" />
+                Preview Environments
+              </h2>
+              <div className="space-y-4">
+                <label className="flex items-center space-x-3 text-sm text-gray-300">
+                  <input
+                    type="checkbox"
+                    defaultChecked={service.previewsEnabled}
+                    id="previewsEnabled"
+                    className="w-4 h-4 accent-white"
+                  />
+                  <span>Deploy a preview of each pull request against <code className="text-gray-400">{service.branch}</code></span>
+                </label>
+                <div className="p-4 bg-black border border-white/5 rounded-xl">
+                  <div className="flex items-center justify-between mb-2">
+                    <p className="text-sm font-medium text-gray-400">{variablesModalTitles.previewEnvVars}</p>
+                    <button
+                      onClick={() => openVariablesModal('previewEnvVars')}
+                      className="text-xs font-medium text-gray-400 hover:text-white transition-colors"
+                    >
+                      Edit
+                    </button>
+                  </div>
+                  <p className="font-mono text-xs text-gray-500 break-all">
+                    {service.previewEnvVars ? Object.keys(service.previewEnvVars).join(', ') : 'None'}
+                  </p>
+                </div>
+                <div className="flex items-center justify-between">
+                  <p className="text-xs text-gray-500">Previews run at <code className="text-gray-400">{`${service.subdomain}-pr-<number>.${BASE_DOMAIN}`}</code> with this service's settings, overrides applied over its environment variables. Closing or merging the pull request removes the preview. Pull requests from forks are not previewed.</p>
+                  <button
+                    onClick={() => {
+                      const enabled = document.getElementById('previewsEnabled') as HTMLInputElement;
+                      updateServiceMutation.mutate({ previewsEnabled: enabled.checked });
+                    }}
+                    className="px-5 py-3 bg-white text-black rounded-xl hover:bg-gray-200 font-medium text-sm transition-all active:scale-95 ml-4"
+                  >
+                    Save
+                  </button>
+                </div>
+              </div>
+            </AnimatedCard>
+          )}
+
+          {service.sourceType === 'IMAGE' && (
+            <AnimatedCard delay={0.3} className="mt-6">
+              <h2 className="text-xl font-bold text-white mb-6 tracking-tight flex items-center">
+                <Package className="w-5 h-5 mr-2 text-gray-400" />
+                Image
+              </h2>
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-400 mb-2">Image Reference</label>
+                  <input
+                    type="text"
+                    defaultValue={service.imageRef || ''}
+                    placeholder="ghcr.io/acme/api:1.4"
+                    id="imageRef"
+                    className="w-full px-4 py-3 bg-black border border-white/10 rounded-xl text-white font-mono text-sm placeholder-gray-600 focus:ring-2 focus:ring-white/20 focus:border-white/30 transition-all outline-none"
+                  />
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-400 mb-2">Registry Username</label>
+                    <input
+                      type="text"
+                      defaultValue={service.registryUsername || ''}
+                      placeholder="Public image"
+                      id="registryUsername"
+                      autoComplete="off"
+                      className="w-full px-4 py-3 bg-black border border-white/10 rounded-xl text-white font-mono text-sm placeholder-gray-600 focus:ring-2 focus:ring-white/20 focus:border-white/30 transition-all outline-none"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-400 mb-2">Registry Password</label>
+                    <input
+                      type="password"
+                      placeholder={service.registryPassword ? 'Unchanged' : 'Token or password'}
+                      id="registryPassword"
+                      autoComplete="off"
+                      className="w-full px-4 py-3 bg-black border border-white/10 rounded-xl text-white font-mono text-sm placeholder-gray-600 focus:ring-2 focus:ring-white/20 focus:border-white/30 transition-all outline-none"
+                    />
+                  </div>
+                </div>
+                <div className="flex items-center justify-between">
+                  <p className="text-xs text-gray-500">Every deploy pulls the image again. Leave the password empty to keep the current one.</p>
+                  <button
+                    onClick={() => {
+                      const imageRef = document.getElementById('imageRef') as HTMLInputElement;
+                      const username = document.getElementById('registryUsername') as HTMLInputElement;
+                      const password = document.getElementById('registryPassword') as HTMLInputElement;
+                      updateServiceMutation.mutate({
+                        imageRef: imageRef.value,
+                        registryUsername: username.value || null,
+                        ...(password.value && { registryPassword: password.value }),
+                      });
+                    }}
+                    className="px-5 py-3 bg-white text-black rounded-xl hover:bg-gray-200 font-medium text-sm transition-all active:scale-95 ml-4"
+                  >
+                    Save
+                  </button>
+                </div>
+              </div>
+            </AnimatedCard>
+          )}
+
+          {!service.parentServiceId && service.sourceType !== 'IMAGE' && (
+            <AnimatedCard delay={0.3} className="mt-6">
+              <h2 className="text-xl font-bold text-white mb-6 tracking-tight flex items-center">
+                <KeyRound className="w-5 h-5 mr-2 text-gray-400" />
+                Deploy Key
+              </h2>
+              {service.deployKeyPublic ? (
+                <div className="space-y-4">
+                  <p className="text-sm text-gray-400">This service clones its repository over SSH with this key. Add it to the repository as a read-only deploy key.</p>
+                  <div className="flex items-center space-x-2">
+                    <code className="flex-1 px-4 py-3 bg-black border border-white/10 rounded-xl text-green-400 font-mono text-xs truncate">{service.deployKeyPublic}</code>
+                    <button onClick={() => { navigator.clipboard.writeText(service.deployKeyPublic); toast.success('Public key copied'); }} className="p-3 bg-white/5 border border-white/10 rounded-xl hover:bg-white/10 transition-all text-gray-400 hover:text-white">
+                      <Copy className="w-4 h-4" />
+                    </button>
+                  </div>
+                  <div className="flex justify-end space-x-3">
+                    <button
+                      onClick={() => deleteDeployKeyMutation.mutate()}
+                      disabled={deleteDeployKeyMutation.isPending}
+                      className="px-5 py-3 text-gray-400 hover:text-white hover:bg-white/5 rounded-xl font-medium text-sm transition-all disabled:opacity-50"
+                    >
+                      Remove
+                    </button>
+                    <button
+                      onClick={() => generateDeployKeyMutation.mutate()}
+                      disabled={generateDeployKeyMutation.isPending}
+                      className="px-5 py-3 bg-white/5 border border-white/10 text-white rounded-xl hover:bg-white/10 font-medium text-sm transition-all disabled:opacity-50"
+                    >
+                      Regenerate
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <div className="flex items-center justify-between">
+                  <p className="text-sm text-gray-500">Private repositories are cloned with {service.gitProvider === 'GITHUB' ? "the service owner's GitHub token" : "the service's access token"}. Generate a deploy key to give this service its own read-only access instead.</p>
+                  <button
+                    onClick={() => generateDeployKeyMutation.mutate()}
+                    disabled={generateDeployKeyMutation.isPending}
+                    className="px-5 py-3 bg-white text-black rounded-xl hover:bg-gray-200 font-medium text-sm transition-all active:scale-95 ml-4 whitespace-nowrap disabled:opacity-50"
+                  >
+                    Generate Key
+                  </button>
+                </div>
+              )}
+            </AnimatedCard>
+          )}
         </TabsContent>
       </Tabs>
 
@@ -506,7 +1283,7 @@ export default function ServiceDetail() {
             >
               <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-transparent via-white/20 to-transparent" />
               <h2 className="text-2xl font-bold text-white mb-6 tracking-tight">
-                Environment Variables
+                {variablesModalTitles[envModalField]}
               </h2>
               <div className="space-y-4 max-h-[60vh] overflow-y-auto pr-2 custom-scrollbar">
                 {envVars.map((env, index) => (
@@ -586,10 +1363,141 @@ export default function ServiceDetail() {
           </motion.div>
         )}
       </AnimatePresence>
+
+      {/* Deploy Ref Modal */}
+      <AnimatePresence>
+        {showDeployRefModal && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm"
+          >
+            <motion.div
+              initial={{ scale: 0.95, opacity: 0, y: 20 }}
+              animate={{ scale: 1, opacity: 1, y: 0 }}
+              exit={{ scale: 0.95, opacity: 0, y: 20 }}
+              className="bg-[#111] border border-white/10 rounded-2xl shadow-2xl p-8 w-full max-w-lg mx-4 relative overflow-hidden"
+            >
+              <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-transparent via-white/20 to-transparent" />
+              <h2 className="text-2xl font-bold text-white mb-6 tracking-tight">
+                Deploy a Specific Ref
+              </h2>
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  deployMutation.mutate(deployRef.trim() || undefined);
+                }}
+              >
+                <label className="block text-sm font-medium text-gray-400 mb-2">Commit SHA, tag or branch</label>
+                <input
+                  type="text"
+                  value={deployRef}
+                  onChange={(e) => setDeployRef(e.target.value)}
+                  placeholder={service.branch}
+                  autoFocus
+                  className="w-full px-4 py-3 bg-black border border-white/10 rounded-xl text-white font-mono text-sm placeholder-gray-600 focus:ring-2 focus:ring-white/20 focus:border-white/30 transition-all outline-none"
+                />
+                <p className="text-xs text-gray-500 mt-2">Leave empty to deploy the latest commit on <code className="text-gray-400">{service.branch}</code>.</p>
+                <div className="flex justify-end space-x-3 mt-8 pt-6 border-t border-white/10">
+                  <button
+                    type="button"
+                    onClick={() => setShowDeployRefModal(false)}
+                    className="px-5 py-2.5 text-gray-400 hover:text-white transition-colors font-medium rounded-lg hover:bg-white/5"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={deployMutation.isPending}
+                    className="px-5 py-2.5 bg-white text-black rounded-lg hover:bg-gray-200 disabled:opacity-50 font-medium transition-all active:scale-95"
+                  >
+                    {deployMutation.isPending ? 'Deploying...' : 'Deploy'}
+                  </button>
+                </div>
+              </form>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
     </PageTransition>
   );
 }
 
+/* ---- Runs sub-tab (cron services and renderlite.yaml cron jobs) ---- */
+function RunsTab({ serviceId, isCron }: { serviceId: string; isCron: boolean }) {
+  const [openRunId, setOpenRunId] = useState<string | null>(null);
+
+  const { data: runs, isLoading } = useQuery({
+    queryKey: ['runs', serviceId],
+    queryFn: () => servicesApi.runs(serviceId).then((r) => r.data),
+    refetchInterval: 10000,
+  });
+
+  const { data: openRun } = useQuery({
+    queryKey: ['run', serviceId, openRunId],
+    queryFn: () => servicesApi.getRun(serviceId, openRunId!).then((r) => r.data),
+    enabled: !!openRunId,
+  });
+
+  const duration = (run: any) => {
+    if (!run.finishedAt) return 'running';
+    const seconds = Math.round((new Date(run.finishedAt).getTime() - new Date(run.startedAt).getTime()) / 1000);
+    return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+  };
+
+  return (
+    <AnimatedCard delay={0.1} className="flex flex-col min-h-[420px]">
+      <h2 className="text-xl font-bold text-white mb-6 tracking-tight flex items-center">
+        <Timer className="w-5 h-5 mr-2 text-gray-400" />
+        Run History
+      </h2>
+
+      {isLoading ? (
+        <Skeleton className="h-20 w-full" />
+      ) : !runs || runs.length === 0 ? (
+        <div className="flex-1 flex items-center justify-center text-gray-500 border border-dashed border-white/10 rounded-xl bg-black/30">
+          {isCron
+            ? 'No runs yet. Runs start on schedule after the first successful deploy.'
+            : 'No runs yet. Cron jobs declared in renderlite.yaml run here on schedule.'}
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {runs.map((run: any) => (
+            <div key={run.id} className="bg-black border border-white/5 hover:border-white/20 rounded-xl transition-all">
+              <button
+                onClick={() => setOpenRunId(openRunId === run.id ? null : run.id)}
+                className="w-full flex items-center justify-between p-4 text-left"
+              >
+                <div className="flex items-center space-x-3 min-w-0">
+                  <span className={`px-2 py-0.5 text-xs font-semibold rounded-md flex-shrink-0 ${runStatusColors[run.status]}`}>
+                    {run.status}
+                  </span>
+                  {run.name && <span className="text-sm font-medium text-white flex-shrink-0">{run.name}</span>}
+                  <span className="font-mono text-sm text-gray-300 truncate">{run.command}</span>
+                </div>
+                <div className="flex items-center space-x-4 text-xs text-gray-500 flex-shrink-0 ml-3">
+                  {run.exitCode !== null && <span className="font-mono">exit {run.exitCode}</span>}
+                  <span>{duration(run)}</span>
+                  <span>{new Date(run.startedAt).toLocaleString()}</span>
+                </div>
+              </button>
+              {openRunId === run.id && (
+                <div className="px-4 pb-4 space-y-2">
+                  {run.error && <p className="text-xs text-[#ff003c]">{run.error}</p>}
+                  <pre className="max-h-80 overflow-auto p-3 bg-[#0a0a0a] border border-white/5 rounded-lg text-xs text-gray-300 font-mono whitespace-pre-wrap custom-scrollbar">
+                    {openRun?.id === run.id ? openRun.logs || 'No output' : 'Loading...'}
+                  </pre>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </AnimatedCard>
+  );
+}
+
 /* ---- Domains sub-tab ---- */
 function DomainsTab({ serviceId }: { serviceId: string }) {
   const queryClient = useQueryClient();
@@ -0,0 +1,216 @@
+import { parseDocument } from 'yaml';
+import { DEFAULTS, INSTANCE_PLANS } from './constants.js';
+import { normalizeCronExpression, validateCronExpression } from './cron.js';
+import type { BlueprintCronJob, BlueprintRuntimeSettings, InstancePlan } from './types.js';
+
+// Looked up in the service's root directory of the repository
+export const BLUEPRINT_FILENAME = 'renderlite.yaml';
+
+/**
+ * Service settings declared in a repository's renderlite.yaml. Every field is
+ * optional; a deployment merges the ones that are set over the service's own settings.
+ */
+export interface Blueprint {
+  port?: number;
+  healthCheck?: {
+    path?: string;
+    interval?: number; // seconds
+    timeout?: number; // seconds
+  };
+  releaseCommand?: string;
+  plan?: InstancePlan;
+  env: string[]; // keys that must be set on the service; values never live in the repo
+  databases: string[]; // names of managed databases that must be linked to the service
+  cron: BlueprintCronJob[]; // commands scheduled on the deployed image
+}
+
+export interface BlueprintParseResult {
+  blueprint: Blueprint | null; // null when there are errors
+  errors: string[];
+}
+
+const TOP_LEVEL_KEYS = ['port', 'healthCheck', 'releaseCommand', 'plan', 'env', 'databases', 'cron'];
+const HEALTH_CHECK_KEYS = ['path', 'interval', 'timeout'];
+const CRON_JOB_KEYS = ['name', 'schedule', 'command', 'timeout'];
+
+// Cron job names become part of their job scheduler's id and label their runs
+const CRON_JOB_NAME_PATTERN = /^[a-z0-9][a-z0-9-]{0,62}$/;
+
+const ENV_KEY_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function checkKeys(value: Record<string, unknown>, allowed: string[], where: string, errors: string[]): void {
+  for (const key of Object.keys(value)) {
+    if (!allowed.includes(key)) {
+      errors.push(`${where}: unknown key "${key}" (expected one of ${allowed.join(', ')})`);
+    }
+  }
+}
+
+function readInteger(value: unknown, where: string, min: number, max: number, errors: string[]): number | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+    errors.push(`${where} must be a whole number between ${min} and ${max}`);
+    return undefined;
+  }
+  return value;
+}
+
+function readString(value: unknown, where: string, errors: string[]): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'string' || !value.trim()) {
+    errors.push(`${where} must be a non-empty string`);
+    return undefined;
+  }
+  return value.trim();
+}
+
+function readStringList(value: unknown, where: string, errors: string[]): string[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value) || value.some((item) => typeof item !== 'string' || !item.trim())) {
+    errors.push(`${where} must be a list of names`);
+    return [];
+  }
+  const items = value.map((item: string) => item.trim());
+  const duplicate = items.find((item, index) => items.indexOf(item) !== index);
+  if (duplicate) {
+    errors.push(`${where}: "${duplicate}" is listed more than once`);
+  }
+  return [...new Set(items)];
+}
+
+function readEnvKeys(value: unknown, errors: string[]): string[] {
+  if (isRecord(value)) {
+    errors.push('env lists variable names only; set their values on the service');
+    return [];
+  }
+  const keys = readStringList(value, 'env', errors);
+  const invalidKey = keys.find((key) => !ENV_KEY_PATTERN.test(key));
+  if (invalidKey) {
+    errors.push(`env: "${invalidKey}" is not a valid environment variable name`);
+  }
+  return keys;
+}
+
+function readCronJobs(value: unknown, errors: string[]): BlueprintCronJob[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) {
+    errors.push('cron must be a list of jobs');
+    return [];
+  }
+
+  const jobs: BlueprintCronJob[] = [];
+  value.forEach((entry, index) => {
+    const where = `cron[${index}]`;
+    if (!isRecord(entry)) {
+      errors.push(`${where} must be a mapping with name, schedule and command`);
+      return;
+    }
+    checkKeys(entry, CRON_JOB_KEYS, where, errors);
+
+    const [name, schedule, command] = ['name', 'schedule', 'command'].map((key) => {
+      if (entry[key] === undefined || entry[key] === null) {
+        errors.push(`${where}.${key} is required`);
+        return undefined;
+      }
+      return readString(entry[key], `${where}.${key}`, errors);
+    });
+    const timeoutSeconds = readInteger(entry.timeout, `${where}.timeout`, 1, DEFAULTS.CRON_MAX_TIMEOUT_SECONDS, errors);
+    if (!name || !schedule || !command) {
+      return;
+    }
+
+    if (!CRON_JOB_NAME_PATTERN.test(name)) {
+      errors.push(`${where}.name must be lowercase letters, digits and dashes`);
+      return;
+    }
+    const scheduleError = validateCronExpression(schedule);
+    if (scheduleError) {
+      errors.push(`${where}.schedule ${scheduleError}`);
+      return;
+    }
+    if (jobs.some((job) => job.name === name)) {
+      errors.push(`${where}: cron job "${name}" is declared more than once`);
+      return;
+    }
+    jobs.push({
+      name,
+      schedule: normalizeCronExpression(schedule),
+      command,
+      ...(timeoutSeconds !== undefined && { timeoutSeconds }),
+    });
+  });
+  return jobs;
+}
+
+/**
+ * The settings of a blueprint that rollbacks to its deployment must reuse
+ */
+export function getBlueprintRuntimeSettings(blueprint: Blueprint): BlueprintRuntimeSettings {
+  const settings: BlueprintRuntimeSettings = {
+    port: blueprint.port,
+    healthCheckPath: blueprint.healthCheck?.path,
+    healthCheckInterval: blueprint.healthCheck?.interval,
+    healthCheckTimeout: blueprint.healthCheck?.timeout,
+    cron: blueprint.cron.length > 0 ? blueprint.cron : undefined,
+  };
+  return Object.fromEntries(Object.entries(settings).filter(([, value]) => value !== undefined));
+}
+
+/**
+ * Parse and validate the contents of a renderlite.yaml. Unknown keys are errors so
+ * a typo never silently falls back to the service's own setting. An empty file is
+ * a valid blueprint that changes nothing.
+ */
+export function parseBlueprint(content: string): BlueprintParseResult {
+  const document = parseDocument(content);
+  if (document.errors.length > 0) {
+    return { blueprint: null, errors: document.errors.map((error) => `Invalid YAML: ${error.message}`) };
+  }
+
+  const raw: unknown = document.toJS() ?? {};
+  if (!isRecord(raw)) {
+    return { blueprint: null, errors: [`${BLUEPRINT_FILENAME} must be a mapping of settings`] };
+  }
+
+  const errors: string[] = [];
+  checkKeys(raw, TOP_LEVEL_KEYS, BLUEPRINT_FILENAME, errors);
+
+  const blueprint: Blueprint = {
+    port: readInteger(raw.port, 'port', 1, 65535, errors),
+    releaseCommand: readString(raw.releaseCommand, 'releaseCommand', errors),
+    env: readEnvKeys(raw.env, errors),
+    databases: readStringList(raw.databases, 'databases', errors),
+    cron: readCronJobs(raw.cron, errors),
+  };
+
+  if (raw.healthCheck !== undefined && raw.healthCheck !== null) {
+    if (!isRecord(raw.healthCheck)) {
+      errors.push('healthCheck must be a mapping with path, interval and timeout');
+    } else {
+      checkKeys(raw.healthCheck, HEALTH_CHECK_KEYS, 'healthCheck', errors);
+      const healthCheckPath = readString(raw.healthCheck.path, 'healthCheck.path', errors);
+      if (healthCheckPath && !healthCheckPath.startsWith('/')) {
+        errors.push('healthCheck.path must start with /');
+      }
+      blueprint.healthCheck = {
+        path: healthCheckPath,
+        interval: readInteger(raw.healthCheck.interval, 'healthCheck.interval', 1, 3600, errors),
+        timeout: readInteger(raw.healthCheck.timeout, 'healthCheck.timeout', 1, 300, errors),
+      };
+    }
+  }
+
+  if (raw.plan !== undefined && raw.plan !== null) {
+    if (typeof raw.plan !== 'string' || !INSTANCE_PLANS[raw.plan.toUpperCase()]) {
+      errors.push(`plan must be one of ${Object.keys(INSTANCE_PLANS).join(', ')}`);
+    } else {
+      blueprint.plan = raw.plan.toUpperCase() as InstancePlan;
+    }
+  }
+
+  return errors.length > 0 ? { blueprint: null, errors } : { blueprint, errors: [] };
+}
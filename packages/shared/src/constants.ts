@@ -3,12 +3,22 @@ export const QUEUES = {
   BUILD: 'build-queue',
   CLEANUP: 'cleanup-queue',
   ROLLBACK: 'rollback-queue',
+  SCALE: 'scale-queue',
+  CRON: 'cron-queue',
 } as const;
 
 // Redis keys
 export const REDIS_KEYS = {
   DEPLOYMENT_LOGS: (deploymentId: string) => `deployment:${deploymentId}:logs`,
   SERVICE_METRICS: (serviceId: string) => `service:${serviceId}:metrics`,
+  CANARY_ACTION: (deploymentId: string) => `deployment:${deploymentId}:canary-action`,
+  // Value is the id of the deployment that superseded it, or 'user'
+  CANCEL_DEPLOYMENT: (deploymentId: string) => `deployment:${deploymentId}:cancel`,
+  SERVICE_DEPLOY_LOCK: (serviceId: string) => `service:${serviceId}:deploy-lock`,
+  // Id of the BullMQ job scheduler that repeats a CRON service's runs
+  CRON_SCHEDULER: (serviceId: string) => `service:${serviceId}:cron`,
+  // Ids of the job schedulers of a service's renderlite.yaml cron jobs, by job name
+  BLUEPRINT_CRON_SCHEDULER: (serviceId: string, name: string) => `service:${serviceId}:blueprint-cron:${name}`,
 } as const;
 
 // Redis pub/sub channels
@@ -16,28 +26,57 @@ export const REDIS_CHANNELS = {
   REALTIME_EVENTS: 'renderlite:realtime:events',
 } as const;
 
-// Docker labels for Traefik
-export const DOCKER_LABELS = {
-  TRAEFIK_ENABLE: 'traefik.enable',
-  TRAEFIK_NETWORK: 'traefik.docker.network',
-  TRAEFIK_ROUTER_RULE: (name: string) => `traefik.http.routers.${name}.rule`,
-  TRAEFIK_ROUTER_ENTRYPOINTS: (name: string) => `traefik.http.routers.${name}.entrypoints`,
-  TRAEFIK_ROUTER_TLS: (name: string) => `traefik.http.routers.${name}.tls`,
-  TRAEFIK_ROUTER_CERTRESOLVER: (name: string) => `traefik.http.routers.${name}.tls.certresolver`,
-  TRAEFIK_SERVICE_PORT: (name: string) => `traefik.http.services.${name}.loadbalancer.server.port`,
-} as const;
-
 // Default values
 export const DEFAULTS = {
   BRANCH: 'main',
   CONTAINER_PORT: 3000,
   BUILD_TIMEOUT_MS: 20 * 60 * 1000, // 20 minutes
   CLONE_TIMEOUT_MS: 60 * 1000, // 1 minute
+  IMAGE_PULL_TIMEOUT_MS: 10 * 60 * 1000, // 10 minutes
+  RELEASE_COMMAND_TIMEOUT_MS: 10 * 60 * 1000, // 10 minutes
   MAX_REPO_SIZE_MB: 500,
+  MAX_SOURCE_ARCHIVE_SIZE_MB: 100,
   HEALTH_CHECK_INTERVAL: 30,
   HEALTH_CHECK_TIMEOUT: 5,
   HEALTH_CHECK_RETRIES: 10,
   HEALTH_CHECK_START_DELAY_MS: 5000,
+  WORKER_STARTUP_SECONDS: 10, // a worker's container must stay up this long for its deploy to succeed
+  ROUTE_SWITCH_DELAY_MS: 3000,
+  DRAIN_TIMEOUT_SECONDS: 30,
+  CANCEL_POLL_INTERVAL_MS: 2000,
+  SERVICE_LOCK_TTL_MS: 60 * 1000, // renewed while the deployment runs
+  SERVICE_LOCK_RETRY_MS: 5000,
+  CANARY_STEPS: [10, 50, 100],
+  CANARY_STEP_INTERVAL: 60,
+  CANARY_CHECK_INTERVAL_MS: 5000,
+  CANARY_MAX_ERROR_RATE_PERCENT: 5,
+  CANARY_MIN_REQUESTS: 20,
+  CANARY_MAX_FAILED_PROBES: 3,
+  AUTOSCALE_INTERVAL_MS: 30 * 1000,
+  AUTOSCALE_SUSTAINED_SAMPLES: 4, // thresholds must hold for this many checks in a row
+  AUTOSCALE_SCALE_DOWN_RATIO: 0.5, // scale down once usage is below half the threshold
+  PREVIEW_MAX_IDLE_DAYS: 7, // previews without a deploy for this long are removed
+  CRON_TIMEOUT_SECONDS: 60 * 60,
+  CRON_MAX_TIMEOUT_SECONDS: 24 * 60 * 60,
+  JOB_RUN_MAX_LOG_LINES: 1000, // older output of a run is dropped
+  JOB_RUN_KEEP_COUNT: 100, // runs kept per service
+} as const;
+
+// Instance plans: container resources per service
+export const INSTANCE_PLANS: Record<string, { label: string; memoryMb: number; cpus: number }> = {
+  STARTER: { label: 'Starter', memoryMb: 512, cpus: 0.5 },
+  STANDARD: { label: 'Standard', memoryMb: 1024, cpus: 1 },
+  PRO: { label: 'Pro', memoryMb: 2048, cpus: 2 },
+};
+
+// Bounds for per-service resource overrides
+export const RESOURCE_BOUNDS = {
+  MIN_MEMORY_MB: 64,
+  MAX_MEMORY_MB: 16384,
+  MIN_CPUS: 0.1,
+  MAX_CPUS: 16,
+  MAX_SWAP_MB: 16384,
+  MAX_REPLICAS: 10,
 } as const;
 
 // Database images for managed databases
@@ -59,6 +98,13 @@ export const DATABASE_IMAGES: Record<string, { image: string; port: number; heal
   },
 };
 
+// Env var a linked database's connection string is injected as
+export const DATABASE_ENV_KEYS: Record<string, string> = {
+  POSTGRES: 'DATABASE_URL',
+  MYSQL: 'DATABASE_URL',
+  REDIS: 'REDIS_URL',
+};
+
 // Supported runtimes
 export const SUPPORTED_RUNTIMES = [
   'node',
@@ -72,5 +118,8 @@ export const SUPPORTED_RUNTIMES = [
 
 export type SupportedRuntime = typeof SUPPORTED_RUNTIMES[number];
 
+// Format version of exported project specs
+export const PROJECT_SPEC_VERSION = 1;
+
 // Network name
 export const DOCKER_NETWORK = 'renderlite-network';
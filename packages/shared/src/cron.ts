@@ -0,0 +1,79 @@
+interface CronField {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[]; // accepted in place of numbers, starting at min
+}
+
+const CRON_FIELDS: CronField[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  {
+    name: 'month',
+    min: 1,
+    max: 12,
+    names: ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'],
+  },
+  // 0 and 7 are both Sunday
+  { name: 'day of week', min: 0, max: 7, names: ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'] },
+];
+
+function parseFieldValue(value: string, field: CronField): number | null {
+  const nameIndex = field.names?.indexOf(value.toUpperCase()) ?? -1;
+  if (nameIndex >= 0) {
+    return field.min + nameIndex;
+  }
+  if (!/^\d+$/.test(value)) {
+    return null;
+  }
+  const number = Number(value);
+  return number >= field.min && number <= field.max ? number : null;
+}
+
+function isValidFieldItem(item: string, field: CronField): boolean {
+  const [range, step, ...rest] = item.split('/');
+  if (rest.length > 0 || (step !== undefined && !/^[1-9]\d*$/.test(step))) {
+    return false;
+  }
+  if (range === '*') {
+    return true;
+  }
+
+  const bounds = range.split('-');
+  if (bounds.length > 2) {
+    return false;
+  }
+  const values = bounds.map((bound) => parseFieldValue(bound, field));
+  if (values.some((value) => value === null)) {
+    return false;
+  }
+  return values.length === 1 || values[0]! <= values[1]!;
+}
+
+/**
+ * Check a five-field cron expression (minute, hour, day of month, month, day of
+ * week). Fields take *, numbers or names, ranges, steps and comma-separated lists.
+ * Returns what is wrong with it, or null when it is valid.
+ */
+export function validateCronExpression(expression: string): string | null {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== CRON_FIELDS.length) {
+    return 'must be a five-field cron expression, e.g. "0 3 * * *"';
+  }
+
+  for (const [index, field] of CRON_FIELDS.entries()) {
+    const items = fields[index].split(',');
+    if (items.some((item) => !isValidFieldItem(item, field))) {
+      return `has an invalid ${field.name} field "${fields[index]}" (${field.min}-${field.max})`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Collapse the whitespace in a cron expression so equal schedules compare equal
+ */
+export function normalizeCronExpression(expression: string): string {
+  return expression.trim().split(/\s+/).join(' ');
+}
@@ -1,2 +1,5 @@
 export * from './types.js';
 export * from './constants.js';
+export * from './blueprint.js';
+export * from './cron.js';
+export * from './serviceStatus.js';
@@ -0,0 +1,64 @@
+import { DeploymentStatus, ServiceStatus } from './types.js';
+
+/**
+ * The queries restoreServiceStatus needs; the API's and the worker's Prisma clients
+ * both fit it, so the rule lives in one place
+ */
+export interface ServiceStatusClient {
+  deployment: {
+    count(args: { where: { serviceId: string; status: { in: DeploymentStatus[] } } }): PromiseLike<number>;
+  };
+  service: {
+    findUnique(args: {
+      where: { id: string };
+      select: { containerIds: true };
+    }): PromiseLike<{ containerIds: string[] } | null>;
+    updateMany(args: {
+      where: { id: string; status: ServiceStatus };
+      data: { status: ServiceStatus };
+    }): PromiseLike<{ count: number }>;
+  };
+}
+
+/**
+ * Put a service back in the state it was in before a cancelled deployment: its status
+ * from before the deployment was queued, or RUNNING/STOPPED depending on whether it
+ * still has containers. Left DEPLOYING while another deployment is queued or building.
+ * Returns the restored status, or null if the service was left alone.
+ */
+export async function restoreServiceStatus(
+  client: ServiceStatusClient,
+  serviceId: string,
+  previousStatus: ServiceStatus | null
+): Promise<ServiceStatus | null> {
+  const activeDeployments = await client.deployment.count({
+    where: {
+      serviceId,
+      status: { in: [DeploymentStatus.QUEUED, DeploymentStatus.BUILDING] },
+    },
+  });
+  if (activeDeployments > 0) {
+    return null;
+  }
+
+  const service = await client.service.findUnique({
+    where: { id: serviceId },
+    select: { containerIds: true },
+  });
+  if (!service) {
+    return null;
+  }
+
+  const status =
+    previousStatus && previousStatus !== ServiceStatus.DEPLOYING
+      ? previousStatus
+      : service.containerIds.length > 0
+        ? ServiceStatus.RUNNING
+        : ServiceStatus.STOPPED;
+
+  const updated = await client.service.updateMany({
+    where: { id: serviceId, status: ServiceStatus.DEPLOYING },
+    data: { status },
+  });
+  return updated.count > 0 ? status : null;
+}
@@ -13,6 +13,79 @@ export enum DeploymentStatus {
   BUILDING = 'BUILDING',
   SUCCESS = 'SUCCESS',
   FAILED = 'FAILED',
+  CANCELLED = 'CANCELLED',
+  SKIPPED = 'SKIPPED', // superseded by a newer deployment before it started
+}
+
+// Deployment pipeline steps, in the order they usually run
+export enum DeploymentStepName {
+  CLONE = 'CLONE',
+  PULL = 'PULL', // prebuilt image pulled instead of clone and build
+  UNPACK = 'UNPACK', // uploaded source tarball unpacked instead of a clone
+  BUILD = 'BUILD',
+  RELEASE = 'RELEASE', // release command
+  START = 'START', // new containers started
+  HEALTH_CHECK = 'HEALTH_CHECK',
+  SWAP = 'SWAP', // traffic moved to the new containers
+  SCHEDULE = 'SCHEDULE', // cron services: runs scheduled instead of containers started
+}
+
+export enum DeploymentStepStatus {
+  RUNNING = 'RUNNING',
+  SUCCESS = 'SUCCESS',
+  FAILED = 'FAILED',
+  CANCELLED = 'CANCELLED',
+}
+
+// Deployment strategy enum
+export enum DeploymentStrategy {
+  STANDARD = 'STANDARD',
+  CANARY = 'CANARY',
+}
+
+// What a new deployment does to a service's older, unfinished deployments
+export enum SupersedePolicy {
+  NONE = 'NONE', // every deployment runs, one after another
+  QUEUED = 'QUEUED', // older queued deployments are skipped
+  INTERRUPT = 'INTERRUPT', // older queued deployments are skipped and a running build is cancelled
+}
+
+// What a service deploys: code from a git repository, or a prebuilt image
+export enum ServiceSource {
+  GIT = 'GIT',
+  IMAGE = 'IMAGE',
+}
+
+// What a service runs: a web server that takes traffic, a command on a schedule,
+// or a background process (e.g. a queue consumer) that listens on no port
+export enum ServiceType {
+  WEB = 'WEB',
+  CRON = 'CRON',
+  WORKER = 'WORKER',
+}
+
+// Outcome of one run of a cron service
+export enum JobRunStatus {
+  RUNNING = 'RUNNING',
+  SUCCEEDED = 'SUCCEEDED',
+  FAILED = 'FAILED', // non-zero exit code, or the container could not start
+  TIMED_OUT = 'TIMED_OUT', // stopped after the service's cronTimeoutSeconds
+  SKIPPED = 'SKIPPED', // the previous run was still going
+}
+
+// Where a service's repository is hosted
+export enum GitProvider {
+  GITHUB = 'GITHUB',
+  GITLAB = 'GITLAB', // gitlab.com or self-hosted
+  GITEA = 'GITEA', // Gitea and Forgejo, self-hosted
+  GENERIC = 'GENERIC', // any HTTPS or SSH git URL; no API, no webhooks
+}
+
+// Instance plan enum
+export enum InstancePlan {
+  STARTER = 'STARTER',
+  STANDARD = 'STANDARD',
+  PRO = 'PRO',
 }
 
 // Member role enum
@@ -55,6 +128,8 @@ export interface Organization {
   name: string;
   slug: string;
   ownerId: string;
+  maxMemoryMb?: number; // total across the organization's services
+  maxCpus?: number;
   createdAt: Date;
 }
 
@@ -81,33 +156,155 @@ export interface Service {
   id: string;
   name: string;
   projectId: string;
-  repoUrl: string;
+  type: ServiceType;
+  sourceType: ServiceSource;
+  repoUrl?: string; // GIT services
+  imageRef?: string; // IMAGE services, e.g. ghcr.io/acme/api:1.4
+  registryUsername?: string;
+  registryPassword?: string; // masked in responses
+  gitProvider: GitProvider;
+  gitProviderUrl?: string; // base URL of a self-hosted GitLab or Gitea
+  gitAccessToken?: string; // GitLab / Gitea token for private repositories; masked in responses
+  deployKeyPublic?: string; // SSH deploy key to add to the repository; its private half is never returned
   branch: string;
   runtime?: string;
+  rootDirectory?: string;
+  dockerfilePath?: string;
+  dockerTarget?: string;
+  watchPaths: string[];
   subdomain: string;
   status: ServiceStatus;
-  containerId?: string;
+  containerIds: string[]; // one per running replica
+  replicas: number;
+  autoscaleEnabled: boolean;
+  minReplicas: number;
+  maxReplicas: number;
+  scaleCpuPercent?: number; // scale up above this average CPU use; unset ignores CPU
+  scaleMemoryPercent?: number;
+  scaleCooldownSeconds: number;
+  lastScaledAt?: Date;
+  buildArgs?: Record<string, string>;
+  buildSecrets?: Record<string, string>;
+  port?: number; // detected from PORT / EXPOSE when unset
+  plan: InstancePlan;
+  memoryLimitMb?: number; // overrides the plan
+  cpuLimit?: number;
+  swapLimitMb?: number;
   healthCheckPath?: string;
   healthCheckInterval: number;
   healthCheckTimeout: number;
+  releaseCommand?: string;
+  cronSchedule?: string; // CRON services: five-field cron expression, in UTC
+  cronCommand?: string;
+  cronTimeoutSeconds: number; // a run still going after this long is stopped
   webhookSecret?: string;
+  deployStrategy: DeploymentStrategy;
+  canarySteps: number[];
+  canaryStepInterval: number;
+  supersedePolicy: SupersedePolicy;
+  previewsEnabled: boolean; // deploy a preview of each pull request against branch
+  previewEnvVars?: Record<string, string>; // applied over envVars in previews
+  // Set on preview services: the service they preview and the pull request they run
+  parentServiceId?: string;
+  pullRequestNumber?: number;
+  pullRequestTitle?: string;
+  pullRequestUrl?: string;
   createdAt: Date;
   updatedAt: Date;
 }
 
+// A change to a service's replica count, by the autoscaler or by hand
+export interface ScalingEvent {
+  id: string;
+  serviceId: string;
+  fromReplicas: number;
+  toReplicas: number;
+  automatic: boolean;
+  reason: string;
+  createdAt: Date;
+}
+
+// One run of a cron service's command
+export interface JobRun {
+  id: string;
+  serviceId: string;
+  deploymentId?: string; // the deployment that scheduled it
+  name?: string; // the renderlite.yaml cron job it belongs to, if any
+  imageTag: string;
+  command: string;
+  status: JobRunStatus;
+  exitCode?: number;
+  error?: string;
+  logs?: string; // last DEFAULTS.JOB_RUN_MAX_LOG_LINES lines of output
+  startedAt: Date;
+  finishedAt?: Date;
+}
+
 // Deployment types
+
+// A command renderlite.yaml schedules on the service's image, run like a CRON service's runs
+export interface BlueprintCronJob {
+  name: string;
+  schedule: string; // five-field cron expression, UTC
+  command: string;
+  timeoutSeconds?: number; // defaults to DEFAULTS.CRON_TIMEOUT_SECONDS
+}
+
+// The renderlite.yaml settings a deployment's image keeps depending on after it is built.
+// They are stored with the deployment, so rolling back to it runs the image the same way.
+export interface BlueprintRuntimeSettings {
+  port?: number;
+  healthCheckPath?: string;
+  healthCheckInterval?: number;
+  healthCheckTimeout?: number;
+  cron?: BlueprintCronJob[];
+}
+
 export interface Deployment {
   id: string;
   serviceId: string;
+  ref?: string;
   commitSha?: string;
+  sourceArchiveHash?: string; // sha256 of the uploaded source tarball, for upload deploys
   imageTag?: string;
+  blueprintSettings?: BlueprintRuntimeSettings; // what renderlite.yaml set for the image; rollbacks reuse it
   status: DeploymentStatus;
-  logs?: string;
+  strategy: DeploymentStrategy;
+  trafficWeight?: number;
+  previousServiceStatus?: ServiceStatus;
+  supersededById?: string; // the newer deployment that skipped or cancelled this one
+  githubDeploymentId?: string; // GitHub Deployment its status is reported to
+  logs?: string; // plain text
+  logLines?: LogLine[]; // the same output, with stream and level per line
   startedAt?: Date;
   finishedAt?: Date;
   createdAt: Date;
 }
 
+// Deployment log lines: where a line came from and how important it is.
+// Raw build output is 'verbose' unless it marks progress, a warning or an error.
+export type LogStream = 'stdout' | 'stderr' | 'system';
+export type LogLevel = 'verbose' | 'info' | 'warn' | 'error';
+
+export interface LogLine {
+  stream: LogStream;
+  level: LogLevel;
+  message: string;
+  timestamp: string;
+}
+
+// One step of a deployment; a step can repeat (e.g. once per replica in a rolling update)
+export interface DeploymentStep {
+  id: string;
+  deploymentId: string;
+  name: DeploymentStepName;
+  status: DeploymentStepStatus;
+  detail?: string;
+  logs?: string;
+  startedAt: Date;
+  finishedAt?: Date;
+}
+
 // Domain types
 export interface Domain {
   id: string;
@@ -152,17 +349,55 @@ export interface CreateProjectRequest {
 export interface CreateServiceRequest {
   name: string;
   projectId: string;
-  repoUrl: string;
+  type?: ServiceType; // defaults to WEB; can't be changed later
+  sourceType?: ServiceSource; // defaults to GIT
+  repoUrl?: string; // required for GIT services
+  imageRef?: string; // required for IMAGE services
+  registryUsername?: string;
+  registryPassword?: string;
+  gitProvider?: GitProvider; // defaults to GITHUB
+  gitProviderUrl?: string;
+  gitAccessToken?: string;
   branch?: string;
   runtime?: string;
+  rootDirectory?: string;
+  dockerfilePath?: string;
+  dockerTarget?: string;
+  watchPaths?: string[];
   envVars?: Record<string, string>;
+  buildArgs?: Record<string, string>;
+  buildSecrets?: Record<string, string>;
+  port?: number;
+  plan?: InstancePlan;
+  memoryLimitMb?: number;
+  cpuLimit?: number;
+  swapLimitMb?: number;
+  replicas?: number;
+  autoscaleEnabled?: boolean;
+  minReplicas?: number;
+  maxReplicas?: number;
+  scaleCpuPercent?: number;
+  scaleMemoryPercent?: number;
+  scaleCooldownSeconds?: number;
   healthCheckPath?: string;
   healthCheckInterval?: number;
   healthCheckTimeout?: number;
+  releaseCommand?: string;
+  cronSchedule?: string; // required for CRON services
+  cronCommand?: string; // required for CRON services
+  cronTimeoutSeconds?: number;
+  deployStrategy?: DeploymentStrategy;
+  canarySteps?: number[];
+  canaryStepInterval?: number;
+  supersedePolicy?: SupersedePolicy;
+  previewsEnabled?: boolean;
+  previewEnvVars?: Record<string, string>;
 }
 
 export interface TriggerDeploymentRequest {
   serviceId: string;
+  ref?: string; // commit SHA, tag or branch; defaults to the service's branch
+  strategy?: DeploymentStrategy;
 }
 
 export interface CreateOrganizationRequest {
@@ -185,18 +420,115 @@ export interface CreateDatabaseRequest {
   type: DatabaseType;
 }
 
+// Project export/import. Secret values are exported as null placeholders; fill them
+// in before importing, or set them on the services afterwards.
+export type SecretValues = Record<string, string | null>;
+
+export interface ProjectSpecService
+  extends Omit<
+    CreateServiceRequest,
+    'projectId' | 'gitAccessToken' | 'registryPassword' | 'envVars' | 'buildArgs' | 'buildSecrets' | 'previewEnvVars'
+  > {
+  gitAccessToken?: string | null;
+  registryPassword?: string | null;
+  envVars?: SecretValues;
+  buildArgs?: SecretValues;
+  buildSecrets?: SecretValues;
+  domains?: string[];
+  databases?: string[]; // names of the project's managed databases linked to the service
+}
+
+export interface ProjectSpecDatabase {
+  name: string;
+  type: DatabaseType;
+}
+
+export interface ProjectSpec {
+  version: number;
+  name: string;
+  services: ProjectSpecService[];
+  databases: ProjectSpecDatabase[];
+}
+
+export interface ImportProjectRequest {
+  spec: ProjectSpec | string; // object, or its JSON / YAML text
+  name?: string; // import under another project name
+  organizationId?: string; // for a project that doesn't exist yet
+  dryRun?: boolean; // plan only
+}
+
+export type ProjectImportResource = 'project' | 'database' | 'service' | 'domain' | 'link';
+
+export interface ProjectImportChange {
+  resource: ProjectImportResource;
+  name: string;
+  action: 'create' | 'update' | 'unchanged' | 'skip';
+  fields?: string[]; // settings an update changes
+  reason?: string; // why a change is skipped
+}
+
+export interface ProjectImportPlan {
+  projectId: string | null; // null until a new project is created
+  applied: boolean;
+  changes: ProjectImportChange[];
+  warnings: string[];
+}
+
+// Container resources resolved from a service's plan and overrides
+export interface ResourceLimits {
+  memoryMb: number;
+  cpus: number;
+  swapMb?: number; // unset leaves Docker's default swap behaviour
+}
+
 // Job types for BullMQ
+export interface GitCredentials {
+  username: string;
+  password: string;
+}
+
+export interface RegistryCredentials {
+  username: string;
+  password: string;
+}
+
+// What a CRON service's deployment schedules instead of starting containers
+export interface CronSettings {
+  schedule: string;
+  command: string;
+  timeoutSeconds: number;
+}
+
 export interface DeploymentJobData {
   deploymentId: string;
   serviceId: string;
-  repoUrl: string;
+  repoUrl?: string; // unset for image services
+  imageRef?: string; // image services: pulled instead of cloning and building
+  registryAuth?: RegistryCredentials;
   branch: string;
+  ref?: string; // commit SHA, tag or branch to build; defaults to branch
+  sourceArchiveHash?: string; // upload deploys: build the uploaded tarball instead of cloning
+  rootDirectory?: string; // build context, relative to the repo root
+  dockerfilePath?: string; // relative to rootDirectory
+  dockerTarget?: string;
   subdomain: string;
   envVars?: Record<string, string>;
-  githubToken?: string;
+  buildArgs?: Record<string, string>; // build time only, never set on the running container
+  buildSecrets?: Record<string, string>; // BuildKit secrets, never stored in image layers; Dockerfile builds only
+  githubToken?: string; // GitHub services only; also used to report results to GitHub
+  gitCredentials?: GitCredentials; // for cloning private repositories over HTTPS
+  sshPrivateKey?: string; // deploy key; when set the repository is cloned over SSH instead
+  port?: number;
+  resources?: ResourceLimits;
   healthCheckPath?: string;
   healthCheckInterval?: number;
   healthCheckTimeout?: number;
+  releaseCommand?: string;
+  strategy?: DeploymentStrategy;
+  canarySteps?: number[];
+  canaryStepInterval?: number;
+  serviceType?: ServiceType; // defaults to WEB
+  cron?: CronSettings; // CRON services only
 }
 
 export interface RollbackJobData {
@@ -205,23 +537,69 @@ export interface RollbackJobData {
   subdomain: string;
   imageTag: string;
   envVars?: Record<string, string>;
+  port?: number;
+  resources?: ResourceLimits;
   healthCheckPath?: string;
   healthCheckInterval?: number;
   healthCheckTimeout?: number;
+  serviceType?: ServiceType; // defaults to WEB
+  cron?: CronSettings; // CRON services only
+  blueprintCron?: BlueprintCronJob[]; // renderlite.yaml cron jobs of the deployment rolled back to
+}
+
+// One run of a CRON service (or of a renderlite.yaml cron job), repeated by the job
+// scheduler its latest deployment registered
+export interface CronRunJobData {
+  serviceId: string;
+  deploymentId: string;
+  imageTag: string;
+  subdomain: string;
+  command: string;
+  timeoutSeconds: number;
+  envVars?: Record<string, string>;
+  resources?: ResourceLimits;
+  blueprintJob?: string; // name of the renderlite.yaml cron job
 }
 
+// Brings a running service's replica count in line with Service.replicas
+export interface ScaleJobData {
+  serviceId: string;
+}
+
+// Removes the Traefik route file of a deleted service, under its deploy lock so a
+// rollout still running can't write the file again afterwards
+export interface RouteCleanupJobData {
+  serviceId: string;
+  subdomain: string;
+}
+
+// Manual override for an in-progress canary, set by the API and read by the worker
+export type CanaryAction = 'promote' | 'abort';
+
 export interface DeploymentJobResult {
   success: boolean;
-  containerId?: string;
+  containerIds?: string[];
   imageTag?: string;
   error?: string;
+  cancelled?: boolean;
+  supersededById?: string;
+  skipped?: boolean; // the deployment was no longer queued; nothing was done
   logs: string;
+  logLines?: LogLine[];
 }
 
 // Webhook types
+export interface WebhookCommit {
+  id: string;
+  added: string[];
+  removed: string[];
+  modified: string[];
+}
+
 export interface WebhookPayload {
   ref: string;
   after: string;
+  commits?: WebhookCommit[];
   repository: {
     full_name: string;
     clone_url: string;
@@ -231,6 +609,25 @@ export interface WebhookPayload {
   };
 }
 
+export interface PullRequestWebhookPayload {
+  action: string; // opened, reopened, synchronize, closed, ...
+  number: number;
+  pull_request: {
+    title: string;
+    html_url: string;
+    merged: boolean;
+    head: {
+      ref: string;
+      sha: string;
+      repo: { full_name: string } | null; // null once a fork is deleted
+    };
+    base: {
+      ref: string;
+      repo: { full_name: string };
+    };
+  };
+}
+
 // WebSocket event types
 export interface LogStreamEvent {
   deploymentId: string;
@@ -241,7 +638,8 @@ export interface LogStreamEvent {
 export interface DeploymentStatusEvent {
   deploymentId: string;
   status: DeploymentStatus;
-  containerId?: string;
+  containerIds?: string[];
+  steps?: DeploymentStep[];
 }
 
 export type RealtimeEvent =
@@ -249,6 +647,8 @@ export type RealtimeEvent =
       type: 'deployment:log';
       deploymentId: string;
       log: string;
+      stream?: LogStream;
+      level?: LogLevel;
       timestamp: string;
     }
   | {
@@ -256,7 +656,8 @@ export type RealtimeEvent =
       deploymentId: string;
       status: DeploymentStatus;
       timestamp: string;
-      containerId?: string;
+      containerIds?: string[];
+      steps?: DeploymentStep[];
     }
   | {
       type: 'service:status';
@@ -274,6 +675,7 @@ export type RealtimeEvent =
         memoryPercent: number;
         networkRx: number;
         networkTx: number;
+        replicas: number;
         timestamp: string;
       };
       timestamp: string;
@@ -1,10 +1,11 @@
-import { exec } from 'child_process';
-import { promisify } from 'util';
+import { spawn } from 'child_process';
+import { randomUUID } from 'crypto';
 import Docker from 'dockerode';
 import fs from 'fs/promises';
-import { DEFAULTS } from '@renderlite/shared';
+import path from 'path';
+import { DEFAULTS, type LogLevel, type RegistryCredentials } from '@renderlite/shared';
+import type { LogMeta } from '../utils/logs.js';
 
-const execAsync = promisify(exec);
 const docker = new Docker({ socketPath: '/var/run/docker.sock' });
 const BUILD_TIMEOUT_MS = (() => {
   const raw = process.env.BUILD_TIMEOUT_MS;
@@ -18,6 +19,7 @@ const BUILD_TIMEOUT_MS = (() => {
   return parsed;
 })();
 const BUILD_TIMEOUT_MINUTES = Math.round(BUILD_TIMEOUT_MS / 60_000);
+const BUILD_CANCELLED_MESSAGE = 'Build cancelled';
 
 /** Release tag from https://github.com/railwayapp/nixpacks/releases — must match Dockerfile ARG when bumping. */
 const NIXPACKS_RELEASE = process.env.NIXPACKS_RELEASE ?? 'v1.38.0';
@@ -26,34 +28,115 @@ const NIXPACKS_RELEASE = process.env.NIXPACKS_RELEASE ?? 'v1.38.0';
 const NIXPACKS_DOCKER_BASE_IMAGE =
   process.env.NIXPACKS_DOCKER_BASE_IMAGE ?? 'ghcr.io/railwayapp/nixpacks:ubuntu';
 
-type LogCallback = (log: string) => void;
+type LogCallback = (log: string, meta?: LogMeta) => void;
 
 /** Single-quote a string for safe embedding in bash (POSIX: end quote, \\', resume quote). */
 function bashSingleQuote(s: string): string {
   return "'" + s.replace(/'/g, "'\\''") + "'";
 }
 
-async function runNixpacksBuild(command: string, log: LogCallback): Promise<void> {
-  const { stdout, stderr } = await execAsync(command, {
-    timeout: BUILD_TIMEOUT_MS,
-    maxBuffer: 50 * 1024 * 1024,
-    env: { ...process.env, DOCKER_BUILDKIT: '1' },
+/** Replace any secret values that appear in build output or error messages */
+function redactSecrets(text: string, secrets: string[]): string {
+  return secrets
+    .filter((secret) => secret.length >= 4)
+    .reduce((result, secret) => result.split(secret).join('********'), text);
+}
+
+function nixpacksEnvFlags(buildArgs: Record<string, string>): string {
+  return Object.entries(buildArgs)
+    .map(([key, value]) => `--env ${bashSingleQuote(`${key}=${value}`)}`)
+    .join(' ');
+}
+
+/**
+ * Level of a line of build tool output: errors and warnings by their usual markers,
+ * build progress (Dockerfile steps, BuildKit stages, Nixpacks phases) as info and
+ * everything else as verbose
+ */
+function buildOutputLevel(line: string): LogLevel {
+  if (/\b(error|fatal)(\[[^\]]*\])?:|npm ERR!|^ERROR\b/i.test(line)) return 'error';
+  if (/\bwarn(ing)?(\[[^\]]*\])?:|npm WARN/i.test(line)) return 'warn';
+  if (/^#\d+ \[|^Step \d+\/\d+|-->|==>|Successfully (built|tagged)/.test(line)) return 'info';
+  return 'verbose';
+}
+
+/**
+ * Run a build command and pass every line it prints to onLine, in order, with the
+ * stream it came from. Resolves with the exit code; rejects when the command can't
+ * start, is aborted through signal, or runs past the build timeout.
+ */
+function runStreamingCommand(
+  file: string,
+  args: string[],
+  options: { env: NodeJS.ProcessEnv; signal?: AbortSignal },
+  onLine: (line: string, stream: 'stdout' | 'stderr') => void
+): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(file, args, {
+      env: options.env,
+      timeout: BUILD_TIMEOUT_MS,
+      signal: options.signal,
+    });
+
+    // Output arrives in chunks, so hold on to a partial last line until the rest comes
+    const lineReader = (stream: 'stdout' | 'stderr') => {
+      let buffered = '';
+      return {
+        write: (chunk: Buffer) => {
+          buffered += chunk.toString();
+          const lines = buffered.split('\n');
+          buffered = lines.pop() ?? '';
+          lines.forEach((line) => line.trim() && onLine(line.trimEnd(), stream));
+        },
+        flush: () => {
+          if (buffered.trim()) onLine(buffered.trimEnd(), stream);
+          buffered = '';
+        },
+      };
+    };
+    const stdout = lineReader('stdout');
+    const stderr = lineReader('stderr');
+    child.stdout.on('data', stdout.write);
+    child.stderr.on('data', stderr.write);
+
+    child.on('error', (error) => {
+      reject(options.signal?.aborted ? new Error(BUILD_CANCELLED_MESSAGE) : error);
+    });
+    child.on('close', (code, signal) => {
+      stdout.flush();
+      stderr.flush();
+      if (options.signal?.aborted) {
+        reject(new Error(BUILD_CANCELLED_MESSAGE));
+      } else if (signal === 'SIGTERM') {
+        reject(Object.assign(new Error(`Build timed out after ${BUILD_TIMEOUT_MINUTES} minutes`), { killed: true }));
+      } else {
+        resolve(code ?? 1);
+      }
+    });
   });
+}
 
-  if (stdout) {
-    const lines = stdout
-      .split('\n')
-      .filter((line) => line.includes('==>') || line.includes('Step') || line.includes('Successfully'));
-    lines.forEach((line) => log(`   ${line}`));
-  }
+async function runNixpacksBuild(command: string, log: LogCallback, signal?: AbortSignal): Promise<void> {
+  // Kept for the error message; every line is already in the log
+  const recentOutput: string[] = [];
+  const code = await runStreamingCommand(
+    'sh',
+    ['-c', command],
+    { env: { ...process.env, DOCKER_BUILDKIT: '1' }, signal },
+    (line, stream) => {
+      recentOutput.push(line);
+      if (recentOutput.length > 20) recentOutput.shift();
+      log(`   ${line}`, { stream, level: buildOutputLevel(line) });
+    }
+  );
 
-  if (stderr && !stderr.toLowerCase().includes('warning')) {
-    log(`   [WARN] ${stderr}`);
+  if (code !== 0) {
+    throw Object.assign(new Error(`Command exited with code ${code}`), { output: recentOutput.join('\n') });
   }
 }
 
 function isLocalNixpacksMissing(error: any): boolean {
-  const details = `${error?.message || ''}\n${error?.stderr || ''}\n${error?.stdout || ''}`.toLowerCase();
+  const details = `${error?.message || ''}\n${error?.output || ''}`.toLowerCase();
   return (
     details.includes('nixpacks: not found') ||
     details.includes('command not found: nixpacks') ||
@@ -65,9 +148,13 @@ async function runDockerizedNixpacksBuild(
   sourceDir: string,
   cacheDir: string,
   imageName: string,
-  log: LogCallback
+  buildArgs: Record<string, string>,
+  log: LogCallback,
+  signal?: AbortSignal
 ): Promise<void> {
   const cacheKey = imageName.split(':')[0];
+  // Named so it can be removed when the build ends early: killing the docker CLI leaves the container running
+  const containerName = `renderlite-nixpacks-${randomUUID().substring(0, 8)}`;
   /**
    * ghcr.io/railwayapp/nixpacks:latest / :ubuntu are Nix *base* images (Ubuntu + Nix). They do not ship the
    * `nixpacks` CLI at /nixpacks. Download the official release binary inside the container, then run build.
@@ -84,12 +171,13 @@ async function runDockerizedNixpacksBuild(
     'URL="https://github.com/railwayapp/nixpacks/releases/download/${NIXVER}/nixpacks-${NIXVER}-${NIXARCH}.tar.gz"',
     'curl -fsSL "$URL" | tar xz -C /usr/local/bin nixpacks',
     'chmod +x /usr/local/bin/nixpacks',
-    `exec nixpacks build /app --name ${bashSingleQuote(imageName)} --cache-key ${bashSingleQuote(cacheKey)}`,
+    `exec nixpacks build /app --name ${bashSingleQuote(imageName)} --cache-key ${bashSingleQuote(cacheKey)} ${nixpacksEnvFlags(buildArgs)}`,
   ].join('\n');
 
   const b64 = Buffer.from(innerScript, 'utf8').toString('base64');
   const command = [
     'docker run --rm',
+    `--name ${containerName}`,
     '-v /var/run/docker.sock:/var/run/docker.sock',
     `-v "${sourceDir}:/app"`,
     `-v "${cacheDir}:/cache"`,
@@ -101,16 +189,32 @@ async function runDockerizedNixpacksBuild(
   log(
     `   Dockerized Nixpacks: using base image ${NIXPACKS_DOCKER_BASE_IMAGE}, release ${NIXPACKS_RELEASE} (download CLI in-container)`
   );
-  await runNixpacksBuild(command, log);
+  const removeBuildContainer = () =>
+    docker.getContainer(containerName).remove({ force: true }).catch(() => {
+      // already gone (--rm removes it once the build exits)
+    });
+  signal?.addEventListener('abort', removeBuildContainer, { once: true });
+  try {
+    await runNixpacksBuild(command, log, signal);
+  } finally {
+    signal?.removeEventListener('abort', removeBuildContainer);
+    // A timed out or failed docker CLI can leave the container running
+    await removeBuildContainer();
+  }
 }
 
 /**
- * Build image using Nixpacks with persistent cache volume
+ * Build image using Nixpacks with persistent cache volume.
+ * buildArgs are passed with --env and never logged. Nixpacks writes --env values into
+ * the image as ENV, so build secrets must never be passed here.
+ * Aborting signal kills the build.
  */
 export async function buildWithNixpacks(
   sourceDir: string,
   imageName: string,
-  log: LogCallback
+  log: LogCallback,
+  buildArgs: Record<string, string> = {},
+  signal?: AbortSignal
 ): Promise<void> {
   log('Running Nixpacks build...');
 
@@ -121,22 +225,92 @@ export async function buildWithNixpacks(
     // ignore
   }
 
-  const localCommand = `nixpacks build "${sourceDir}" --name "${imageName}" --cache-key "${imageName.split(':')[0]}"`;
+  const localCommand = `nixpacks build "${sourceDir}" --name "${imageName}" --cache-key "${imageName.split(':')[0]}" ${nixpacksEnvFlags(buildArgs)}`;
+  const secrets = Object.values(buildArgs);
+  const safeLog: LogCallback = (line, meta) => log(redactSecrets(line, secrets), meta);
 
   try {
-    await runNixpacksBuild(localCommand, log);
+    await runNixpacksBuild(localCommand, safeLog, signal);
   } catch (error: any) {
+    if (signal?.aborted) {
+      throw new Error(BUILD_CANCELLED_MESSAGE);
+    }
     if (error.killed) {
       throw new Error(`Build timed out after ${BUILD_TIMEOUT_MINUTES} minutes`);
     }
 
     if (!isLocalNixpacksMissing(error)) {
-      throw new Error(`Nixpacks build failed: ${error.message}`);
+      throw new Error(redactSecrets(`Nixpacks build failed: ${error.message}`, secrets));
     }
 
     log('   [WARN] Local nixpacks not found, using Dockerized Nixpacks fallback');
-    await runDockerizedNixpacksBuild(sourceDir, cacheDir, imageName, log);
+    try {
+      await runDockerizedNixpacksBuild(sourceDir, cacheDir, imageName, buildArgs, safeLog, signal);
+    } catch (fallbackError: any) {
+      if (signal?.aborted) {
+        throw new Error(BUILD_CANCELLED_MESSAGE);
+      }
+      throw new Error(redactSecrets(fallbackError.message, secrets));
+    }
+  }
+}
+
+export interface DockerfileBuildOptions {
+  dockerfile?: string; // relative to sourceDir
+  target?: string;
+  buildArgs?: Record<string, string>;
+  buildSecrets?: Record<string, string>; // mounted with RUN --mount=type=secret,id=<key>
+  signal?: AbortSignal; // aborting cancels the build
+}
+
+/**
+ * Docker build through the CLI, needed for BuildKit secrets (the Engine API used by
+ * dockerode has no way to attach them). Secret values reach the CLI only through
+ * its environment, never through arguments.
+ */
+async function buildWithDockerCli(
+  sourceDir: string,
+  imageName: string,
+  cacheFromTag: string,
+  options: DockerfileBuildOptions,
+  log: LogCallback
+): Promise<void> {
+  const secretEnv: Record<string, string> = {};
+  const args = [
+    'build',
+    '--progress=plain',
+    '-t', imageName,
+    '-f', path.join(sourceDir, options.dockerfile || 'Dockerfile'),
+    '--cache-from', cacheFromTag,
+    '--build-arg', 'BUILDKIT_INLINE_CACHE=1',
+  ];
+  if (options.target) {
+    args.push('--target', options.target);
   }
+  for (const [key, value] of Object.entries(options.buildArgs ?? {})) {
+    args.push('--build-arg', `${key}=${value}`);
+  }
+  Object.entries(options.buildSecrets ?? {}).forEach(([key, value], i) => {
+    const envName = `RENDERLITE_BUILD_SECRET_${i}`;
+    secretEnv[envName] = value;
+    args.push('--secret', `id=${key},env=${envName}`);
+  });
+  args.push(sourceDir);
+
+  const secrets = Object.values(options.buildSecrets ?? {});
+  const code = await runStreamingCommand(
+    'docker',
+    args,
+    { env: { ...process.env, ...secretEnv, DOCKER_BUILDKIT: '1' }, signal: options.signal },
+    (raw, stream) => {
+      const line = redactSecrets(raw.trim(), secrets);
+      log(`   ${line}`, { stream, level: buildOutputLevel(line) });
+    }
+  );
+  if (code !== 0) {
+    throw new Error(`Docker build failed with exit code ${code}`);
+  }
+  await tagLatest(imageName, cacheFromTag, log);
 }
 
 /**
@@ -146,13 +320,19 @@ export async function buildWithNixpacks(
 export async function buildWithDockerfile(
   sourceDir: string,
   imageName: string,
-  log: LogCallback
+  log: LogCallback,
+  options: DockerfileBuildOptions = {}
 ): Promise<void> {
   log('Running Docker build with BuildKit caching...');
 
   const baseImage = imageName.split(':')[0];
   const cacheFromTag = `${baseImage}:latest`;
 
+  if (options.buildSecrets && Object.keys(options.buildSecrets).length > 0) {
+    log(`   Mounting ${Object.keys(options.buildSecrets).length} build secret(s)`);
+    return buildWithDockerCli(sourceDir, imageName, cacheFromTag, options, log);
+  }
+
   return new Promise(async (resolve, reject) => {
     try {
       const stream = await docker.buildImage(
@@ -162,23 +342,36 @@ export async function buildWithDockerfile(
         },
         {
           t: imageName,
-          dockerfile: 'Dockerfile',
-          buildargs: { BUILDKIT_INLINE_CACHE: '1' },
+          dockerfile: options.dockerfile || 'Dockerfile',
+          ...(options.target && { target: options.target }),
+          buildargs: { ...options.buildArgs, BUILDKIT_INLINE_CACHE: '1' },
           cachefrom: JSON.stringify([cacheFromTag]),
         }
       );
 
-      const timeout = setTimeout(() => {
+      const stopBuild = (message: string) => {
         if (typeof (stream as any).destroy === 'function') {
           (stream as any).destroy();
         }
-        reject(new Error(`Build timed out after ${BUILD_TIMEOUT_MINUTES} minutes`));
+        reject(new Error(message));
+      };
+
+      const timeout = setTimeout(() => {
+        stopBuild(`Build timed out after ${BUILD_TIMEOUT_MINUTES} minutes`);
       }, BUILD_TIMEOUT_MS);
 
+      // Closing the build stream makes the daemon cancel the build
+      const onAbort = () => stopBuild(BUILD_CANCELLED_MESSAGE);
+      if (options.signal?.aborted) {
+        onAbort();
+      }
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+
       docker.modem.followProgress(
         stream,
         (err) => {
           clearTimeout(timeout);
+          options.signal?.removeEventListener('abort', onAbort);
           if (err) {
             reject(err);
           } else {
@@ -189,13 +382,18 @@ export async function buildWithDockerfile(
         },
         (event) => {
           if (event.stream) {
-            const line = event.stream.trim();
-            if (line && (line.startsWith('Step') || line.includes('-->'))) {
-              log(`   ${line}`);
-            }
+            event.stream
+              .split('\n')
+              .map((line: string) => line.trimEnd())
+              .filter((line: string) => line.trim())
+              .forEach((line: string) => log(`   ${line}`, { stream: 'stdout', level: buildOutputLevel(line) }));
+          }
+          // Base image pulls; per-layer progress updates are left out
+          if (event.status && !event.progress) {
+            log(`   ${event.status}${event.id ? ` ${event.id}` : ''}`, { stream: 'stdout', level: 'verbose' });
           }
           if (event.error) {
-            log(`   [ERROR] ${event.error}`);
+            log(`   [ERROR] ${event.error}`, { stream: 'stderr', level: 'error' });
           }
         }
       );
@@ -219,6 +417,89 @@ async function tagLatest(imageName: string, latestTag: string, log: LogCallback)
   }
 }
 
+/**
+ * Registry that serves an image reference: its first path segment when that looks like
+ * a host (has a dot or port, or is localhost), otherwise Docker Hub
+ */
+function registryServerAddress(imageRef: string): string {
+  const [first, ...rest] = imageRef.split('/');
+  if (rest.length > 0 && (first.includes('.') || first.includes(':') || first === 'localhost')) {
+    return first;
+  }
+  return 'https://index.docker.io/v1/';
+}
+
+export interface PullImageOptions {
+  auth?: RegistryCredentials;
+  signal?: AbortSignal;
+}
+
+/**
+ * Pull a prebuilt image and tag it as this deployment's image, so rollbacks keep the
+ * exact image even after a moving tag like :latest is pushed again. The tag suffix is
+ * the start of the image ID; returns the full tag.
+ */
+export async function pullImage(
+  imageRef: string,
+  imageRepository: string,
+  log: LogCallback,
+  options: PullImageOptions = {}
+): Promise<string> {
+  const stream = await docker.pull(imageRef, {
+    ...(options.auth && {
+      authconfig: { ...options.auth, serveraddress: registryServerAddress(imageRef) },
+    }),
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    const stopPull = (message: string) => {
+      if (typeof (stream as any).destroy === 'function') {
+        (stream as any).destroy();
+      }
+      reject(new Error(message));
+    };
+
+    const timeout = setTimeout(() => {
+      stopPull(`Image pull timed out after ${Math.round(DEFAULTS.IMAGE_PULL_TIMEOUT_MS / 60_000)} minutes`);
+    }, DEFAULTS.IMAGE_PULL_TIMEOUT_MS);
+
+    const onAbort = () => stopPull('Image pull cancelled');
+    if (options.signal?.aborted) {
+      onAbort();
+    }
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+
+    docker.modem.followProgress(
+      stream,
+      (err) => {
+        clearTimeout(timeout);
+        options.signal?.removeEventListener('abort', onAbort);
+        if (err) {
+          reject(err);
+        } else {
+          resolve();
+        }
+      },
+      (event) => {
+        // Per-layer progress updates are left out
+        if (event.status && !event.progress) {
+          const level = /^(Digest|Status):/.test(event.status) ? 'info' : 'verbose';
+          log(`   ${event.status}${event.id ? ` ${event.id}` : ''}`, { stream: 'stdout', level });
+        }
+        if (event.error) {
+          log(`   [ERROR] ${event.error}`, { stream: 'stderr', level: 'error' });
+        }
+      }
+    );
+  });
+
+  const image = docker.getImage(imageRef);
+  const info = await image.inspect();
+  const tag = info.Id.replace(/^sha256:/, '').substring(0, 12);
+  await image.tag({ repo: imageRepository, tag });
+  return `${imageRepository}:${tag}`;
+}
+
 /**
  * Detect runtime from source directory
  */
@@ -1,24 +1,67 @@
 import Docker from 'dockerode';
-import { DOCKER_LABELS, DOCKER_NETWORK, DEFAULTS } from '@renderlite/shared';
+import { PassThrough } from 'stream';
+import { DOCKER_NETWORK, DEFAULTS, INSTANCE_PLANS, ServiceType } from '@renderlite/shared';
+import type { ResourceLimits } from '@renderlite/shared';
+import { raceWithTimeout } from '../utils/timeout.js';
 
 export const docker = new Docker({ socketPath: '/var/run/docker.sock' });
 
-function isTlsEnabled(): boolean {
-  return process.env.ENABLE_TLS === 'true';
-}
-
 export interface RunContainerOptions {
   imageName: string;
   subdomain: string;
   envVars?: Record<string, string>;
   port?: number;
-  customDomains?: string[];
+  resources?: ResourceLimits;
   containerNameOverride?: string;
+  release?: string;
+  serviceType?: ServiceType; // WORKER containers listen on no port and get no routing labels
+}
+
+const DEFAULT_RESOURCES: ResourceLimits = {
+  memoryMb: INSTANCE_PLANS.STARTER.memoryMb,
+  cpus: INSTANCE_PLANS.STARTER.cpus,
+};
+
+/**
+ * Docker HostConfig limits for a container's resources
+ */
+function resourceHostConfig(resources: ResourceLimits = DEFAULT_RESOURCES) {
+  const memory = resources.memoryMb * 1024 * 1024;
+  return {
+    Memory: memory,
+    NanoCpus: Math.round(resources.cpus * 1e9),
+    ...(resources.swapMb !== undefined && { MemorySwap: memory + resources.swapMb * 1024 * 1024 }),
+  };
+}
+
+/**
+ * Name of the release started for a given deployment. Every deployment gets its own
+ * containers so a new release can run next to the one currently serving traffic.
+ * The release name is also the Traefik service that load-balances its replicas.
+ */
+export function getReleaseName(subdomain: string, deploymentId: string): string {
+  return `renderlite-${subdomain}-${deploymentId.substring(0, 8)}`;
+}
+
+/**
+ * Name of one replica container of a release (replicas are numbered from 1)
+ */
+export function getReplicaContainerName(releaseName: string, replica: number): string {
+  return `${releaseName}-${replica}`;
+}
+
+/**
+ * Name of a service's container from before releases and replicas: one container per
+ * service, routed by Traefik Docker labels instead of the service's route file
+ */
+export function getLegacyContainerName(subdomain: string): string {
+  return `renderlite-${subdomain}`;
 }
 
 /**
- * Run a container with Traefik labels for automatic routing.
- * Supports TLS (when ENABLE_TLS=true) and custom domain routing.
+ * Run an app container on the renderlite network.
+ * Traffic is routed to it separately, via writeServiceRoutes (see docker/routing.ts);
+ * worker containers take none, so they are started without a port.
  */
 export async function runContainer(options: RunContainerOptions): Promise<string> {
   const {
@@ -26,45 +69,26 @@ export async function runContainer(options: RunContainerOptions): Promise<string
     subdomain,
     envVars = {},
     port = DEFAULTS.CONTAINER_PORT,
-    customDomains = [],
+    resources,
     containerNameOverride,
+    release,
+    serviceType = ServiceType.WEB,
   } = options;
 
-  const containerName = containerNameOverride || `renderlite-${subdomain}`;
-  const baseDomain = process.env.BASE_DOMAIN || 'renderlite.local';
-  const hostRule = `Host(\`${subdomain}.${baseDomain}\`)`;
-  const tlsEnabled = isTlsEnabled();
-  const entrypoint = tlsEnabled ? 'websecure' : 'web';
-
-  const envArray = Object.entries(envVars).map(([key, value]) => `${key}=${value}`);
+  const containerName = containerNameOverride || getLegacyContainerName(subdomain);
+  const listens = serviceType !== ServiceType.WORKER;
+  // Apps that read PORT listen where Traefik and health checks expect them
+  const envArray = Object.entries({ ...envVars, ...(listens && { PORT: String(port) }) }).map(
+    ([key, value]) => `${key}=${value}`
+  );
 
   const labels: Record<string, string> = {
-    [DOCKER_LABELS.TRAEFIK_ENABLE]: 'true',
-    [DOCKER_LABELS.TRAEFIK_NETWORK]: DOCKER_NETWORK,
-    [DOCKER_LABELS.TRAEFIK_ROUTER_RULE(containerName)]: hostRule,
-    [DOCKER_LABELS.TRAEFIK_ROUTER_ENTRYPOINTS(containerName)]: entrypoint,
-    [DOCKER_LABELS.TRAEFIK_SERVICE_PORT(containerName)]: port.toString(),
     'renderlite.managed': 'true',
     'renderlite.subdomain': subdomain,
+    ...(listens && { 'renderlite.port': String(port) }),
+    ...(release && { 'renderlite.release': release }),
   };
 
-  if (tlsEnabled) {
-    labels[DOCKER_LABELS.TRAEFIK_ROUTER_TLS(containerName)] = 'true';
-    labels[DOCKER_LABELS.TRAEFIK_ROUTER_CERTRESOLVER(containerName)] = 'letsencrypt';
-  }
-
-  for (let i = 0; i < customDomains.length; i++) {
-    const domain = customDomains[i];
-    const routerName = `${containerName}-domain-${i}`;
-    labels[DOCKER_LABELS.TRAEFIK_ROUTER_RULE(routerName)] = `Host(\`${domain}\`)`;
-    labels[DOCKER_LABELS.TRAEFIK_ROUTER_ENTRYPOINTS(routerName)] = entrypoint;
-    labels[`traefik.http.routers.${routerName}.service`] = containerName;
-    if (tlsEnabled) {
-      labels[DOCKER_LABELS.TRAEFIK_ROUTER_TLS(routerName)] = 'true';
-      labels[DOCKER_LABELS.TRAEFIK_ROUTER_CERTRESOLVER(routerName)] = 'letsencrypt';
-    }
-  }
-
   try {
     const existingContainer = docker.getContainer(containerName);
     await existingContainer.stop();
@@ -78,16 +102,40 @@ export async function runContainer(options: RunContainerOptions): Promise<string
     name: containerName,
     Env: envArray,
     Labels: labels,
-    ExposedPorts: {
-      [`${port}/tcp`]: {},
-    },
+    ...(listens && { ExposedPorts: { [`${port}/tcp`]: {} } }),
     HostConfig: {
       NetworkMode: DOCKER_NETWORK,
       RestartPolicy: {
         Name: 'unless-stopped',
       },
-      Memory: 512 * 1024 * 1024,
-      NanoCpus: 500000000,
+      ...resourceHostConfig(resources),
+    },
+  });
+
+  await container.start();
+
+  return container.id;
+}
+
+/**
+ * Start another container configured exactly like an existing one (same image,
+ * env, labels and resource limits), e.g. to add a replica without a deploy.
+ */
+export async function cloneContainer(containerId: string, containerName: string): Promise<string> {
+  const info = await docker.getContainer(containerId).inspect();
+
+  const container = await docker.createContainer({
+    Image: info.Config.Image,
+    name: containerName,
+    Env: info.Config.Env,
+    Labels: info.Config.Labels,
+    ExposedPorts: info.Config.ExposedPorts,
+    HostConfig: {
+      NetworkMode: info.HostConfig.NetworkMode,
+      RestartPolicy: info.HostConfig.RestartPolicy,
+      Memory: info.HostConfig.Memory,
+      NanoCpus: info.HostConfig.NanoCpus,
+      MemorySwap: info.HostConfig.MemorySwap,
     },
   });
 
@@ -96,6 +144,148 @@ export async function runContainer(options: RunContainerOptions): Promise<string
   return container.id;
 }
 
+export interface RunOneOffOptions {
+  imageName: string;
+  subdomain: string;
+  command: string;
+  envVars?: Record<string, string>;
+  resources?: ResourceLimits;
+  timeoutMs?: number;
+  signal?: AbortSignal; // aborting kills and removes the container
+}
+
+/**
+ * Split a chunked output stream into lines, calling onLine for each complete line
+ */
+function lineWriter(onLine: (line: string) => void): PassThrough {
+  const stream = new PassThrough();
+  let buffered = '';
+
+  stream.on('data', (chunk: Buffer) => {
+    buffered += chunk.toString();
+    const lines = buffered.split('\n');
+    buffered = lines.pop() ?? '';
+    lines.forEach((line) => onLine(line.replace(/\r$/, '')));
+  });
+  stream.on('end', () => {
+    if (buffered) onLine(buffered);
+  });
+
+  return stream;
+}
+
+/**
+ * Run a shell command to completion in a throwaway container from the given image,
+ * on the renderlite network, streaming its output line by line with the stream it came from.
+ * Returns the command's exit code; the container is always removed afterwards.
+ */
+export async function runOneOffContainer(
+  options: RunOneOffOptions,
+  onLine: (line: string, stream: 'stdout' | 'stderr') => void
+): Promise<number> {
+  const { imageName, subdomain, command, envVars = {}, resources, timeoutMs, signal } = options;
+  const envArray = Object.entries(envVars).map(([key, value]) => `${key}=${value}`);
+
+  const container = await docker.createContainer({
+    Image: imageName,
+    Cmd: ['sh', '-c', command],
+    Env: envArray,
+    Labels: {
+      'renderlite.managed': 'true',
+      'renderlite.subdomain': subdomain,
+    },
+    HostConfig: {
+      NetworkMode: DOCKER_NETWORK,
+      ...resourceHostConfig(resources),
+    },
+  });
+
+  const onAbort = () => {
+    container.remove({ force: true }).catch(() => {
+      // already gone
+    });
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    const stream = await container.attach({ stream: true, stdout: true, stderr: true });
+    const stdout = lineWriter((line) => onLine(line, 'stdout'));
+    const stderr = lineWriter((line) => onLine(line, 'stderr'));
+    docker.modem.demuxStream(stream, stdout, stderr);
+    stream.on('end', () => {
+      stdout.end();
+      stderr.end();
+    });
+
+    await container.start();
+
+    const wait = container.wait() as Promise<{ StatusCode: number }>;
+    const result = timeoutMs
+      ? await raceWithTimeout(wait, timeoutMs, `Command timed out after ${Math.round(timeoutMs / 1000)}s`)
+      : await wait;
+
+    if (signal?.aborted) {
+      throw new Error('Command cancelled');
+    }
+    return result.StatusCode;
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+    try {
+      await container.remove({ force: true });
+    } catch {
+      // already gone
+    }
+  }
+}
+
+/**
+ * First TCP port declared with EXPOSE in an image, if any
+ */
+export async function getImageExposedPort(imageName: string): Promise<number | null> {
+  try {
+    const info = await docker.getImage(imageName).inspect();
+    const ports = Object.keys(info.Config?.ExposedPorts ?? {})
+      .filter((spec) => spec.endsWith('/tcp') || !spec.includes('/'))
+      .map((spec) => Number.parseInt(spec, 10))
+      .filter((port) => Number.isInteger(port) && port > 0)
+      .sort((a, b) => a - b);
+    return ports[0] ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Port an app container was started with (see runContainer), if recorded. Legacy
+ * containers only have it in their Traefik service label.
+ */
+export async function getContainerPort(containerId: string): Promise<number | null> {
+  try {
+    const info = await docker.getContainer(containerId).inspect();
+    const labels = info.Config.Labels ?? {};
+    const containerName = info.Name.replace(/^\//, '');
+    const port = Number.parseInt(
+      labels['renderlite.port'] ?? labels[`traefik.http.services.${containerName}.loadbalancer.server.port`] ?? '',
+      10
+    );
+    return Number.isInteger(port) && port > 0 ? port : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Release a container belongs to (see runContainer), if recorded
+ */
+export async function getContainerRelease(containerId: string): Promise<string | null> {
+  try {
+    const info = await docker.getContainer(containerId).inspect();
+    return info.Config.Labels?.['renderlite.release'] || null;
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Get the internal IP address of a container on the renderlite network
  */
@@ -110,13 +300,39 @@ export async function getContainerIp(containerId: string): Promise<string | null
 }
 
 /**
- * Stop a container
+ * Id of a service's container from before replicas (see getLegacyContainerName), or
+ * null when there is none
+ */
+export async function getLegacyContainerId(subdomain: string): Promise<string | null> {
+  try {
+    const info = await docker.getContainer(getLegacyContainerName(subdomain)).inspect();
+    return info.Config.Labels?.['renderlite.subdomain'] === subdomain ? info.Id : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get the name of a container (without Docker's leading slash)
+ */
+export async function getContainerName(containerId: string): Promise<string | null> {
+  try {
+    const container = docker.getContainer(containerId);
+    const info = await container.inspect();
+    return info.Name.replace(/^\//, '');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Stop a container, giving it timeoutSeconds to shut down gracefully
  */
-export async function stopContainer(containerId: string): Promise<void> {
+export async function stopContainer(containerId: string, timeoutSeconds: number = 10): Promise<void> {
   const container = docker.getContainer(containerId);
 
   try {
-    await container.stop({ t: 10 });
+    await container.stop({ t: timeoutSeconds });
   } catch (error: any) {
     if (!error.message?.includes('already stopped') && error.statusCode !== 304) {
       throw error;
@@ -124,6 +340,21 @@ export async function stopContainer(containerId: string): Promise<void> {
   }
 }
 
+/**
+ * Start a stopped container again
+ */
+export async function startContainer(containerId: string): Promise<void> {
+  const container = docker.getContainer(containerId);
+
+  try {
+    await container.start();
+  } catch (error: any) {
+    if (error.statusCode !== 304) {
+      throw error;
+    }
+  }
+}
+
 /**
  * Remove a container (stops first if running)
  */
@@ -165,6 +396,50 @@ export async function getContainerStats(containerId: string): Promise<Docker.Con
   return container.stats({ stream: false });
 }
 
+/**
+ * How busy a container is against its own limits: CPU as a percentage of its CPU
+ * limit, memory as a percentage of its memory limit. Null if it can't be read.
+ */
+export async function getContainerUtilization(
+  containerId: string
+): Promise<{ cpuPercent: number; memoryPercent: number } | null> {
+  try {
+    const container = docker.getContainer(containerId);
+    const [info, stats] = await Promise.all([container.inspect(), container.stats({ stream: false })]);
+
+    const cpuDelta = stats.cpu_stats.cpu_usage.total_usage - stats.precpu_stats.cpu_usage.total_usage;
+    const systemDelta = stats.cpu_stats.system_cpu_usage - stats.precpu_stats.system_cpu_usage;
+    const onlineCpus = stats.cpu_stats.online_cpus || 1;
+    const usedCpus = systemDelta > 0 ? (cpuDelta / systemDelta) * onlineCpus : 0;
+    const cpuLimit = info.HostConfig.NanoCpus ? info.HostConfig.NanoCpus / 1e9 : onlineCpus;
+
+    const memoryUsage = stats.memory_stats.usage || 0;
+    const memoryLimit = stats.memory_stats.limit || 1;
+
+    return {
+      cpuPercent: (usedCpus / cpuLimit) * 100,
+      memoryPercent: (memoryUsage / memoryLimit) * 100,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a container is running and how often Docker has restarted it, or null
+ * when it doesn't exist
+ */
+export async function getContainerRunState(
+  containerId: string
+): Promise<{ running: boolean; restartCount: number } | null> {
+  try {
+    const info = await docker.getContainer(containerId).inspect();
+    return { running: info.State.Running, restartCount: info.RestartCount };
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Check if container is running
  */
@@ -0,0 +1,123 @@
+import path from 'path';
+import fs from 'fs/promises';
+
+/**
+ * Directory watched by Traefik's file provider. Each service gets its own
+ * dynamic config file so routing can be switched without touching containers.
+ */
+const TRAEFIK_DYNAMIC_DIR = path.resolve(process.env.TRAEFIK_DYNAMIC_DIR || '/etc/traefik/dynamic');
+const ROUTE_FILE_PREFIX = 'renderlite-';
+
+/**
+ * One release of a service: its replica containers are load-balanced under `name`
+ */
+export interface RouteBackend {
+  name: string;
+  containerNames: string[];
+  port: number;
+  weight: number;
+}
+
+export interface ServiceRoutesOptions {
+  subdomain: string;
+  customDomains?: string[];
+  backends: RouteBackend[];
+}
+
+function isTlsEnabled(): boolean {
+  return process.env.ENABLE_TLS === 'true';
+}
+
+function routeName(subdomain: string): string {
+  return `${ROUTE_FILE_PREFIX}${subdomain}`;
+}
+
+function routeFilePath(subdomain: string): string {
+  return path.join(TRAEFIK_DYNAMIC_DIR, `${routeName(subdomain)}.yml`);
+}
+
+/**
+ * Build the Traefik dynamic configuration for a service: one router per hostname,
+ * all pointing at a weighted service that spreads traffic over the given backends,
+ * each of which load-balances over its replica containers.
+ */
+function buildRoutesConfig(options: ServiceRoutesOptions): Record<string, unknown> {
+  const { subdomain, customDomains = [], backends } = options;
+  const name = routeName(subdomain);
+  const baseDomain = process.env.BASE_DOMAIN || 'renderlite.local';
+  const tlsEnabled = isTlsEnabled();
+  const entrypoint = tlsEnabled ? 'websecure' : 'web';
+
+  const router = (host: string) => ({
+    rule: `Host(\`${host}\`)`,
+    entryPoints: [entrypoint],
+    service: name,
+    ...(tlsEnabled && { tls: { certResolver: 'letsencrypt' } }),
+  });
+
+  const routers: Record<string, unknown> = {
+    [name]: router(`${subdomain}.${baseDomain}`),
+  };
+  customDomains.forEach((domain, i) => {
+    routers[`${name}-domain-${i}`] = router(domain);
+  });
+
+  const services: Record<string, unknown> = {
+    [name]: {
+      weighted: {
+        services: backends.map((backend) => ({
+          name: backend.name,
+          weight: backend.weight,
+        })),
+      },
+    },
+  };
+  for (const backend of backends) {
+    services[backend.name] = {
+      loadBalancer: {
+        servers: backend.containerNames.map((containerName) => ({
+          url: `http://${containerName}:${backend.port}`,
+        })),
+      },
+    };
+  }
+
+  return { http: { routers, services } };
+}
+
+/**
+ * Point a service's routes at the given backends. The file is written atomically
+ * (temp file + rename) so Traefik never reads a half-written config.
+ */
+export async function writeServiceRoutes(options: ServiceRoutesOptions): Promise<void> {
+  const filePath = routeFilePath(options.subdomain);
+  const tmpPath = `${filePath}.tmp`;
+
+  await fs.mkdir(TRAEFIK_DYNAMIC_DIR, { recursive: true });
+  // JSON is valid YAML, so Traefik's file provider reads it as-is
+  await fs.writeFile(tmpPath, JSON.stringify(buildRoutesConfig(options), null, 2));
+  await fs.rename(tmpPath, filePath);
+}
+
+/**
+ * Remove all routes for a service
+ */
+export async function removeServiceRoutes(subdomain: string): Promise<void> {
+  await fs.rm(routeFilePath(subdomain), { force: true });
+}
+
+/**
+ * List subdomains that currently have a route file
+ */
+export async function listRoutedSubdomains(): Promise<string[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(TRAEFIK_DYNAMIC_DIR);
+  } catch {
+    return [];
+  }
+
+  return files
+    .filter((file) => file.startsWith(ROUTE_FILE_PREFIX) && file.endsWith('.yml'))
+    .map((file) => file.slice(ROUTE_FILE_PREFIX.length, -'.yml'.length));
+}
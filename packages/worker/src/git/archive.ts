@@ -0,0 +1,55 @@
+import { execFile } from 'child_process';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { DEFAULTS } from '@renderlite/shared';
+
+// Must be the same directory as the API's (a shared volume in docker-compose)
+const SOURCE_ARCHIVE_DIR = process.env.SOURCE_ARCHIVE_DIR || path.join(os.tmpdir(), 'renderlite-uploads');
+
+function archivePath(deploymentId: string): string {
+  return path.join(SOURCE_ARCHIVE_DIR, `${deploymentId}.tar.gz`);
+}
+
+/**
+ * Unpack the source tarball uploaded for a deployment into targetDir, where a clone
+ * would otherwise go; the root of the tarball is the repository root. The tarball is
+ * deleted once unpacked. GNU tar drops absolute paths and ".." members on its own.
+ * Aborting signal kills tar.
+ */
+export async function extractSourceArchive(
+  deploymentId: string,
+  targetDir: string,
+  signal?: AbortSignal
+): Promise<number> {
+  const archive = archivePath(deploymentId);
+  const { size } = await fs.stat(archive).catch(() => {
+    throw new Error('Uploaded source archive not found; upload it again');
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    execFile(
+      'tar',
+      ['-xzf', archive, '-C', targetDir, '--no-same-owner', '--no-same-permissions'],
+      { timeout: DEFAULTS.CLONE_TIMEOUT_MS, signal },
+      (error, _stdout, stderr) => {
+        if (error) {
+          reject(new Error(`Could not unpack source archive: ${stderr.trim() || error.message}`));
+          return;
+        }
+        resolve();
+      }
+    );
+  });
+
+  await removeSourceArchive(deploymentId);
+  return size;
+}
+
+/**
+ * Delete the tarball uploaded for a deployment, once it ran or was skipped. A no-op
+ * for deployments without one.
+ */
+export async function removeSourceArchive(deploymentId: string): Promise<void> {
+  await fs.rm(archivePath(deploymentId), { force: true });
+}
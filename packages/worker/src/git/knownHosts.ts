@@ -0,0 +1,38 @@
+// Published SSH host keys of the hosted git providers, so a deploy key clone from them
+// never trusts a key it is shown. Update these when a provider rotates its keys.
+const PINNED_HOST_KEYS: Record<string, string[]> = {
+  'github.com': [
+    'github.com ssh-ed25519 AAAAC3NzaC1lZDI1NTE5AAAAIOMqqnkVzrm0SdG6UOoqKLsabgH5C9okWi0dh2l9GKJl',
+  ],
+  'gitlab.com': [
+    'gitlab.com ssh-ed25519 AAAAC3NzaC1lZDI1NTE5AAAAIAfuCHKVTjquxvt6CM6tdG4SLp1Btn/nOeHHE5UOzRdf',
+  ],
+};
+
+/**
+ * How a host is named in known_hosts: the bare hostname on port 22, [host]:port otherwise.
+ * Accepts ssh:// and scp-like (git@host:owner/repo.git) URLs.
+ */
+export function getKnownHostsName(sshUrl: string): string {
+  // scp-like URLs have no port: the first colon ends the host
+  const url = new URL(/^ssh:\/\//i.test(sshUrl) ? sshUrl : `ssh://${sshUrl.replace(':', '/')}`);
+  const host = url.hostname.toLowerCase();
+  return url.port && url.port !== '22' ? `[${host}]:${url.port}` : host;
+}
+
+/**
+ * The pinned known_hosts entries of a host, or null when it is not a hosted provider
+ */
+export function getPinnedHostKeys(hostName: string): string[] | null {
+  return PINNED_HOST_KEYS[hostName] ?? null;
+}
+
+/**
+ * The entries of a known_hosts file that are for the given host
+ */
+export function filterKnownHosts(knownHosts: string, hostName: string): string[] {
+  return knownHosts
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith('#') && line.split(/\s+/)[0].split(',').includes(hostName));
+}
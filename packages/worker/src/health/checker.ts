@@ -1,6 +1,6 @@
 import http from 'http';
 import { DEFAULTS } from '@renderlite/shared';
-import { getContainerIp } from '../docker/container.js';
+import { getContainerIp, getContainerRunState } from '../docker/container.js';
 
 function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
@@ -66,3 +66,26 @@ export async function waitForHealthCheck(
 
   return false;
 }
+
+/**
+ * Health check for containers that serve no HTTP: the container has to stay up for
+ * the whole period. Fails as soon as it exits or Docker restarts it (its restart
+ * policy would otherwise hide a crash loop).
+ */
+export async function waitForContainerStable(
+  containerId: string,
+  seconds: number = DEFAULTS.WORKER_STARTUP_SECONDS
+): Promise<boolean> {
+  const endsAt = Date.now() + seconds * 1000;
+
+  while (true) {
+    const state = await getContainerRunState(containerId);
+    if (!state?.running || state.restartCount > 0) {
+      return false;
+    }
+    if (Date.now() >= endsAt) {
+      return true;
+    }
+    await sleep(Math.min(1000, endsAt - Date.now()));
+  }
+}
@@ -0,0 +1,57 @@
+const TRAEFIK_METRICS_URL = process.env.TRAEFIK_METRICS_URL || 'http://localhost:8080/metrics';
+const METRICS_TIMEOUT_MS = 5000;
+
+const REQUESTS_TOTAL_PATTERN = /^traefik_service_requests_total\{([^}]*)\}\s+(\S+)/;
+
+export interface RequestCounts {
+  total: number;
+  errors: number;
+}
+
+function parseLabels(raw: string): Record<string, string> {
+  const labels: Record<string, string> = {};
+  for (const match of raw.matchAll(/(\w+)="([^"]*)"/g)) {
+    labels[match[1]] = match[2];
+  }
+  return labels;
+}
+
+/**
+ * Read request counters for a Traefik service from Traefik's Prometheus endpoint.
+ * Counters are cumulative; callers compare two snapshots to get a rate.
+ * Returns null when metrics are unavailable so callers can fall back to health probes.
+ */
+export async function getServiceRequestCounts(serviceName: string): Promise<RequestCounts | null> {
+  let body: string;
+  try {
+    const response = await fetch(TRAEFIK_METRICS_URL, {
+      signal: AbortSignal.timeout(METRICS_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      return null;
+    }
+    body = await response.text();
+  } catch {
+    return null;
+  }
+
+  const counts: RequestCounts = { total: 0, errors: 0 };
+
+  for (const line of body.split('\n')) {
+    const match = line.match(REQUESTS_TOTAL_PATTERN);
+    if (!match) continue;
+
+    const labels = parseLabels(match[1]);
+    if (labels.service !== serviceName) continue;
+
+    const value = Number.parseFloat(match[2]);
+    if (Number.isNaN(value)) continue;
+
+    counts.total += value;
+    if (labels.code?.startsWith('5')) {
+      counts.errors += value;
+    }
+  }
+
+  return counts;
+}
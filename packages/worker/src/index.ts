@@ -1,20 +1,35 @@
-import { Worker } from 'bullmq';
+import { DelayedError, Worker, type Job } from 'bullmq';
 import dotenv from 'dotenv';
 import {
+  DEFAULTS,
   DeploymentStatus,
   QUEUES,
   REDIS_CHANNELS,
   ServiceStatus,
+  restoreServiceStatus,
   type DeploymentJobData,
   type DeploymentJobResult,
   type RollbackJobData,
+  type ScaleJobData,
+  type RouteCleanupJobData,
+  type CronRunJobData,
+  type JobRunStatus,
   type RealtimeEvent,
+  type DeploymentStep,
+  type LogLine,
 } from '@renderlite/shared';
 import { redis } from './lib/redis.js';
 import { prisma } from './lib/prisma.js';
 import { processDeployment } from './jobs/deployment.js';
 import { processRollback } from './jobs/rollback.js';
-import { runAllCleanupTasks } from './jobs/cleanup.js';
+import { processScale } from './jobs/scale.js';
+import { processCronRun } from './jobs/cron.js';
+import { removeDeletedServiceRoutes, runAllCleanupTasks } from './jobs/cleanup.js';
+import { runAutoscaler } from './jobs/autoscale.js';
+import { moveLegacyContainerIds } from './jobs/upgrade.js';
+import { buildQueue, cronQueue, rollbackQueue, scaleQueue } from './lib/queue.js';
+import { acquireServiceLock } from './lib/lock.js';
+import { reportDeploymentFinished } from './lib/github.js';
 
 dotenv.config();
 
@@ -33,13 +48,15 @@ async function publishRealtimeEvent(event: RealtimeEvent): Promise<void> {
 async function publishDeploymentStatus(
   deploymentId: string,
   status: DeploymentStatus,
-  containerId?: string
+  containerIds?: string[],
+  steps?: DeploymentStep[]
 ): Promise<void> {
   await publishRealtimeEvent({
     type: 'deployment:status',
     deploymentId,
     status,
-    containerId,
+    containerIds,
+    steps,
     timestamp: new Date().toISOString(),
   });
 }
@@ -54,12 +71,64 @@ async function publishServiceStatus(serviceId: string, status: ServiceStatus): P
 }
 
 /**
- * Shared handler for job completion (used by both build and rollback workers)
+ * A deployment cancelled while building ends as CANCELLED, and its service goes back
+ * to the status it had before the deployment
+ */
+async function handleJobCancelled(
+  jobData: { deploymentId: string; serviceId: string },
+  result: DeploymentJobResult
+): Promise<void> {
+  const deployment = await prisma.deployment.findUnique({
+    where: { id: jobData.deploymentId },
+    select: { previousServiceStatus: true },
+  });
+
+  const deploymentUpdate = await prisma.deployment.updateMany({
+    where: { id: jobData.deploymentId },
+    data: {
+      status: DeploymentStatus.CANCELLED,
+      supersededById: result.supersededById,
+      logs: result.logs,
+      logLines: result.logLines as any,
+      finishedAt: new Date(),
+    },
+  });
+
+  if (!deployment || deploymentUpdate.count === 0) {
+    console.warn(
+      `[WARN] Skipping cancellation update: deployment ${jobData.deploymentId} no longer exists`
+    );
+    return;
+  }
+
+  await publishDeploymentStatus(jobData.deploymentId, DeploymentStatus.CANCELLED);
+  const restoredStatus = await restoreServiceStatus(
+    prisma,
+    jobData.serviceId,
+    deployment.previousServiceStatus as ServiceStatus | null
+  );
+  if (restoredStatus) {
+    await publishServiceStatus(jobData.serviceId, restoredStatus);
+  }
+}
+
+/**
+ * Shared handler for job completion (used by both build and rollback workers), run
+ * while the job still holds its service's deploy lock
  */
 async function handleJobCompleted(
   jobData: { deploymentId: string; serviceId: string },
   result: DeploymentJobResult
 ): Promise<void> {
+  if (result.skipped) {
+    return;
+  }
+
+  if (result.cancelled) {
+    await handleJobCancelled(jobData, result);
+    return;
+  }
+
   if (!result.success) {
     const failureLog = result.logs || `Deployment failed: ${result.error || 'Unknown error'}`;
     const deploymentUpdate = await prisma.deployment.updateMany({
@@ -67,6 +136,7 @@ async function handleJobCompleted(
       data: {
         status: DeploymentStatus.FAILED,
         logs: failureLog,
+        logLines: result.logLines as any,
         finishedAt: new Date(),
       },
     });
@@ -97,6 +167,7 @@ async function handleJobCompleted(
     data: {
       status: DeploymentStatus.SUCCESS,
       logs: result.logs,
+      logLines: result.logLines as any,
       imageTag: result.imageTag ?? undefined,
       finishedAt: new Date(),
     },
@@ -116,11 +187,11 @@ async function handleJobCompleted(
     },
     data: {
       status: ServiceStatus.RUNNING,
-      containerId: result.containerId,
+      containerIds: result.containerIds ?? [],
     },
   });
 
-  await publishDeploymentStatus(jobData.deploymentId, DeploymentStatus.SUCCESS, result.containerId);
+  await publishDeploymentStatus(jobData.deploymentId, DeploymentStatus.SUCCESS, result.containerIds);
   if (serviceUpdate.count > 0) {
     await publishServiceStatus(jobData.serviceId, ServiceStatus.RUNNING);
   }
@@ -165,32 +236,106 @@ function createLogCallback(
   jobLog: (msg: string) => void,
   deploymentId: string
 ) {
-  return (log: string) => {
-    void jobLog(log);
+  return (line: LogLine) => {
+    void jobLog(line.message);
     void publishRealtimeEvent({
       type: 'deployment:log',
       deploymentId,
-      log,
-      timestamp: new Date().toISOString(),
+      log: line.message,
+      stream: line.stream,
+      level: line.level,
+      timestamp: line.timestamp,
     });
-    console.log(`   ${log}`);
+    console.log(`   ${line.message}`);
   };
 }
 
+function createStepsCallback(deploymentId: string) {
+  return (steps: DeploymentStep[]) => {
+    void publishDeploymentStatus(deploymentId, DeploymentStatus.BUILDING, undefined, steps);
+  };
+}
+
+/**
+ * Put a job back in the queue, to be retried after SERVICE_LOCK_RETRY_MS
+ */
+async function retryLater(job: Job, token: string | undefined): Promise<never> {
+  await job.moveToDelayed(Date.now() + DEFAULTS.SERVICE_LOCK_RETRY_MS, token);
+  throw new DelayedError();
+}
+
+/**
+ * Run a job while holding its service's deploy lock, so deployments and scaling of a
+ * service never replace its containers at the same time. While another job holds the
+ * lock, the job waits in the queue and is retried.
+ */
+async function withServiceLock<T>(
+  job: Job<{ serviceId: string }>,
+  token: string | undefined,
+  run: () => Promise<T>
+): Promise<T> {
+  const lock = await acquireServiceLock(job.data.serviceId);
+  if (!lock) {
+    return retryLater(job, token);
+  }
+
+  try {
+    return await run();
+  } finally {
+    await lock.release();
+  }
+}
+
+/**
+ * Run a build or rollback job under its service's deploy lock, so a service only has
+ * one deployment in progress. Deployments skipped or cancelled while waiting don't run.
+ * The deployment and service are updated with the result before the lock is released,
+ * so a scale job never sees the new containers running but not yet recorded.
+ */
+function runWithServiceLock(
+  job: Job<{ deploymentId: string; serviceId: string }>,
+  token: string | undefined,
+  run: () => Promise<DeploymentJobResult>
+): Promise<DeploymentJobResult> {
+  return withServiceLock(job, token, async () => {
+    const deployment = await prisma.deployment.findUnique({
+      where: { id: job.data.deploymentId },
+      select: { status: true },
+    });
+    if (deployment?.status !== DeploymentStatus.QUEUED) {
+      console.log(`Skipping job ${job.id}: deployment is no longer queued`);
+      return { success: false, skipped: true, logs: '' };
+    }
+
+    const result = await run();
+    try {
+      await handleJobCompleted(job.data, result);
+    } catch (error) {
+      console.error(`Failed to finalize job ${job.id}:`, error);
+    }
+    return result;
+  });
+}
+
+// ---- Upgrade ----
+moveLegacyContainerIds().catch((error) => console.error('Moving legacy container ids failed:', error));
+
 // ---- Build queue worker ----
 const buildWorker = new Worker<DeploymentJobData, DeploymentJobResult>(
   QUEUES.BUILD,
-  async (job) => {
-    console.log(`\nProcessing deployment: ${job.id}`);
+  (job, token) =>
+    runWithServiceLock(job, token, async () => {
+      console.log(`\nProcessing deployment: ${job.id}`);
 
-    await publishDeploymentStatus(job.data.deploymentId, DeploymentStatus.BUILDING);
-    await publishServiceStatus(job.data.serviceId, ServiceStatus.DEPLOYING);
+      await publishDeploymentStatus(job.data.deploymentId, DeploymentStatus.BUILDING);
+      await publishServiceStatus(job.data.serviceId, ServiceStatus.DEPLOYING);
 
-    return processDeployment(
-      job.data,
-      createLogCallback((msg) => void job.log(msg), job.data.deploymentId)
-    );
-  },
+      return processDeployment(
+        job.data,
+        createLogCallback((msg) => void job.log(msg), job.data.deploymentId),
+        createStepsCallback(job.data.deploymentId)
+      );
+    }),
   {
     connection: redis as any,
     concurrency: 2,
@@ -200,11 +345,7 @@ const buildWorker = new Worker<DeploymentJobData, DeploymentJobResult>(
 
 buildWorker.on('completed', async (job, result) => {
   console.log(`Build job ${job.id} completed (success=${result.success})`);
-  try {
-    await handleJobCompleted(job.data, result);
-  } catch (error) {
-    console.error(`Failed to finalize build job ${job.id}:`, error);
-  }
+  await reportDeploymentFinished(job.data.deploymentId, job.data.githubToken);
 });
 
 buildWorker.on('failed', async (job, error) => {
@@ -214,6 +355,9 @@ buildWorker.on('failed', async (job, error) => {
   } catch (finalizeError) {
     console.error(`Failed to finalize failed build job ${job?.id}:`, finalizeError);
   }
+  if (job) {
+    await reportDeploymentFinished(job.data.deploymentId, job.data.githubToken);
+  }
 });
 
 buildWorker.on('error', (err) => console.error('Build worker error:', err));
@@ -221,30 +365,27 @@ buildWorker.on('error', (err) => console.error('Build worker error:', err));
 // ---- Rollback queue worker ----
 const rollbackWorker = new Worker<RollbackJobData, DeploymentJobResult>(
   QUEUES.ROLLBACK,
-  async (job) => {
-    console.log(`\nProcessing rollback: ${job.id}`);
+  (job, token) =>
+    runWithServiceLock(job, token, async () => {
+      console.log(`\nProcessing rollback: ${job.id}`);
 
-    await publishDeploymentStatus(job.data.deploymentId, DeploymentStatus.BUILDING);
-    await publishServiceStatus(job.data.serviceId, ServiceStatus.DEPLOYING);
+      await publishDeploymentStatus(job.data.deploymentId, DeploymentStatus.BUILDING);
+      await publishServiceStatus(job.data.serviceId, ServiceStatus.DEPLOYING);
 
-    return processRollback(
-      job.data,
-      createLogCallback((msg) => void job.log(msg), job.data.deploymentId)
-    );
-  },
+      return processRollback(
+        job.data,
+        createLogCallback((msg) => void job.log(msg), job.data.deploymentId),
+        createStepsCallback(job.data.deploymentId)
+      );
+    }),
   {
     connection: redis as any,
     concurrency: 2,
   }
 );
 
-rollbackWorker.on('completed', async (job, result) => {
+rollbackWorker.on('completed', (job, result) => {
   console.log(`Rollback job ${job.id} completed (success=${result.success})`);
-  try {
-    await handleJobCompleted(job.data, result);
-  } catch (error) {
-    console.error(`Failed to finalize rollback job ${job.id}:`, error);
-  }
 });
 
 rollbackWorker.on('failed', async (job, error) => {
@@ -258,12 +399,88 @@ rollbackWorker.on('failed', async (job, error) => {
 
 rollbackWorker.on('error', (err) => console.error('Rollback worker error:', err));
 
+// ---- Scale queue worker ----
+const scaleWorker = new Worker<ScaleJobData, number>(
+  QUEUES.SCALE,
+  (job, token) =>
+    // A deploy in progress replaces the containers; scale them once it's done
+    withServiceLock(job, token, async () => {
+      console.log(`\nProcessing scale: ${job.data.serviceId}`);
+      return processScale(job.data, () => retryLater(job, token));
+    }),
+  {
+    connection: redis as any,
+    concurrency: 1,
+  }
+);
+
+scaleWorker.on('completed', (job, replicas) => {
+  console.log(`Scale job ${job.id} completed (${replicas} replicas running)`);
+});
+
+scaleWorker.on('failed', (job, error) => {
+  console.error(`Scale job ${job?.id} failed:`, error.message);
+});
+
+scaleWorker.on('error', (err) => console.error('Scale worker error:', err));
+
+// ---- Cron queue worker ----
+const cronWorker = new Worker<CronRunJobData, JobRunStatus | null>(
+  QUEUES.CRON,
+  async (job) => {
+    console.log(`\nProcessing cron run: ${job.data.serviceId}`);
+    return processCronRun(job.data);
+  },
+  {
+    connection: redis as any,
+    concurrency: 5,
+  }
+);
+
+cronWorker.on('completed', (job, status) => {
+  console.log(`Cron job ${job.id} completed (${status ?? 'service is no longer a cron job'})`);
+});
+
+cronWorker.on('failed', (job, error) => {
+  console.error(`Cron job ${job?.id} failed:`, error.message);
+});
+
+cronWorker.on('error', (err) => console.error('Cron worker error:', err));
+
+// ---- Cleanup queue worker ----
+const cleanupWorker = new Worker<RouteCleanupJobData, boolean>(
+  QUEUES.CLEANUP,
+  async (job, token) => withServiceLock(job, token, () => removeDeletedServiceRoutes(job.data.subdomain)),
+  {
+    connection: redis as any,
+    concurrency: 5,
+  }
+);
+
+cleanupWorker.on('completed', (job, removed) => {
+  console.log(`Routes of ${job.data.subdomain} ${removed ? 'removed' : 'kept, subdomain is in use again'}`);
+});
+
+cleanupWorker.on('failed', (job, error) => {
+  console.error(`Route cleanup job ${job?.id} failed:`, error.message);
+});
+
+cleanupWorker.on('error', (err) => console.error('Cleanup worker error:', err));
+
 // ---- Graceful shutdown ----
 const shutdown = async () => {
   console.log('\nShutting down worker...');
   clearInterval(cleanupInterval);
+  clearInterval(autoscaleInterval);
   await buildWorker.close();
   await rollbackWorker.close();
+  await scaleWorker.close();
+  await cronWorker.close();
+  await cleanupWorker.close();
+  await buildQueue.close();
+  await rollbackQueue.close();
+  await scaleQueue.close();
+  await cronQueue.close();
   await prisma.$disconnect();
   await redis.quit();
   console.log('Worker shut down gracefully');
@@ -286,4 +503,19 @@ setTimeout(() => {
   runAllCleanupTasks().catch(console.error);
 }, 10000);
 
-console.log('Worker started, listening for build and rollback jobs...');
+// ---- Autoscaler ----
+let autoscalerRunning = false;
+const autoscaleInterval = setInterval(async () => {
+  // A slow pass (many replicas to sample) must not overlap the next one
+  if (autoscalerRunning) return;
+  autoscalerRunning = true;
+  try {
+    await runAutoscaler();
+  } catch (error) {
+    console.error('Autoscaler failed:', error);
+  } finally {
+    autoscalerRunning = false;
+  }
+}, DEFAULTS.AUTOSCALE_INTERVAL_MS);
+
+console.log('Worker started, listening for build, rollback, scale and cron jobs...');
@@ -0,0 +1,173 @@
+import { DEFAULTS, ServiceStatus } from '@renderlite/shared';
+import { getContainerUtilization } from '../docker/container.js';
+import { prisma } from '../lib/prisma.js';
+import { scaleQueue } from '../lib/queue.js';
+
+interface UsageSample {
+  cpuPercent: number;
+  memoryPercent: number;
+}
+
+interface AutoscaledService {
+  replicas: number;
+  minReplicas: number;
+  maxReplicas: number;
+  scaleCpuPercent: number | null;
+  scaleMemoryPercent: number | null;
+}
+
+type ScalingDecision = { toReplicas: number; reason: string } | null;
+
+// Recent average usage per service, oldest first
+const usageHistory = new Map<string, UsageSample[]>();
+
+function average(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/**
+ * Average usage across a service's replicas, each measured against its own limits
+ */
+async function sampleServiceUsage(containerIds: string[]): Promise<UsageSample | null> {
+  const readings: UsageSample[] = [];
+  for (const containerId of containerIds) {
+    const reading = await getContainerUtilization(containerId);
+    if (reading) {
+      readings.push(reading);
+    }
+  }
+  if (readings.length === 0) {
+    return null;
+  }
+
+  return {
+    cpuPercent: average(readings.map((r) => r.cpuPercent)),
+    memoryPercent: average(readings.map((r) => r.memoryPercent)),
+  };
+}
+
+/**
+ * Scale up by one replica when any threshold was exceeded on every recent check;
+ * scale down by one when every configured metric stayed well below its threshold.
+ */
+function decideScaling(service: AutoscaledService, history: UsageSample[]): ScalingDecision {
+  if (service.replicas < service.minReplicas) {
+    return { toReplicas: service.minReplicas, reason: 'Below the minimum replica count' };
+  }
+  if (service.replicas > service.maxReplicas) {
+    return { toReplicas: service.maxReplicas, reason: 'Above the maximum replica count' };
+  }
+  if (history.length < DEFAULTS.AUTOSCALE_SUSTAINED_SAMPLES) {
+    return null;
+  }
+
+  const metrics = [
+    { name: 'CPU', threshold: service.scaleCpuPercent, values: history.map((s) => s.cpuPercent) },
+    { name: 'Memory', threshold: service.scaleMemoryPercent, values: history.map((s) => s.memoryPercent) },
+  ].filter((metric): metric is { name: string; threshold: number; values: number[] } => metric.threshold !== null);
+  if (metrics.length === 0) {
+    return null;
+  }
+
+  const overloaded = metrics.find((metric) => metric.values.every((value) => value > metric.threshold));
+  if (overloaded && service.replicas < service.maxReplicas) {
+    return {
+      toReplicas: service.replicas + 1,
+      reason: `${overloaded.name} at ${average(overloaded.values).toFixed(0)}%, above ${overloaded.threshold}% for ${history.length} checks`,
+    };
+  }
+
+  const idle = metrics.every((metric) =>
+    metric.values.every((value) => value < metric.threshold * DEFAULTS.AUTOSCALE_SCALE_DOWN_RATIO)
+  );
+  if (idle && service.replicas > service.minReplicas) {
+    const usage = metrics.map((metric) => `${metric.name} ${average(metric.values).toFixed(0)}%`).join(', ');
+    return {
+      toReplicas: service.replicas - 1,
+      reason: `${usage}, below ${DEFAULTS.AUTOSCALE_SCALE_DOWN_RATIO * 100}% of the threshold for ${history.length} checks`,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * One autoscaler pass: sample every autoscaled running service, and for those past
+ * their cooldown, record a scaling decision and hand it to the scale queue.
+ */
+export async function runAutoscaler(): Promise<void> {
+  const services = await prisma.service.findMany({
+    where: {
+      autoscaleEnabled: true,
+      status: ServiceStatus.RUNNING,
+      containerIds: { isEmpty: false },
+    },
+    select: {
+      id: true,
+      subdomain: true,
+      containerIds: true,
+      replicas: true,
+      minReplicas: true,
+      maxReplicas: true,
+      scaleCpuPercent: true,
+      scaleMemoryPercent: true,
+      scaleCooldownSeconds: true,
+      lastScaledAt: true,
+    },
+  });
+
+  const autoscaled = new Set(services.map((s) => s.id));
+  for (const serviceId of usageHistory.keys()) {
+    if (!autoscaled.has(serviceId)) {
+      usageHistory.delete(serviceId);
+    }
+  }
+
+  for (const service of services) {
+    try {
+      const sample = await sampleServiceUsage(service.containerIds);
+      if (!sample) continue;
+
+      const history = [...(usageHistory.get(service.id) ?? []), sample].slice(
+        -DEFAULTS.AUTOSCALE_SUSTAINED_SAMPLES
+      );
+      usageHistory.set(service.id, history);
+
+      const cooldownEndsAt = (service.lastScaledAt?.getTime() ?? 0) + service.scaleCooldownSeconds * 1000;
+      if (Date.now() < cooldownEndsAt) continue;
+
+      const decision = decideScaling(service, history);
+      if (!decision) continue;
+
+      // Skip if the service changed since it was read (settings, a deploy, another scale)
+      const updated = await prisma.service.updateMany({
+        where: {
+          id: service.id,
+          replicas: service.replicas,
+          status: ServiceStatus.RUNNING,
+          autoscaleEnabled: true,
+        },
+        data: { replicas: decision.toReplicas, lastScaledAt: new Date() },
+      });
+      if (updated.count === 0) continue;
+
+      await prisma.scalingEvent.create({
+        data: {
+          serviceId: service.id,
+          fromReplicas: service.replicas,
+          toReplicas: decision.toReplicas,
+          automatic: true,
+          reason: decision.reason,
+        },
+      });
+      usageHistory.delete(service.id);
+
+      console.log(
+        `   Autoscaling ${service.subdomain}: ${service.replicas} -> ${decision.toReplicas} (${decision.reason})`
+      );
+      await scaleQueue.add(`scale-${service.id}`, { serviceId: service.id });
+    } catch (error) {
+      console.error(`Autoscaler failed for service ${service.id}:`, error);
+    }
+  }
+}
@@ -0,0 +1,152 @@
+import fs from 'fs/promises';
+import path from 'path';
+import {
+  BLUEPRINT_FILENAME,
+  DATABASE_ENV_KEYS,
+  DEFAULTS,
+  INSTANCE_PLANS,
+  parseBlueprint,
+  type Blueprint,
+  type BlueprintRuntimeSettings,
+  type DeploymentJobData,
+} from '@renderlite/shared';
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma.js';
+
+type LogFn = (message: string) => void;
+
+/**
+ * Read renderlite.yaml from the service's root directory. Returns null when the
+ * repository has none; a file that doesn't validate fails the deployment.
+ */
+export async function readBlueprint(buildDir: string): Promise<Blueprint | null> {
+  let content: string;
+  try {
+    content = await fs.readFile(path.join(buildDir, BLUEPRINT_FILENAME), 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+
+  const { blueprint, errors } = parseBlueprint(content);
+  if (!blueprint) {
+    throw new Error(`Invalid ${BLUEPRINT_FILENAME}:\n   - ${errors.join('\n   - ')}`);
+  }
+  return blueprint;
+}
+
+/**
+ * Merge a blueprint over the settings the deployment was queued with and log the
+ * effective config. Env var keys and databases it declares must already be set on,
+ * or linked to, the service. A plan bigger than the service's own resources is
+ * refused for projects in an organization with resource limits, since those limits
+ * are only checked when settings change through the API.
+ */
+export async function applyBlueprint(
+  data: DeploymentJobData,
+  blueprint: Blueprint,
+  log: LogFn
+): Promise<DeploymentJobData> {
+  const service = await prisma.service.findUnique({
+    where: { id: data.serviceId },
+    select: {
+      projectId: true,
+      project: { select: { organization: { select: { maxMemoryMb: true, maxCpus: true } } } },
+    },
+  });
+  if (!service) {
+    throw new Error('Service not found');
+  }
+
+  const problems: string[] = [];
+  const envVars = data.envVars ?? {};
+
+  const missingKeys = blueprint.env.filter((key) => !envVars[key]);
+  if (missingKeys.length > 0) {
+    problems.push(`env var${missingKeys.length > 1 ? 's' : ''} not set on the service: ${missingKeys.join(', ')}`);
+  }
+
+  const databases = await prisma.managedDatabase.findMany({
+    where: { projectId: service.projectId, name: { in: blueprint.databases } },
+    select: { name: true, type: true, status: true },
+  });
+  for (const name of blueprint.databases) {
+    const db = databases.find((d) => d.name === name);
+    if (!db) {
+      problems.push(`database "${name}" does not exist in this project`);
+    } else if (db.status !== 'RUNNING') {
+      problems.push(`database "${name}" is not running (${db.status})`);
+    } else if (!envVars[DATABASE_ENV_KEYS[db.type]]) {
+      problems.push(`database "${name}" is not linked to the service (${DATABASE_ENV_KEYS[db.type]} is not set)`);
+    }
+  }
+
+  let resources = data.resources;
+  if (blueprint.plan) {
+    const plan = INSTANCE_PLANS[blueprint.plan];
+    const org = service.project.organization;
+    const grows = !data.resources || plan.memoryMb > data.resources.memoryMb || plan.cpus > data.resources.cpus;
+    if (grows && org && (org.maxMemoryMb !== null || org.maxCpus !== null)) {
+      problems.push(
+        `plan ${blueprint.plan} needs more resources than the service has; ` +
+          'change the plan in the dashboard so organization limits are checked'
+      );
+    } else {
+      resources = {
+        memoryMb: plan.memoryMb,
+        cpus: plan.cpus,
+        ...(data.resources?.swapMb !== undefined && { swapMb: data.resources.swapMb }),
+      };
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`${BLUEPRINT_FILENAME} does not match the service:\n   - ${problems.join('\n   - ')}`);
+  }
+
+  const effective: DeploymentJobData = {
+    ...data,
+    port: blueprint.port ?? data.port,
+    healthCheckPath: blueprint.healthCheck?.path ?? data.healthCheckPath,
+    healthCheckInterval: blueprint.healthCheck?.interval ?? data.healthCheckInterval,
+    healthCheckTimeout: blueprint.healthCheck?.timeout ?? data.healthCheckTimeout,
+    releaseCommand: blueprint.releaseCommand ?? data.releaseCommand,
+    resources,
+  };
+
+  const source = (fromBlueprint: unknown) => (fromBlueprint !== undefined ? BLUEPRINT_FILENAME : 'service');
+  log('   Effective config:');
+  log(`     port: ${effective.port ?? DEFAULTS.CONTAINER_PORT} (${source(blueprint.port)})`);
+  log(
+    `     health check: ${effective.healthCheckPath ?? 'none'}, every ${effective.healthCheckInterval ?? DEFAULTS.HEALTH_CHECK_INTERVAL}s, ` +
+      `timeout ${effective.healthCheckTimeout ?? DEFAULTS.HEALTH_CHECK_TIMEOUT}s (${source(blueprint.healthCheck)})`
+  );
+  log(`     release command: ${effective.releaseCommand ?? 'none'} (${source(blueprint.releaseCommand)})`);
+  if (effective.resources) {
+    const label = blueprint.plan ? `plan ${blueprint.plan}, ${BLUEPRINT_FILENAME}` : 'service';
+    log(`     resources: ${effective.resources.memoryMb} MB, ${effective.resources.cpus} CPU (${label})`);
+  }
+  if (blueprint.env.length > 0) {
+    log(`     env: ${blueprint.env.join(', ')} (all set)`);
+  }
+  if (blueprint.databases.length > 0) {
+    log(`     databases: ${blueprint.databases.join(', ')} (all linked)`);
+  }
+  for (const job of blueprint.cron) {
+    log(`     cron ${job.name}: "${job.schedule}" ${job.command}`);
+  }
+
+  return effective;
+}
+
+/**
+ * Blueprint settings as stored on a deployment, for rollbacks to run its image with
+ */
+export function toBlueprintSettingsJson(settings: BlueprintRuntimeSettings): Prisma.InputJsonObject {
+  return {
+    ...settings,
+    cron: settings.cron?.map((job) => ({ ...job })),
+  };
+}
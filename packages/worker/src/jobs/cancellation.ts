@@ -0,0 +1,52 @@
+import { DEFAULTS, REDIS_KEYS } from '@renderlite/shared';
+import { redis } from '../lib/redis.js';
+
+export interface CancellationWatch {
+  signal: AbortSignal;
+  stop: () => void;
+  supersededById: () => string | null; // set when a newer deployment cancelled this one
+}
+
+/**
+ * Watch for a cancel request on a deployment (set by POST /api/deployments/:id/cancel)
+ * and abort the returned signal once one arrives. Call stop() when the deployment
+ * reaches a point where it can no longer be cancelled.
+ */
+export function watchForCancellation(deploymentId: string): CancellationWatch {
+  const controller = new AbortController();
+  const key = REDIS_KEYS.CANCEL_DEPLOYMENT(deploymentId);
+  let polling = false;
+  let requestedBy: string | null = null;
+
+  const interval = setInterval(async () => {
+    if (polling) return;
+    polling = true;
+    try {
+      requestedBy = await redis.get(key);
+      if (requestedBy) {
+        await redis.del(key);
+        clearInterval(interval);
+        controller.abort();
+      }
+    } catch (error) {
+      console.error(`Failed to check cancellation for deployment ${deploymentId}:`, error);
+    } finally {
+      polling = false;
+    }
+  }, DEFAULTS.CANCEL_POLL_INTERVAL_MS);
+
+  return {
+    signal: controller.signal,
+    stop: () => clearInterval(interval),
+    supersededById: () => (requestedBy && requestedBy !== 'user' ? requestedBy : null),
+  };
+}
+
+/**
+ * Stop between deployment steps once cancellation was requested
+ */
+export function throwIfCancelled(signal: AbortSignal): void {
+  if (signal.aborted) {
+    throw new Error('Deployment cancelled by user');
+  }
+}
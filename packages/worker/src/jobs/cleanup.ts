@@ -1,5 +1,13 @@
+import { DEFAULTS } from '@renderlite/shared';
 import { prisma } from '../lib/prisma.js';
-import { cleanupStoppedContainers, removeContainer, isContainerRunning } from '../docker/container.js';
+import { buildQueue, rollbackQueue } from '../lib/queue.js';
+import {
+  cleanupStoppedContainers,
+  removeContainer,
+  isContainerRunning,
+  listManagedContainers,
+} from '../docker/container.js';
+import { listRoutedSubdomains, removeServiceRoutes } from '../docker/routing.js';
 
 /**
  * Cleanup orphaned containers that are no longer associated with services
@@ -10,30 +18,36 @@ export async function cleanupOrphanedContainers(): Promise<string[]> {
   const removed: string[] = [];
   
   try {
-    // Get all services with container IDs
+    // Get all services with containers
     const servicesWithContainers = await prisma.service.findMany({
       where: {
-        containerId: { not: null },
+        containerIds: { isEmpty: false },
       },
       select: {
         id: true,
-        containerId: true,
+        containerIds: true,
         status: true,
       },
     });
 
-    // Check each container
+    // Check each service's replicas
     for (const service of servicesWithContainers) {
-      if (!service.containerId) continue;
+      if (service.status !== 'RUNNING') continue;
 
-      const isRunning = await isContainerRunning(service.containerId);
-      
-      if (!isRunning && service.status === 'RUNNING') {
-        // Container is not running but service thinks it is
-        console.log(`  Container ${service.containerId.substring(0, 12)} is not running, updating service status`);
+      const running: string[] = [];
+      for (const containerId of service.containerIds) {
+        if (await isContainerRunning(containerId)) {
+          running.push(containerId);
+        } else {
+          console.log(`  Container ${containerId.substring(0, 12)} is not running, updating service`);
+        }
+      }
+
+      if (running.length < service.containerIds.length) {
+        // Forget replicas that stopped; with none left the service isn't running
         await prisma.service.update({
           where: { id: service.id },
-          data: { status: 'STOPPED', containerId: null },
+          data: running.length > 0 ? { containerIds: running } : { status: 'STOPPED', containerIds: [] },
         });
       }
     }
@@ -46,6 +60,34 @@ export async function cleanupOrphanedContainers(): Promise<string[]> {
       console.log(`  Removed ${stoppedContainers.length} stopped containers`);
     }
 
+    // Containers left running after their service was deleted, e.g. a preview removed mid-rollout
+    const containers = await listManagedContainers();
+    const containerSubdomains = [
+      ...new Set(
+        containers
+          .filter((c) => c.State === 'running')
+          .map((c) => c.Labels['renderlite.subdomain'])
+          .filter((subdomain): subdomain is string => !!subdomain)
+      ),
+    ];
+    const services = await prisma.service.findMany({
+      where: { subdomain: { in: containerSubdomains } },
+      select: { subdomain: true },
+    });
+    const knownSubdomains = new Set(services.map((s) => s.subdomain));
+
+    for (const containerInfo of containers) {
+      const subdomain = containerInfo.Labels['renderlite.subdomain'];
+      if (containerInfo.State !== 'running' || !subdomain || knownSubdomains.has(subdomain)) continue;
+      try {
+        await removeContainer(containerInfo.Id);
+        removed.push(containerInfo.Id);
+        console.log(`  Removed container ${containerInfo.Id.substring(0, 12)} of deleted service ${subdomain}`);
+      } catch (error) {
+        console.error(`  Failed to remove container ${containerInfo.Id}:`, error);
+      }
+    }
+
     console.log('✅ Container cleanup complete');
     return removed;
   } catch (error) {
@@ -54,6 +96,55 @@ export async function cleanupOrphanedContainers(): Promise<string[]> {
   }
 }
 
+/**
+ * Remove Traefik route files for services that no longer exist
+ */
+export async function cleanupOrphanedRoutes(): Promise<number> {
+  console.log('🧹 Cleaning up orphaned routes...');
+
+  try {
+    const routedSubdomains = await listRoutedSubdomains();
+    if (routedSubdomains.length === 0) {
+      console.log('✅ Removed 0 orphaned routes');
+      return 0;
+    }
+
+    const services = await prisma.service.findMany({
+      where: { subdomain: { in: routedSubdomains } },
+      select: { subdomain: true },
+    });
+    const knownSubdomains = new Set(services.map((s) => s.subdomain));
+
+    let removed = 0;
+    for (const subdomain of routedSubdomains) {
+      if (!knownSubdomains.has(subdomain)) {
+        await removeServiceRoutes(subdomain);
+        removed++;
+      }
+    }
+
+    console.log(`✅ Removed ${removed} orphaned routes`);
+    return removed;
+  } catch (error) {
+    console.error('❌ Route cleanup failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Remove the route file of a deleted service (queued by the API on delete). Skipped if
+ * the subdomain is in use again, e.g. by the preview of a reopened pull request.
+ */
+export async function removeDeletedServiceRoutes(subdomain: string): Promise<boolean> {
+  const service = await prisma.service.findFirst({ where: { subdomain }, select: { id: true } });
+  if (service) {
+    return false;
+  }
+
+  await removeServiceRoutes(subdomain);
+  return true;
+}
+
 /**
  * Cleanup old deployments (keep only last N per service)
  */
@@ -73,7 +164,7 @@ export async function cleanupOldDeployments(keepCount: number = 10): Promise<num
       const deployments = await prisma.deployment.findMany({
         where: {
           serviceId: service.id,
-          status: { in: ['SUCCESS', 'FAILED'] },
+          status: { in: ['SUCCESS', 'FAILED', 'CANCELLED'] },
         },
         orderBy: { createdAt: 'desc' },
         select: { id: true },
@@ -115,24 +206,24 @@ export async function cleanupFailedDeployments(olderThanHours: number = 24): Pro
     const failedServices = await prisma.service.findMany({
       where: {
         status: 'FAILED',
-        containerId: { not: null },
+        containerIds: { isEmpty: false },
         updatedAt: { lt: cutoffDate },
       },
     });
 
     let cleaned = 0;
     for (const service of failedServices) {
-      if (service.containerId) {
-        try {
-          await removeContainer(service.containerId);
-          await prisma.service.update({
-            where: { id: service.id },
-            data: { containerId: null },
-          });
-          cleaned++;
-        } catch (error) {
-          console.error(`  Failed to remove container for service ${service.id}:`, error);
+      try {
+        for (const containerId of service.containerIds) {
+          await removeContainer(containerId);
         }
+        await prisma.service.update({
+          where: { id: service.id },
+          data: { containerIds: [] },
+        });
+        cleaned++;
+      } catch (error) {
+        console.error(`  Failed to remove containers for service ${service.id}:`, error);
       }
     }
 
@@ -144,9 +235,24 @@ export async function cleanupFailedDeployments(olderThanHours: number = 24): Pro
   }
 }
 
+/**
+ * Whether a deployment's build or rollback job is still in its queue, e.g. delayed
+ * while another deployment of the same service holds the deploy lock
+ */
+async function isDeploymentJobPending(deploymentId: string): Promise<boolean> {
+  for (const queue of [buildQueue, rollbackQueue]) {
+    const state = await queue.getJobState(deploymentId);
+    if (state === 'waiting' || state === 'delayed' || state === 'prioritized' || state === 'active') {
+      return true;
+    }
+  }
+  return false;
+}
+
 /**
  * Mark deployments as failed if they stay queued for too long.
  * This recovers services when Redis/worker was unavailable and jobs were never consumed.
+ * Deployments whose job is still in the queue are left alone.
  */
 export async function cleanupStaleQueuedDeployments(staleMinutes: number = 15): Promise<number> {
   console.log(`🧹 Cleaning up queued deployments older than ${staleMinutes} minutes...`);
@@ -168,6 +274,11 @@ export async function cleanupStaleQueuedDeployments(staleMinutes: number = 15):
     });
 
     for (const deployment of staleQueuedDeployments) {
+      // Waiting its turn behind the service's deploy lock is not stale
+      if (await isDeploymentJobPending(deployment.id)) {
+        continue;
+      }
+
       const latestDeployment = await prisma.deployment.findFirst({
         where: { serviceId: deployment.serviceId },
         orderBy: { createdAt: 'desc' },
@@ -208,16 +319,137 @@ export async function cleanupStaleQueuedDeployments(staleMinutes: number = 15):
   }
 }
 
+/**
+ * Remove pull request previews that are no longer wanted: those whose service turned
+ * previews off, and those not deployed for maxIdleDays (e.g. the close event was missed).
+ * Previews with a deployment in progress are left for the next run.
+ */
+export async function cleanupPreviewEnvironments(
+  maxIdleDays: number = DEFAULTS.PREVIEW_MAX_IDLE_DAYS
+): Promise<number> {
+  console.log(`🧹 Cleaning up previews idle for more than ${maxIdleDays} days...`);
+
+  const cutoffDate = new Date(Date.now() - maxIdleDays * 24 * 60 * 60 * 1000);
+  let removed = 0;
+
+  try {
+    const previews = await prisma.service.findMany({
+      where: {
+        parentServiceId: { not: null },
+        OR: [{ parentService: { previewsEnabled: false } }, { updatedAt: { lt: cutoffDate } }],
+        deployments: { none: { status: { in: ['QUEUED', 'BUILDING'] } } },
+      },
+      select: { id: true, subdomain: true, containerIds: true },
+    });
+
+    for (const preview of previews) {
+      try {
+        for (const containerId of preview.containerIds) {
+          await removeContainer(containerId).catch(() => {
+            // already gone
+          });
+        }
+        await removeServiceRoutes(preview.subdomain);
+        await prisma.service.delete({ where: { id: preview.id } });
+        removed++;
+      } catch (error) {
+        console.error(`  Failed to remove preview ${preview.id}:`, error);
+      }
+    }
+
+    console.log(`✅ Removed ${removed} previews`);
+    return removed;
+  } catch (error) {
+    console.error('❌ Preview cleanup failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Mark cron runs as failed when they are still RUNNING well past their service's max
+ * runtime, i.e. the worker running them stopped before it could record the result
+ */
+export async function cleanupInterruptedJobRuns(graceMinutes: number = 5): Promise<number> {
+  console.log('🧹 Cleaning up interrupted cron job runs...');
+
+  try {
+    const runs = await prisma.jobRun.findMany({
+      where: { status: 'RUNNING' },
+      select: { id: true, startedAt: true, service: { select: { cronTimeoutSeconds: true } } },
+    });
+
+    let markedFailed = 0;
+    for (const run of runs) {
+      const deadline = run.startedAt.getTime() + run.service.cronTimeoutSeconds * 1000 + graceMinutes * 60 * 1000;
+      if (deadline > Date.now()) continue;
+
+      const marked = await prisma.jobRun.updateMany({
+        where: { id: run.id, status: 'RUNNING' },
+        data: { status: 'FAILED', error: 'The run was interrupted before it finished', finishedAt: new Date() },
+      });
+      markedFailed += marked.count;
+    }
+
+    console.log(`✅ Marked ${markedFailed} interrupted job runs as failed`);
+    return markedFailed;
+  } catch (error) {
+    console.error('❌ Job run cleanup failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Cleanup old cron job runs (keep only last N per service)
+ */
+export async function cleanupOldJobRuns(keepCount: number = DEFAULTS.JOB_RUN_KEEP_COUNT): Promise<number> {
+  console.log(`🧹 Cleaning up old job runs (keeping last ${keepCount} per service)...`);
+
+  let deleted = 0;
+
+  try {
+    const services = await prisma.service.findMany({
+      where: { type: 'CRON' },
+      select: { id: true },
+    });
+
+    for (const service of services) {
+      const runs = await prisma.jobRun.findMany({
+        where: { serviceId: service.id, status: { not: 'RUNNING' } },
+        orderBy: { startedAt: 'desc' },
+        skip: keepCount,
+        select: { id: true },
+      });
+
+      if (runs.length > 0) {
+        const result = await prisma.jobRun.deleteMany({
+          where: { id: { in: runs.map((r) => r.id) } },
+        });
+        deleted += result.count;
+      }
+    }
+
+    console.log(`✅ Deleted ${deleted} old job runs`);
+    return deleted;
+  } catch (error) {
+    console.error('❌ Job run cleanup failed:', error);
+    throw error;
+  }
+}
+
 /**
  * Run all cleanup tasks
  */
 export async function runAllCleanupTasks(): Promise<void> {
   console.log('\n🧹 Running all cleanup tasks...\n');
   
+  await cleanupPreviewEnvironments();
   await cleanupOrphanedContainers();
+  await cleanupOrphanedRoutes();
   await cleanupStaleQueuedDeployments(15);
   await cleanupOldDeployments(10);
   await cleanupFailedDeployments(24);
+  await cleanupInterruptedJobRuns();
+  await cleanupOldJobRuns();
   
   console.log('\n✅ All cleanup tasks complete\n');
 }
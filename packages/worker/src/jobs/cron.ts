@@ -0,0 +1,230 @@
+import {
+  BLUEPRINT_FILENAME,
+  DEFAULTS,
+  JobRunStatus,
+  REDIS_KEYS,
+  ServiceType,
+  type BlueprintCronJob,
+  type CronRunJobData,
+  type CronSettings,
+  type ResourceLimits,
+} from '@renderlite/shared';
+import { runOneOffContainer } from '../docker/container.js';
+import { prisma } from '../lib/prisma.js';
+import { cronQueue } from '../lib/queue.js';
+
+type LogFn = (message: string) => void;
+
+export interface CronDeployment {
+  deploymentId: string;
+  serviceId: string;
+  subdomain: string;
+  imageTag: string;
+  envVars?: Record<string, string>;
+  resources?: ResourceLimits;
+  cron: CronSettings;
+}
+
+/**
+ * Id of the job scheduler that repeats a run, so a run can remove its own schedule
+ */
+function getSchedulerKey(data: CronRunJobData): string {
+  return data.blueprintJob
+    ? REDIS_KEYS.BLUEPRINT_CRON_SCHEDULER(data.serviceId, data.blueprintJob)
+    : REDIS_KEYS.CRON_SCHEDULER(data.serviceId);
+}
+
+/**
+ * Schedule a CRON service's runs from a successful deployment or rollback, replacing
+ * the schedule of the one before. Like a web service's containers, runs keep the
+ * image, env vars and settings of the deployment that scheduled them until the next one.
+ */
+export async function scheduleCronRuns(deployment: CronDeployment, log: LogFn): Promise<void> {
+  const { cron } = deployment;
+  const data: CronRunJobData = {
+    serviceId: deployment.serviceId,
+    deploymentId: deployment.deploymentId,
+    imageTag: deployment.imageTag,
+    subdomain: deployment.subdomain,
+    command: cron.command,
+    timeoutSeconds: cron.timeoutSeconds,
+    envVars: deployment.envVars,
+    resources: deployment.resources,
+  };
+
+  await cronQueue.upsertJobScheduler(
+    REDIS_KEYS.CRON_SCHEDULER(deployment.serviceId),
+    { pattern: cron.schedule, tz: 'UTC' },
+    { name: 'run', data }
+  );
+
+  log(`   Schedule: ${cron.schedule} (UTC)`);
+  log(`   Command: ${cron.command}`);
+  log(`   Max runtime: ${cron.timeoutSeconds}s`);
+}
+
+/**
+ * Schedule the cron jobs a deployment's renderlite.yaml declares on its image, through
+ * the same job schedulers as a CRON service's runs, and remove the schedules of jobs
+ * it no longer declares. Pull request previews get none, so a preview never runs a
+ * job twice next to its parent service. Called once the image is live, so a failure
+ * is logged instead of failing the deployment.
+ */
+export async function scheduleBlueprintCronRuns(
+  deployment: Omit<CronDeployment, 'cron'>,
+  jobs: BlueprintCronJob[],
+  log: LogFn
+): Promise<void> {
+  try {
+    const service = await prisma.service.findUnique({
+      where: { id: deployment.serviceId },
+      select: { parentServiceId: true },
+    });
+    const scheduled = service && !service.parentServiceId ? jobs : [];
+    if (jobs.length > 0) {
+      log(`\n==> Scheduling cron jobs from ${BLUEPRINT_FILENAME}`);
+      if (scheduled.length === 0) {
+        log('   Pull request preview: cron jobs are not scheduled');
+      }
+    }
+
+    const keys = new Set(
+      scheduled.map((job) => REDIS_KEYS.BLUEPRINT_CRON_SCHEDULER(deployment.serviceId, job.name))
+    );
+    const prefix = REDIS_KEYS.BLUEPRINT_CRON_SCHEDULER(deployment.serviceId, '');
+    for (const scheduler of await cronQueue.getJobSchedulers()) {
+      if (scheduler.key.startsWith(prefix) && !keys.has(scheduler.key)) {
+        await cronQueue.removeJobScheduler(scheduler.key);
+        log(`   Cron job ${scheduler.key.slice(prefix.length)} is no longer declared, unscheduled`);
+      }
+    }
+
+    for (const job of scheduled) {
+      const data: CronRunJobData = {
+        serviceId: deployment.serviceId,
+        deploymentId: deployment.deploymentId,
+        imageTag: deployment.imageTag,
+        subdomain: deployment.subdomain,
+        command: job.command,
+        timeoutSeconds: job.timeoutSeconds ?? DEFAULTS.CRON_TIMEOUT_SECONDS,
+        envVars: deployment.envVars,
+        resources: deployment.resources,
+        blueprintJob: job.name,
+      };
+      await cronQueue.upsertJobScheduler(
+        REDIS_KEYS.BLUEPRINT_CRON_SCHEDULER(deployment.serviceId, job.name),
+        { pattern: job.schedule, tz: 'UTC' },
+        { name: 'run', data }
+      );
+      log(`   Cron job ${job.name}: ${job.schedule} (UTC), max runtime ${data.timeoutSeconds}s, ${job.command}`);
+    }
+  } catch (error) {
+    log(`    [WARN] Could not schedule the cron jobs: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Run a CRON service's command (or a renderlite.yaml cron job) once in a short-lived
+ * container and record it as a JobRun. A run is skipped while the previous run of the
+ * same job is still going, and stopped once it exceeds its max runtime. Returns the
+ * run's status, or null when the service no longer exists or is no longer a cron job.
+ */
+export async function processCronRun(data: CronRunJobData): Promise<JobRunStatus | null> {
+  const service = await prisma.service.findUnique({
+    where: { id: data.serviceId },
+    select: { type: true },
+  });
+
+  if (!service || (!data.blueprintJob && service.type !== ServiceType.CRON)) {
+    // Left behind by a deleted service; the API removes it too, but don't rely on it
+    await cronQueue.removeJobScheduler(getSchedulerKey(data));
+    return null;
+  }
+
+  const name = data.blueprintJob ?? null;
+  const running = await prisma.jobRun.count({
+    where: { serviceId: data.serviceId, name, status: JobRunStatus.RUNNING },
+  });
+  if (running > 0) {
+    await prisma.jobRun.create({
+      data: {
+        serviceId: data.serviceId,
+        deploymentId: data.deploymentId,
+        name,
+        imageTag: data.imageTag,
+        command: data.command,
+        status: JobRunStatus.SKIPPED,
+        error: 'The previous run was still going',
+        finishedAt: new Date(),
+      },
+    });
+    return JobRunStatus.SKIPPED;
+  }
+
+  const run = await prisma.jobRun.create({
+    data: {
+      serviceId: data.serviceId,
+      deploymentId: data.deploymentId,
+      name,
+      imageTag: data.imageTag,
+      command: data.command,
+    },
+  });
+
+  // Keep only the tail of the output; a chatty job must not grow the record without bound
+  const lines: string[] = [];
+  const onLine = (line: string) => {
+    lines.push(line);
+    if (lines.length > DEFAULTS.JOB_RUN_MAX_LOG_LINES) {
+      lines.shift();
+    }
+  };
+
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, data.timeoutSeconds * 1000);
+
+  let status: JobRunStatus;
+  let exitCode: number | null = null;
+  let error: string | null = null;
+  try {
+    exitCode = await runOneOffContainer(
+      {
+        imageName: data.imageTag,
+        subdomain: data.subdomain,
+        command: data.command,
+        envVars: data.envVars,
+        resources: data.resources,
+        signal: controller.signal,
+      },
+      onLine
+    );
+    status = exitCode === 0 ? JobRunStatus.SUCCEEDED : JobRunStatus.FAILED;
+  } catch (runError) {
+    if (timedOut) {
+      status = JobRunStatus.TIMED_OUT;
+      error = `Stopped after the max runtime of ${data.timeoutSeconds}s`;
+    } else {
+      status = JobRunStatus.FAILED;
+      error = runError instanceof Error ? runError.message : 'Unknown error';
+    }
+  } finally {
+    clearTimeout(timer);
+  }
+
+  await prisma.jobRun.updateMany({
+    where: { id: run.id },
+    data: {
+      status,
+      exitCode,
+      error,
+      logs: lines.join('\n'),
+      finishedAt: new Date(),
+    },
+  });
+
+  return status;
+}
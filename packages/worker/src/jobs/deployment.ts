@@ -1,39 +1,79 @@
 import path from 'path';
 import fs from 'fs/promises';
 import os from 'os';
-import { DeploymentJobData, DeploymentJobResult, DEFAULTS } from '@renderlite/shared';
+import {
+  BLUEPRINT_FILENAME,
+  DEFAULTS,
+  DeploymentStepName,
+  DeploymentStepStatus,
+  DeploymentJobData,
+  DeploymentJobResult,
+  ServiceType,
+  getBlueprintRuntimeSettings,
+  type BlueprintRuntimeSettings,
+  type LogLine,
+} from '@renderlite/shared';
 import { cloneRepository, getLatestCommitSha } from '../git/clone.js';
-import { buildWithNixpacks, buildWithDockerfile } from '../builders/index.js';
-import { runContainer, stopContainer, removeContainer } from '../docker/container.js';
-import { waitForHealthCheck } from '../health/checker.js';
+import { extractSourceArchive, removeSourceArchive } from '../git/archive.js';
+import { buildWithNixpacks, buildWithDockerfile, pullImage } from '../builders/index.js';
+import { runOneOffContainer } from '../docker/container.js';
 import { prisma } from '../lib/prisma.js';
+import { reportDeploymentStarted } from '../lib/github.js';
+import { rolloutContainer } from './rollout.js';
+import { throwIfCancelled, watchForCancellation } from './cancellation.js';
+import { createStepTracker, type StepsCallback } from './steps.js';
+import { applyBlueprint, readBlueprint, toBlueprintSettingsJson } from './blueprint.js';
+import { scheduleBlueprintCronRuns, scheduleCronRuns } from './cron.js';
+import { toLogLine, type LogMeta } from '../utils/logs.js';
 
-type LogCallback = (log: string) => void;
+type LogCallback = (line: LogLine) => void;
 
 export async function processDeployment(
   data: DeploymentJobData,
-  log: LogCallback
+  log: LogCallback,
+  onSteps?: StepsCallback
 ): Promise<DeploymentJobResult> {
   const workDir = path.join(os.tmpdir(), 'renderlite', data.deploymentId);
+  const steps = createStepTracker(data.deploymentId, onSteps);
   let logs = '';
+  const logLines: LogLine[] = [];
 
-  const appendLog = (message: string) => {
+  const appendLog = (message: string, meta?: LogMeta) => {
+    const line = toLogLine(message, meta);
     logs += message + '\n';
-    log(message);
+    logLines.push(line);
+    steps.record(message);
+    log(line);
   };
 
+  // Runs scheduled from this deployment start from its image with its (blueprint-merged) settings
+  const cronDeployment = (imageTag: string) => ({
+    deploymentId: data.deploymentId,
+    serviceId: data.serviceId,
+    subdomain: data.subdomain,
+    imageTag,
+    envVars: data.envVars,
+    resources: data.resources,
+  });
+
+  // Cancellable until the new containers start rolling out
+  const cancellation = watchForCancellation(data.deploymentId);
+  const { signal } = cancellation;
+
   try {
     const deploymentStarted = await prisma.deployment.updateMany({
-      where: { id: data.deploymentId },
+      where: { id: data.deploymentId, status: 'QUEUED' },
       data: { status: 'BUILDING', startedAt: new Date() },
     });
 
     if (deploymentStarted.count === 0) {
-      appendLog('[WARN] Deployment record no longer exists. Skipping stale queue job.');
+      appendLog('[WARN] Deployment is no longer queued (removed, skipped or cancelled). Skipping stale queue job.');
       return {
         success: false,
-        error: 'Deployment record not found',
+        skipped: true,
+        error: 'Deployment is no longer queued',
         logs,
+        logLines,
       };
     }
 
@@ -41,212 +81,319 @@ export async function processDeployment(
 
     await fs.mkdir(workDir, { recursive: true });
 
-    // Step 1: Clone repository (with optional auth token for private repos)
-    appendLog(`\n==> Cloning repository: ${data.repoUrl}`);
-    appendLog(`   Branch: ${data.branch}`);
-    if (data.githubToken) {
-      appendLog('   Using authenticated clone (private repo)');
-    }
+    let imageTag: string;
+    let blueprintSettings: BlueprintRuntimeSettings | undefined;
+    if (data.imageRef) {
+      // Step 1: Pull the prebuilt image; there is nothing to clone or build
+      throwIfCancelled(signal);
+      await steps.begin(DeploymentStepName.PULL);
+      appendLog(`\n==> Pulling image: ${data.imageRef}`);
+      if (data.registryAuth) {
+        appendLog(`   Using registry credentials for ${data.registryAuth.username}`);
+      }
+      imageTag = await pullImage(data.imageRef, `renderlite-${data.subdomain}`, appendLog, {
+        auth: data.registryAuth,
+        signal,
+      });
+      appendLog(`    Done: Image pulled as ${imageTag}`);
+    } else {
+      if (data.sourceArchiveHash) {
+        // Step 1: Unpack the uploaded source in place of a clone
+        throwIfCancelled(signal);
+        await steps.begin(DeploymentStepName.UNPACK);
+        appendLog('\n==> Unpacking uploaded source archive');
+        appendLog(`   sha256: ${data.sourceArchiveHash}`);
+        const archiveSize = await extractSourceArchive(data.deploymentId, workDir, signal);
+        appendLog(`    Done: Unpacked ${(archiveSize / 1024 / 1024).toFixed(1)} MB archive`);
+        imageTag = `renderlite-${data.subdomain}:src-${data.sourceArchiveHash.substring(0, 12)}`;
+      } else {
+        // Step 1: Clone repository (with optional credentials for private repos)
+        throwIfCancelled(signal);
+        await steps.begin(DeploymentStepName.CLONE);
+        const ref = data.ref || data.branch;
+        appendLog(`\n==> Cloning repository: ${data.repoUrl}`);
+        appendLog(`   Ref: ${ref}`);
+        if (data.sshPrivateKey) {
+          appendLog('   Using deploy key (SSH clone)');
+        } else if (data.gitCredentials) {
+          appendLog('   Using authenticated clone (private repo)');
+        }
 
-    await cloneRepository(data.repoUrl, data.branch, workDir, data.githubToken);
-    appendLog('    Done: Repository cloned successfully');
+        const savedHostKeys = data.sshPrivateKey
+          ? (await prisma.service.findUnique({ where: { id: data.serviceId }, select: { sshHostKeys: true } }))
+              ?.sshHostKeys
+          : null;
+        const cloned = await cloneRepository(
+          data.repoUrl!,
+          ref,
+          workDir,
+          { credentials: data.gitCredentials, sshPrivateKey: data.sshPrivateKey, sshHostKeys: savedHostKeys },
+          signal
+        );
+        appendLog('    Done: Repository cloned successfully');
+
+        if (cloned.sshHostKeys) {
+          await prisma.service.updateMany({
+            where: { id: data.serviceId },
+            data: { sshHostKeys: [savedHostKeys, cloned.sshHostKeys].filter(Boolean).join('\n') },
+          });
+          appendLog('    Info: Saved the git host key on first use; later clones must match it');
+        }
 
-    const commitSha = await getLatestCommitSha(workDir);
-    appendLog(`    Info: Commit: ${commitSha.substring(0, 7)}`);
+        const commitSha = await getLatestCommitSha(workDir);
+        appendLog(`    Info: Commit: ${commitSha.substring(0, 7)}`);
 
-    const commitSaved = await prisma.deployment.updateMany({
-      where: { id: data.deploymentId },
-      data: { commitSha },
-    });
+        const commitSaved = await prisma.deployment.updateMany({
+          where: { id: data.deploymentId },
+          data: { commitSha },
+        });
 
-    if (commitSaved.count === 0) {
-      appendLog('[WARN] Deployment record was removed while processing. Aborting deployment.');
-      await fs.rm(workDir, { recursive: true, force: true });
-      return {
-        success: false,
-        error: 'Deployment record not found',
-        logs,
-      };
-    }
+        if (commitSaved.count === 0) {
+          appendLog('[WARN] Deployment record was removed while processing. Aborting deployment.');
+          await steps.end(DeploymentStepStatus.FAILED);
+          await fs.rm(workDir, { recursive: true, force: true });
+          return {
+            success: false,
+            error: 'Deployment record not found',
+            logs,
+            logLines,
+          };
+        }
 
-    // Step 2: Build image
-    const imageTag = `renderlite-${data.subdomain}:${commitSha.substring(0, 7)}`;
-    appendLog(`\n==> Building image: ${imageTag}`);
+        await reportDeploymentStarted(data.deploymentId, data.githubToken);
+        imageTag = `renderlite-${data.subdomain}:${commitSha.substring(0, 7)}`;
+      }
 
-    const hasDockerfile = await fileExists(path.join(workDir, 'Dockerfile'));
+      // Step 2: Build image
+      throwIfCancelled(signal);
+      await steps.begin(DeploymentStepName.BUILD);
+      appendLog(`\n==> Building image: ${imageTag}`);
 
-    if (hasDockerfile) {
-      appendLog('   Dockerfile detected, using Docker build');
-      await buildWithDockerfile(workDir, imageTag, appendLog);
-    } else {
-      appendLog('   No Dockerfile found, using Nixpacks');
-      await buildWithNixpacks(workDir, imageTag, appendLog);
-    }
+      const buildDir = path.resolve(workDir, data.rootDirectory || '.');
+      if (buildDir !== workDir && !buildDir.startsWith(workDir + path.sep)) {
+        throw new Error(`Root directory must be inside the repository: ${data.rootDirectory}`);
+      }
+      if (data.rootDirectory) {
+        if (!(await fileExists(buildDir))) {
+          throw new Error(`Root directory not found in repository: ${data.rootDirectory}`);
+        }
+        appendLog(`   Root directory: ${data.rootDirectory}`);
+      }
 
-    appendLog('    Done: Image built successfully');
+      // Settings declared in the repository apply to this deployment (and rollbacks to it) only
+      const blueprint = await readBlueprint(buildDir);
+      if (blueprint) {
+        appendLog(`   ${BLUEPRINT_FILENAME} found, merging it over the service settings`);
+        data = await applyBlueprint(data, blueprint, appendLog);
+        blueprintSettings = getBlueprintRuntimeSettings(blueprint);
+      }
+
+      const dockerfile = data.dockerfilePath || 'Dockerfile';
+      const hasDockerfile = await fileExists(path.join(buildDir, dockerfile));
 
-    // Save imageTag for rollbacks
+      if (hasDockerfile) {
+        appendLog(`   ${dockerfile} detected, using Docker build`);
+        if (data.dockerTarget) {
+          appendLog(`   Target stage: ${data.dockerTarget}`);
+        }
+        await buildWithDockerfile(buildDir, imageTag, appendLog, {
+          dockerfile,
+          target: data.dockerTarget,
+          buildArgs: data.buildArgs,
+          buildSecrets: data.buildSecrets,
+          signal,
+        });
+      } else if (data.dockerfilePath) {
+        throw new Error(`Dockerfile not found: ${data.dockerfilePath}`);
+      } else {
+        const secretCount = Object.keys(data.buildSecrets ?? {}).length;
+        if (secretCount > 0) {
+          // Nixpacks bakes everything it is given into the image as ENV, and building
+          // without the secrets would ship an image built from the wrong inputs
+          throw new Error(
+            `No Dockerfile found, but ${secretCount} build secret(s) are set: build secrets are only mounted in Dockerfile builds`
+          );
+        }
+        appendLog('   No Dockerfile found, using Nixpacks');
+        await buildWithNixpacks(
+          buildDir,
+          imageTag,
+          appendLog,
+          data.buildArgs,
+          signal
+        );
+      }
+
+      appendLog('    Done: Image built successfully');
+    }
+
+    // Save imageTag (and the blueprint settings the image runs with) for rollbacks
     const imageSaved = await prisma.deployment.updateMany({
       where: { id: data.deploymentId },
-      data: { imageTag },
+      data: { imageTag, ...(blueprintSettings && { blueprintSettings: toBlueprintSettingsJson(blueprintSettings) }) },
     });
 
     if (imageSaved.count === 0) {
       appendLog('[WARN] Deployment record was removed while processing. Aborting deployment.');
+      await steps.end(DeploymentStepStatus.FAILED);
       await fs.rm(workDir, { recursive: true, force: true });
       return {
         success: false,
         error: 'Deployment record not found',
         logs,
+        logLines,
       };
     }
 
-    // Step 3: Fetch verified custom domains for Traefik routing
-    const domains = await prisma.domain.findMany({
-      where: { serviceId: data.serviceId, verified: true },
-      select: { hostname: true },
-    });
-    const customDomains = domains.map((d) => d.hostname);
-
-    // Step 4: Blue-green deploy -- start new container first
-    const existingService = await prisma.service.findUnique({
-      where: { id: data.serviceId },
-      select: { containerId: true },
-    });
-
-    appendLog(`\n==> Starting new container...`);
-
-    const useBlueGreen = !!existingService?.containerId && !!data.healthCheckPath;
-
-    let containerId: string;
+    // Step 3: Run the release command against the new image before it takes traffic
+    if (data.releaseCommand) {
+      throwIfCancelled(signal);
+      await steps.begin(DeploymentStepName.RELEASE);
+      appendLog(`\n==> Running release command: ${data.releaseCommand}`);
 
-    if (useBlueGreen) {
-      // Blue-green: start new container alongside old one
-      containerId = await runContainer({
-        imageName: imageTag,
-        subdomain: data.subdomain,
-        envVars: data.envVars,
-        customDomains,
-        containerNameOverride: `renderlite-${data.subdomain}-new`,
-      });
-
-      appendLog(`    New container started: ${containerId.substring(0, 12)}`);
-      appendLog(`\n==> Running health check: ${data.healthCheckPath}`);
-
-      const healthy = await waitForHealthCheck(
-        containerId,
-        data.healthCheckPath as string,
-        DEFAULTS.CONTAINER_PORT,
+      const exitCode = await runOneOffContainer(
         {
-          timeout: data.healthCheckTimeout,
-          retries: DEFAULTS.HEALTH_CHECK_RETRIES,
-        }
+          imageName: imageTag,
+          subdomain: data.subdomain,
+          command: data.releaseCommand,
+          envVars: data.envVars,
+          resources: data.resources,
+          timeoutMs: DEFAULTS.RELEASE_COMMAND_TIMEOUT_MS,
+          signal,
+        },
+        (line, stream) => appendLog(`   ${line}`, { stream })
       );
 
-      if (!healthy) {
-        appendLog('    [ERROR] Health check failed -- rolling back');
-        try { await removeContainer(containerId); } catch { /* ignore */ }
+      if (exitCode !== 0) {
+        appendLog(`    [ERROR] Release command exited with code ${exitCode} -- current deployment keeps serving`);
+        await steps.end(DeploymentStepStatus.FAILED);
+        await fs.rm(workDir, { recursive: true, force: true });
         return {
           success: false,
-          error: 'Health check failed after deployment',
+          error: `Release command failed with exit code ${exitCode}`,
           logs,
+          logLines,
         };
       }
+      appendLog('    Done: Release command completed');
+    }
 
-      appendLog('    Done: Health check passed');
+    // Step 4 (cron services): schedule runs of the new image instead of starting containers
+    if (data.cron) {
+      cancellation.stop();
+      throwIfCancelled(signal);
+      await steps.begin(DeploymentStepName.SCHEDULE);
+      appendLog('\n==> Scheduling runs');
+      await scheduleCronRuns({ ...cronDeployment(imageTag), cron: data.cron }, appendLog);
+      appendLog('    Done: Runs scheduled');
+      await scheduleBlueprintCronRuns(cronDeployment(imageTag), blueprintSettings?.cron ?? [], appendLog);
+      await steps.end();
 
-      // Stop old container
-      appendLog(`\n==> Swapping containers (zero-downtime)...`);
-      try {
-        await removeContainer(existingService.containerId!);
-        appendLog('    Old container removed');
-      } catch {
-        appendLog('    [WARN] Could not remove old container');
-      }
+      await fs.rm(workDir, { recursive: true, force: true });
 
-      // Rename new container to the canonical name via re-creation
-      // Traefik picks up labels dynamically, so just re-run with the real name
-      try { await removeContainer(containerId); } catch { /* ignore */ }
-      containerId = await runContainer({
-        imageName: imageTag,
-        subdomain: data.subdomain,
-        envVars: data.envVars,
-        customDomains,
-      });
-      appendLog('    Done: Swap complete');
-    } else {
-      // Traditional deploy: stop old, start new
-      if (existingService?.containerId) {
-        appendLog(`   Stopping existing container: ${existingService.containerId.substring(0, 12)}`);
-        try {
-          await stopContainer(existingService.containerId);
-          appendLog('    Done: Old container stopped');
-        } catch {
-          appendLog('    [WARN] Could not stop old container');
-        }
-      }
+      return {
+        success: true,
+        containerIds: [],
+        imageTag,
+        logs,
+        logLines,
+      };
+    }
 
-      containerId = await runContainer({
+    // Step 4: Start the new container and move traffic onto it
+    cancellation.stop();
+    throwIfCancelled(signal);
+    const rollout = await rolloutContainer(
+      {
+        deploymentId: data.deploymentId,
+        serviceId: data.serviceId,
         imageName: imageTag,
         subdomain: data.subdomain,
         envVars: data.envVars,
-        customDomains,
-      });
-
-      appendLog(`    Done: Container started: ${containerId.substring(0, 12)}`);
-
-      // Run health check if configured (non-blue-green path)
-      if (data.healthCheckPath) {
-        appendLog(`\n==> Running health check: ${data.healthCheckPath}`);
-        const healthy = await waitForHealthCheck(
-          containerId,
-          data.healthCheckPath,
-          DEFAULTS.CONTAINER_PORT,
-          {
-            timeout: data.healthCheckTimeout,
-            retries: DEFAULTS.HEALTH_CHECK_RETRIES,
-          }
-        );
-
-        if (!healthy) {
-          appendLog('    [ERROR] Health check failed');
-          try { await removeContainer(containerId); } catch { /* ignore */ }
-          return {
-            success: false,
-            error: 'Health check failed after deployment',
-            logs,
-          };
-        }
-        appendLog('    Done: Health check passed');
-      }
+        port: data.port,
+        resources: data.resources,
+        healthCheckPath: data.healthCheckPath,
+        healthCheckTimeout: data.healthCheckTimeout,
+        strategy: data.strategy,
+        canarySteps: data.canarySteps,
+        canaryStepInterval: data.canaryStepInterval,
+        serviceType: data.serviceType,
+      },
+      appendLog,
+      steps
+    );
+
+    if (!rollout.success) {
+      await steps.end(DeploymentStepStatus.FAILED);
+      await fs.rm(workDir, { recursive: true, force: true });
+      return {
+        success: false,
+        error: rollout.error,
+        logs,
+        logLines,
+      };
     }
 
-    const protocol = process.env.ENABLE_TLS === 'true' ? 'https' : 'http';
-    appendLog(`\n==> Service available at: ${protocol}://${data.subdomain}.${process.env.BASE_DOMAIN || 'renderlite.local'}`);
+    if (data.serviceType === ServiceType.WORKER) {
+      appendLog('\n==> Worker running');
+    } else {
+      const protocol = process.env.ENABLE_TLS === 'true' ? 'https' : 'http';
+      appendLog(`\n==> Service available at: ${protocol}://${data.subdomain}.${process.env.BASE_DOMAIN || 'renderlite.local'}`);
+    }
+    await scheduleBlueprintCronRuns(cronDeployment(imageTag), blueprintSettings?.cron ?? [], appendLog);
+    await steps.end();
 
     await fs.rm(workDir, { recursive: true, force: true });
 
     return {
       success: true,
-      containerId,
+      containerIds: rollout.containerIds,
       imageTag,
       logs,
+      logLines,
     };
   } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    appendLog(`\n[ERROR] Deployment failed: ${errorMessage}`);
-
     try {
       await fs.rm(workDir, { recursive: true, force: true });
     } catch {
       // Ignore cleanup errors
     }
 
+    if (signal.aborted) {
+      const supersededById = cancellation.supersededById();
+      const reason = supersededById
+        ? `Deployment cancelled: superseded by deployment ${supersededById.substring(0, 8)}`
+        : 'Deployment cancelled by user';
+      appendLog(`\n==> ${reason}`);
+      await steps.end(DeploymentStepStatus.CANCELLED);
+      return {
+        success: false,
+        cancelled: true,
+        supersededById: supersededById ?? undefined,
+        error: reason,
+        logs,
+        logLines,
+      };
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    appendLog(`\n[ERROR] Deployment failed: ${errorMessage}`);
+    await steps.end(DeploymentStepStatus.FAILED);
+
     return {
       success: false,
       error: errorMessage,
       logs,
+      logLines,
     };
+  } finally {
+    cancellation.stop();
+    // Failed or skipped before it was unpacked, the tarball would stay on disk
+    if (data.sourceArchiveHash) {
+      await removeSourceArchive(data.deploymentId).catch((error) => {
+        console.error(`Failed to remove source archive of deployment ${data.deploymentId}:`, error);
+      });
+    }
   }
 }
 
@@ -1,145 +1,115 @@
-import { RollbackJobData, DeploymentJobResult, DEFAULTS } from '@renderlite/shared';
-import { runContainer, stopContainer, removeContainer } from '../docker/container.js';
-import { waitForHealthCheck } from '../health/checker.js';
+import {
+  DeploymentStepName,
+  DeploymentStepStatus,
+  RollbackJobData,
+  DeploymentJobResult,
+  ServiceType,
+  type LogLine,
+} from '@renderlite/shared';
 import { prisma } from '../lib/prisma.js';
+import { rolloutContainer } from './rollout.js';
+import { scheduleBlueprintCronRuns, scheduleCronRuns } from './cron.js';
+import { createStepTracker, type StepsCallback } from './steps.js';
+import { toLogLine, type LogMeta } from '../utils/logs.js';
 
-type LogCallback = (log: string) => void;
+type LogCallback = (line: LogLine) => void;
 
 /**
  * Process a rollback: skip build, just run the container from an existing image tag.
- * Uses blue-green deployment when health checks are configured.
+ * Uses a blue-green swap when health checks are configured (see rolloutContainer).
+ * Cron services get their runs rescheduled on the image instead. Cron jobs from the
+ * renderlite.yaml of the deployment rolled back to are scheduled on it again.
  */
 export async function processRollback(
   data: RollbackJobData,
-  log: LogCallback
+  log: LogCallback,
+  onSteps?: StepsCallback
 ): Promise<DeploymentJobResult> {
+  const steps = createStepTracker(data.deploymentId, onSteps);
   let logs = '';
+  const logLines: LogLine[] = [];
 
-  const appendLog = (message: string) => {
+  const appendLog = (message: string, meta?: LogMeta) => {
+    const line = toLogLine(message, meta);
     logs += message + '\n';
-    log(message);
+    logLines.push(line);
+    steps.record(message);
+    log(line);
   };
 
   try {
     const deploymentStarted = await prisma.deployment.updateMany({
-      where: { id: data.deploymentId },
+      where: { id: data.deploymentId, status: 'QUEUED' },
       data: { status: 'BUILDING', startedAt: new Date() },
     });
 
     if (deploymentStarted.count === 0) {
-      appendLog('[WARN] Deployment record no longer exists. Skipping stale rollback job.');
-      return { success: false, error: 'Deployment record not found', logs };
+      appendLog('[WARN] Deployment is no longer queued (removed, skipped or cancelled). Skipping stale rollback job.');
+      return { success: false, skipped: true, error: 'Deployment is no longer queued', logs, logLines };
     }
 
     appendLog('==> Starting rollback...');
     appendLog(`   Image: ${data.imageTag}`);
 
-    const domains = await prisma.domain.findMany({
-      where: { serviceId: data.serviceId, verified: true },
-      select: { hostname: true },
-    });
-    const customDomains = domains.map((d) => d.hostname);
-
-    const existingService = await prisma.service.findUnique({
-      where: { id: data.serviceId },
-      select: { containerId: true },
-    });
-
-    const useBlueGreen = !!existingService?.containerId && !!data.healthCheckPath;
-    let containerId: string;
-
-    if (useBlueGreen) {
-      appendLog('\n==> Blue-green rollback...');
-      containerId = await runContainer({
-        imageName: data.imageTag,
-        subdomain: data.subdomain,
-        envVars: data.envVars,
-        customDomains,
-        containerNameOverride: `renderlite-${data.subdomain}-new`,
-      });
-
-      appendLog(`   New container: ${containerId.substring(0, 12)}`);
-      appendLog(`   Running health check: ${data.healthCheckPath}`);
-
-      const healthy = await waitForHealthCheck(
-        containerId,
-        data.healthCheckPath as string,
-        DEFAULTS.CONTAINER_PORT,
-        {
-          timeout: data.healthCheckTimeout,
-          retries: DEFAULTS.HEALTH_CHECK_RETRIES,
-        }
-      );
-
-      if (!healthy) {
-        appendLog('   [ERROR] Health check failed during rollback');
-        try { await removeContainer(containerId); } catch { /* ignore */ }
-        return { success: false, error: 'Health check failed during rollback', logs };
-      }
-
-      appendLog('   Health check passed');
-
-      try {
-        await removeContainer(existingService.containerId!);
-      } catch {
-        appendLog('   [WARN] Could not remove old container');
-      }
+    const cronDeployment = {
+      deploymentId: data.deploymentId,
+      serviceId: data.serviceId,
+      subdomain: data.subdomain,
+      imageTag: data.imageTag,
+      envVars: data.envVars,
+      resources: data.resources,
+    };
 
-      try { await removeContainer(containerId); } catch { /* ignore */ }
-      containerId = await runContainer({
-        imageName: data.imageTag,
-        subdomain: data.subdomain,
-        envVars: data.envVars,
-        customDomains,
-      });
-    } else {
-      if (existingService?.containerId) {
-        appendLog(`   Stopping existing container...`);
-        try {
-          await stopContainer(existingService.containerId);
-        } catch {
-          appendLog('   [WARN] Could not stop old container');
-        }
-      }
+    if (data.cron) {
+      await steps.begin(DeploymentStepName.SCHEDULE);
+      await scheduleCronRuns({ ...cronDeployment, cron: data.cron }, appendLog);
+      appendLog('\n==> Rollback complete, runs scheduled on the previous image');
+      await scheduleBlueprintCronRuns(cronDeployment, data.blueprintCron ?? [], appendLog);
+      await steps.end();
+      return { success: true, containerIds: [], imageTag: data.imageTag, logs, logLines };
+    }
 
-      containerId = await runContainer({
+    const rollout = await rolloutContainer(
+      {
+        deploymentId: data.deploymentId,
+        serviceId: data.serviceId,
         imageName: data.imageTag,
         subdomain: data.subdomain,
         envVars: data.envVars,
-        customDomains,
-      });
-
-      if (data.healthCheckPath) {
-        appendLog(`   Running health check: ${data.healthCheckPath}`);
-        const healthy = await waitForHealthCheck(
-          containerId,
-          data.healthCheckPath,
-          DEFAULTS.CONTAINER_PORT,
-          {
-            timeout: data.healthCheckTimeout,
-            retries: DEFAULTS.HEALTH_CHECK_RETRIES,
-          }
-        );
-        if (!healthy) {
-          try { await removeContainer(containerId); } catch { /* ignore */ }
-          return { success: false, error: 'Health check failed during rollback', logs };
-        }
-      }
+        port: data.port,
+        resources: data.resources,
+        healthCheckPath: data.healthCheckPath,
+        healthCheckTimeout: data.healthCheckTimeout,
+        serviceType: data.serviceType,
+      },
+      appendLog,
+      steps
+    );
+
+    if (!rollout.success) {
+      await steps.end(DeploymentStepStatus.FAILED);
+      return { success: false, error: rollout.error, logs, logLines };
     }
 
-    const protocol = process.env.ENABLE_TLS === 'true' ? 'https' : 'http';
     appendLog(`\n==> Rollback complete`);
-    appendLog(`   Service at: ${protocol}://${data.subdomain}.${process.env.BASE_DOMAIN || 'renderlite.local'}`);
+    if (data.serviceType !== ServiceType.WORKER) {
+      const protocol = process.env.ENABLE_TLS === 'true' ? 'https' : 'http';
+      appendLog(`   Service at: ${protocol}://${data.subdomain}.${process.env.BASE_DOMAIN || 'renderlite.local'}`);
+    }
+    await scheduleBlueprintCronRuns(cronDeployment, data.blueprintCron ?? [], appendLog);
+    await steps.end();
 
     return {
       success: true,
-      containerId,
+      containerIds: rollout.containerIds,
       imageTag: data.imageTag,
       logs,
+      logLines,
     };
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     appendLog(`\n[ERROR] Rollback failed: ${errorMessage}`);
-    return { success: false, error: errorMessage, logs };
+    await steps.end(DeploymentStepStatus.FAILED);
+    return { success: false, error: errorMessage, logs, logLines };
   }
 }
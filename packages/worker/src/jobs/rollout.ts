@@ -0,0 +1,702 @@
+import {
+  DEFAULTS,
+  DeploymentStepName,
+  DeploymentStrategy,
+  REDIS_KEYS,
+  ServiceType,
+  type CanaryAction,
+  type ResourceLimits,
+} from '@renderlite/shared';
+import {
+  runContainer,
+  startContainer,
+  stopContainer,
+  removeContainer,
+  getReleaseName,
+  getReplicaContainerName,
+  getContainerName,
+  getLegacyContainerId,
+  getLegacyContainerName,
+  getContainerPort,
+  getContainerRelease,
+  getImageExposedPort,
+  isContainerRunning,
+} from '../docker/container.js';
+import { writeServiceRoutes, type RouteBackend } from '../docker/routing.js';
+import { waitForContainerStable, waitForHealthCheck } from '../health/checker.js';
+import { getServiceRequestCounts, type RequestCounts } from '../health/traefikMetrics.js';
+import { prisma } from '../lib/prisma.js';
+import { redis } from '../lib/redis.js';
+import { sleep } from '../utils/timeout.js';
+import type { StepTracker } from './steps.js';
+
+type LogCallback = (log: string) => void;
+
+export interface RolloutOptions {
+  deploymentId: string;
+  serviceId: string;
+  imageName: string;
+  subdomain: string;
+  envVars?: Record<string, string>;
+  port?: number;
+  resources?: ResourceLimits;
+  healthCheckPath?: string;
+  healthCheckTimeout?: number;
+  strategy?: DeploymentStrategy;
+  canarySteps?: number[];
+  canaryStepInterval?: number;
+  serviceType?: ServiceType;
+}
+
+export type RolloutResult =
+  | { success: true; containerIds: string[] }
+  | { success: false; error: string };
+
+/**
+ * The release currently serving a service: its replica containers and how to route to them
+ */
+interface PreviousRelease {
+  containerIds: string[];
+  backend: Omit<RouteBackend, 'weight'>;
+}
+
+/**
+ * Replica containers of the release that is serving traffic now. Containers that no
+ * longer exist are skipped. With none left, a container from before replicas that is
+ * still running under the service's subdomain is taken over, so the rollout retires it
+ * and its Docker label routes; otherwise returns null.
+ */
+async function getPreviousRelease(containerIds: string[], subdomain: string): Promise<PreviousRelease | null> {
+  const replicas: { containerId: string; containerName: string }[] = [];
+  for (const containerId of containerIds) {
+    const containerName = await getContainerName(containerId);
+    if (containerName) {
+      replicas.push({ containerId, containerName });
+    }
+  }
+  if (replicas.length === 0) {
+    const legacyId = await getLegacyContainerId(subdomain);
+    if (!legacyId) {
+      return null;
+    }
+    replicas.push({ containerId: legacyId, containerName: getLegacyContainerName(subdomain) });
+  }
+
+  const first = replicas[0];
+  return {
+    containerIds: replicas.map((replica) => replica.containerId),
+    backend: {
+      // Containers started before releases were labelled are their own backend
+      name: (await getContainerRelease(first.containerId)) ?? first.containerName,
+      containerNames: replicas.map((replica) => replica.containerName),
+      port: (await getContainerPort(first.containerId)) ?? DEFAULTS.CONTAINER_PORT,
+    },
+  };
+}
+
+async function removeContainers(containerIds: string[]): Promise<void> {
+  for (const containerId of containerIds) {
+    try { await removeContainer(containerId); } catch { /* ignore */ }
+  }
+}
+
+/**
+ * Undo a failed rollout: start the previous release's replicas again (running ones are
+ * left as they are), route all traffic back to them and remove the new containers.
+ * Without a previous release only the new containers are removed. Never throws.
+ */
+async function restorePreviousRelease(
+  previous: PreviousRelease | null,
+  newContainerIds: string[],
+  routeTraffic: (backends: RouteBackend[]) => Promise<void>,
+  appendLog: LogCallback
+): Promise<void> {
+  if (previous) {
+    for (const containerId of previous.containerIds) {
+      try {
+        await startContainer(containerId);
+      } catch {
+        appendLog(`    [WARN] Could not start old container ${containerId.substring(0, 12)} again`);
+      }
+    }
+    try {
+      await routeTraffic([{ ...previous.backend, weight: 100 }]);
+      await sleep(DEFAULTS.ROUTE_SWITCH_DELAY_MS);
+    } catch {
+      appendLog('    [WARN] Could not route traffic back to the old containers');
+    }
+  }
+  await removeContainers(newContainerIds);
+}
+
+/**
+ * Start a container for each of the service's replicas on a new image and move
+ * the service's traffic onto them.
+ *
+ * With a health check and a release already serving, this is a rolling update:
+ * replicas are replaced one at a time, each new replica health-checked before it
+ * joins the rotation and an old one is drained. If a new replica fails, the old
+ * replicas are started again and the new ones removed.
+ * With the CANARY strategy, traffic is shifted to the new release in steps
+ * (see rolloutCanary). Otherwise the old replicas are stopped before the new ones start.
+ * Whichever way it goes, a rollout that fails or throws part-way brings the previous
+ * release back (see restorePreviousRelease).
+ * Worker services take no traffic and are rolled out by rolloutWorker instead.
+ * Progress is recorded as START, HEALTH_CHECK and SWAP steps when a tracker is given.
+ */
+export async function rolloutContainer(
+  options: RolloutOptions,
+  appendLog: LogCallback,
+  steps?: StepTracker
+): Promise<RolloutResult> {
+  const domains = await prisma.domain.findMany({
+    where: { serviceId: options.serviceId, verified: true },
+    select: { hostname: true },
+  });
+  const customDomains = domains.map((d) => d.hostname);
+
+  // Replicas are read at rollout time so scaling while a build runs isn't lost
+  const existingService = await prisma.service.findUnique({
+    where: { id: options.serviceId },
+    select: { containerIds: true, replicas: true },
+  });
+  const previous = await getPreviousRelease(existingService?.containerIds ?? [], options.subdomain);
+  const replicas = Math.max(1, existingService?.replicas ?? 1);
+
+  const release = getReleaseName(options.subdomain, options.deploymentId);
+  if (options.serviceType === ServiceType.WORKER) {
+    return rolloutWorker(options, { release, replicas, previous }, appendLog, steps);
+  }
+  const port = await resolveContainerPort(options, appendLog);
+
+  const startReplica = async (replica: number) => {
+    const containerName = getReplicaContainerName(release, replica);
+    const containerId = await runContainer({
+      imageName: options.imageName,
+      subdomain: options.subdomain,
+      envVars: options.envVars,
+      port,
+      resources: options.resources,
+      containerNameOverride: containerName,
+      release,
+    });
+    return { containerId, containerName };
+  };
+
+  const routeTraffic = (backends: RouteBackend[]) =>
+    writeServiceRoutes({
+      subdomain: options.subdomain,
+      customDomains,
+      backends: backends.filter((backend) => backend.weight > 0 && backend.containerNames.length > 0),
+    });
+
+  const checkHealth = (containerId: string, healthCheckPath: string) =>
+    waitForHealthCheck(containerId, healthCheckPath, port, {
+      timeout: options.healthCheckTimeout,
+      retries: DEFAULTS.HEALTH_CHECK_RETRIES,
+    });
+
+  const beginStep = async (name: DeploymentStepName, detail?: string) => {
+    await steps?.begin(name, detail);
+  };
+
+  const startingLog = `\n==> Starting ${replicas} new container${replicas === 1 ? '' : 's'}...`;
+
+  if (options.strategy === DeploymentStrategy.CANARY) {
+    if (previous) {
+      await beginStep(DeploymentStepName.START);
+      appendLog(startingLog);
+      return rolloutCanary(
+        options,
+        { release, port, replicas, previous, startReplica, routeTraffic, checkHealth, beginStep },
+        appendLog
+      );
+    }
+
+    appendLog('   No running container to compare against, deploying without canary');
+  }
+
+  if (previous && options.healthCheckPath) {
+    await beginStep(DeploymentStepName.START, `Replica 1/${replicas}`);
+    appendLog(startingLog);
+    return rollingUpdate(
+      options,
+      { release, port, replicas, previous, startReplica, routeTraffic, checkHealth, beginStep },
+      appendLog
+    );
+  }
+
+  await beginStep(DeploymentStepName.START);
+  appendLog(startingLog);
+
+  // Traditional deploy: stop old, start new
+  const started: { containerId: string; containerName: string }[] = [];
+  const restoring = previous ? ' -- restoring previous release' : '';
+  const restore = () =>
+    restorePreviousRelease(previous, started.map((c) => c.containerId), routeTraffic, appendLog);
+
+  try {
+    if (previous) {
+      appendLog(`   Stopping existing containers: ${previous.containerIds.length}`);
+      for (const containerId of previous.containerIds) {
+        try {
+          await stopContainer(containerId);
+        } catch {
+          appendLog(`    [WARN] Could not stop old container ${containerId.substring(0, 12)}`);
+        }
+      }
+      appendLog('    Done: Old containers stopped');
+    }
+
+    for (let replica = 1; replica <= replicas; replica++) {
+      started.push(await startReplica(replica));
+    }
+    appendLog(
+      `    Done: Containers started: ${started.map((c) => c.containerId.substring(0, 12)).join(', ')}`
+    );
+
+    await beginStep(DeploymentStepName.SWAP);
+    await routeTraffic([
+      { name: release, containerNames: started.map((c) => c.containerName), port, weight: 100 },
+    ]);
+    appendLog('    Done: Traffic routed to the new containers');
+
+    if (options.healthCheckPath) {
+      await beginStep(DeploymentStepName.HEALTH_CHECK);
+      appendLog(`\n==> Running health check: ${options.healthCheckPath}`);
+      for (const { containerId } of started) {
+        const healthy = await checkHealth(containerId, options.healthCheckPath);
+        if (!healthy) {
+          appendLog(`    [ERROR] Health check failed on ${containerId.substring(0, 12)}${restoring}`);
+          await restore();
+          return { success: false, error: 'Health check failed after deployment' };
+        }
+      }
+      appendLog('    Done: Health check passed');
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    appendLog(`    [ERROR] ${errorMessage}${restoring}`);
+    await restore();
+    return { success: false, error: errorMessage };
+  }
+
+  if (previous) {
+    await removeContainers(previous.containerIds);
+  }
+
+  return { success: true, containerIds: started.map((c) => c.containerId) };
+}
+
+interface ReleaseContext {
+  release: string;
+  port: number;
+  replicas: number;
+  previous: PreviousRelease;
+  startReplica: (replica: number) => Promise<{ containerId: string; containerName: string }>;
+  routeTraffic: (backends: RouteBackend[]) => Promise<void>;
+  checkHealth: (containerId: string, healthCheckPath: string) => Promise<boolean>;
+  beginStep: (name: DeploymentStepName, detail?: string) => Promise<void>;
+}
+
+/**
+ * Rolling update: replace the previous release's replicas one at a time. Each new
+ * replica must pass its health check before it takes traffic; the old replica it
+ * replaces is then taken out of rotation and stopped (kept until the end, so a
+ * failure later in the rollout can bring the old release back).
+ */
+async function rollingUpdate(
+  options: RolloutOptions,
+  context: ReleaseContext,
+  appendLog: LogCallback
+): Promise<RolloutResult> {
+  const { release, port, replicas, previous } = context;
+  const healthCheckPath = options.healthCheckPath!;
+  const started: { containerId: string; containerName: string }[] = [];
+  let stoppedOld = 0;
+
+  const routeMix = () =>
+    context.routeTraffic([
+      { name: release, containerNames: started.map((c) => c.containerName), port, weight: started.length },
+      {
+        ...previous.backend,
+        containerNames: previous.backend.containerNames.slice(stoppedOld),
+        weight: previous.backend.containerNames.length - stoppedOld,
+      },
+    ]);
+
+  const restore = () =>
+    restorePreviousRelease(previous, started.map((c) => c.containerId), context.routeTraffic, appendLog);
+
+  appendLog(`\n==> Rolling update (zero-downtime), health check: ${healthCheckPath}`);
+
+  try {
+    for (let replica = 1; replica <= replicas; replica++) {
+      const detail = `Replica ${replica}/${replicas}`;
+      // The first replica's START step began with the rollout
+      if (replica > 1) {
+        await context.beginStep(DeploymentStepName.START, detail);
+      }
+      const newReplica = await context.startReplica(replica);
+      started.push(newReplica);
+      appendLog(`   Replica ${replica}/${replicas} started: ${newReplica.containerId.substring(0, 12)}`);
+
+      await context.beginStep(DeploymentStepName.HEALTH_CHECK, detail);
+      const healthy = await context.checkHealth(newReplica.containerId, healthCheckPath);
+      if (!healthy) {
+        appendLog(`    [ERROR] Health check failed on replica ${replica} -- restoring previous release`);
+        await restore();
+        return { success: false, error: 'Health check failed after deployment' };
+      }
+
+      // Take one old replica out of rotation for each healthy new one
+      await context.beginStep(DeploymentStepName.SWAP, detail);
+      const retire = replica === replicas ? previous.containerIds.length - stoppedOld : 1;
+      const retiring = previous.containerIds.slice(stoppedOld, stoppedOld + retire);
+      stoppedOld += retiring.length;
+      await routeMix();
+      // Give Traefik time to pick up the new routes before old backends go away
+      await sleep(DEFAULTS.ROUTE_SWITCH_DELAY_MS);
+      for (const containerId of retiring) {
+        try {
+          await stopContainer(containerId, DEFAULTS.DRAIN_TIMEOUT_SECONDS);
+        } catch {
+          appendLog(`    [WARN] Could not stop old container ${containerId.substring(0, 12)}`);
+        }
+      }
+      appendLog(`    Done: Replica ${replica}/${replicas} healthy and serving`);
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    appendLog(`    [ERROR] ${errorMessage} -- restoring previous release`);
+    await restore();
+    return { success: false, error: errorMessage };
+  }
+
+  await removeContainers(previous.containerIds);
+  appendLog('    Old containers drained and removed');
+
+  appendLog('    Done: Rolling update complete');
+  return { success: true, containerIds: started.map((c) => c.containerId) };
+}
+
+/**
+ * Worker rollout: there is nothing to route or probe over HTTP, so the new replicas
+ * start next to the old ones and must stay up for WORKER_STARTUP_SECONDS. Only then
+ * are the old replicas drained and removed; if a new one exits or restarts, the new
+ * replicas are removed and the old ones keep running.
+ */
+async function rolloutWorker(
+  options: RolloutOptions,
+  context: { release: string; replicas: number; previous: PreviousRelease | null },
+  appendLog: LogCallback,
+  steps?: StepTracker
+): Promise<RolloutResult> {
+  const { release, replicas, previous } = context;
+
+  await steps?.begin(DeploymentStepName.START);
+  appendLog(`\n==> Starting ${replicas} new container${replicas === 1 ? '' : 's'} (worker, no routing)...`);
+  const started: string[] = [];
+  try {
+    for (let replica = 1; replica <= replicas; replica++) {
+      started.push(
+        await runContainer({
+          imageName: options.imageName,
+          subdomain: options.subdomain,
+          envVars: options.envVars,
+          resources: options.resources,
+          containerNameOverride: getReplicaContainerName(release, replica),
+          release,
+          serviceType: ServiceType.WORKER,
+        })
+      );
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    appendLog(`    [ERROR] ${errorMessage}` + (previous ? ' -- old containers keep running' : ''));
+    await removeContainers(started);
+    return { success: false, error: errorMessage };
+  }
+  appendLog(`    Done: Containers started: ${started.map((id) => id.substring(0, 12)).join(', ')}`);
+
+  await steps?.begin(DeploymentStepName.HEALTH_CHECK);
+  appendLog(`\n==> Checking the containers stay up for ${DEFAULTS.WORKER_STARTUP_SECONDS}s`);
+  const stable = await Promise.all(started.map((containerId) => waitForContainerStable(containerId)));
+  const failedIndex = stable.indexOf(false);
+  if (failedIndex >= 0) {
+    appendLog(
+      `    [ERROR] Container ${started[failedIndex].substring(0, 12)} exited or restarted` +
+        (previous ? ' -- old containers keep running' : '')
+    );
+    await removeContainers(started);
+    return { success: false, error: 'Container did not stay up after deployment' };
+  }
+  appendLog('    Done: Containers are up');
+
+  if (previous) {
+    await steps?.begin(DeploymentStepName.SWAP);
+    appendLog(`   Stopping old containers: ${previous.containerIds.length}`);
+    for (const containerId of previous.containerIds) {
+      try {
+        await stopContainer(containerId, DEFAULTS.DRAIN_TIMEOUT_SECONDS);
+      } catch {
+        appendLog(`    [WARN] Could not stop old container ${containerId.substring(0, 12)}`);
+      }
+    }
+    await removeContainers(previous.containerIds);
+    appendLog('    Done: Old containers stopped and removed');
+  }
+
+  return { success: true, containerIds: started };
+}
+
+/**
+ * Port the app listens on: the service's configured port, then a PORT env var,
+ * then the image's EXPOSE metadata, then the platform default.
+ */
+async function resolveContainerPort(options: RolloutOptions, appendLog: LogCallback): Promise<number> {
+  if (options.port) {
+    appendLog(`   Port: ${options.port} (configured)`);
+    return options.port;
+  }
+
+  const envPort = Number.parseInt(options.envVars?.PORT ?? '', 10);
+  if (Number.isInteger(envPort) && envPort > 0 && envPort < 65536) {
+    appendLog(`   Port: ${envPort} (from PORT env var)`);
+    return envPort;
+  }
+
+  const exposedPort = await getImageExposedPort(options.imageName);
+  if (exposedPort) {
+    appendLog(`   Port: ${exposedPort} (detected from image EXPOSE)`);
+    return exposedPort;
+  }
+
+  appendLog(`   Port: ${DEFAULTS.CONTAINER_PORT} (default)`);
+  return DEFAULTS.CONTAINER_PORT;
+}
+
+type CanaryVerdict = { outcome: 'healthy' | 'promote' } | { outcome: 'abort'; reason: string };
+
+/**
+ * Normalize configured canary steps: whole percentages in (0, 100], ascending,
+ * always ending at 100 so a healthy canary is fully promoted.
+ */
+function normalizeCanarySteps(steps: number[] | undefined): number[] {
+  const source = steps && steps.length > 0 ? steps : [...DEFAULTS.CANARY_STEPS];
+  const valid = source
+    .map((step) => Math.round(step))
+    .filter((step) => step > 0 && step <= 100);
+  return [...new Set([...valid, 100])].sort((a, b) => a - b);
+}
+
+async function takeCanaryAction(deploymentId: string): Promise<CanaryAction | null> {
+  const key = REDIS_KEYS.CANARY_ACTION(deploymentId);
+  const action = await redis.get(key);
+  if (!action) return null;
+  await redis.del(key);
+  return action === 'promote' || action === 'abort' ? action : null;
+}
+
+function errorRatePercent(start: RequestCounts, end: RequestCounts): { requests: number; rate: number } {
+  const requests = Math.max(0, end.total - start.total);
+  const errors = Math.max(0, end.errors - start.errors);
+  return { requests, rate: requests > 0 ? (errors / requests) * 100 : 0 };
+}
+
+/**
+ * Watch a canary for one step: poll for manual promote/abort, check its containers
+ * are still running, probe their health checks, and compare the release's 5xx rate
+ * (from Traefik metrics) against the allowed threshold.
+ */
+async function watchCanaryStep(
+  options: RolloutOptions,
+  context: ReleaseContext,
+  containerIds: string[],
+  appendLog: (log: string) => void
+): Promise<CanaryVerdict> {
+  const stepEndsAt = Date.now() + (options.canaryStepInterval ?? DEFAULTS.CANARY_STEP_INTERVAL) * 1000;
+  const traefikService = `${context.release}@file`;
+  const startCounts = await getServiceRequestCounts(traefikService);
+  if (!startCounts) {
+    appendLog('    [WARN] Traefik metrics unavailable -- judging canary by health checks only');
+  }
+
+  let failedProbes = 0;
+
+  while (Date.now() < stepEndsAt) {
+    await sleep(Math.min(DEFAULTS.CANARY_CHECK_INTERVAL_MS, Math.max(0, stepEndsAt - Date.now())));
+
+    const action = await takeCanaryAction(options.deploymentId);
+    if (action === 'promote') {
+      return { outcome: 'promote' };
+    }
+    if (action === 'abort') {
+      return { outcome: 'abort', reason: 'Canary aborted by user' };
+    }
+
+    for (const containerId of containerIds) {
+      if (!(await isContainerRunning(containerId))) {
+        return { outcome: 'abort', reason: 'Canary container stopped running' };
+      }
+    }
+
+    if (options.healthCheckPath) {
+      let healthy = true;
+      for (const containerId of containerIds) {
+        const probe = await waitForHealthCheck(containerId, options.healthCheckPath, context.port, {
+          timeout: options.healthCheckTimeout,
+          retries: 1,
+          startDelay: 0,
+        });
+        if (!probe) {
+          healthy = false;
+          break;
+        }
+      }
+      failedProbes = healthy ? 0 : failedProbes + 1;
+      if (failedProbes >= DEFAULTS.CANARY_MAX_FAILED_PROBES) {
+        return { outcome: 'abort', reason: 'Canary failed health checks' };
+      }
+    }
+
+    if (startCounts) {
+      const currentCounts = await getServiceRequestCounts(traefikService);
+      if (currentCounts) {
+        const { requests, rate } = errorRatePercent(startCounts, currentCounts);
+        if (requests >= DEFAULTS.CANARY_MIN_REQUESTS && rate > DEFAULTS.CANARY_MAX_ERROR_RATE_PERCENT) {
+          return {
+            outcome: 'abort',
+            reason: `Canary error rate ${rate.toFixed(1)}% exceeded ${DEFAULTS.CANARY_MAX_ERROR_RATE_PERCENT}%`,
+          };
+        }
+      }
+    }
+  }
+
+  if (startCounts) {
+    const endCounts = await getServiceRequestCounts(traefikService);
+    if (endCounts) {
+      const { requests, rate } = errorRatePercent(startCounts, endCounts);
+      appendLog(`    Step stats: ${requests} requests, ${rate.toFixed(1)}% errors`);
+      if (rate > DEFAULTS.CANARY_MAX_ERROR_RATE_PERCENT) {
+        return {
+          outcome: 'abort',
+          reason: `Canary error rate ${rate.toFixed(1)}% exceeded ${DEFAULTS.CANARY_MAX_ERROR_RATE_PERCENT}%`,
+        };
+      }
+    }
+  }
+
+  return { outcome: 'healthy' };
+}
+
+/**
+ * Canary rollout: the new release takes a growing share of traffic through
+ * Traefik weighted services. Each step must stay healthy to move on; otherwise
+ * traffic goes back to the previous release and the new containers are removed.
+ */
+async function rolloutCanary(
+  options: RolloutOptions,
+  context: ReleaseContext,
+  appendLog: (log: string) => void
+): Promise<RolloutResult> {
+  const steps = normalizeCanarySteps(options.canarySteps);
+  const { release, port, replicas, previous } = context;
+
+  const setTrafficWeight = async (trafficWeight: number) => {
+    await prisma.deployment.updateMany({
+      where: { id: options.deploymentId },
+      data: { trafficWeight },
+    });
+  };
+
+  const started: { containerId: string; containerName: string }[] = [];
+  const containerIds = () => started.map((c) => c.containerId);
+
+  const routeTraffic = (canaryWeight: number) =>
+    context.routeTraffic([
+      { ...previous.backend, weight: 100 - canaryWeight },
+      { name: release, containerNames: started.map((c) => c.containerName), port, weight: canaryWeight },
+    ]);
+
+  const restore = async () => {
+    await restorePreviousRelease(previous, containerIds(), context.routeTraffic, appendLog);
+    try {
+      await setTrafficWeight(0);
+    } catch {
+      // only shown in the UI
+    }
+  };
+
+  try {
+    for (let replica = 1; replica <= replicas; replica++) {
+      const newReplica = await context.startReplica(replica);
+      started.push(newReplica);
+      appendLog(`    Canary container started: ${newReplica.containerId.substring(0, 12)}`);
+    }
+
+    if (options.healthCheckPath) {
+      await context.beginStep(DeploymentStepName.HEALTH_CHECK);
+      appendLog(`\n==> Running health check: ${options.healthCheckPath}`);
+      for (const { containerId } of started) {
+        const healthy = await context.checkHealth(containerId, options.healthCheckPath);
+        if (!healthy) {
+          appendLog('    [ERROR] Health check failed -- old containers keep serving');
+          await removeContainers(containerIds());
+          return { success: false, error: 'Health check failed after deployment' };
+        }
+      }
+      appendLog('    Done: Health check passed');
+    }
+
+    await context.beginStep(DeploymentStepName.SWAP);
+    appendLog(`\n==> Canary rollout: ${steps.map((step) => `${step}%`).join(' -> ')}`);
+
+    for (const weight of steps) {
+      if (weight === 100) break;
+
+      await routeTraffic(weight);
+      await setTrafficWeight(weight);
+      appendLog(`   Routing ${weight}% of traffic to the canary`);
+
+      const verdict = await watchCanaryStep(options, context, containerIds(), appendLog);
+
+      if (verdict.outcome === 'abort') {
+        appendLog(`    [ERROR] ${verdict.reason} -- restoring previous release`);
+        await restore();
+        return { success: false, error: verdict.reason };
+      }
+
+      if (verdict.outcome === 'promote') {
+        appendLog('   Canary promoted by user');
+        break;
+      }
+
+      appendLog(`    Done: ${weight}% step healthy`);
+    }
+
+    appendLog(`\n==> Promoting canary to 100% of traffic...`);
+    await routeTraffic(100);
+    await setTrafficWeight(100);
+    await sleep(DEFAULTS.ROUTE_SWITCH_DELAY_MS);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    appendLog(`    [ERROR] ${errorMessage} -- restoring previous release`);
+    await restore();
+    return { success: false, error: errorMessage };
+  }
+
+  for (const containerId of previous.containerIds) {
+    try {
+      await stopContainer(containerId, DEFAULTS.DRAIN_TIMEOUT_SECONDS);
+    } catch {
+      appendLog(`    [WARN] Could not stop old container ${containerId.substring(0, 12)}`);
+    }
+  }
+  await removeContainers(previous.containerIds);
+  appendLog('    Old containers drained and removed');
+
+  appendLog('    Done: Canary promoted');
+  return { success: true, containerIds: containerIds() };
+}
@@ -0,0 +1,147 @@
+import { DEFAULTS, ServiceStatus, ServiceType, type ScaleJobData } from '@renderlite/shared';
+import {
+  cloneContainer,
+  getContainerName,
+  getContainerPort,
+  getContainerRelease,
+  getReplicaContainerName,
+  removeContainer,
+  stopContainer,
+} from '../docker/container.js';
+import { writeServiceRoutes } from '../docker/routing.js';
+import { waitForContainerStable, waitForHealthCheck } from '../health/checker.js';
+import { prisma } from '../lib/prisma.js';
+import { sleep } from '../utils/timeout.js';
+
+interface Replica {
+  containerId: string;
+  containerName: string;
+}
+
+/**
+ * Bring a running service's replica count in line with Service.replicas, without a
+ * deploy: new replicas are copies of an existing one (same image, env and limits),
+ * health-checked before they take traffic; surplus replicas are taken out of
+ * rotation, then drained and removed. Worker services have no routes, so their new
+ * replicas only have to stay up.
+ * A service with a deployment queued is scaled once that is done: retryLater puts
+ * the job back in the queue. Other services that aren't running are left alone --
+ * their next deploy starts every replica.
+ * Returns the number of replicas running afterwards.
+ */
+export async function processScale(data: ScaleJobData, retryLater: () => Promise<never>): Promise<number> {
+  const service = await prisma.service.findUnique({
+    where: { id: data.serviceId },
+    select: {
+      id: true,
+      subdomain: true,
+      type: true,
+      status: true,
+      replicas: true,
+      containerIds: true,
+      healthCheckPath: true,
+      healthCheckTimeout: true,
+      domains: { where: { verified: true }, select: { hostname: true } },
+    },
+  });
+
+  if (service?.status === ServiceStatus.DEPLOYING) {
+    console.log(`   Service ${data.serviceId} is deploying -- scaling once the deployment is done`);
+    return retryLater();
+  }
+
+  if (!service || service.status !== ServiceStatus.RUNNING) {
+    console.log(`   Service ${data.serviceId} is not running -- replicas apply on the next deploy`);
+    return 0;
+  }
+
+  const replicas: Replica[] = [];
+  for (const containerId of service.containerIds) {
+    const containerName = await getContainerName(containerId);
+    if (containerName) {
+      replicas.push({ containerId, containerName });
+    }
+  }
+  if (replicas.length === 0) {
+    console.log(`   Service ${service.id} has no running containers -- replicas apply on the next deploy`);
+    return 0;
+  }
+
+  const template = replicas[0];
+  // Containers started before releases were labelled are their own backend
+  const release = (await getContainerRelease(template.containerId)) ?? template.containerName;
+  const port = (await getContainerPort(template.containerId)) ?? DEFAULTS.CONTAINER_PORT;
+
+  const isWorker = service.type === ServiceType.WORKER;
+
+  const routeTraffic = async (serving: Replica[]) => {
+    if (isWorker) return;
+    await writeServiceRoutes({
+      subdomain: service.subdomain,
+      customDomains: service.domains.map((d) => d.hostname),
+      backends: [
+        { name: release, containerNames: serving.map((r) => r.containerName), port, weight: 100 },
+      ],
+    });
+  };
+
+  let serving = replicas;
+  console.log(`   Scaling ${service.subdomain}: ${replicas.length} -> ${service.replicas} replicas`);
+
+  if (replicas.length < service.replicas) {
+    const usedNames = new Set(replicas.map((r) => r.containerName));
+    let next = 1;
+
+    while (serving.length < service.replicas) {
+      while (usedNames.has(getReplicaContainerName(release, next))) next++;
+      const containerName = getReplicaContainerName(release, next);
+      usedNames.add(containerName);
+
+      const containerId = await cloneContainer(template.containerId, containerName);
+
+      if (isWorker || service.healthCheckPath) {
+        const healthy = isWorker
+          ? await waitForContainerStable(containerId)
+          : await waitForHealthCheck(containerId, service.healthCheckPath!, port, {
+              timeout: service.healthCheckTimeout,
+              retries: DEFAULTS.HEALTH_CHECK_RETRIES,
+            });
+        if (!healthy) {
+          console.warn(`   [WARN] New replica ${containerName} failed its health check, stopping here`);
+          try { await removeContainer(containerId); } catch { /* ignore */ }
+          break;
+        }
+      }
+
+      serving = [...serving, { containerId, containerName }];
+    }
+
+    await routeTraffic(serving);
+  } else if (replicas.length > service.replicas) {
+    serving = replicas.slice(0, service.replicas);
+    const retiring = replicas.slice(service.replicas);
+
+    await routeTraffic(serving);
+    if (!isWorker) {
+      // Give Traefik time to pick up the new routes before the replicas go away
+      await sleep(DEFAULTS.ROUTE_SWITCH_DELAY_MS);
+    }
+
+    for (const { containerId } of retiring) {
+      try {
+        await stopContainer(containerId, DEFAULTS.DRAIN_TIMEOUT_SECONDS);
+        await removeContainer(containerId);
+      } catch (error) {
+        console.error(`   Failed to remove replica ${containerId.substring(0, 12)}:`, error);
+      }
+    }
+  }
+
+  // A deploy that started meanwhile owns the containers from here on
+  await prisma.service.updateMany({
+    where: { id: service.id, status: ServiceStatus.RUNNING },
+    data: { containerIds: serving.map((r) => r.containerId) },
+  });
+
+  return serving.length;
+}
@@ -0,0 +1,77 @@
+import { randomUUID } from 'crypto';
+import { DeploymentStepStatus, type DeploymentStep, type DeploymentStepName } from '@renderlite/shared';
+import { prisma } from '../lib/prisma.js';
+
+export type StepsCallback = (steps: DeploymentStep[]) => void;
+
+export interface StepTracker {
+  // Finish the running step successfully and start the next one
+  begin: (name: DeploymentStepName, detail?: string) => Promise<void>;
+  // Finish the running step, if any
+  end: (status?: DeploymentStepStatus) => Promise<void>;
+  // Add a log line to the running step
+  record: (message: string) => void;
+}
+
+/**
+ * Record a deployment's steps as it runs. Each step is a DeploymentStep row with its
+ * own timing and log lines; onChange gets every step so far after each change.
+ * Writes are best-effort: a step that can't be saved never fails the deployment.
+ */
+export function createStepTracker(deploymentId: string, onChange?: StepsCallback): StepTracker {
+  const steps: DeploymentStep[] = [];
+  let current: DeploymentStep | null = null;
+
+  // Logs already stream line by line, so listeners only get timing and status
+  const notify = () => onChange?.(steps.map(({ logs: _logs, ...step }) => step));
+
+  const end = async (status: DeploymentStepStatus = DeploymentStepStatus.SUCCESS) => {
+    if (!current) return;
+    const step = current;
+    current = null;
+    step.status = status;
+    step.finishedAt = new Date();
+
+    try {
+      await prisma.deploymentStep.update({
+        where: { id: step.id },
+        data: { status, logs: step.logs, finishedAt: step.finishedAt },
+      });
+    } catch (error) {
+      console.error(`Failed to save step ${step.name} of deployment ${deploymentId}:`, error);
+    }
+    notify();
+  };
+
+  const begin = async (name: DeploymentStepName, detail?: string) => {
+    await end();
+    const step: DeploymentStep = {
+      id: randomUUID(),
+      deploymentId,
+      name,
+      status: DeploymentStepStatus.RUNNING,
+      detail,
+      logs: '',
+      startedAt: new Date(),
+    };
+    current = step;
+    steps.push(step);
+
+    try {
+      await prisma.deploymentStep.create({
+        data: { id: step.id, deploymentId, name, detail, startedAt: step.startedAt },
+      });
+    } catch (error) {
+      console.error(`Failed to save step ${name} of deployment ${deploymentId}:`, error);
+    }
+    notify();
+  };
+
+  const record = (message: string) => {
+    if (current) {
+      current.logs += message + '\n';
+    }
+  };
+
+  return { begin, end, record };
+}
@@ -0,0 +1,29 @@
+import { prisma } from '../lib/prisma.js';
+
+/**
+ * Move the container id stored by services deployed before replicas (Service.containerId)
+ * into containerIds, so the next rollout replaces that container and removes it instead of
+ * leaving it running with its Docker label routes. Does nothing once every service is moved.
+ */
+export async function moveLegacyContainerIds(): Promise<number> {
+  const services = await prisma.service.findMany({
+    where: { containerId: { not: null } },
+    select: { id: true, containerId: true, containerIds: true },
+  });
+
+  for (const service of services) {
+    await prisma.service.update({
+      where: { id: service.id },
+      data: {
+        containerId: null,
+        // A service deployed since the upgrade already tracks its replicas
+        ...(service.containerIds.length === 0 && { containerIds: [service.containerId!] }),
+      },
+    });
+  }
+
+  if (services.length > 0) {
+    console.log(`Moved the container ids of ${services.length} services into containerIds`);
+  }
+  return services.length;
+}
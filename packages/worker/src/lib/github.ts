@@ -0,0 +1,180 @@
+import { DeploymentStatus } from '@renderlite/shared';
+import { prisma } from './prisma.js';
+
+// Overridable to point at a local mock server; only github.com repositories are reported
+const GITHUB_API_BASE_URL = (process.env.GITHUB_API_URL || 'https://api.github.com').replace(/\/+$/, '');
+// Reports are sent while the deployment holds its service lock, so a slow API must not stall it
+const GITHUB_API_TIMEOUT_MS = 10000;
+
+type CommitState = 'pending' | 'success' | 'failure' | 'error';
+type DeploymentState = 'in_progress' | 'success' | 'failure' | 'error' | 'inactive';
+
+const RESULT_STATES: Partial<Record<DeploymentStatus, { commit: CommitState; deployment: DeploymentState; description: string }>> = {
+  [DeploymentStatus.SUCCESS]: { commit: 'success', deployment: 'success', description: 'Deployed' },
+  [DeploymentStatus.FAILED]: { commit: 'failure', deployment: 'failure', description: 'Deployment failed' },
+  [DeploymentStatus.CANCELLED]: { commit: 'error', deployment: 'inactive', description: 'Deployment cancelled' },
+};
+
+interface ReportTarget {
+  owner: string;
+  repo: string;
+  commitSha: string;
+  githubDeploymentId: string | null;
+  service: { name: string; subdomain: string; parentServiceId: string | null };
+}
+
+/**
+ * owner/repo of a github.com repository URL, or null for other hosts
+ */
+function parseGitHubRepo(repoUrl: string): { owner: string; repo: string } | null {
+  const match = repoUrl.match(/^https:\/\/(?:www\.)?github\.com\/([^/]+)\/([^/]+?)(?:\.git)?\/*$/i);
+  return match ? { owner: match[1], repo: match[2] } : null;
+}
+
+async function postGitHub<T>(path: string, token: string, body: Record<string, unknown>): Promise<T> {
+  const response = await fetch(`${GITHUB_API_BASE_URL}${path}`, {
+    method: 'POST',
+    headers: {
+      Accept: 'application/vnd.github+json',
+      Authorization: `Bearer ${token}`,
+      'Content-Type': 'application/json',
+      'User-Agent': 'renderlite-worker',
+      'X-GitHub-Api-Version': '2022-11-28',
+    },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(GITHUB_API_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    throw new Error(`GitHub API ${path} responded ${response.status}`);
+  }
+  return (await response.json()) as T;
+}
+
+async function loadReportTarget(deploymentId: string): Promise<ReportTarget | null> {
+  const deployment = await prisma.deployment.findUnique({
+    where: { id: deploymentId },
+    select: {
+      commitSha: true,
+      githubDeploymentId: true,
+      service: { select: { name: true, subdomain: true, repoUrl: true, parentServiceId: true } },
+    },
+  });
+  const repo = deployment?.service.repoUrl ? parseGitHubRepo(deployment.service.repoUrl) : null;
+  if (!deployment?.commitSha || !repo) {
+    return null;
+  }
+
+  return {
+    ...repo,
+    commitSha: deployment.commitSha,
+    githubDeploymentId: deployment.githubDeploymentId,
+    service: deployment.service,
+  };
+}
+
+function serviceUrl(subdomain: string): string {
+  const protocol = process.env.ENABLE_TLS === 'true' ? 'https' : 'http';
+  return `${protocol}://${subdomain}.${process.env.BASE_DOMAIN || 'renderlite.local'}`;
+}
+
+function deploymentLogUrl(deploymentId: string): string {
+  return `${process.env.FRONTEND_URL || 'http://localhost:5173'}/deployments/${deploymentId}`;
+}
+
+async function postCommitStatus(
+  target: ReportTarget,
+  token: string,
+  state: CommitState,
+  description: string,
+  targetUrl: string
+): Promise<void> {
+  await postGitHub(`/repos/${target.owner}/${target.repo}/statuses/${target.commitSha}`, token, {
+    state,
+    description,
+    target_url: targetUrl,
+    context: `renderlite/${target.service.name}`,
+  });
+}
+
+/**
+ * Tell GitHub a deployment of commitSha started: a pending commit status and a
+ * GitHub Deployment in progress, whose id is kept to report the result later.
+ * Best-effort: reporting never fails the deployment.
+ */
+export async function reportDeploymentStarted(deploymentId: string, githubToken?: string): Promise<void> {
+  if (!githubToken) return;
+
+  try {
+    const target = await loadReportTarget(deploymentId);
+    if (!target) return;
+
+    const logUrl = deploymentLogUrl(deploymentId);
+    await postCommitStatus(target, githubToken, 'pending', 'Deploying', logUrl);
+
+    const preview = target.service.parentServiceId !== null;
+    const githubDeployment = await postGitHub<{ id: number }>(
+      `/repos/${target.owner}/${target.repo}/deployments`,
+      githubToken,
+      {
+        ref: target.commitSha,
+        environment: target.service.name,
+        description: `RenderLite deployment ${deploymentId.substring(0, 8)}`,
+        auto_merge: false,
+        required_contexts: [], // our own pending status would otherwise block it
+        transient_environment: preview,
+        production_environment: !preview,
+      }
+    );
+    await prisma.deployment.update({
+      where: { id: deploymentId },
+      data: { githubDeploymentId: String(githubDeployment.id) },
+    });
+
+    await postGitHub(
+      `/repos/${target.owner}/${target.repo}/deployments/${githubDeployment.id}/statuses`,
+      githubToken,
+      { state: 'in_progress', log_url: logUrl, environment_url: serviceUrl(target.service.subdomain) }
+    );
+  } catch (error) {
+    console.error(`Failed to report deployment ${deploymentId} to GitHub:`, error);
+  }
+}
+
+/**
+ * Report a finished deployment to GitHub as a commit status and, if one was created
+ * when it started, a status on its GitHub Deployment. Best-effort.
+ */
+export async function reportDeploymentFinished(deploymentId: string, githubToken?: string): Promise<void> {
+  if (!githubToken) return;
+
+  try {
+    const deployment = await prisma.deployment.findUnique({
+      where: { id: deploymentId },
+      select: { status: true },
+    });
+    const states = deployment && RESULT_STATES[deployment.status as DeploymentStatus];
+    if (!states) return;
+
+    const target = await loadReportTarget(deploymentId);
+    if (!target) return;
+
+    const logUrl = deploymentLogUrl(deploymentId);
+    await postCommitStatus(target, githubToken, states.commit, states.description, logUrl);
+
+    if (target.githubDeploymentId) {
+      await postGitHub(
+        `/repos/${target.owner}/${target.repo}/deployments/${target.githubDeploymentId}/statuses`,
+        githubToken,
+        {
+          state: states.deployment,
+          description: states.description,
+          log_url: logUrl,
+          environment_url: serviceUrl(target.service.subdomain),
+        }
+      );
+    }
+  } catch (error) {
+    console.error(`Failed to report deployment ${deploymentId} result to GitHub:`, error);
+  }
+}
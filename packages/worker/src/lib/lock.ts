@@ -0,0 +1,53 @@
+import { randomUUID } from 'crypto';
+import { DEFAULTS, REDIS_KEYS } from '@renderlite/shared';
+import { redis } from './redis.js';
+
+export interface ServiceLock {
+  release: () => Promise<void>;
+}
+
+// Only touch the lock if this worker still holds it
+const EXTEND_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('pexpire', KEYS[1], ARGV[2])
+end
+return 0`;
+
+const RELEASE_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('del', KEYS[1])
+end
+return 0`;
+
+/**
+ * Take a service's deploy lock, so only one deployment of a service builds or rolls
+ * out at a time, and scaling never runs during one. The lock is renewed until
+ * released, and expires on its own if the worker dies. Returns null if another
+ * deployment holds it.
+ */
+export async function acquireServiceLock(serviceId: string): Promise<ServiceLock | null> {
+  const key = REDIS_KEYS.SERVICE_DEPLOY_LOCK(serviceId);
+  const token = randomUUID();
+
+  const acquired = await redis.set(key, token, 'PX', DEFAULTS.SERVICE_LOCK_TTL_MS, 'NX');
+  if (acquired !== 'OK') {
+    return null;
+  }
+
+  const renewal = setInterval(() => {
+    redis.eval(EXTEND_SCRIPT, 1, key, token, DEFAULTS.SERVICE_LOCK_TTL_MS).catch((error) => {
+      console.error(`Failed to renew deploy lock for service ${serviceId}:`, error);
+    });
+  }, DEFAULTS.SERVICE_LOCK_TTL_MS / 3);
+
+  return {
+    release: async () => {
+      clearInterval(renewal);
+      try {
+        await redis.eval(RELEASE_SCRIPT, 1, key, token);
+      } catch (error) {
+        console.error(`Failed to release deploy lock for service ${serviceId}:`, error);
+      }
+    },
+  };
+}
@@ -0,0 +1,24 @@
+import { Queue } from 'bullmq';
+import { QUEUES } from '@renderlite/shared';
+import { redis } from './redis.js';
+
+// Build and rollback jobs are added by the API; the worker only looks them up
+export const buildQueue = new Queue(QUEUES.BUILD, { connection: redis as any });
+
+export const rollbackQueue = new Queue(QUEUES.ROLLBACK, { connection: redis as any });
+
+export const scaleQueue = new Queue(QUEUES.SCALE, {
+  connection: redis as any,
+  defaultJobOptions: {
+    removeOnComplete: 100,
+    removeOnFail: 50,
+  },
+});
+
+export const cronQueue = new Queue(QUEUES.CRON, {
+  connection: redis as any,
+  defaultJobOptions: {
+    removeOnComplete: 100,
+    removeOnFail: 50,
+  },
+});
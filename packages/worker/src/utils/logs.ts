@@ -0,0 +1,27 @@
+import type { LogLevel, LogLine, LogStream } from '@renderlite/shared';
+
+export interface LogMeta {
+  stream?: LogStream;
+  level?: LogLevel;
+}
+
+/**
+ * Level of a message the worker writes itself, from its [ERROR] / [WARN] markers
+ */
+function messageLevel(message: string): LogLevel {
+  if (message.includes('[ERROR]')) return 'error';
+  if (message.includes('[WARN]')) return 'warn';
+  return 'info';
+}
+
+/**
+ * Build a log line; without meta it is a worker message on the system stream
+ */
+export function toLogLine(message: string, meta: LogMeta = {}): LogLine {
+  return {
+    stream: meta.stream ?? 'system',
+    level: meta.level ?? messageLevel(message),
+    message,
+    timestamp: new Date().toISOString(),
+  };
+}